@@ -1,38 +1,116 @@
-import type { Socket } from 'socket.io';
-import { DiscordBot } from '../services/discordBot.service';
-import { logError} from '../middleware/errorHandler';
-import { GetChannelsResponse, JoinChannelResponse, LeaveChannelResponse } from '../types';
-
-
-
+import { DiscordBot, TYPING_TIMEOUT_MS } from '../services/discordBot.service';
+import { logError, toErrorAck } from '../middleware/errorHandler';
+import { matchesFilter } from '../utils/messageFilter';
+import {
+  AddWatchResponse,
+  ChannelRequest,
+  DiscordSocket,
+  FetchHistoryRequest,
+  FetchHistoryResponse,
+  GetChannelsResponse,
+  GetInboxRequest,
+  GetInboxResponse,
+  GetPresenceRequest,
+  GetPresenceResponse,
+  HeartbeatRequest,
+  JoinChannelRequest,
+  JoinChannelResponse,
+  LeaveChannelResponse,
+  ListThreadsRequest,
+  ListThreadsResponse,
+  ListWatchesResponse,
+  MarkNotificationsReadRequest,
+  MarkNotificationsReadResponse,
+  MarkReadRequest,
+  MarkReadResponse,
+  MessageFilter,
+  ReactionRequest,
+  ReactionResponse,
+  RemoveWatchRequest,
+  RemoveWatchResponse,
+  ResumedChannel,
+  ResumeRequest,
+  ResumeResponse,
+  SearchMessagesRequest,
+  SearchMessagesResponse,
+  SendMessageRequest,
+  SendMessageResponse,
+  SocketErrorAck,
+  TypingRequest,
+  WatchRuleInput
+} from '../types';
+
+const CHANNEL_NOT_JOINED: SocketErrorAck = { success: false, code: 'CHANNEL_NOT_JOINED', error: 'Channel not joined' };
+
+// Payloads are validated by validateSocketPayloads before they reach these handlers
 export class DiscordSocketHandler {
-  private socket: Socket;
+  private socket: DiscordSocket;
   private discordBot: DiscordBot;
   private joinedChannels: Set<string> = new Set();
+  private typingTimers: Map<string, NodeJS.Timeout> = new Map();
 
-  constructor(socket: Socket,discordBot:DiscordBot) {
+  constructor(socket: DiscordSocket,discordBot:DiscordBot) {
     this.socket = socket;
     this.discordBot =discordBot
   }
 
   setupEventHandlers() {
     // Connection events
-    this.socket.on('disconnect', this.handleDisconnect.bind(this));
+    // Cleanup runs while the socket still knows its rooms
+    this.socket.on('disconnecting', this.handleDisconnect.bind(this));
 
     // Channel management
     this.socket.on('get_channels', this.handleGetChannels.bind(this));
     this.socket.on('join_channel', this.handleJoinChannel.bind(this));
     this.socket.on('leave_channel', this.handleLeaveChannel.bind(this));
 
+    // Message history
+    this.socket.on('fetch_history', this.handleFetchHistory.bind(this));
+    this.socket.on('send_message', this.handleSendMessage.bind(this));
+    this.socket.on('typing', this.handleTyping.bind(this));
+
+    // Search
+    this.socket.on('search_messages', this.handleSearchMessages.bind(this));
+
+    // Threads and forum posts
+    this.socket.on('list_threads', this.handleListThreads.bind(this));
+
+    // Reactions
+    this.socket.on('add_reaction', (data: ReactionRequest, callback?: (response: ReactionResponse) => void) =>
+      this.handleReaction('add', data, callback));
+    this.socket.on('remove_reaction', (data: ReactionRequest, callback?: (response: ReactionResponse) => void) =>
+      this.handleReaction('remove', data, callback));
+
     // Error handling
     this.socket.on('error', this.handleError.bind(this));
 
+    // Read state
+    this.socket.on('mark_read', this.handleMarkRead.bind(this));
+
+    // Presence
+    this.socket.on('heartbeat', this.handleHeartbeat.bind(this));
+    this.socket.on('get_presence', this.handleGetPresence.bind(this));
+
+    // Catching up after a reconnect
+    this.socket.on('resume', this.handleResume.bind(this));
+
+    // Watch rules and their notification inbox
+    this.socket.on('list_watches', this.handleListWatches.bind(this));
+    this.socket.on('add_watch', this.handleAddWatch.bind(this));
+    this.socket.on('remove_watch', this.handleRemoveWatch.bind(this));
+    this.socket.on('get_inbox', this.handleGetInbox.bind(this));
+    this.socket.on('mark_notifications_read', this.handleMarkNotificationsRead.bind(this));
+
     // Send initial data
     this.sendInitialData();
   }
 
   private async sendInitialData() {
     try {
+      // Per-user room so read state stays in sync across the user's tabs and devices
+      await this.socket.join(`user:${this.socket.data.discordId}`);
+      await this.discordBot.registerConnection(this.socket.id, this.socket.data.discordId, this.socket.data.user.username);
+
       // Send available channels
       const channels = await this.discordBot.getUserChannels(this.socket.data.discordId);
       this.socket.emit('channels', channels);
@@ -44,19 +122,25 @@ export class DiscordSocketHandler {
       } else {
         // fallback to JWT info if Discord fetch fails
         this.socket.emit('user_info', {
-          discordId: this.socket.data.user.discord_id,
+          id: this.socket.data.user.discord_id,
           username: this.socket.data.user.username,
-          email: this.socket.data.user.email,
+          displayName: this.socket.data.user.username,
           isBot: this.socket.data.user.is_bot,
-          createdAt: this.socket.data.user.created_at,
-          updatedAt: this.socket.data.user.updated_at
+          createdAt: this.socket.data.user.created_at
         });
       }
 
+      // Notifications filed while the user was away
+      const inbox = await this.discordBot.getInboxStatus(this.socket.data.discordId).catch((error) => {
+        logError(error as Error, 'inboxStatus', this.socket.data.discordId);
+        return null;
+      });
+      if (inbox) this.socket.emit('inbox_update', inbox);
+
       console.log(`📋 Sent initial data to user ${this.socket.data.user.username}`);
 
     } catch (error) {
-      logError(error as Error, 'sendInitialData', this.socket.data.userId);
+      logError(error as Error, 'sendInitialData', this.socket.data.discordId);
       this.socket.emit('error', {
         code: 'INITIALIZATION_FAILED',
         message: 'Failed to load initial data',
@@ -75,15 +159,7 @@ export class DiscordSocketHandler {
       console.log(`📋 Fetched ${channels.length} channels for user ${this.socket.data.user.username}`);
 
     } catch (error) {
-      logError(error as Error, 'handleGetChannels', this.socket.data.userId);
-
-      const errorResponse = {
-        success: false,
-        error: 'Failed to fetch channels',
-        channels:[]
-      };
-
-      callback?.(errorResponse);
+      callback?.(toErrorAck(error, 'Failed to fetch channels', 'handleGetChannels', this.socket.data.discordId));
       this.socket.emit('error', {
         code: 'CHANNELS_FETCH_FAILED',
         message: 'Unable to fetch channels',
@@ -94,62 +170,378 @@ export class DiscordSocketHandler {
   
 
   private async handleJoinChannel(
-    data: { channelId: string },
+    data: JoinChannelRequest,
     callback?: (response: JoinChannelResponse) => void
   ) {
     try {
-      const { channelId } = data;
-      if (this.joinedChannels.has(channelId)) {
-        callback?.({ success: true, channelId, alreadyJoined: true });
+      const { channelId, filter } = data;
+      if (this.isJoined(channelId)) {
+        await this.setFilter(channelId, filter);
+        callback?.({ success: true, channelId, alreadyJoined: true, seq: await this.discordBot.getChannelSeq(channelId) });
         return;
       }
 
+      await this.joinRoom(channelId, filter);
 
-      await this.socket.join(`channel:${channelId}`);
-      this.joinedChannels.add(channelId);
+      // Read after joining the room, so every later event numbers above it
+      const seq = await this.discordBot.getChannelSeq(channelId);
+      callback?.({ success: true, channelId, seq });
+      console.log(`👥 User ${this.socket.data.user.username} joined channel ${channelId}`);
 
-      await this.discordBot.subscribeToChannel(channelId, this.socket.data.discordId);
-    
+      // Backfill the first page so the client does not start with an empty view
+      await this.emitHistoryPage(channelId).catch((error) => {
+        logError(error as Error, 'backfillHistory', this.socket.data.discordId);
+        this.socket.emit('error', {
+          code: 'HISTORY_FETCH_FAILED',
+          message: 'Unable to load channel history',
+          severity: 'LOW'
+        });
+      });
+    } catch (error) {
+      callback?.(toErrorAck(error, 'Failed to join channel', 'handleJoinChannel', this.socket.data.discordId));
+    }
+  }
 
-      callback?.({ success: true, channelId });
-      console.log(`👥 User ${this.socket.data.user.username} joined channel ${channelId}`);
+  //Rejoining channels after a reconnect and replaying the stream events missed meanwhile
+  private async handleResume(
+    data: ResumeRequest,
+    callback?: (response: ResumeResponse) => void
+  ) {
+    try {
+      const channels: ResumedChannel[] = [];
+      for (const { channelId, lastSeq, filter } of data.channels) {
+        channels.push(await this.resumeChannel(channelId, lastSeq, filter));
+      }
+
+      callback?.({ success: true, channels });
+      console.log(`⏯️ User ${this.socket.data.user.username} resumed ${channels.length} channels`);
     } catch (error) {
-      logError(error as Error, 'handleJoinChannel', this.socket.data.userId);
-      console.error('Error joining channel:', error);
-      callback?.({
-        success: false,
-        error: 'Failed to join channel'
-      });
+      callback?.(toErrorAck(error, 'Failed to resume', 'handleResume', this.socket.data.discordId));
+    }
+  }
+
+  private async resumeChannel(channelId: string, lastSeq: number, filter?: MessageFilter): Promise<ResumedChannel> {
+    try {
+      // Join first so nothing falls between the replay and the live stream; clients drop duplicates by `seq`
+      if (this.isJoined(channelId)) {
+        await this.setFilter(channelId, filter);
+      } else {
+        await this.joinRoom(channelId, filter);
+      }
+
+      const { seq, events } = await this.discordBot.getMissedEvents(channelId, lastSeq);
+      if (!events) return { channelId, status: 'refetch', seq };
+
+      // Missed messages go through the same filter as live ones
+      const replayed = events.filter(entry =>
+        entry.event === 'message_delete' || matchesFilter(entry.data, filter, this.socket.data.discordId));
+
+      for (const entry of replayed) {
+        if (entry.event === 'message_delete') {
+          this.socket.emit('message_delete', entry.data);
+        } else {
+          this.socket.emit(entry.event, entry.data);
+        }
+      }
+      return { channelId, status: 'replayed', replayed: replayed.length, seq };
+    } catch (error) {
+      const { code, error: message } = toErrorAck(error, 'Failed to resume channel', 'resumeChannel', this.socket.data.discordId);
+      return { channelId, status: 'failed', code, error: message };
+    }
+  }
+
+  //Only members who can view the channel in Discord may receive its messages
+  private async joinRoom(channelId: string, filter?: MessageFilter) {
+    await this.discordBot.authorizeChannelAccess(channelId, this.socket.data.discordId);
+
+    // The filter is in place before the channel room is joined, so no unfiltered message slips through
+    await this.setFilter(channelId, filter);
+    await this.socket.join(`channel:${channelId}`);
+    this.joinedChannels.add(channelId);
+
+    const firstJoin = await this.discordBot.subscribeToChannel(channelId, this.socket.data.discordId);
+    if (firstJoin) this.emitPresenceChange('user_joined', channelId);
+  }
+
+  //Filtered sockets also sit in the channel's `filtered:` room, whose messages the bot checks socket by socket
+  private async setFilter(channelId: string, filter?: MessageFilter) {
+    const filters = this.socket.data.filters ?? (this.socket.data.filters = {});
+    if (filter) {
+      filters[channelId] = filter;
+      await this.socket.join(`filtered:${channelId}`);
+    } else {
+      delete filters[channelId];
+      await this.socket.leave(`filtered:${channelId}`);
     }
   }
 
   private async handleLeaveChannel(
-    data: { channelId: string },
+    data: ChannelRequest,
     callback?: (response: LeaveChannelResponse) => void
   ) {
     try {
       const { channelId } = data;
 
+      if (!this.isJoined(channelId)) {
+        callback?.({ success: true, channelId });
+        return;
+      }
+
+      this.stopTyping(channelId);
       await this.socket.leave(`channel:${channelId}`);
+      await this.setFilter(channelId);
 
       this.joinedChannels.delete(channelId);
 
-      await this.discordBot.unsubscribeFromChannel(channelId, this.socket.data.discordId);
+      const lastLeave = await this.discordBot.unsubscribeFromChannel(channelId, this.socket.data.discordId);
+      if (lastLeave) this.emitPresenceChange('user_left', channelId);
 
       callback?.({ success: true, channelId });
       console.log(`👋 User ${this.socket.data.user.username} left channel ${channelId}`);
     } catch (error) {
-      logError(error as Error, 'handleLeaveChannel', this.socket.data.userId);
-      console.error('Error leaving channel:', error);
-      callback?.({
-        success: false,
-        error: 'Failed to leave channel'
+      callback?.(toErrorAck(error, 'Failed to leave channel', 'handleLeaveChannel', this.socket.data.discordId));
+    }
+  }
+
+  private async handleFetchHistory(
+    data: FetchHistoryRequest,
+    callback?: (response: FetchHistoryResponse) => void
+  ) {
+    try {
+      const { channelId, before, limit } = data;
+
+      if (!this.isJoined(channelId)) {
+        callback?.(CHANNEL_NOT_JOINED);
+        return;
+      }
+
+      const page = await this.emitHistoryPage(channelId, {
+        ...(before ? { before } : {}),
+        ...(limit !== undefined ? { limit } : {})
       });
+
+      callback?.({ success: true, channelId, ...page });
+    } catch (error) {
+      callback?.(toErrorAck(error, 'Failed to fetch history', 'handleFetchHistory', this.socket.data.discordId));
     }
   }
 
+  private async handleSendMessage(
+    data: SendMessageRequest,
+    callback?: (response: SendMessageResponse) => void
+  ) {
+    try {
+      const { channelId, content } = data;
+      const message = await this.discordBot.sendMessage(channelId, this.socket.data.discordId, content);
+      this.stopTyping(channelId);
+      callback?.({ success: true, message });
+    } catch (error) {
+      callback?.(toErrorAck(error, 'Failed to send message', 'handleSendMessage', this.socket.data.discordId));
+    }
+  }
+
+  private async handleSearchMessages(
+    data: SearchMessagesRequest,
+    callback?: (response: SearchMessagesResponse) => void
+  ) {
+    try {
+      const result = await this.discordBot.searchMessages(this.socket.data.discordId, data);
+      callback?.({ success: true, ...result });
+    } catch (error) {
+      callback?.(toErrorAck(error, 'Failed to search messages', 'handleSearchMessages', this.socket.data.discordId));
+    }
+  }
+
+  private async handleListThreads(
+    data: ListThreadsRequest,
+    callback?: (response: ListThreadsResponse) => void
+  ) {
+    try {
+      const result = await this.discordBot.listThreads(this.socket.data.discordId, data);
+      callback?.({ success: true, ...result });
+    } catch (error) {
+      callback?.(toErrorAck(error, 'Failed to list threads', 'handleListThreads', this.socket.data.discordId));
+    }
+  }
+
+  private async handleReaction(
+    action: 'add' | 'remove',
+    data: ReactionRequest,
+    callback?: (response: ReactionResponse) => void
+  ) {
+    try {
+      const { channelId, messageId, emoji } = data;
+      const userId = this.socket.data.discordId;
+      const reaction = action === 'add'
+        ? await this.discordBot.addReaction(channelId, messageId, userId, emoji)
+        : await this.discordBot.removeReaction(channelId, messageId, userId, emoji);
+
+      callback?.({ success: true, reaction });
+    } catch (error) {
+      callback?.(toErrorAck(error, `Failed to ${action} reaction`, 'handleReaction', this.socket.data.discordId));
+    }
+  }
+
+  private async handleMarkRead(
+    data: MarkReadRequest,
+    callback?: (response: MarkReadResponse) => void
+  ) {
+    try {
+      const { channelId, messageId } = data;
+      const channel = await this.discordBot.markRead(this.socket.data.discordId, channelId, messageId);
+      callback?.({ success: true, channel });
+    } catch (error) {
+      callback?.(toErrorAck(error, 'Failed to mark channel as read', 'handleMarkRead', this.socket.data.discordId));
+    }
+  }
+
+  private async handleListWatches(callback?: (response: ListWatchesResponse) => void) {
+    try {
+      const rules = await this.discordBot.listWatchRules(this.socket.data.discordId);
+      callback?.({ success: true, rules });
+    } catch (error) {
+      callback?.(toErrorAck(error, 'Failed to list watch rules', 'handleListWatches', this.socket.data.discordId));
+    }
+  }
+
+  private async handleAddWatch(
+    data: WatchRuleInput,
+    callback?: (response: AddWatchResponse) => void
+  ) {
+    try {
+      const rule = await this.discordBot.addWatchRule(this.socket.data.discordId, data);
+      callback?.({ success: true, rule });
+    } catch (error) {
+      callback?.(toErrorAck(error, 'Failed to add watch rule', 'handleAddWatch', this.socket.data.discordId));
+    }
+  }
+
+  private async handleRemoveWatch(
+    data: RemoveWatchRequest,
+    callback?: (response: RemoveWatchResponse) => void
+  ) {
+    try {
+      await this.discordBot.removeWatchRule(this.socket.data.discordId, data.ruleId);
+      callback?.({ success: true, ruleId: data.ruleId });
+    } catch (error) {
+      callback?.(toErrorAck(error, 'Failed to remove watch rule', 'handleRemoveWatch', this.socket.data.discordId));
+    }
+  }
+
+  private async handleGetInbox(
+    data: GetInboxRequest,
+    callback?: (response: GetInboxResponse) => void
+  ) {
+    try {
+      const page = await this.discordBot.getInbox(this.socket.data.discordId, data);
+      callback?.({ success: true, ...page });
+    } catch (error) {
+      callback?.(toErrorAck(error, 'Failed to fetch inbox', 'handleGetInbox', this.socket.data.discordId));
+    }
+  }
+
+  private async handleMarkNotificationsRead(
+    data: MarkNotificationsReadRequest,
+    callback?: (response: MarkNotificationsReadResponse) => void
+  ) {
+    try {
+      const status = await this.discordBot.markNotificationsRead(this.socket.data.discordId, data.notificationIds);
+      callback?.({ success: true, ...status });
+    } catch (error) {
+      callback?.(toErrorAck(error, 'Failed to mark notifications as read', 'handleMarkNotificationsRead', this.socket.data.discordId));
+    }
+  }
+
+  private handleHeartbeat(data: HeartbeatRequest) {
+    this.discordBot.recordHeartbeat(this.socket.id, data.idle === true).catch((error) => {
+      logError(error as Error, 'handleHeartbeat', this.socket.data.discordId);
+    });
+  }
+
+  private async handleGetPresence(
+    data: GetPresenceRequest,
+    callback?: (response: GetPresenceResponse) => void
+  ) {
+    try {
+      const { channelId } = data;
+
+      if (!this.isJoined(channelId)) {
+        callback?.(CHANNEL_NOT_JOINED);
+        return;
+      }
+
+      const viewers = await this.discordBot.getChannelPresence(channelId);
+      callback?.({ success: true, channelId, viewers });
+    } catch (error) {
+      callback?.(toErrorAck(error, 'Failed to fetch presence', 'handleGetPresence', this.socket.data.discordId));
+    }
+  }
+
+  //Other viewers of the channel learn when this user starts or stops watching it
+  private emitPresenceChange(event: 'user_joined' | 'user_left', channelId: string) {
+    this.socket.to(`channel:${channelId}`).emit(event, {
+      channelId,
+      user: {
+        id: this.socket.data.discordId,
+        username: this.socket.data.user.username
+      }
+    });
+  }
+
+  private handleTyping(data: TypingRequest) {
+    const { channelId, isTyping = true } = data;
+    if (!this.isJoined(channelId)) return;
+
+    if (!isTyping) {
+      this.stopTyping(channelId);
+      return;
+    }
+
+    const existing = this.typingTimers.get(channelId);
+    if (existing) {
+      clearTimeout(existing);
+    } else {
+      this.socket.to(`channel:${channelId}`).emit('typing_start', {
+        channelId,
+        userId: this.socket.data.discordId,
+        username: this.socket.data.user.username
+      });
+    }
+
+    // Clients re-send `typing` while the user keeps typing; expire if they stop
+    this.typingTimers.set(channelId, setTimeout(() => this.stopTyping(channelId), TYPING_TIMEOUT_MS));
+
+    this.discordBot.triggerTyping(channelId, this.socket.data.discordId).catch((error) => {
+      logError(error as Error, 'handleTyping', this.socket.data.discordId);
+    });
+  }
+
+  private stopTyping(channelId: string) {
+    const timer = this.typingTimers.get(channelId);
+    if (!timer) return;
+
+    clearTimeout(timer);
+    this.typingTimers.delete(channelId);
+    this.socket.to(`channel:${channelId}`).emit('typing_stop', {
+      channelId,
+      userId: this.socket.data.discordId
+    });
+  }
+
+  //Fetching a history page and pushing it to this socket as messages_bulk, through the socket's filter like live messages
+  private async emitHistoryPage(channelId: string, options: { before?: string; limit?: number } = {}) {
+    const fetched = await this.discordBot.fetchChannelHistory(channelId, options);
+    const filter = this.socket.data.filters?.[channelId];
+    const page = { ...fetched, messages: fetched.messages.filter(message => matchesFilter(message, filter, this.socket.data.discordId)) };
+
+    this.socket.emit('messages_bulk', { channelId, ...page });
+    console.log(`📜 Sent ${page.messages.length} history messages for channel ${channelId} to ${this.socket.data.user.username}`);
+
+    return page;
+  }
+
   private handleError(error: unknown) {
-    logError(error as Error, 'socketError', this.socket.data.userId);
+    logError(error as Error, 'socketError', this.socket.data.discordId);
     console.error('Socket error:', error);
 
     this.socket.emit('error', {
@@ -159,24 +551,43 @@ export class DiscordSocketHandler {
     });
   }
 
+  //The server can empty a channel room (e.g. the channel was deleted); its subscription is already gone then
+  private isJoined(channelId: string) {
+    if (!this.joinedChannels.has(channelId)) return false;
+    if (this.socket.rooms.has(`channel:${channelId}`)) return true;
+
+    this.joinedChannels.delete(channelId);
+    clearTimeout(this.typingTimers.get(channelId));
+    this.typingTimers.delete(channelId);
+    return false;
+  }
+
   private async handleDisconnect(reason: string) {
     console.log(`🔌 User ${this.socket.data.user.username} disconnected: ${reason}`);
 
-    // Clean up subscriptions
-    for (const channelId of this.joinedChannels) {
-      await this.discordBot.unsubscribeFromChannel(channelId, this.socket.data.discordId);
+    // Rooms are left right after this handler starts, so collect them first
+    const channelIds = [...this.joinedChannels].filter(channelId => this.isJoined(channelId));
 
-      // Notify other users
-      this.socket.to(`channel:${channelId}`).emit('user_left', {
-        channelId,
-        user: {
-          id: this.socket.data.userId,
-          username: this.socket.data.user.username
-        }
-      });
+    // Clean up subscriptions; one failing channel must not leave the others or the connection behind
+    for (const channelId of channelIds) {
+      this.stopTyping(channelId);
+
+      try {
+        // Keep buffering the channel so the client can `resume` it after reconnecting
+        await this.discordBot.retainChannel(channelId);
+        const lastLeave = await this.discordBot.unsubscribeFromChannel(channelId, this.socket.data.discordId);
+
+        // Notify other users, unless the user still has the channel open in another tab
+        if (lastLeave) this.emitPresenceChange('user_left', channelId);
+      } catch (error) {
+        logError(error as Error, 'handleDisconnect', this.socket.data.discordId);
+      }
     }
 
     this.joinedChannels.clear();
+    await this.discordBot.unregisterConnection(this.socket.id, this.socket.data.discordId).catch((error) => {
+      logError(error as Error, 'handleDisconnect', this.socket.data.discordId);
+    });
   }
 
 } 
\ No newline at end of file
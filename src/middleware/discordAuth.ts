@@ -1,54 +1,74 @@
-import jwt, { Secret, SignOptions } from 'jsonwebtoken';
-import type { Socket } from 'socket.io';
-import { AuthPayload } from '../types';
+import jwt from 'jsonwebtoken';
+import type { NextFunction, Request, Response } from 'express';
+import { OperationalError } from './errorHandler';
+import type { SessionService } from '../services/session.service';
+import type { DiscordSocket } from '../types';
 
-//Authenticating web socket connections
-export const authenticateSocket = async (socket: Socket, next: (err?: Error) => void) => {
+// Browsers keep tokens in httpOnly cookies; other clients send them in headers
+export const ACCESS_TOKEN_COOKIE = 'access_token';
+export const REFRESH_TOKEN_COOKIE = 'refresh_token';
+
+//Reading one cookie from a raw Cookie header, as sent with the socket handshake
+const readCookie = (header: string | undefined, name: string) => {
+  for (const part of header?.split(';') ?? []) {
+    const [key, ...value] = part.trim().split('=');
+    if (key === name) return decodeURIComponent(value.join('='));
+  }
+  return undefined;
+};
+
+const authErrorMessage = (error: unknown) => {
+  if (error instanceof OperationalError) return error.message;
+  if (error instanceof jwt.TokenExpiredError) return 'Authentication token expired';
+  return 'Invalid authentication token';
+};
+
+//Authenticating web socket connections against a live session
+export const authenticateSocket = (sessions: SessionService) => async (socket: DiscordSocket, next: (err?: Error) => void) => {
   try {
 
-    const token = socket.handshake.auth['token'];
+    const token = socket.handshake.auth['token'] || readCookie(socket.handshake.headers.cookie, ACCESS_TOKEN_COOKIE);
 
     if (!token) return next(new Error('Authentication token required'));
 
-    // Verify JWT token
-    const decoded = jwt.verify(token, process.env['JWT_SECRET'] as string) as AuthPayload;
-    console.log(decoded)
-    // Validate required fields
-    if (!decoded.username || !decoded.discord_id) return next(new Error('Invalid token payload'));
-
+    // Verify JWT token and that the session was not revoked
+    const { sessionId, user } = await sessions.verifyAccessToken(token);
 
     // Attach user info to socket
-    socket.data.user = decoded;
-    socket.data.discordId = decoded.discord_id;
-    // No userId or permissions in new AuthPayload
-    console.log(`🔐 User ${decoded.username} (${decoded.discord_id}) authenticated`);
+    socket.data.user = user;
+    socket.data.discordId = user.discord_id;
+    socket.data.sessionId = sessionId;
+    console.log(`🔐 User ${user.username} (${user.discord_id}) authenticated`);
     next();
 
   } catch (error: unknown) {
-    console.error('Authentication error:', error);
-
-    if (error instanceof jwt.JsonWebTokenError) {
-      return next(new Error('Invalid authentication token'));
+    if (!(error instanceof jwt.JsonWebTokenError) && !(error instanceof OperationalError)) {
+      console.error('Authentication error:', error);
+      return next(new Error('Authentication failed'));
     }
 
-    if (error instanceof jwt.TokenExpiredError) {
-      return next(new Error('Authentication token expired'));
-    }
-
-    return next(new Error('Authentication failed'));
+    return next(new Error(authErrorMessage(error)));
   }
 };
 
 
 
-// Helper function to generate JWT token (for testing)
-export const generateToken = (payload: AuthPayload): string => {
-  const secret = process.env['JWT_SECRET'];
-  if (!secret) throw new Error('JWT_SECRET is not set');
-  const options: SignOptions = { expiresIn: '7d' };
-  return jwt.sign(
-    payload as unknown as Record<string, unknown>,
-    secret as Secret,
-    options
-  );
+//Authenticating HTTP requests with a `Bearer` token or the access token cookie
+export const authenticateRequest = (sessions: SessionService) => async (req: Request, res: Response, next: NextFunction) => {
+  const header = req.headers.authorization;
+  const token = header?.startsWith('Bearer ') ? header.slice(7) : req.cookies?.[ACCESS_TOKEN_COOKIE];
+
+  if (!token) {
+    res.status(401).json({ error: 'Authentication token required', timestamp: new Date().toISOString() });
+    return;
+  }
+
+  try {
+    const { sessionId, user } = await sessions.verifyAccessToken(token);
+    req.user = user;
+    req.sessionId = sessionId;
+    next();
+  } catch (error: unknown) {
+    res.status(401).json({ error: authErrorMessage(error), timestamp: new Date().toISOString() });
+  }
 };
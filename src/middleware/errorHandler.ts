@@ -1,4 +1,24 @@
+import type { Response } from 'express'
 import type { Socket } from 'socket.io'
+import type { AppError, SocketErrorAck, SocketErrorCode } from '../types'
+
+// Expected, client-facing failures (permission, slowmode, rate limits) carrying a stable code
+export class OperationalError extends Error implements AppError {
+  code: string
+  statusCode: number
+  severity: 'LOW' | 'MEDIUM' | 'HIGH'
+  isOperational = true
+  retryAfter?: number
+
+  constructor(code: string, message: string, options: { statusCode?: number, severity?: 'LOW' | 'MEDIUM' | 'HIGH', retryAfter?: number } = {}) {
+    super(message)
+    this.name = 'OperationalError'
+    this.code = code
+    this.statusCode = options.statusCode ?? 400
+    this.severity = options.severity ?? 'LOW'
+    if (options.retryAfter !== undefined) this.retryAfter = options.retryAfter
+  }
+}
 
 export const errorHandler = (socket: Socket) => {
   // Handle socket errors
@@ -91,6 +111,36 @@ export const logError = (error: Error, context: string, userId?: string) => {
   console.error('Application Error:', errorInfo)
 }
 
+// Socket ack for a failed handler; operational errors keep their code, anything else is logged
+export const toErrorAck = (error: unknown, message: string, context: string, userId?: string): SocketErrorAck => {
+  if (error instanceof OperationalError) {
+    return {
+      success: false,
+      code: error.code as SocketErrorCode,
+      error: error.message,
+      ...(error.retryAfter !== undefined ? { retryAfter: error.retryAfter } : {})
+    }
+  }
+
+  logError(error as Error, context, userId)
+  return { success: false, code: 'INTERNAL_ERROR', error: message }
+}
+
+// REST counterpart of toErrorAck: an operational error's status and code, anything else is logged and answered with `statusCode`
+export const sendError = (res: Response, error: unknown, message: string, context: string, userId?: string, statusCode = 500) => {
+  if (error instanceof OperationalError) {
+    res.status(error.statusCode).json({ success: false, error: error.message, code: error.code })
+    return
+  }
+
+  logError(error as Error, context, userId)
+  res.status(statusCode).json({
+    success: false,
+    error: message,
+    timestamp: new Date().toISOString()
+  })
+}
+
 // Error response formatter
 export const formatErrorResponse = (error: Error, code: string = 'UNKNOWN_ERROR'): {
   code: string
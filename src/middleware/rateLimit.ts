@@ -0,0 +1,58 @@
+import type { NextFunction, Request, Response } from 'express';
+import { RateLimiter } from '../utils/rateLimiter';
+import type { DiscordSocket } from '../types';
+
+// Events that fan out to Discord (guild member fetches, history pages, archive scans) cost more tokens
+export const SOCKET_EVENT_COSTS: Record<string, number> = {
+  get_channels: 5,
+  resume: 5,
+  join_channel: 3,
+  search_messages: 3,
+  list_threads: 3,
+  fetch_history: 2,
+  get_inbox: 2
+};
+
+// Typing is re-sent every few seconds and already throttled before it reaches Discord
+const EXEMPT_EVENTS = new Set(['typing']);
+
+//Rate limiting socket events per Discord user, across all of the user's sockets
+export const rateLimitSocket = (socket: DiscordSocket, limiter: RateLimiter) =>
+  async ([event, ...args]: [string, ...unknown[]], next: (err?: Error) => void) => {
+    if (EXEMPT_EVENTS.has(event)) return next();
+
+    const { allowed, retryAfter } = await limiter.consume(`user:${socket.data.discordId}`, SOCKET_EVENT_COSTS[event] ?? 1);
+    if (allowed) return next();
+
+    socket.emit('rate_limited', {
+      message: `Too many requests, \`${event}\` was dropped`,
+      retryAfter
+    });
+
+    // Answer the ack so clients waiting on a callback do not hang
+    const callback = args[args.length - 1];
+    if (typeof callback === 'function') {
+      callback({ success: false, code: 'RATE_LIMITED', error: 'Rate limit exceeded', retryAfter });
+    }
+  };
+
+//Rate limiting an authenticated HTTP route at the cost of the socket event it mirrors, sharing the user's socket bucket
+export const rateLimitAs = (limiter: RateLimiter, event: string) => rateLimitRequests(limiter, SOCKET_EVENT_COSTS[event] ?? 1);
+
+//Rate limiting HTTP routes per Discord user, or per IP before login
+export const rateLimitRequests = (limiter: RateLimiter, cost = 1) =>
+  async (req: Request, res: Response, next: NextFunction) => {
+    const key = req.user ? `user:${req.user.discord_id}` : `ip:${req.ip}`;
+    const { allowed, remaining, retryAfter } = await limiter.consume(key, cost);
+
+    res.setHeader('RateLimit-Limit', limiter.config.maxRequests);
+    res.setHeader('RateLimit-Remaining', remaining);
+    if (allowed) return next();
+
+    res.setHeader('Retry-After', Math.ceil(retryAfter / 1000));
+    res.status(429).json({
+      error: 'Too many requests',
+      retryAfter,
+      timestamp: new Date().toISOString()
+    });
+  };
@@ -0,0 +1,119 @@
+import { MAX_HISTORY_LIMIT, MAX_INBOX_LIMIT, MAX_SEARCH_LIMIT, MAX_THREAD_LIMIT } from '../services/discordBot.service';
+import { array, boolean, integer, isoDate, object, optional, regex, snowflake, string, Validator } from '../utils/validation';
+import type { ClientToServerEvents, DiscordSocket, SocketErrorAck } from '../types';
+
+//The first argument of each client event, when it has a payload
+type EventPayload<E extends keyof ClientToServerEvents> =
+  Parameters<ClientToServerEvents[E]>[0] extends infer P ? (P extends (...args: never[]) => void ? never : P) : never;
+
+const channelRequest = object({ channelId: snowflake() });
+
+// One `resume` may rejoin at most this many channels
+const MAX_RESUME_CHANNELS = 100;
+
+// Author, channel and keyword lists of channel filters and watch rules
+const MAX_FILTER_VALUES = 50;
+
+const keywords = () => array(string({ minLength: 1, maxLength: 100 }), { maxLength: MAX_FILTER_VALUES });
+
+const messageFilter = object({
+  authorIds: optional(array(snowflake(), { maxLength: MAX_FILTER_VALUES })),
+  excludeAuthorIds: optional(array(snowflake(), { maxLength: MAX_FILTER_VALUES })),
+  includeBots: optional(boolean()),
+  includeWebhooks: optional(boolean()),
+  keywords: optional(keywords()),
+  pattern: optional(regex()),
+  hasAttachment: optional(boolean()),
+  hasEmbed: optional(boolean()),
+  mentionsMe: optional(boolean())
+});
+
+// Payload schemas of every event a client may send; `null` for events that only take an ack callback
+export const CLIENT_EVENT_SCHEMAS: { [E in keyof ClientToServerEvents]: Validator<EventPayload<E>> | null } = {
+  get_channels: null,
+  join_channel: object({ channelId: snowflake(), filter: optional(messageFilter) }),
+  leave_channel: channelRequest,
+  fetch_history: object({
+    channelId: snowflake(),
+    before: optional(snowflake()),
+    limit: optional(integer({ min: 1, max: MAX_HISTORY_LIMIT }))
+  }),
+  send_message: object({ channelId: snowflake(), content: string() }),
+  typing: object({ channelId: snowflake(), isTyping: optional(boolean()) }),
+  search_messages: object({
+    query: optional(string({ maxLength: 200 })),
+    authorId: optional(snowflake()),
+    channelId: optional(snowflake()),
+    after: optional(isoDate()),
+    before: optional(isoDate()),
+    hasAttachment: optional(boolean()),
+    cursor: optional(snowflake()),
+    limit: optional(integer({ min: 1, max: MAX_SEARCH_LIMIT }))
+  }),
+  add_reaction: object({ channelId: snowflake(), messageId: snowflake(), emoji: string({ minLength: 1, maxLength: 100 }) }),
+  remove_reaction: object({ channelId: snowflake(), messageId: snowflake(), emoji: string({ minLength: 1, maxLength: 100 }) }),
+  list_threads: object({
+    channelId: snowflake(),
+    archived: optional(boolean()),
+    before: optional(isoDate()),
+    limit: optional(integer({ min: 1, max: MAX_THREAD_LIMIT }))
+  }),
+  mark_read: object({ channelId: snowflake(), messageId: optional(snowflake()) }),
+  get_presence: channelRequest,
+  heartbeat: object({ idle: optional(boolean()) }),
+  resume: object({
+    channels: array(
+      object({ channelId: snowflake(), lastSeq: integer({ min: 0 }), filter: optional(messageFilter) }),
+      { minLength: 1, maxLength: MAX_RESUME_CHANNELS }
+    )
+  }),
+  list_watches: null,
+  add_watch: object({
+    keywords: optional(keywords()),
+    pattern: optional(regex()),
+    mentions: optional(boolean()),
+    replies: optional(boolean()),
+    serverId: optional(snowflake()),
+    channelIds: optional(array(snowflake(), { minLength: 1, maxLength: MAX_FILTER_VALUES }))
+  }),
+  remove_watch: object({ ruleId: string({ minLength: 1, maxLength: 100 }) }),
+  get_inbox: object({
+    before: optional(snowflake()),
+    limit: optional(integer({ min: 1, max: MAX_INBOX_LIMIT })),
+    unreadOnly: optional(boolean())
+  }),
+  mark_notifications_read: object({ notificationIds: optional(array(snowflake(), { minLength: 1, maxLength: MAX_INBOX_LIMIT })) })
+};
+
+const isClientEvent = (event: string): event is keyof ClientToServerEvents => Object.prototype.hasOwnProperty.call(CLIENT_EVENT_SCHEMAS, event);
+
+//Rejecting unknown events and malformed payloads before they reach the handlers
+export const validateSocketPayloads = (socket: DiscordSocket) =>
+  (packet: [string, ...unknown[]], next: (err?: Error) => void) => {
+    const [event, ...args] = packet;
+    const callback = typeof args[args.length - 1] === 'function' ? args[args.length - 1] as (response: SocketErrorAck) => void : undefined;
+
+    // Answer the ack if there is one, otherwise tell the client on the error channel
+    const reject = (response: SocketErrorAck) => {
+      if (callback) return callback(response);
+      socket.emit('error', { code: response.code, message: response.error, severity: 'LOW' });
+    };
+
+    if (!isClientEvent(event)) {
+      return reject({ success: false, code: 'UNKNOWN_EVENT', error: `Unknown event \`${event}\`` });
+    }
+
+    const schema = CLIENT_EVENT_SCHEMAS[event];
+    if (!schema) return next();
+
+    // Events with a payload may be sent without one, e.g. `heartbeat` with only an ack
+    const payload = args[0] === undefined || args[0] === callback ? {} : args[0];
+    const result = schema.validate(payload);
+    if (!result.ok) {
+      return reject({ success: false, code: 'INVALID_PAYLOAD', error: `Invalid \`${event}\` payload`, issues: result.issues });
+    }
+
+    // Handlers receive the validated payload, without unknown properties
+    packet.splice(1, args[0] === callback ? 0 : 1, result.value);
+    next();
+  };
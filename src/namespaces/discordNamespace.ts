@@ -1,18 +1,36 @@
-import type { Namespace } from 'socket.io'
 import { authenticateSocket } from '../middleware/discordAuth'
 import { DiscordSocketHandler } from '../handlers/discordSocketHandler'
 import { DiscordBot } from '../services/discordBot.service'
+import { rateLimitSocket } from '../middleware/rateLimit'
+import { validateSocketPayloads } from '../middleware/validation'
+import { createRateLimiter, RateLimiter } from '../utils/rateLimiter'
+import { SessionService } from '../services/session.service'
+import { DiscordNamespace, SessionRevokedEvent } from '../types'
 
-export const setupDiscordNamespace = (discordNamespace:Namespace,discordBot:DiscordBot) => {
+export const setupDiscordNamespace = (discordNamespace:DiscordNamespace,discordBot:DiscordBot,sessions:SessionService,rateLimiter:RateLimiter = createRateLimiter()) => {
 
   // Authentication middleware
-  discordNamespace.use(authenticateSocket)
+  discordNamespace.use(authenticateSocket(sessions))
+
+  // Revoked sessions lose their sockets on every node
+  sessions.onRevoke((sessionId: string, event: SessionRevokedEvent) => {
+    discordNamespace.to(`session:${sessionId}`).emit('session_revoked', event)
+    discordNamespace.in(`session:${sessionId}`).disconnectSockets(true)
+  })
 
   // Connection handler
   discordNamespace.on('connection', (socket) => {
 
     console.log(`🔗 User ${socket.data.user.username} connected to Discord namespace`)
 
+    socket.join(`session:${socket.data.sessionId}`)
+
+    // Rate limit every incoming event before it reaches the handlers
+    socket.use(rateLimitSocket(socket, rateLimiter))
+
+    // Then drop unknown events and malformed payloads
+    socket.use(validateSocketPayloads(socket))
+
     // Initialize Discord handler
     const handler = new DiscordSocketHandler(socket, discordBot)
     handler.setupEventHandlers()
@@ -0,0 +1,111 @@
+import path from 'path';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import type { ReadableStream } from 'stream/web';
+import express from 'express';
+import { DiscordBot } from '../services/discordBot.service';
+import { AttachmentCache } from '../services/attachmentCache.service';
+import { SessionService } from '../services/session.service';
+import { authenticateRequest } from '../middleware/discordAuth';
+import { OperationalError, sendError } from '../middleware/errorHandler';
+import { rateLimitRequests } from '../middleware/rateLimit';
+import { isDiscordUrlExpired, verifyAttachmentSignature } from '../utils/attachmentUrls';
+import { createRateLimiter, RateLimiter } from '../utils/rateLimiter';
+import { SNOWFLAKE_PATTERN } from '../utils/validation';
+import type { DiscordAttachment } from '../types';
+
+// Media the browser may show in place; anything else, SVG included, is downloaded
+const INLINE_TYPES = /^(image\/(?!svg)|video\/|audio\/)/;
+
+//Signed URLs authorize the request themselves, otherwise the caller needs a token and read access
+const authorizeRequest = (sessions: SessionService): express.RequestHandler => (req, res, next) => {
+    const { expires, signature } = req.query;
+    if (typeof expires !== 'string' || typeof signature !== 'string') {
+        authenticateRequest(sessions)(req, res, next);
+        return;
+    }
+
+    const check = verifyAttachmentSignature(req.params['channelId'] as string, req.params['attachmentId'] as string, expires, signature);
+    if (check === 'valid') {
+        next();
+        return;
+    }
+
+    res.status(403).json({
+        success: false,
+        code: check === 'expired' ? 'URL_EXPIRED' : 'INVALID_SIGNATURE',
+        error: check === 'expired' ? 'This attachment link has expired' : 'Invalid attachment signature'
+    });
+};
+
+const headersFor = (attachment: DiscordAttachment) => {
+    const contentType = attachment.contentType || 'application/octet-stream';
+    return {
+        'Content-Type': contentType,
+        'Content-Disposition': `${INLINE_TYPES.test(contentType) ? 'inline' : 'attachment'}; filename*=UTF-8''${encodeURIComponent(attachment.filename)}`,
+        'Cache-Control': 'private, max-age=3600',
+        // The web client loads these from its own origin
+        'Cross-Origin-Resource-Policy': 'cross-origin',
+        // Uploads are served from our origin, they must never run scripts in it
+        'Content-Security-Policy': "default-src 'none'; sandbox"
+    };
+};
+
+//Downloading from Discord, asking the bot for a fresh URL once if the stored one has expired
+const download = async (discordBot: DiscordBot, channelId: string, attachment: DiscordAttachment) => {
+    const refreshed = isDiscordUrlExpired(attachment.url);
+    let response = await fetch(refreshed ? (await discordBot.getAttachment(channelId, attachment.id, true)).url : attachment.url);
+
+    if ((response.status === 403 || response.status === 404) && !refreshed) {
+        response = await fetch((await discordBot.getAttachment(channelId, attachment.id, true)).url);
+    }
+
+    if (!response.ok || !response.body) {
+        throw new OperationalError('ATTACHMENT_UNAVAILABLE', 'Attachment could not be downloaded', { statusCode: 502 });
+    }
+    return Readable.fromWeb(response.body as ReadableStream<Uint8Array>);
+};
+
+export const createAttachmentRouter = (
+    discordBot: DiscordBot,
+    cache: AttachmentCache,
+    sessions: SessionService,
+    rateLimiter: RateLimiter = createRateLimiter()
+) => {
+    const router = express.Router();
+
+    // Serve an attachment through the local cache; signed URLs carry no user, so they are limited per IP
+    router.get('/:channelId/:attachmentId', authorizeRequest(sessions), rateLimitRequests(rateLimiter), async (req, res) => {
+        const { channelId, attachmentId } = req.params as { channelId: string, attachmentId: string };
+
+        try {
+            if (!SNOWFLAKE_PATTERN.test(channelId) || !SNOWFLAKE_PATTERN.test(attachmentId)) {
+                throw new OperationalError('ATTACHMENT_NOT_FOUND', 'Attachment not found', { statusCode: 404 });
+            }
+            if (req.user) await discordBot.authorizeChannelAccess(channelId, req.user.discord_id);
+
+            const attachment = await discordBot.getAttachment(channelId, attachmentId);
+            const filePath = attachment.size <= cache.maxFileBytes
+                ? await cache.fetch(attachmentId, () => download(discordBot, channelId, attachment))
+                : null;
+
+            if (filePath) {
+                res.set(headersFor(attachment)).sendFile(path.resolve(filePath));
+                return;
+            }
+
+            // Too large to cache, streamed straight through
+            const body = await download(discordBot, channelId, attachment);
+            res.set(headersFor(attachment));
+            await pipeline(body, res);
+        } catch (error) {
+            if (res.headersSent) {
+                res.destroy();
+                return;
+            }
+            sendError(res, error, 'Failed to load attachment', 'attachmentRoute', req.user?.discord_id, 502);
+        }
+    });
+
+    return router;
+};
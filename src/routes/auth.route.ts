@@ -1,77 +1,123 @@
-import { Router } from 'express';
-import axios from 'axios';
-import jwt from 'jsonwebtoken';
-import type { AuthPayload} from '../types';
+import { CookieOptions, Request, Response, Router } from 'express';
+import type { AuthPayload, RefreshResponse, SessionTokens } from '../types';
 import crypto from 'crypto';
+import { ACCESS_TOKEN_COOKIE, REFRESH_TOKEN_COOKIE } from '../middleware/discordAuth';
+import { OperationalError, logError } from '../middleware/errorHandler';
+import { SessionService } from '../services/session.service';
+import { DiscordOAuthService } from '../services/discordOAuth.service';
 
-const router = Router();
-
-const CLIENT_ID = process.env['DISCORD_CLIENT_ID']!;
-const CLIENT_SECRET = process.env['DISCORD_CLIENT_SECRET']!;
-const REDIRECT_URI = process.env['DISCORD_REDIRECT_URI']!; 
 const FRONTEND_URL = process.env['FRONTEND_URL'] || 'http://localhost:3000';
 
+const STATE_COOKIE = 'discord_oauth_state';
+const STATE_TTL_MS = 10 * 60 * 1000;
 
-//Handling user login
-router.get('/discord/login', (req, res) => {
-  const state = crypto.randomBytes(16).toString('hex');
-  res.cookie('discord_oauth_state', state, { httpOnly: true, secure: false, sameSite: 'lax' });
-  const params = new URLSearchParams({
-    client_id: CLIENT_ID,
-    redirect_uri: REDIRECT_URI,
-    response_type: 'code',
-    scope: 'identify email',
-    state,
-    prompt: 'consent'
-  });
-  res.redirect(`https://discord.com/oauth2/authorize?${params.toString()}`);
+// Only plain-HTTP development setups should turn secure cookies off
+const cookieOptions = (options: CookieOptions): CookieOptions => ({
+  httpOnly: true,
+  secure: process.env['COOKIE_SECURE'] !== 'false',
+  ...options
 });
 
-//Handling received data from discord
-router.get('/discord/callback', async (req, res) => {
-  const code = req.query['code'] as string;
-  const state = req.query['state'] as string;
-  const storedState = req.cookies['discord_oauth_state'];
-  res.clearCookie('discord_oauth_state');
-  if (!code || !state || !storedState || state !== storedState) {
-    return res.redirect(`${FRONTEND_URL}/login?error=invalid_state`);
-  }
-  try {
-    // Exchange code for access token
-    const params = new URLSearchParams({
-      client_id: CLIENT_ID,
-      client_secret: CLIENT_SECRET,
-      grant_type: 'authorization_code',
-      code,
-      redirect_uri: REDIRECT_URI,
-      scope: 'identify email'
-    });
-    const tokenRes = await axios.post('https://discord.com/api/oauth2/token', params, {
-      headers: { 'Content-Type': 'application/x-www-form-urlencoded' }
-    });
-    const accessToken = tokenRes.data.access_token;
-    // Fetch user info
-    const userRes = await axios.get('https://discord.com/api/users/@me', {
-      headers: { Authorization: `Bearer ${accessToken}` }
-    });
-    const discordUser = userRes.data;
-    // Create JWT
-    const now = new Date();
-    const payload: AuthPayload = {
-      discord_id: discordUser.id,
-      username: discordUser.username,
-      email: discordUser.email,
-      is_bot: discordUser.bot || false,
-      created_at: now.toISOString(),
-      updated_at: now.toISOString()
-    };
-    const token = jwt.sign(payload, process.env['JWT_SECRET']!, { expiresIn: '7d' });
-    // Redirect to frontend with token (or set cookie, etc.)
-    res.redirect(`${FRONTEND_URL}/?token=${token}`);
-  } catch (error) {
-    console.error('Discord OAuth2 error:', error);
-    res.redirect(`${FRONTEND_URL}/login?error=oauth_failed`);
-  }
-});
+// The refresh token is only ever sent back to the auth routes
+const ACCESS_COOKIE_OPTIONS = cookieOptions({ sameSite: 'lax', path: '/' });
+const REFRESH_COOKIE_OPTIONS = cookieOptions({ sameSite: 'strict', path: '/api/auth' });
+
+const setSessionCookies = (res: Response, sessions: SessionService, tokens: SessionTokens) => {
+  res.cookie(ACCESS_TOKEN_COOKIE, tokens.accessToken, { ...ACCESS_COOKIE_OPTIONS, maxAge: sessions.accessTtlMs });
+  res.cookie(REFRESH_TOKEN_COOKIE, tokens.refreshToken, { ...REFRESH_COOKIE_OPTIONS, maxAge: sessions.refreshTtlMs });
+};
+
+const clearSessionCookies = (res: Response) => {
+  res.clearCookie(ACCESS_TOKEN_COOKIE, ACCESS_COOKIE_OPTIONS);
+  res.clearCookie(REFRESH_TOKEN_COOKIE, REFRESH_COOKIE_OPTIONS);
+};
+
+//Reading the refresh token from its cookie, or from the body for clients without cookies
+const readRefreshToken = (req: Request): string | undefined => {
+  const token = req.cookies?.[REFRESH_TOKEN_COOKIE] ?? req.body?.refreshToken;
+  return typeof token === 'string' && token !== '' ? token : undefined;
+};
+
+export const createAuthRouter = (sessions: SessionService, oauth: DiscordOAuthService) => {
+  const router = Router();
+
+  //Handling user login
+  router.get('/discord/login', (req, res) => {
+    const state = crypto.randomBytes(16).toString('hex');
+    res.cookie(STATE_COOKIE, state, cookieOptions({ sameSite: 'lax', path: '/api/auth', maxAge: STATE_TTL_MS }));
+    res.redirect(oauth.authorizeUrl(state));
+  });
+
+  //Handling received data from discord
+  router.get('/discord/callback', async (req, res) => {
+    const code = req.query['code'] as string;
+    const state = req.query['state'] as string;
+    const storedState = req.cookies[STATE_COOKIE];
+    res.clearCookie(STATE_COOKIE, cookieOptions({ sameSite: 'lax', path: '/api/auth' }));
+    if (!code || !state || !storedState || state !== storedState) {
+      return res.redirect(`${FRONTEND_URL}/login?error=invalid_state`);
+    }
+    try {
+      // Exchange the code for Discord tokens, which are stored for guild lookups, and fetch the user
+      const discordUser = await oauth.exchangeCode(code);
+      // Start a session
+      const now = new Date();
+      const payload: AuthPayload = {
+        discord_id: discordUser.id,
+        username: discordUser.username,
+        email: discordUser.email ?? '',
+        is_bot: discordUser.bot || false,
+        created_at: now.toISOString(),
+        updated_at: now.toISOString()
+      };
+      // Tokens travel in cookies, never in the URL where they end up in history and logs
+      setSessionCookies(res, sessions, await sessions.createSession(payload));
+      res.redirect(`${FRONTEND_URL}/`);
+    } catch (error) {
+      console.error('Discord OAuth2 error:', error);
+      res.redirect(`${FRONTEND_URL}/login?error=oauth_failed`);
+    }
+  });
+
+  //Rotating the refresh token and issuing a new access token
+  router.post('/refresh', async (req, res) => {
+    const refreshToken = readRefreshToken(req);
+
+    try {
+      if (!refreshToken) throw new OperationalError('INVALID_REFRESH_TOKEN', 'Refresh token required', { statusCode: 401 });
+
+      const tokens = await sessions.refresh(refreshToken);
+      setSessionCookies(res, sessions, tokens);
+      const response: RefreshResponse = { success: true, accessToken: tokens.accessToken, expiresIn: tokens.expiresIn };
+      res.json(response);
+    } catch (error) {
+      clearSessionCookies(res);
+
+      if (error instanceof OperationalError) {
+        const response: RefreshResponse = { success: false, code: error.code, error: error.message };
+        res.status(error.statusCode).json(response);
+        return;
+      }
+
+      logError(error as Error, 'authRefresh');
+      res.status(500).json({ success: false, error: 'Failed to refresh session', timestamp: new Date().toISOString() });
+    }
+  });
+
+  //Ending the session, which also disconnects its sockets
+  router.post('/logout', async (req, res) => {
+    const refreshToken = readRefreshToken(req);
+
+    try {
+      const session = refreshToken ? await sessions.findSession(refreshToken) : null;
+      if (session) await sessions.revoke(session.id, 'LOGGED_OUT');
+    } catch (error) {
+      logError(error as Error, 'authLogout');
+    }
+
+    clearSessionCookies(res);
+    res.json({ success: true });
+  });
 
-export default router; 
\ No newline at end of file
+  return router;
+};
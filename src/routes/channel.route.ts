@@ -0,0 +1,77 @@
+import express from 'express';
+import { DiscordBot } from '../services/discordBot.service';
+import { SessionService } from '../services/session.service';
+import { authenticateRequest } from '../middleware/discordAuth';
+import { OperationalError, sendError } from '../middleware/errorHandler';
+import { rateLimitAs, rateLimitRequests } from '../middleware/rateLimit';
+import { matchesFilter } from '../utils/messageFilter';
+import { createRateLimiter, RateLimiter } from '../utils/rateLimiter';
+import { SNOWFLAKE_PATTERN } from '../utils/validation';
+import type { FetchHistoryResponse, GetChannelResponse, GetChannelsResponse } from '../types';
+
+const validateChannelId = (channelId: string) => {
+    if (!SNOWFLAKE_PATTERN.test(channelId)) {
+        throw new OperationalError('CHANNEL_NOT_FOUND', 'Channel not found', { statusCode: 404 });
+    }
+};
+
+//The REST side of get_channels and fetch_history, for clients that cannot hold a socket
+export const createChannelRouter = (discordBot: DiscordBot, sessions: SessionService, rateLimiter: RateLimiter = createRateLimiter()) => {
+    const router = express.Router();
+    router.use(authenticateRequest(sessions));
+
+    // Channels the caller can see, with categories and unread counts
+    router.get('/', rateLimitAs(rateLimiter, 'get_channels'), async (req, res) => {
+        try {
+            const channels = await discordBot.getUserChannels(req.user!.discord_id);
+            const response: GetChannelsResponse = { success: true, channels };
+            res.json(response);
+        } catch (error) {
+            sendError(res, error, 'Failed to fetch channels', 'channelsRoute', req.user?.discord_id);
+        }
+    });
+
+    // One channel the caller can see
+    router.get('/:channelId', rateLimitRequests(rateLimiter), async (req, res) => {
+        const channelId = req.params['channelId'] as string;
+
+        try {
+            validateChannelId(channelId);
+            const channel = await discordBot.getChannelInfo(channelId, req.user!.discord_id);
+            const response: GetChannelResponse = { success: true, channel };
+            res.json(response);
+        } catch (error) {
+            sendError(res, error, 'Failed to fetch channel', 'channelRoute', req.user?.discord_id);
+        }
+    });
+
+    // A page of channel history, newest first; pass `nextCursor` back as `before`
+    router.get('/:channelId/messages', rateLimitAs(rateLimiter, 'fetch_history'), async (req, res) => {
+        const channelId = req.params['channelId'] as string;
+        const { before, limit } = req.query;
+
+        try {
+            validateChannelId(channelId);
+            if (before !== undefined && (typeof before !== 'string' || !SNOWFLAKE_PATTERN.test(before))) {
+                throw new OperationalError('INVALID_CURSOR', 'Invalid cursor');
+            }
+            if (limit !== undefined && (typeof limit !== 'string' || !/^\d+$/.test(limit))) {
+                throw new OperationalError('INVALID_LIMIT', 'Limit must be a positive number');
+            }
+
+            await discordBot.authorizeChannelAccess(channelId, req.user!.discord_id);
+            const page = await discordBot.fetchChannelHistory(channelId, {
+                ...(before ? { before } : {}),
+                ...(limit ? { limit: Number(limit) } : {})
+            });
+            // Without a filter, bot and webhook messages are left out like on an unfiltered socket
+            const messages = page.messages.filter(message => matchesFilter(message, undefined, req.user!.discord_id));
+            const response: FetchHistoryResponse = { success: true, channelId, ...page, messages };
+            res.json(response);
+        } catch (error) {
+            sendError(res, error, 'Failed to fetch history', 'channelMessagesRoute', req.user?.discord_id);
+        }
+    });
+
+    return router;
+};
@@ -0,0 +1,67 @@
+import express from 'express';
+import { DiscordBot } from '../services/discordBot.service';
+import { DiscordOAuthService, DiscordUserGuild, canManageGuild } from '../services/discordOAuth.service';
+import { SessionService } from '../services/session.service';
+import { authenticateRequest } from '../middleware/discordAuth';
+import { OperationalError, sendError } from '../middleware/errorHandler';
+import { rateLimitRequests } from '../middleware/rateLimit';
+import { createRateLimiter, RateLimiter } from '../utils/rateLimiter';
+import type { BotInviteResponse, DiscordGuild, ListGuildsResponse } from '../types';
+
+const iconUrl = (guild: DiscordUserGuild) =>
+    guild.icon ? `https://cdn.discordapp.com/icons/${guild.id}/${guild.icon}.${guild.icon.startsWith('a_') ? 'gif' : 'png'}` : undefined;
+
+const formatGuild = (guild: DiscordUserGuild, botGuildIds: Set<string>): DiscordGuild => {
+    const icon = iconUrl(guild);
+    return {
+        id: guild.id,
+        name: guild.name,
+        ...(icon ? { icon } : {}),
+        owner: guild.owner,
+        canManage: canManageGuild(guild),
+        botPresent: botGuildIds.has(guild.id)
+    };
+};
+
+export const createGuildRouter = (
+    discordBot: DiscordBot,
+    oauth: DiscordOAuthService,
+    sessions: SessionService,
+    rateLimiter: RateLimiter = createRateLimiter()
+) => {
+    const router = express.Router();
+
+    // List the caller's guilds, marking the ones the bot has joined
+    router.get('/', authenticateRequest(sessions), rateLimitRequests(rateLimiter), async (req, res) => {
+        const userId = req.user!.discord_id;
+
+        try {
+            const [guilds, botGuildIds] = await Promise.all([oauth.getUserGuilds(userId), discordBot.getBotGuildIds()]);
+            const botGuilds = new Set(botGuildIds);
+            const response: ListGuildsResponse = { success: true, guilds: guilds.map(guild => formatGuild(guild, botGuilds)) };
+            res.json(response);
+        } catch (error) {
+            sendError(res, error, 'Failed to load servers from Discord', 'guildRoute', userId, 502);
+        }
+    });
+
+    // Invite URL for adding the bot to a guild the caller manages
+    router.get('/:guildId/invite', authenticateRequest(sessions), rateLimitRequests(rateLimiter), async (req, res) => {
+        const userId = req.user!.discord_id;
+
+        try {
+            const guild = (await oauth.getUserGuilds(userId)).find(guild => guild.id === req.params['guildId']);
+            if (!guild) throw new OperationalError('GUILD_NOT_FOUND', 'Server not found', { statusCode: 404 });
+            if (!canManageGuild(guild)) {
+                throw new OperationalError('MISSING_PERMISSION', 'You need Manage Server to add the bot', { statusCode: 403 });
+            }
+
+            const response: BotInviteResponse = { success: true, url: oauth.botInviteUrl(guild.id) };
+            res.json(response);
+        } catch (error) {
+            sendError(res, error, 'Failed to load servers from Discord', 'guildInviteRoute', userId, 502);
+        }
+    });
+
+    return router;
+};
@@ -3,7 +3,7 @@ import type { Server } from 'socket.io';
 import { HealthStatus, Metrics } from '../types';
 import { DiscordBot } from '../services/discordBot.service';
 
-export const createHealthRouter = (io: Server) => {
+export const createHealthRouter = (io: Server, discordBot: DiscordBot) => {
     const router = express.Router();
     const discordNamespace = io.of('/discord');
     // Health check endpoint
@@ -80,8 +80,6 @@ export const createHealthRouter = (io: Server) => {
     // Detailed status endpoint
     router.get('/status', async (req, res) => {
         try {
-            const discordBot = new DiscordBot(discordNamespace);
-
             const status = {
                 server: {
                     uptime: process.uptime(),
@@ -97,12 +95,11 @@ export const createHealthRouter = (io: Server) => {
                     rooms: discordNamespace.adapter.rooms.size
                 },
                 discord: {
-                    botConnected: discordBot ? true : false,
-                    subscriptionStats: discordBot ? discordBot.getSubscriptionStats() : null
-                },
-                database: {
-                    connected: true // Assuming database is always connected for now
+                    botConnected: discordBot.isReady(),
+                    subscriptionStats: await discordBot.getSubscriptionStats()
                 },
+                cluster: discordBot.getClusterInfo(),
+                database: discordBot.getArchiveStats(),
                 environment: {
                     nodeEnv: process.env['NODE_ENV'] || 'development',
                     port: process.env['PORT'] || 3001,
@@ -0,0 +1,49 @@
+import express from 'express';
+import { DiscordBot } from '../services/discordBot.service';
+import { authenticateRequest } from '../middleware/discordAuth';
+import { SessionService } from '../services/session.service';
+import { OperationalError, logError } from '../middleware/errorHandler';
+import { rateLimitAs } from '../middleware/rateLimit';
+import { createRateLimiter, RateLimiter } from '../utils/rateLimiter';
+import type { SearchMessagesRequest, SearchMessagesResponse } from '../types';
+
+//Reading an optional string query parameter
+const param = (value: unknown) => (typeof value === 'string' && value !== '' ? value : undefined);
+
+export const createSearchRouter = (discordBot: DiscordBot, sessions: SessionService, rateLimiter: RateLimiter = createRateLimiter()) => {
+    const router = express.Router();
+
+    // Search archived messages in channels the caller can read
+    router.get('/', authenticateRequest(sessions), rateLimitAs(rateLimiter, 'search_messages'), async (req, res) => {
+        const { query, authorId, channelId, after, before, hasAttachment, cursor, limit } = req.query;
+
+        const request: SearchMessagesRequest = {};
+        const fields = { query, authorId, channelId, after, before, cursor };
+        for (const [key, value] of Object.entries(fields)) {
+            const parsed = param(value);
+            if (parsed !== undefined) request[key as keyof typeof fields] = parsed;
+        }
+        if (param(hasAttachment) !== undefined) request.hasAttachment = hasAttachment === 'true';
+        if (param(limit) !== undefined) request.limit = Number(limit);
+
+        try {
+            const result = await discordBot.searchMessages(req.user!.discord_id, request);
+            const response: SearchMessagesResponse = { success: true, ...result };
+            res.json(response);
+        } catch (error) {
+            if (error instanceof OperationalError) {
+                res.status(error.statusCode).json({ success: false, error: error.message, code: error.code });
+                return;
+            }
+
+            logError(error as Error, 'searchRoute', req.user?.discord_id);
+            res.status(500).json({
+                success: false,
+                error: 'Failed to search messages',
+                timestamp: new Date().toISOString()
+            });
+        }
+    });
+
+    return router;
+};
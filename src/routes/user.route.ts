@@ -0,0 +1,39 @@
+import express from 'express';
+import { DiscordBot } from '../services/discordBot.service';
+import { SessionService } from '../services/session.service';
+import { authenticateRequest } from '../middleware/discordAuth';
+import { logError } from '../middleware/errorHandler';
+import { rateLimitRequests } from '../middleware/rateLimit';
+import { createRateLimiter, RateLimiter } from '../utils/rateLimiter';
+import type { MeResponse } from '../types';
+
+export const createUserRouter = (discordBot: DiscordBot, sessions: SessionService, rateLimiter: RateLimiter = createRateLimiter()) => {
+    const router = express.Router();
+
+    // The caller's Discord profile, the REST side of user_info
+    router.get('/', authenticateRequest(sessions), rateLimitRequests(rateLimiter), async (req, res) => {
+        const user = req.user!;
+
+        try {
+            // Fall back to the token's claims when Discord cannot be reached
+            const profile = await discordBot.getUserInfo(user.discord_id) ?? {
+                id: user.discord_id,
+                username: user.username,
+                displayName: user.username,
+                isBot: user.is_bot,
+                createdAt: user.created_at
+            };
+            const response: MeResponse = { success: true, user: profile };
+            res.json(response);
+        } catch (error) {
+            logError(error as Error, 'meRoute', user.discord_id);
+            res.status(500).json({
+                success: false,
+                error: 'Failed to fetch user',
+                timestamp: new Date().toISOString()
+            });
+        }
+    });
+
+    return router;
+};
@@ -0,0 +1,130 @@
+import express from 'express';
+import { DiscordBot } from '../services/discordBot.service';
+import { SessionService } from '../services/session.service';
+import { WEBHOOK_EVENT_TYPES, WebhookService } from '../services/webhook.service';
+import { authenticateRequest } from '../middleware/discordAuth';
+import { OperationalError, sendError } from '../middleware/errorHandler';
+import { rateLimitRequests } from '../middleware/rateLimit';
+import { createRateLimiter, RateLimiter } from '../utils/rateLimiter';
+import { SNOWFLAKE_PATTERN, array, object, oneOf, optional, snowflake, string } from '../utils/validation';
+import type {
+    CreateWebhookResponse,
+    ListDeadLettersResponse,
+    ListWebhooksResponse,
+    RedeliverWebhookResponse
+} from '../types';
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/;
+
+const createWebhookSchema = object({
+    url: string({ minLength: 1, maxLength: 2000 }),
+    guildId: snowflake(),
+    channelId: optional(snowflake()),
+    events: array(oneOf(WEBHOOK_EVENT_TYPES), { minLength: 1, maxLength: WEBHOOK_EVENT_TYPES.length })
+});
+
+//Registering URLs that receive a server's channel events, for services that do not speak Socket.IO
+export const createWebhookRouter = (
+    discordBot: DiscordBot,
+    webhooks: WebhookService,
+    sessions: SessionService,
+    rateLimiter: RateLimiter = createRateLimiter()
+) => {
+    const router = express.Router();
+    router.use(authenticateRequest(sessions), rateLimitRequests(rateLimiter));
+
+    // A subscription the caller may manage; the same permission as creating it
+    const loadWebhook = async (webhookId: string, userId: string) => {
+        const webhook = UUID_PATTERN.test(webhookId) ? await webhooks.get(webhookId) : null;
+        if (!webhook) throw new OperationalError('WEBHOOK_NOT_FOUND', 'Webhook not found', { statusCode: 404 });
+
+        await discordBot.authorizeWebhookAdmin(userId, webhook.guildId, webhook.channelId);
+        return webhook;
+    };
+
+    // Subscriptions of a server, or only those of one of its channels
+    router.get('/', async (req, res) => {
+        const userId = req.user!.discord_id;
+        const { guildId, channelId } = req.query;
+
+        try {
+            if (typeof guildId !== 'string' || !SNOWFLAKE_PATTERN.test(guildId)) {
+                throw new OperationalError('INVALID_PAYLOAD', 'guildId must be a Discord ID');
+            }
+            if (channelId !== undefined && (typeof channelId !== 'string' || !SNOWFLAKE_PATTERN.test(channelId))) {
+                throw new OperationalError('INVALID_PAYLOAD', 'channelId must be a Discord ID');
+            }
+
+            await discordBot.authorizeWebhookAdmin(userId, guildId, channelId);
+            const subscriptions = await webhooks.list(guildId);
+            const response: ListWebhooksResponse = {
+                success: true,
+                webhooks: channelId ? subscriptions.filter(webhook => webhook.channelId === channelId) : subscriptions
+            };
+            res.json(response);
+        } catch (error) {
+            sendError(res, error, 'Failed to list webhooks', 'webhooksRoute', userId);
+        }
+    });
+
+    // Register a URL; the signing secret is only returned here
+    router.post('/', async (req, res) => {
+        const userId = req.user!.discord_id;
+        const parsed = createWebhookSchema.validate(req.body);
+        if (!parsed.ok) {
+            const response: CreateWebhookResponse = { success: false, code: 'INVALID_PAYLOAD', error: 'Invalid webhook', issues: parsed.issues };
+            res.status(400).json(response);
+            return;
+        }
+
+        try {
+            await discordBot.authorizeWebhookAdmin(userId, parsed.value.guildId, parsed.value.channelId);
+            const created = await webhooks.create(parsed.value, userId);
+            const response: CreateWebhookResponse = { success: true, ...created };
+            res.status(201).json(response);
+        } catch (error) {
+            sendError(res, error, 'Failed to create webhook', 'createWebhookRoute', userId);
+        }
+    });
+
+    router.delete('/:webhookId', async (req, res) => {
+        const userId = req.user!.discord_id;
+
+        try {
+            const webhook = await loadWebhook(req.params['webhookId'] as string, userId);
+            await webhooks.remove(webhook.id);
+            res.json({ success: true });
+        } catch (error) {
+            sendError(res, error, 'Failed to delete webhook', 'deleteWebhookRoute', userId);
+        }
+    });
+
+    // Deliveries that failed every attempt, newest first
+    router.get('/:webhookId/dead-letters', async (req, res) => {
+        const userId = req.user!.discord_id;
+
+        try {
+            const webhook = await loadWebhook(req.params['webhookId'] as string, userId);
+            const response: ListDeadLettersResponse = { success: true, deadLetters: await webhooks.listDeadLetters(webhook.id) };
+            res.json(response);
+        } catch (error) {
+            sendError(res, error, 'Failed to list dead letters', 'deadLettersRoute', userId);
+        }
+    });
+
+    // Send a dead-lettered delivery again, with a fresh set of retries if it fails
+    router.post('/:webhookId/dead-letters/:deliveryId/retry', async (req, res) => {
+        const userId = req.user!.discord_id;
+
+        try {
+            const webhook = await loadWebhook(req.params['webhookId'] as string, userId);
+            const delivered = await webhooks.redeliver(webhook.id, req.params['deliveryId'] as string);
+            const response: RedeliverWebhookResponse = { success: true, delivered };
+            res.json(response);
+        } catch (error) {
+            sendError(res, error, 'Failed to retry delivery', 'redeliverWebhookRoute', userId);
+        }
+    });
+
+    return router;
+};
@@ -1,6 +1,7 @@
 import express from 'express';
 import { createServer } from 'http';
 import { Server } from 'socket.io';
+import { createAdapter } from '@socket.io/redis-adapter';
 import cors from 'cors';
 import helmet from 'helmet';
 import dotenv from 'dotenv';
@@ -10,7 +11,26 @@ import { setupDiscordNamespace } from './namespaces/discordNamespace';
 import { DiscordBot } from './services/discordBot.service';
 import { createHealthRouter } from './routes/health.route';
 import { setupGlobalErrorHandlers } from './middleware/errorHandler';
-import authRouter from './routes/auth.route';
+import { createAuthRouter } from './routes/auth.route';
+import { createSearchRouter } from './routes/search.route';
+import { createAttachmentRouter } from './routes/attachment.route';
+import { createGuildRouter } from './routes/guild.route';
+import { createChannelRouter } from './routes/channel.route';
+import { createUserRouter } from './routes/user.route';
+import { createWebhookRouter } from './routes/webhook.route';
+import { createMessageRepository } from './utils/database';
+import { createRedisClient, isClusterEnabled } from './utils/redis';
+import { ClusterCoordinator } from './services/cluster.service';
+import { RedisSubscriptionRegistry } from './services/subscriptionRegistry.service';
+import { createAttachmentCache } from './services/attachmentCache.service';
+import { createSessionService } from './services/session.service';
+import { createDiscordOAuthService } from './services/discordOAuth.service';
+import { createReplayBuffer } from './services/replayBuffer.service';
+import { createWebhookService } from './services/webhook.service';
+import { createRateLimiter } from './utils/rateLimiter';
+import { rateLimitRequests } from './middleware/rateLimit';
+import { buildOpenApiDocument } from './utils/openapi';
+import type { ClientToServerEvents, DiscordSocketData, InterServerEvents, ServerToClientEvents } from './types';
 
 
 // Create Express app
@@ -44,7 +64,7 @@ app.use(express.urlencoded({ extended: true, limit: '10mb' }));
 app.use(cookieParser());
 
 // Socket.IO Server configuration
-const io = new Server(httpServer, {
+const io = new Server<ClientToServerEvents, ServerToClientEvents, InterServerEvents, DiscordSocketData>(httpServer, {
   cors: {
     origin: process.env['FRONTEND_URL'] || "http://localhost:3000",
     methods: ["GET", "POST"],
@@ -59,9 +79,59 @@ const io = new Server(httpServer, {
 });
 
 
+// Cluster mode: rooms are shared through Redis and one node holds the Discord gateway
+const redis = isClusterEnabled() ? createRedisClient() : null;
+const cluster = redis ? new ClusterCoordinator(redis, { ...(process.env['NODE_ID'] ? { nodeId: process.env['NODE_ID'] } : {}) }) : null;
+const subscriptionRegistry = redis && cluster ? new RedisSubscriptionRegistry(redis, cluster.nodeId) : null;
+if (redis) {
+  io.adapter(createAdapter(redis.duplicate(), redis.duplicate()));
+}
+
+// Token buckets per Discord user (or IP), shared between nodes in cluster mode
+const rateLimiter = createRateLimiter(redis);
+
+// Users' Discord OAuth2 grants, stored encrypted and shared between nodes in cluster mode
+const oauth = createDiscordOAuthService(redis);
+
+// Channel sequence numbers and recent stream events for `resume`, shared between nodes in cluster mode
+const replayBuffer = createReplayBuffer(redis);
+
+// Outbound webhook subscriptions, their retries and dead letters, shared between nodes in cluster mode
+const webhooks = createWebhookService(redis);
+
+// Message archive and Discord bot, shared by routes and sockets
+const discordNamespace = io.of('/discord');
+const messageRepository = createMessageRepository();
+const discordBot = new DiscordBot(discordNamespace, messageRepository, {
+  ...(subscriptionRegistry ? { subscriptions: subscriptionRegistry } : {}),
+  ...(cluster ? { cluster } : {}),
+  oauth,
+  replay: replayBuffer,
+  webhooks
+});
+
+// Login sessions and revocations, shared between nodes in cluster mode
+const sessions = createSessionService(redis);
+
+// Attachment files are cached per node, Discord's own URLs expire
+const attachmentCache = createAttachmentCache();
+
 //Routes configuration
-app.use('/api', createHealthRouter(io));
-app.use('/api/auth', authRouter);
+app.use('/api', createHealthRouter(io, discordBot));
+app.use('/api/auth', rateLimitRequests(rateLimiter), createAuthRouter(sessions, oauth));
+// Signed-in routes share each user's socket bucket, limited after authentication so the key is the user
+app.use('/api/search', createSearchRouter(discordBot, sessions, rateLimiter));
+app.use('/api/guilds', createGuildRouter(discordBot, oauth, sessions, rateLimiter));
+app.use('/api/channels', createChannelRouter(discordBot, sessions, rateLimiter));
+app.use('/api/me', createUserRouter(discordBot, sessions, rateLimiter));
+app.use('/api/webhooks', createWebhookRouter(discordBot, webhooks, sessions, rateLimiter));
+
+// OpenAPI description of the REST routes
+const openApiDocument = buildOpenApiDocument();
+app.get('/api/openapi.json', (_req, res) => {
+  res.json(openApiDocument);
+});
+app.use('/api/attachments', createAttachmentRouter(discordBot, attachmentCache, sessions, rateLimiter));
 
 // Basic route for testing
 app.get('/', (_req, res) => {
@@ -96,26 +166,43 @@ app.use('*', (req, res) => {
 // Initialize services and start server
 async function initialize() {
   try {
-    const discordNamespace = io.of('/discord')
     console.log('🚀 Initializing Discord Stream Backend...');
 
 
     // Setup global error handlers
     setupGlobalErrorHandlers();
 
+    // Open the message archive before the bot starts recording
+    await messageRepository.open();
+    await attachmentCache.open();
+
     // Initialize Discord bot
-    const discordBot = new DiscordBot(discordNamespace)
     const botToken = process.env['DISCORD_BOT_TOKEN'];
 
     if (!botToken) {
       console.warn('⚠️  No Discord bot token provided. Bot functionality will be disabled.');
+    } else if (cluster && subscriptionRegistry) {
+      // Only the elected leader connects to the gateway; followers forward Discord calls to it
+      cluster.onLeadershipChange(async (isLeader) => {
+        if (isLeader) {
+          await discordBot.initialize(botToken);
+          console.log('✅ Discord bot initialized as cluster leader');
+        } else {
+          await discordBot.shutdown();
+        }
+      });
+      cluster.addLeaderTask(() => subscriptionRegistry.pruneNodes((nodeId) => cluster.isNodeAlive(nodeId)));
+      await cluster.start();
     } else {
       await discordBot.initialize(botToken);
       console.log('✅ Discord bot initialized');
     }
 
+    // Every node sends due webhook retries; only the gateway leader publishes new events
+    webhooks.start();
+
     // Setup Socket.IO namespaces
-    setupDiscordNamespace(discordNamespace, discordBot);
+    setupDiscordNamespace(discordNamespace, discordBot, sessions, rateLimiter);
 
     // Start server
     const PORT = parseInt(process.env['PORT'] || '3001');
@@ -138,8 +225,16 @@ async function initialize() {
 const gracefulShutdown = (signal: string) => {
   console.log(`🛑 ${signal} received, shutting down gracefully`);
 
-  httpServer.close(() => {
+  httpServer.close(async () => {
     console.log('✅ HTTP server closed');
+    webhooks.stop();
+    await messageRepository.close();
+    console.log('✅ Message archive closed');
+    if (cluster) {
+      await subscriptionRegistry?.clear();
+      await cluster.stop();
+      console.log('✅ Left the cluster');
+    }
     console.log('✅ Server shutdown complete');
     process.exit(0);
   });
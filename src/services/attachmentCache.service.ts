@@ -0,0 +1,137 @@
+import fs from 'fs'
+import path from 'path'
+import { Readable, Transform } from 'stream'
+import { pipeline } from 'stream/promises'
+
+export const DEFAULT_ATTACHMENT_CACHE_MAX_BYTES = 1024 * 1024 * 1024
+export const DEFAULT_ATTACHMENT_CACHE_MAX_FILE_BYTES = 25 * 1024 * 1024
+
+export interface AttachmentCacheOptions {
+  maxBytes?: number // total size kept on disk
+  maxFileBytes?: number // larger files are streamed through without being cached
+}
+
+class FileTooLargeError extends Error {}
+
+//Attachment files on local disk, evicting the least recently served once the cache is full
+export class AttachmentCache {
+  readonly maxFileBytes: number
+  private directory: string
+  private maxBytes: number
+  // Insertion order is use order, the first entry is evicted first
+  private entries: Map<string, number> = new Map()
+  private totalBytes = 0
+  private downloads: Map<string, Promise<string | null>> = new Map()
+
+  constructor(directory: string, options: AttachmentCacheOptions = {}) {
+    this.directory = directory
+    this.maxBytes = options.maxBytes ?? DEFAULT_ATTACHMENT_CACHE_MAX_BYTES
+    this.maxFileBytes = options.maxFileBytes ?? DEFAULT_ATTACHMENT_CACHE_MAX_FILE_BYTES
+  }
+
+  //Indexing files left by a previous run, oldest use first
+  async open() {
+    await fs.promises.mkdir(this.directory, { recursive: true })
+    const files: Array<{ key: string, size: number, used: number }> = []
+
+    for (const file of await fs.promises.readdir(this.directory)) {
+      const filePath = path.join(this.directory, file)
+      // Partial downloads are discarded
+      if (file.endsWith('.tmp')) {
+        await fs.promises.rm(filePath, { force: true })
+        continue
+      }
+
+      const stat = await fs.promises.stat(filePath)
+      if (stat.isFile()) files.push({ key: file, size: stat.size, used: stat.mtimeMs })
+    }
+
+    for (const file of files.sort((a, b) => a.used - b.used)) {
+      this.entries.set(file.key, file.size)
+      this.totalBytes += file.size
+    }
+    await this.evict()
+    console.log(`📎 Attachment cache opened at ${this.directory} (${this.entries.size} files)`)
+  }
+
+  //Path of a cached file, marking it as just used
+  get(key: string) {
+    const size = this.entries.get(key)
+    if (size === undefined) return null
+
+    this.entries.delete(key)
+    this.entries.set(key, size)
+    // The modification time keeps the use order across restarts
+    const now = new Date()
+    fs.promises.utimes(this.filePath(key), now, now).catch(() => undefined)
+    return this.filePath(key)
+  }
+
+  //Downloading a file once however many requests ask for it; resolves null when it is over the file limit
+  async fetch(key: string, load: () => Promise<Readable>) {
+    const cached = this.get(key)
+    if (cached) return cached
+
+    const pending = this.downloads.get(key)
+    if (pending) return pending
+
+    const download = this.store(key, load).finally(() => this.downloads.delete(key))
+    this.downloads.set(key, download)
+    return download
+  }
+
+  getStats() {
+    return { files: this.entries.size, bytes: this.totalBytes }
+  }
+
+  private filePath(key: string) {
+    return path.join(this.directory, key)
+  }
+
+  private async store(key: string, load: () => Promise<Readable>) {
+    const body = await load()
+    const target = this.filePath(key)
+    const temp = `${target}.${process.pid}.tmp`
+    const limit = this.maxFileBytes
+    let size = 0
+
+    const counter = new Transform({
+      transform(chunk: Buffer, _encoding, callback) {
+        size += chunk.length
+        callback(size > limit ? new FileTooLargeError() : null, chunk)
+      }
+    })
+
+    try {
+      await pipeline(body, counter, fs.createWriteStream(temp))
+    } catch (error) {
+      await fs.promises.rm(temp, { force: true })
+      if (error instanceof FileTooLargeError) return null
+      throw error
+    }
+
+    await fs.promises.rename(temp, target)
+    this.totalBytes += size - (this.entries.get(key) ?? 0)
+    this.entries.delete(key)
+    this.entries.set(key, size)
+    await this.evict(key)
+    return target
+  }
+
+  private async evict(keep?: string) {
+    for (const [key, size] of this.entries) {
+      if (this.totalBytes <= this.maxBytes) break
+      if (key === keep) continue
+
+      this.entries.delete(key)
+      this.totalBytes -= size
+      await fs.promises.rm(this.filePath(key), { force: true })
+    }
+  }
+}
+
+//Choosing the cache location and limits from the environment
+export const createAttachmentCache = () => new AttachmentCache(process.env['ATTACHMENT_CACHE_DIR'] || './data/attachments', {
+  maxBytes: parseInt(process.env['ATTACHMENT_CACHE_MAX_BYTES'] || '') || DEFAULT_ATTACHMENT_CACHE_MAX_BYTES,
+  maxFileBytes: parseInt(process.env['ATTACHMENT_CACHE_MAX_FILE_BYTES'] || '') || DEFAULT_ATTACHMENT_CACHE_MAX_FILE_BYTES
+})
@@ -0,0 +1,224 @@
+import { randomUUID } from 'crypto'
+import type Redis from 'ioredis'
+import { OperationalError } from '../middleware/errorHandler'
+
+const LEADER_KEY = 'discord:gateway:leader'
+const LEADER_RPC_CHANNEL = 'discord:rpc:leader'
+const nodeKey = (nodeId: string) => `discord:node:${nodeId}`
+const replyChannel = (nodeId: string) => `discord:rpc:reply:${nodeId}`
+
+// Only extend or release the lease while we still hold it
+const RENEW_LEADERSHIP_SCRIPT = `
+if redis.call('get', KEYS[1]) == ARGV[1] then
+  return redis.call('pexpire', KEYS[1], ARGV[2])
+end
+return 0`
+
+const RELEASE_LEADERSHIP_SCRIPT = `
+if redis.call('get', KEYS[1]) == ARGV[1] then
+  return redis.call('del', KEYS[1])
+end
+return 0`
+
+export type LeaderRequestHandler = (method: string, args: unknown[]) => Promise<unknown>
+type LeadershipListener = (isLeader: boolean) => void | Promise<void>
+type LeaderTask = () => Promise<void>
+
+interface LeaderRequest {
+  id: string
+  replyTo: string
+  method: string
+  args: unknown[]
+}
+
+interface LeaderResponse {
+  id: string
+  result?: unknown
+  error?: { message: string, code?: string, statusCode?: number, retryAfter?: number }
+}
+
+//Electing a single Discord gateway leader through a Redis lease and forwarding calls to it
+export class ClusterCoordinator {
+  readonly nodeId: string
+  private redis: Redis
+  private subscriber: Redis
+  private leaseMs: number
+  private requestTimeoutMs: number
+  private leader = false
+  private timer: NodeJS.Timeout | null = null
+  private requestHandler: LeaderRequestHandler | null = null
+  private leadershipListeners: LeadershipListener[] = []
+  private leaderTasks: LeaderTask[] = []
+  private pending: Map<string, { resolve: (value: unknown) => void, reject: (error: Error) => void, timer: NodeJS.Timeout }> = new Map()
+
+  constructor(redis: Redis, options: { nodeId?: string, leaseMs?: number, requestTimeoutMs?: number } = {}) {
+    this.redis = redis
+    this.subscriber = redis.duplicate()
+    this.nodeId = options.nodeId ?? randomUUID()
+    this.leaseMs = options.leaseMs ?? 15000
+    this.requestTimeoutMs = options.requestTimeoutMs ?? 10000
+  }
+
+  async start() {
+    this.subscriber.on('message', (channel: string, raw: string) => {
+      this.handleMessage(channel, raw)
+    })
+    await this.subscriber.subscribe(replyChannel(this.nodeId))
+
+    await this.tick()
+    this.timer = setInterval(() => this.tick(), Math.floor(this.leaseMs / 3))
+    console.log(`🛰️ Cluster node ${this.nodeId} started`)
+  }
+
+  async stop() {
+    if (this.timer) clearInterval(this.timer)
+    this.timer = null
+
+    if (this.leader) {
+      await this.redis.eval(RELEASE_LEADERSHIP_SCRIPT, 1, LEADER_KEY, this.nodeId).catch(() => null)
+      await this.setLeader(false)
+    }
+
+    await this.redis.del(nodeKey(this.nodeId)).catch(() => null)
+    for (const { reject, timer } of this.pending.values()) {
+      clearTimeout(timer)
+      reject(new OperationalError('LEADER_UNAVAILABLE', 'Cluster node is shutting down', { statusCode: 503 }))
+    }
+    this.pending.clear()
+    this.subscriber.disconnect()
+  }
+
+  isLeader() {
+    return this.leader
+  }
+
+  async isNodeAlive(nodeId: string) {
+    return (await this.redis.exists(nodeKey(nodeId))) === 1
+  }
+
+  onLeadershipChange(listener: LeadershipListener) {
+    this.leadershipListeners.push(listener)
+  }
+
+  //Registering periodic work that only the leader should do
+  addLeaderTask(task: LeaderTask) {
+    this.leaderTasks.push(task)
+  }
+
+  setRequestHandler(handler: LeaderRequestHandler) {
+    this.requestHandler = handler
+  }
+
+  //Calling a method on the leader node and waiting for its answer
+  callLeader<T>(method: string, args: unknown[]): Promise<T> {
+    const id = randomUUID()
+
+    return new Promise<T>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.pending.delete(id)
+        reject(new OperationalError('LEADER_UNAVAILABLE', 'No Discord gateway leader is available', { statusCode: 503, severity: 'HIGH' }))
+      }, this.requestTimeoutMs)
+
+      this.pending.set(id, { resolve: resolve as (value: unknown) => void, reject, timer })
+
+      const request: LeaderRequest = { id, replyTo: replyChannel(this.nodeId), method, args }
+      this.redis.publish(LEADER_RPC_CHANNEL, JSON.stringify(request)).catch((error) => {
+        clearTimeout(timer)
+        this.pending.delete(id)
+        reject(error)
+      })
+    })
+  }
+
+  private async tick() {
+    try {
+      await this.redis.set(nodeKey(this.nodeId), '1', 'PX', this.leaseMs)
+
+      if (this.leader) {
+        const renewed = await this.redis.eval(RENEW_LEADERSHIP_SCRIPT, 1, LEADER_KEY, this.nodeId, this.leaseMs)
+        if (!renewed) await this.setLeader(false)
+      } else {
+        const acquired = await this.redis.set(LEADER_KEY, this.nodeId, 'PX', this.leaseMs, 'NX')
+        if (acquired === 'OK') await this.setLeader(true)
+      }
+
+      if (this.leader) {
+        for (const task of this.leaderTasks) await task()
+      }
+    } catch (error) {
+      console.error('Cluster leadership check failed:', error)
+      // Without Redis we cannot prove we still hold the lease, so avoid running two gateways
+      if (this.leader) await this.setLeader(false)
+    }
+  }
+
+  private async setLeader(isLeader: boolean) {
+    if (this.leader === isLeader) return
+    this.leader = isLeader
+
+    if (isLeader) {
+      await this.subscriber.subscribe(LEADER_RPC_CHANNEL)
+      console.log(`👑 Node ${this.nodeId} is now the Discord gateway leader`)
+    } else {
+      await this.subscriber.unsubscribe(LEADER_RPC_CHANNEL).catch(() => null)
+      console.log(`👋 Node ${this.nodeId} is no longer the Discord gateway leader`)
+    }
+
+    for (const listener of this.leadershipListeners) {
+      try {
+        await listener(isLeader)
+      } catch (error) {
+        console.error('Leadership change listener failed:', error)
+      }
+    }
+  }
+
+  private async handleMessage(channel: string, raw: string) {
+    try {
+      if (channel === LEADER_RPC_CHANNEL && this.leader) {
+        await this.serveRequest(JSON.parse(raw) as LeaderRequest)
+      } else if (channel === replyChannel(this.nodeId)) {
+        this.handleResponse(JSON.parse(raw) as LeaderResponse)
+      }
+    } catch (error) {
+      console.error('Error handling cluster message:', error)
+    }
+  }
+
+  private async serveRequest(request: LeaderRequest) {
+    const response: LeaderResponse = { id: request.id }
+
+    try {
+      if (!this.requestHandler) throw new Error('Leader has no request handler')
+      response.result = await this.requestHandler(request.method, request.args)
+    } catch (error) {
+      response.error = {
+        message: (error as Error).message,
+        ...(error instanceof OperationalError
+          ? { code: error.code, statusCode: error.statusCode, ...(error.retryAfter !== undefined ? { retryAfter: error.retryAfter } : {}) }
+          : {})
+      }
+    }
+
+    await this.redis.publish(request.replyTo, JSON.stringify(response))
+  }
+
+  private handleResponse(response: LeaderResponse) {
+    const pending = this.pending.get(response.id)
+    if (!pending) return
+
+    clearTimeout(pending.timer)
+    this.pending.delete(response.id)
+
+    if (!response.error) {
+      pending.resolve(response.result)
+      return
+    }
+
+    // Operational errors keep their code so handlers answer followers exactly like the leader
+    const { message, code, statusCode, retryAfter } = response.error
+    pending.reject(code
+      ? new OperationalError(code, message, { ...(statusCode !== undefined ? { statusCode } : {}), ...(retryAfter !== undefined ? { retryAfter } : {}) })
+      : new Error(message))
+  }
+}
@@ -1,23 +1,268 @@
-import { Client, GatewayIntentBits, PartialMessage, type Message, type TextChannel } from 'discord.js'
-import { Namespace} from 'socket.io'
-import { DiscordChannel, DiscordMessage } from '../types'
+import { randomUUID } from 'crypto'
+import {
+  ActionRow,
+  BaseSelectMenuComponent,
+  ButtonComponent,
+  ButtonStyle,
+  ChannelType,
+  Client,
+  ComponentType,
+  DiscordAPIError,
+  GatewayIntentBits,
+  MessageType,
+  PartialMessage,
+  Partials,
+  RateLimitError,
+  StickerFormatType,
+  StringSelectMenuComponent,
+  type AnyThreadChannel,
+  type ForumChannel,
+  type MediaChannel,
+  type MessageReaction,
+  type PartialMessageReaction,
+  type PartialUser,
+  type Attachment,
+  type Poll,
+  type PollAnswer,
+  type TopLevelComponent,
+  type User,
+  type VoiceBasedChannel,
+  type VoiceState,
+  type Guild,
+  type GuildBasedChannel,
+  type GuildMember,
+  type PartialGuildMember,
+  type Message,
+  type ReadonlyCollection,
+  type MessageMentionTypes,
+  type NewsChannel,
+  type StageChannel,
+  type TextChannel,
+  type VoiceChannel,
+  type Typing,
+  type Webhook
+} from 'discord.js'
+import {
+  AccessRevokedEvent,
+  ChannelPermissions,
+  ChannelViewer,
+  DiscordAttachment,
+  DiscordChannel,
+  DiscordChannelType,
+  DiscordComponent,
+  DiscordComponentRow,
+  DiscordEmbed,
+  DatabaseNotification,
+  DatabaseWatchRule,
+  DiscordEmoji,
+  DiscordMessage,
+  DiscordMessageAuthor,
+  DiscordPoll,
+  DiscordReaction,
+  DiscordSticker,
+  DiscordNamespace,
+  DiscordNotification,
+  DiscordUserProfile,
+  GetInboxRequest,
+  InboxEvent,
+  InboxPage,
+  ListThreadsRequest,
+  MessageHistoryPage,
+  MessageReplyPreview,
+  ReactionClearEvent,
+  ReactionEvent,
+  SearchMessagesRequest,
+  ThreadInfo,
+  ThreadPage,
+  UserPresence,
+  VoiceParticipant,
+  WatchRule,
+  WatchRuleInput,
+  WebhookEvent
+} from '../types'
+import { OperationalError } from '../middleware/errorHandler'
+import { customEmojiUrl, MentionResolver, parseContent } from '../utils/contentParser'
+import { isDiscordUrlExpired, signAttachmentUrl } from '../utils/attachmentUrls'
+import { matchesFilter, matchWatchRule } from '../utils/messageFilter'
+import { SNOWFLAKE_PATTERN } from '../utils/validation'
+import {
+  fromDatabaseMessage,
+  fromDatabaseNotification,
+  fromDatabaseWatchRule,
+  InMemoryMessageRepository,
+  MAX_NOTIFICATIONS_PER_USER,
+  MessageRepository,
+  MessageSearchQuery,
+  toDatabaseMessage
+} from '../utils/database'
+import { LocalSubscriptionRegistry, SubscriptionRegistry } from './subscriptionRegistry.service'
+import type { ClusterCoordinator } from './cluster.service'
+import { PresenceTracker } from './presence.service'
+import type { DiscordOAuthService } from './discordOAuth.service'
+import type { WebhookService } from './webhook.service'
+import { DEFAULT_REPLAY_BUFFER_SIZE, DEFAULT_REPLAY_BUFFER_TTL_MS, InMemoryReplayStore, ReplayBuffer, ReplayEventInput } from './replayBuffer.service'
+
+export const DEFAULT_HISTORY_LIMIT = 50
+export const MAX_HISTORY_LIMIT = 100
+export const MAX_MESSAGE_LENGTH = 2000
+export const DEFAULT_SEARCH_LIMIT = 25
+export const MAX_SEARCH_LIMIT = 100
+export const MAX_UNREAD_COUNT = 100
+export const DEFAULT_THREAD_LIMIT = 25
+export const MAX_THREAD_LIMIT = 100
+export const REPLY_PREVIEW_LENGTH = 200
+export const MAX_WATCH_RULES = 25
+export const DEFAULT_INBOX_LIMIT = 25
+export const MAX_INBOX_LIMIT = 100
+
+// Discord shows a typing indicator for ~10 seconds after each trigger
+export const TYPING_TIMEOUT_MS = 10000
+const BOT_TYPING_THROTTLE_MS = 8000
+
+// Request/response methods that followers forward to the gateway leader in cluster mode
+const LEADER_METHODS = [
+  'getChannelInfo',
+  'authorizeChannelAccess',
+  'fetchChannelHistory',
+  'sendMessage',
+  'triggerTyping',
+  'addReaction',
+  'removeReaction',
+  'searchMessages',
+  'markRead',
+  'listThreads',
+  'getAttachment',
+  'getUserChannels',
+  'getUserInfo',
+  'getBotGuildIds',
+  'listWatchRules',
+  'addWatchRule',
+  'removeWatchRule',
+  'getInbox',
+  'getInboxStatus',
+  'markNotificationsRead',
+  'authorizeWebhookAdmin'
+] as const
+type LeaderMethod = typeof LEADER_METHODS[number]
+
+// Accepts `<:name:id>`, `<a:name:id>`, `name:id` or a bare custom emoji ID
+const CUSTOM_EMOJI_PATTERN = /^<?a?:?\w+:(\d{17,20})>?$|^(\d{17,20})$/
+
+const BRIDGE_WEBHOOK_NAME = 'Discord Stream Bridge'
+
+// Channels that can own webhooks; threads post through their parent's
+type WebhookChannel = TextChannel | NewsChannel | ForumChannel | MediaChannel | VoiceChannel | StageChannel
+
+// Guild channel types bridged to the web client
+const CHANNEL_TYPES: Partial<Record<ChannelType, DiscordChannelType>> = {
+  [ChannelType.GuildText]: 'text',
+  [ChannelType.GuildVoice]: 'voice',
+  [ChannelType.GuildCategory]: 'category',
+  [ChannelType.GuildAnnouncement]: 'announcement',
+  [ChannelType.GuildStageVoice]: 'stage',
+  [ChannelType.GuildForum]: 'forum',
+  [ChannelType.GuildMedia]: 'media',
+  [ChannelType.AnnouncementThread]: 'thread',
+  [ChannelType.PublicThread]: 'thread',
+  [ChannelType.PrivateThread]: 'thread'
+}
+
+const STICKER_FORMATS: Record<StickerFormatType, DiscordSticker['format']> = {
+  [StickerFormatType.PNG]: 'png',
+  [StickerFormatType.APNG]: 'apng',
+  [StickerFormatType.Lottie]: 'lottie',
+  [StickerFormatType.GIF]: 'gif'
+}
+
+const BUTTON_STYLES: Record<ButtonStyle, Extract<DiscordComponent, { type: 'button' }>['style']> = {
+  [ButtonStyle.Primary]: 'primary',
+  [ButtonStyle.Secondary]: 'secondary',
+  [ButtonStyle.Success]: 'success',
+  [ButtonStyle.Danger]: 'danger',
+  [ButtonStyle.Link]: 'link',
+  [ButtonStyle.Premium]: 'premium'
+}
+
+const SELECT_MENUS: Partial<Record<ComponentType, Extract<DiscordComponent, { type: 'select' }>['menu']>> = {
+  [ComponentType.StringSelect]: 'string',
+  [ComponentType.UserSelect]: 'user',
+  [ComponentType.RoleSelect]: 'role',
+  [ComponentType.MentionableSelect]: 'mentionable',
+  [ComponentType.ChannelSelect]: 'channel'
+}
+
+// 'ChannelPinnedMessage' becomes 'channel_pinned_message'
+const messageTypeName = (type: MessageType) =>
+  (MessageType[type] ?? 'Unknown').replace(/([a-z0-9])([A-Z])/g, '$1_$2').toLowerCase()
+
+// Discord JSON error codes we translate for the sender
+const DISCORD_SLOWMODE_ERROR = 20016
+const DISCORD_MISSING_PERMISSIONS_ERROR = 50013
+
+//Snowflakes are numeric strings too large for Number, so compare by length then lexically
+export const compareSnowflakes = (a: string, b: string) =>
+  a.length === b.length ? a.localeCompare(b) : a.length - b.length
 
 export class DiscordBot {
   private client: Client
-  private socket: Namespace
-  private channelSubscriptions: Map<string, Set<string>> = new Map()
+  private socket: DiscordNamespace
+  private subscriptions: SubscriptionRegistry
+  private cluster: ClusterCoordinator | null
+  private bridgeWebhooks: Map<string, Webhook> = new Map()
+  private bridgeWebhookIds: Set<string> = new Set()
+  private lastSentAt: Map<string, number> = new Map()
+  private typingTimers: Map<string, NodeJS.Timeout> = new Map()
+  private lastTypingTriggeredAt: Map<string, number> = new Map()
+  // Web users the bot is reacting on behalf of, keyed by `${messageId}:${emojiKey}`
+  private webReactions: Map<string, Set<string>> = new Map()
+  private repository: MessageRepository
+  // Newest archived message per channel while the archive is known complete up to now
+  private liveArchiveTails: Map<string, string> = new Map()
+  private presence: PresenceTracker
+  private oauth: DiscordOAuthService | null
+  private replay: ReplayBuffer
+  private webhooks: WebhookService | null
 
   //Initialize discord class
-  constructor(socket: Namespace) {
+  constructor(
+    socket: DiscordNamespace,
+    repository: MessageRepository = new InMemoryMessageRepository(),
+    options: {
+      subscriptions?: SubscriptionRegistry,
+      cluster?: ClusterCoordinator,
+      oauth?: DiscordOAuthService,
+      replay?: ReplayBuffer,
+      webhooks?: WebhookService
+    } = {}
+  ) {
     this.client = new Client({
       intents: [
         GatewayIntentBits.Guilds,
         GatewayIntentBits.GuildMessages,
         GatewayIntentBits.MessageContent,
-        GatewayIntentBits.GuildMembers
-      ]
+        GatewayIntentBits.GuildMembers,
+        GatewayIntentBits.GuildMessageTyping,
+        GatewayIntentBits.GuildMessageReactions,
+        GatewayIntentBits.GuildVoiceStates,
+        GatewayIntentBits.GuildMessagePolls
+      ],
+      // Reactions on messages sent before the bot started arrive as partials
+      partials: [Partials.Message, Partials.Channel, Partials.Reaction, Partials.User],
+      rest: {
+        // Surface rate limits on message posts to the web sender instead of silently queueing
+        rejectOnRateLimit: (data) =>
+          data.method === 'POST' && (data.route.startsWith('/webhooks') || data.route.endsWith('/messages'))
+      }
     })
     this.socket = socket
+    this.repository = repository
+    this.subscriptions = options.subscriptions ?? new LocalSubscriptionRegistry()
+    this.cluster = options.cluster ?? null
+    this.oauth = options.oauth ?? null
+    this.webhooks = options.webhooks ?? null
+    this.replay = options.replay ?? new ReplayBuffer(new InMemoryReplayStore(), { size: DEFAULT_REPLAY_BUFFER_SIZE, ttlMs: DEFAULT_REPLAY_BUFFER_TTL_MS })
+    this.cluster?.setRequestHandler((method, args) => this.runLeaderCall(method, args))
+    this.presence = new PresenceTracker((userId, presence) => this.publishPresence(userId, presence))
     //Set up event handlers
     this.setupEventHandlers()
   }
@@ -35,6 +280,36 @@ export class DiscordBot {
     }
   }
 
+  //Disconnecting from the gateway, e.g. when this node loses cluster leadership
+  async shutdown() {
+    for (const timer of this.typingTimers.values()) clearTimeout(timer)
+    this.typingTimers.clear()
+    this.liveArchiveTails.clear()
+    await this.client.destroy()
+    console.log('🔌 Discord bot disconnected from the gateway')
+  }
+
+  isReady() {
+    return this.client.isReady()
+  }
+
+  //Followers in a cluster have no gateway connection, so Discord calls run on the leader
+  private shouldForward() {
+    return !!this.cluster && !this.cluster.isLeader()
+  }
+
+  private forward(method: LeaderMethod, args: unknown[]) {
+    return this.cluster!.callLeader(method, args) as Promise<never>
+  }
+
+  private runLeaderCall(method: string, args: unknown[]) {
+    if (!(LEADER_METHODS as readonly string[]).includes(method)) {
+      throw new Error(`Unknown leader method: ${method}`)
+    }
+    const fn = this[method as LeaderMethod] as (...params: unknown[]) => Promise<unknown>
+    return fn.apply(this, args)
+  }
+
   //Handling events
   private setupEventHandlers() {
     this.client.on('ready', () => {
@@ -46,19 +321,100 @@ export class DiscordBot {
       this.handleNewMessage(message)
     })
 
-    this.client.on('messageReactionAdd', (message) => {
-      console.log('reaction added', message)
+    this.client.on('typingStart', (typing: Typing) => {
+      this.handleTypingStart(typing)
+    })
+
+    this.client.on('messageReactionAdd', (reaction, user) => {
+      this.handleReactionChange('reaction_add', reaction, user)
+    })
+
+    this.client.on('messageReactionRemove', (reaction, user) => {
+      this.handleReactionChange('reaction_remove', reaction, user)
+    })
+
+    this.client.on('messageReactionRemoveAll', (message) => {
+      this.handleReactionClear(message)
+    })
+
+    this.client.on('messageReactionRemoveEmoji', (reaction) => {
+      this.handleReactionClear(reaction.message, reaction.emoji.id ?? reaction.emoji.name ?? undefined)
     })
 
     this.client.on('messageUpdate', (oldMessage, newMessage) => {
-      if (newMessage.partial) return
-      this.handleMessageUpdate(newMessage as Message)
+      this.handleMessageUpdate(newMessage)
+    })
+
+    this.client.on('messagePollVoteAdd', (answer) => {
+      this.handlePollVote(answer)
+    })
+
+    this.client.on('messagePollVoteRemove', (answer) => {
+      this.handlePollVote(answer)
     })
 
     this.client.on('messageDelete', (message) => {
       this.handleMessageDelete(message)
     })
 
+    this.client.on('messageDeleteBulk', (messages) => {
+      this.handleMessageDeleteBulk(messages)
+    })
+
+    this.client.on('channelCreate', (channel) => {
+      this.handleChannelChange(null, channel)
+    })
+
+    this.client.on('channelUpdate', (oldChannel, newChannel) => {
+      if (!oldChannel.isDMBased() && !newChannel.isDMBased()) this.handleChannelChange(oldChannel, newChannel)
+    })
+
+    this.client.on('channelDelete', (channel) => {
+      if (!channel.isDMBased()) this.handleChannelDelete(channel)
+    })
+
+    this.client.on('threadCreate', (thread) => {
+      this.handleChannelChange(null, thread)
+    })
+
+    this.client.on('threadUpdate', (oldThread, newThread) => {
+      this.handleChannelChange(oldThread, newThread)
+    })
+
+    this.client.on('threadDelete', (thread) => {
+      this.handleChannelDelete(thread)
+    })
+
+    this.client.on('voiceStateUpdate', (oldState, newState) => {
+      this.handleVoiceStateUpdate(oldState, newState)
+    })
+
+    // Anything that can change what a member may see re-checks the channels they are watching
+    this.client.on('guildMemberUpdate', (oldMember, newMember) => {
+      this.recheckMemberAccess(newMember)
+    })
+
+    this.client.on('guildMemberRemove', (member) => {
+      this.handleMemberRemove(member)
+    })
+
+    this.client.on('roleUpdate', (oldRole, newRole) => {
+      if (!oldRole.permissions.equals(newRole.permissions)) this.recheckGuildAccess(newRole.guild)
+    })
+
+    this.client.on('roleDelete', (role) => {
+      this.recheckGuildAccess(role.guild)
+    })
+
+    // A new gateway session may have missed events, so live archive tails are no longer trustworthy
+    this.client.on('shardReady', () => {
+      this.liveArchiveTails.clear()
+    })
+
+    this.client.on('shardDisconnect', () => {
+      this.liveArchiveTails.clear()
+    })
+
     this.client.on('error', (error) => {
       console.error('Discord client error:', error)
     })
@@ -74,35 +430,287 @@ export class DiscordBot {
 
   //Handling new messages
   private async handleNewMessage(message: Message) {
-    if (message.author.bot) return
-
     const channelId = message.channel.id
-    const subscribers = this.channelSubscriptions.get(channelId)
 
-    //If no subscribers skip formatting message
-    if (!subscribers || subscribers.size === 0) return
+    // Archive everything, bots included, before deciding who to stream it to
+    const archived = await this.archiveMessage(message)
+    if (archived && message.inGuild()) {
+      this.notifyWatchers(message, archived).catch((error) => console.error('Error notifying watchers:', error))
+      this.publishWebhook({ type: 'message_create', guildId: message.guildId, channelId, data: archived })
+    }
+    if (archived) {
+      const tail = this.liveArchiveTails.get(channelId)
+      if (tail) {
+        await this.repository.addCoverage(channelId, { from: tail, to: message.id }).catch(() => null)
+        this.liveArchiveTails.set(channelId, message.id)
+      }
+    }
+
+    // Unread counts move for everyone who can see the channel, joined or not; bot messages do not count
+    if (message.inGuild() && !(message.author.bot && !this.isBridgeMessage(message))) {
+      this.pushUnreadCounts(message).catch((error) => console.error('Error pushing unread counts:', error))
+    }
 
     try {
+      //If no subscribers skip formatting message
+      if (!(await this.isStreamed(channelId))) return
+
+      // A sent message ends the author's typing indicator
+      this.stopTyping(channelId, message.author.id)
+
       const formattedMessage = await this.formatMessage(message)
       console.log('📨 Formatted message to emit:', formattedMessage)
-      this.socket.to(`channel:${channelId}`).emit('message', formattedMessage)
+      await this.emitToChannel(channelId, { event: 'message', data: formattedMessage })
       console.log(`📨 Message from ${message.author.username} in #${(message.channel as TextChannel).name}`)
     } catch (error) {
       console.error('Error handling new message:', error)
     }
   }
 
-  //Handling updated messages
-  private async handleMessageUpdate(message: Message) {
-    if (message.author.bot) return
+  //Bridging Discord typing indicators into channel rooms
+  private async handleTypingStart(typing: Typing) {
+    const channelId = typing.channel.id
+    const userId = typing.user.id
+    if (userId === this.client.user?.id) return
+
+    try {
+      if (!(await this.subscriptions.hasSubscribers(channelId))) return
+
+      const key = `${channelId}:${userId}`
+      const existing = this.typingTimers.get(key)
+      if (existing) {
+        clearTimeout(existing)
+      } else {
+        this.socket.to(`channel:${channelId}`).emit('typing_start', {
+          channelId,
+          userId,
+          username: typing.member?.displayName ?? typing.user.username ?? 'Unknown'
+        })
+      }
+
+      // Discord sends no stop event, so expire the indicator ourselves
+      this.typingTimers.set(key, setTimeout(() => this.stopTyping(channelId, userId), TYPING_TIMEOUT_MS))
+    } catch (error) {
+      console.error('Error handling typing start:', error)
+    }
+  }
+
+  private stopTyping(channelId: string, userId: string) {
+    const key = `${channelId}:${userId}`
+    const timer = this.typingTimers.get(key)
+    if (!timer) return
+
+    clearTimeout(timer)
+    this.typingTimers.delete(key)
+    this.socket.to(`channel:${channelId}`).emit('typing_stop', { channelId, userId })
+  }
+
+  //Showing the bot as typing in Discord while a web user types, throttled per channel
+  async triggerTyping(channelId: string, userId: string) {
+    if (this.shouldForward()) return this.forward('triggerTyping', [channelId, userId])
+
+    const now = Date.now()
+    if (now - (this.lastTypingTriggeredAt.get(channelId) ?? 0) < BOT_TYPING_THROTTLE_MS) return
+
+    const channel = await this.client.channels.fetch(channelId).catch(() => null)
+    if (!channel || channel.isDMBased() || !channel.isTextBased()) return
+
+    const member = await channel.guild.members.fetch(userId).catch(() => null)
+    if (!member || !this.resolvePermissions(channel, member).canWrite) return
+
+    this.lastTypingTriggeredAt.set(channelId, now)
+    await channel.sendTyping().catch((error) => {
+      console.error('Error triggering typing indicator:', error)
+    })
+  }
+
+  //Handling reactions added or removed in Discord
+  private async handleReactionChange(
+    event: 'reaction_add' | 'reaction_remove',
+    reaction: MessageReaction | PartialMessageReaction,
+    user: User | PartialUser
+  ) {
+    // The bot only reacts on behalf of web users, and those changes are emitted by add/removeReaction
+    if (user.id === this.client.user?.id) return
+
+    // Keep archived reaction counts current
+    if (!reaction.message.partial) {
+      await this.archiveMessage(reaction.message)
+    }
+
+    const channelId = reaction.message.channelId
+    const { guildId } = reaction.message
+
+    try {
+      const streamed = await this.subscriptions.hasSubscribers(channelId)
+      if (!streamed && !(this.webhooks && guildId)) return
+
+      // A removed last reaction can no longer be fetched, so fall back to the partial data
+      const resolved = reaction.partial ? await reaction.fetch().catch(() => null) : reaction
+      const formatted = resolved
+        ? this.formatReaction(resolved)
+        : { emoji: reaction.emoji.name ?? '', ...(reaction.emoji.id ? { emojiId: reaction.emoji.id } : {}), count: 0, users: [] }
+
+      const data: ReactionEvent = { channelId, messageId: reaction.message.id, userId: user.id, reaction: formatted }
+      if (streamed) this.socket.to(`channel:${channelId}`).emit(event, data)
+      if (guildId) this.publishWebhook({ type: event, guildId, channelId, data })
+    } catch (error) {
+      console.error(`Error handling ${event}:`, error)
+    }
+  }
+
+  //Handling reactions cleared by moderators, for one emoji or the whole message
+  private async handleReactionClear(message: Message | PartialMessage, emojiKey?: string) {
+    const { channelId, id: messageId } = message
+    for (const key of this.webReactions.keys()) {
+      if (emojiKey ? key === `${messageId}:${emojiKey}` : key.startsWith(`${messageId}:`)) {
+        this.webReactions.delete(key)
+      }
+    }
+
+    const data: ReactionClearEvent = { channelId, messageId, ...(emojiKey ? { emoji: emojiKey } : {}) }
+    this.socket.to(`channel:${channelId}`).emit('reaction_clear', data)
+    if (message.guildId) this.publishWebhook({ type: 'reaction_clear', guildId: message.guildId, channelId, data })
+
+    // Keep archived reaction counts current; messages sent before the bot started arrive as partials
+    const resolved = message.partial ? await message.fetch().catch(() => null) : message
+    if (resolved) await this.archiveMessage(resolved)
+  }
+
+  //Reacting as the bot on behalf of a web user
+  async addReaction(channelId: string, messageId: string, userId: string, emoji: string): Promise<DiscordReaction> {
+    if (this.shouldForward()) return this.forward('addReaction', [channelId, messageId, userId, emoji])
+
+    const { channel, message, member } = await this.resolveReactionTarget(channelId, messageId, userId)
+
+    if (!channel.permissionsFor(member).has(['ViewChannel', 'ReadMessageHistory', 'AddReactions'])) {
+      throw new OperationalError('MISSING_PERMISSION', 'You do not have permission to react in this channel', { statusCode: 403 })
+    }
+
+    const emojiKey = this.parseEmojiKey(emoji)
+    const key = `${messageId}:${emojiKey}`
+    const webUsers = this.webReactions.get(key) ?? new Set<string>()
+    webUsers.add(userId)
+    this.webReactions.set(key, webUsers)
+
+    try {
+      const existing = message.reactions.resolve(emojiKey)
+      const reaction = existing?.me ? existing : await message.react(emoji)
+      const formatted = this.formatReaction(reaction)
+      await this.archiveMessage(message)
+
+      const data: ReactionEvent = { channelId, messageId, userId, reaction: formatted }
+      this.socket.to(`channel:${channelId}`).emit('reaction_add', data)
+      this.publishWebhook({ type: 'reaction_add', guildId: channel.guildId, channelId, data })
+      return formatted
+    } catch (error) {
+      webUsers.delete(userId)
+      if (webUsers.size === 0) this.webReactions.delete(key)
+      if (error instanceof DiscordAPIError) {
+        throw new OperationalError('INVALID_EMOJI', 'Unknown or unavailable emoji', { statusCode: 400 })
+      }
+      throw error
+    }
+  }
+
+  //Withdrawing a web user's reaction, removing the bot's own once nobody is left
+  async removeReaction(channelId: string, messageId: string, userId: string, emoji: string): Promise<DiscordReaction> {
+    if (this.shouldForward()) return this.forward('removeReaction', [channelId, messageId, userId, emoji])
+
+    const { channel, message } = await this.resolveReactionTarget(channelId, messageId, userId)
+
+    const emojiKey = this.parseEmojiKey(emoji)
+    const key = `${messageId}:${emojiKey}`
+    const webUsers = this.webReactions.get(key)
+    if (webUsers) {
+      webUsers.delete(userId)
+      if (webUsers.size === 0) this.webReactions.delete(key)
+    }
+
+    const reaction = message.reactions.resolve(emojiKey)
+    if (reaction?.me && !this.webReactions.has(key)) {
+      await reaction.users.remove(this.client.user?.id)
+    }
 
+    const formatted = reaction
+      ? this.formatReaction(reaction)
+      : { emoji: emojiKey, count: 0, users: [] }
+    await this.archiveMessage(message)
+
+    const data: ReactionEvent = { channelId, messageId, userId, reaction: formatted }
+    this.socket.to(`channel:${channelId}`).emit('reaction_remove', data)
+    this.publishWebhook({ type: 'reaction_remove', guildId: channel.guildId, channelId, data })
+    return formatted
+  }
+
+  private async resolveReactionTarget(channelId: string, messageId: string, userId: string) {
+    const channel = await this.client.channels.fetch(channelId).catch(() => null)
+    if (!channel || channel.isDMBased() || !channel.isTextBased()) {
+      throw new OperationalError('MESSAGE_NOT_FOUND', 'Channel not found', { statusCode: 404 })
+    }
+
+    const member = await channel.guild.members.fetch(userId).catch(() => null)
+    if (!member || !this.canView(channel, member)) {
+      throw new OperationalError('MISSING_PERMISSION', 'You do not have access to this channel', { statusCode: 403 })
+    }
+
+    const message = await channel.messages.fetch(messageId).catch(() => null)
+    if (!message) {
+      throw new OperationalError('MESSAGE_NOT_FOUND', 'Message not found', { statusCode: 404 })
+    }
+
+    return { channel, message, member }
+  }
+
+  //Custom emoji are keyed by ID in the reaction cache, unicode emoji by the character itself
+  private parseEmojiKey(emoji: string) {
+    const trimmed = emoji.trim()
+    const match = CUSTOM_EMOJI_PATTERN.exec(trimmed)
+    if (match) return (match[1] ?? match[2]) as string
+    if (!trimmed || trimmed.length > 32) {
+      throw new OperationalError('INVALID_EMOJI', 'Unknown or unavailable emoji')
+    }
+    return trimmed
+  }
+
+  //Reaction format with web users counted in place of the bot's proxy reaction
+  private formatReaction(reaction: MessageReaction): DiscordReaction {
+    const { emoji } = reaction
+    const webUsers = this.webReactions.get(`${reaction.message.id}:${emoji.id ?? emoji.name}`) ?? new Set<string>()
+    const botId = this.client.user?.id
+    const proxied = webUsers.size > 0 && reaction.me
+
+    const discordUsers = [...reaction.users.cache.keys()].filter(id => !(proxied && id === botId))
+    const extraWebUsers = [...webUsers].filter(id => !discordUsers.includes(id))
+
+    return {
+      emoji: emoji.name || emoji.toString(),
+      ...(emoji.id ? { emojiId: emoji.id, emojiUrl: emoji.imageURL() ?? '' } : {}),
+      ...(emoji.animated ? { animated: true } : {}),
+      count: Math.max(reaction.count - (proxied ? 1 : 0), 0) + extraWebUsers.length,
+      users: [...discordUsers, ...extraWebUsers]
+    }
+  }
+
+  //Handling updated messages
+  private async handleMessageUpdate(update: Message | PartialMessage) {
     try {
+      // Edits to messages sent before the bot started arrive as partials
+      const message = update.partial ? await update.fetch().catch(() => null) : update
+      if (!message) return
+
       const formattedMessage = await this.formatMessage(message)
       formattedMessage.edited = true
       formattedMessage.editedTimestamp = message.editedAt?.toISOString() || ''
 
+      await this.saveToArchive(message, formattedMessage)
+      if (message.inGuild()) {
+        this.publishWebhook({ type: 'message_update', guildId: message.guildId, channelId: message.channel.id, data: formattedMessage })
+      }
+      if (!(await this.isStreamed(message.channel.id))) return
+
       // Broadcast update
-      this.socket.to(`channel:${message.channel.id}`).emit('message_update', formattedMessage)
+      await this.emitToChannel(message.channel.id, { event: 'message_update', data: formattedMessage })
 
     } catch (error) {
       console.error('Error handling message update:', error)
@@ -110,14 +718,49 @@ export class DiscordBot {
   }
 
 
+  //Re-sending a poll's message so web users see votes as they come in
+  private async handlePollVote(answer: PollAnswer) {
+    try {
+      const poll = answer.poll.message
+      const message = poll.partial ? await poll.fetch().catch(() => null) : poll
+      if (!message) return
+
+      const formattedMessage = await this.formatMessage(message)
+      await this.saveToArchive(message, formattedMessage)
+      if (message.inGuild()) {
+        this.publishWebhook({ type: 'message_update', guildId: message.guildId, channelId: message.channel.id, data: formattedMessage })
+      }
+      if (!(await this.isStreamed(message.channel.id))) return
+
+      await this.emitToChannel(message.channel.id, { event: 'message_update', data: formattedMessage })
+
+    } catch (error) {
+      console.error('Error handling poll vote:', error)
+    }
+  }
+
+
   //Handling deleted messages
   private async handleMessageDelete(message: Message | PartialMessage) {
     try {
+      await this.repository.markMessageDeleted(message.id, new Date())
+
+      // Deleted messages leave the inboxes they were filed in
+      for (const userId of await this.repository.deleteNotifications(message.id)) {
+        this.socket.to(`user:${userId}`).emit('notification_delete', { notificationId: message.id, ...await this.getInboxStatus(userId) })
+      }
+
+      if (message.guildId) {
+        const data = { messageId: message.id, channelId: message.channel.id }
+        this.publishWebhook({ type: 'message_delete', guildId: message.guildId, channelId: message.channel.id, data })
+      }
+
+      if (!(await this.isStreamed(message.channel.id))) return
 
       // Broadcast deletion
-      this.socket.to(`channel:${message.channel.id}`).emit('message_delete', {
-        messageId: message.id,
-        channelId: message.channel.id
+      await this.emitToChannel(message.channel.id, {
+        event: 'message_delete',
+        data: { messageId: message.id, channelId: message.channel.id }
       })
 
     } catch (error) {
@@ -126,32 +769,185 @@ export class DiscordBot {
   }
 
 
+  private async handleMessageDeleteBulk(messages: ReadonlyCollection<string, Message | PartialMessage>) {
+    for (const message of messages.values()) {
+      await this.handleMessageDelete(message)
+    }
+  }
+
+  //Archiving a guild message, resolving to its formatted form or null when it was not archived
+  private async archiveMessage(message: Message) {
+    if (!message.inGuild()) return null
+
+    try {
+      const formatted = await this.formatMessage(message)
+      await this.saveToArchive(message, formatted)
+      return formatted
+    } catch (error) {
+      console.error('Error archiving message:', error)
+      return null
+    }
+  }
+
+  private async saveToArchive(message: Message, formatted: DiscordMessage) {
+    if (!message.inGuild()) return
+
+    await this.repository.saveMessage({
+      ...toDatabaseMessage(formatted),
+      // The archive keeps Discord's own URLs so the attachment proxy can download and refresh them
+      attachments: JSON.stringify(message.attachments.map(attachment => this.formatAttachment(attachment)))
+    })
+
+    // Webhook authors get a new name per message, so only real users are stored
+    if (!message.webhookId) {
+      const existing = await this.repository.getUser(message.author.id)
+      const displayName = formatted.author.displayName || undefined
+      const avatar = formatted.author.avatar || undefined
+
+      // Most messages come from users already on file; only a changed profile is written again
+      const unchanged = existing &&
+        existing.username === message.author.username &&
+        existing.display_name === displayName &&
+        existing.avatar_url === avatar &&
+        existing.is_bot === message.author.bot
+
+      if (!unchanged) {
+        const now = new Date()
+        await this.repository.saveUser({
+          discord_id: message.author.id,
+          username: message.author.username,
+          ...(displayName ? { display_name: displayName } : {}),
+          ...(avatar ? { avatar_url: avatar } : {}),
+          is_bot: message.author.bot,
+          created_at: existing?.created_at ?? now,
+          updated_at: now
+        })
+      }
+    }
+
+    if (!(await this.repository.getChannel(message.channelId))) {
+      const now = new Date()
+      await this.repository.saveChannel({
+        id: message.channelId,
+        discord_id: message.channelId,
+        name: 'name' in message.channel ? message.channel.name : '',
+        type: ChannelType[message.channel.type],
+        server_id: message.guildId,
+        position: 'position' in message.channel && typeof message.channel.position === 'number' ? message.channel.position : 0,
+        created_at: now,
+        updated_at: now
+      })
+    }
+  }
+
+  //Serving a history page from the archive when it is known to hold every message in the range
+  private async getArchivedPage(channelId: string, before: string | undefined, limit: number): Promise<MessageHistoryPage | null> {
+    const upper = before ? BigInt(before) - 1n : this.liveArchiveTails.has(channelId) ? BigInt(this.liveArchiveTails.get(channelId) as string) : null
+    if (upper === null) return null
+
+    const ranges = await this.repository.getCoverage(channelId)
+    const range = ranges.find(r => BigInt(r.from) <= upper && upper <= BigInt(r.to))
+    if (!range) return null
+
+    const rows = await this.repository.getChannelMessages(channelId, { ...(before ? { before } : {}), limit })
+    const oldest = rows[0]
+    const complete = rows.length === limit
+      ? !!oldest && BigInt(oldest.discord_id) >= BigInt(range.from)
+      : range.from === '0'
+    if (!complete) return null
+
+    const messages = rows.map(row => this.signAttachments(fromDatabaseMessage(row)))
+    return {
+      messages,
+      hasMore: rows.length === limit,
+      ...(rows.length === limit && oldest ? { nextCursor: oldest.discord_id } : {})
+    }
+  }
+
+  //Searching the archive, limited to channels the user can currently read
+  async searchMessages(userId: string, request: SearchMessagesRequest): Promise<MessageHistoryPage> {
+    if (this.shouldForward()) return this.forward('searchMessages', [userId, request])
+
+    const query = this.buildSearchQuery(request)
+
+    const readable = (await this.getUserChannels(userId))
+      .filter(channel => channel.permissions.canRead)
+      .map(channel => channel.id)
+    query.channelIds = request.channelId ? readable.filter(id => id === request.channelId) : readable
+
+    if (query.channelIds.length === 0) {
+      return { messages: [], hasMore: false }
+    }
+
+    // One extra row tells us whether another page exists
+    const rows = await this.repository.searchMessages({ ...query, limit: query.limit + 1 })
+    const page = rows.slice(0, query.limit)
+    const last = page[page.length - 1]
+    const hasMore = rows.length > query.limit
+
+    return {
+      messages: page.map(row => this.signAttachments(fromDatabaseMessage(row))),
+      hasMore,
+      ...(hasMore && last ? { nextCursor: last.discord_id } : {})
+    }
+  }
+
+  private buildSearchQuery(request: SearchMessagesRequest): MessageSearchQuery {
+    const parseDate = (value: string | undefined, field: string) => {
+      if (value === undefined) return undefined
+      const date = new Date(value)
+      if (Number.isNaN(date.getTime())) {
+        throw new OperationalError('INVALID_QUERY', `\`${field}\` must be an ISO8601 date`)
+      }
+      return date
+    }
+
+    for (const [field, value] of [['authorId', request.authorId], ['channelId', request.channelId], ['cursor', request.cursor]]) {
+      if (value !== undefined && !SNOWFLAKE_PATTERN.test(value)) {
+        throw new OperationalError('INVALID_QUERY', `\`${field}\` must be a Discord ID`)
+      }
+    }
+
+    const after = parseDate(request.after, 'after')
+    const before = parseDate(request.before, 'before')
+    const requested = Number.isFinite(request.limit) ? Math.floor(request.limit as number) : DEFAULT_SEARCH_LIMIT
+    const limit = Math.min(Math.max(requested, 1), MAX_SEARCH_LIMIT)
+
+    return {
+      channelIds: [],
+      terms: (request.query ?? '').toLowerCase().split(/\s+/).filter(Boolean),
+      limit,
+      ...(request.authorId ? { authorId: request.authorId } : {}),
+      ...(after ? { after } : {}),
+      ...(before ? { before } : {}),
+      ...(typeof request.hasAttachment === 'boolean' ? { hasAttachment: request.hasAttachment } : {}),
+      ...(request.cursor ? { cursor: request.cursor } : {})
+    }
+  }
+
+  //Archive state for the status endpoint
+  getArchiveStats() {
+    return {
+      connected: this.repository.isConnected(),
+      ...this.repository.getStats()
+    }
+  }
+
   //Message format for returning clear messages
   private async formatMessage(message: Message): Promise<DiscordMessage> {
+    const replyTo = await this.formatReplyPreview(message)
+
     return {
       id: message.id,
+      type: messageTypeName(message.type),
+      system: message.system,
       content: message.content,
-      author: {
-        id: message.author.id,
-        username: message.author.username,
-        displayName: message.author.displayName || message.author.username,
-        avatar: message.author.displayAvatarURL(),
-        bot: message.author.bot
-      },
+      author: this.formatAuthor(message),
       timestamp: message.createdAt.toISOString(),
       channelId: message.channel.id,
       serverId: message.guild?.id || '',
-      attachments: message.attachments.map(att => ({
-        id: att.id,
-        filename: att.name || 'unknown',
-        url: att.url,
-        proxyUrl: att.proxyURL,
-        size: att.size,
-        contentType: att.contentType || '',
-        width: att.width || 0,
-        height: att.height || 0
-      })),
-      embeds: message.embeds.map(embed => ({
+      attachments: message.attachments.map(att => this.signAttachment(message.channel.id, this.formatAttachment(att))),
+      embeds: message.embeds.map((embed): DiscordEmbed => ({
         title: embed.title || '',
         description: embed.description || '',
         url: embed.url || '',
@@ -168,97 +964,1076 @@ export class DiscordBot {
           name: field.name,
           value: field.value,
           inline: typeof field.inline === 'boolean' ? field.inline : false
-        })) || []
+        })) || [],
+        ...(embed.data.type ? { type: embed.data.type } : {}),
+        ...(embed.footer
+          ? { footer: { text: embed.footer.text, ...(embed.footer.iconURL ? { iconUrl: embed.footer.iconURL } : {}) } }
+          : {}),
+        ...(embed.timestamp ? { timestamp: new Date(embed.timestamp).toISOString() } : {}),
+        ...(embed.video?.url
+          ? {
+            video: {
+              url: embed.video.url,
+              ...(embed.video.width ? { width: embed.video.width } : {}),
+              ...(embed.video.height ? { height: embed.video.height } : {})
+            }
+          }
+          : {}),
+        ...(embed.provider
+          ? {
+            provider: {
+              ...(embed.provider.name ? { name: embed.provider.name } : {}),
+              ...(embed.provider.url ? { url: embed.provider.url } : {})
+            }
+          }
+          : {})
       })),
-      reactions: message.reactions.cache.map(reaction => ({
-        emoji: reaction.emoji.name || reaction.emoji.toString(),
-        count: reaction.count,
-        users: [] // Could fetch users if needed
+      reactions: message.reactions.cache.map(reaction => this.formatReaction(reaction)),
+      tokens: parseContent(message.content, this.createMentionResolver(message)),
+      ...(replyTo ? { replyTo } : {}),
+      stickers: message.stickers.map(sticker => ({
+        id: sticker.id,
+        name: sticker.name,
+        format: STICKER_FORMATS[sticker.format] ?? 'png',
+        url: sticker.url
       })),
-      edited: false,
-      editedTimestamp: ''
+      ...(message.poll ? { poll: this.formatPoll(message.poll) } : {}),
+      components: this.formatComponents(message.components),
+      edited: !!message.editedTimestamp,
+      editedTimestamp: message.editedAt?.toISOString() || ''
     }
   }
 
-
-  //Handling subscribing to channel
-  async subscribeToChannel(channelId: string, userId: string) {
-    if (!this.channelSubscriptions.has(channelId)) {
-      this.channelSubscriptions.set(channelId, new Set())
+  private formatAttachment(att: Attachment): DiscordAttachment {
+    return {
+      id: att.id,
+      filename: att.name || 'unknown',
+      url: att.url,
+      proxyUrl: att.proxyURL,
+      size: att.size,
+      contentType: att.contentType || '',
+      width: att.width || 0,
+      height: att.height || 0
     }
-
-    this.channelSubscriptions.get(channelId)!.add(userId)
-    console.log(`👥 User ${userId} subscribed to channel ${channelId}`)
   }
 
-  //Handling unsubscribing to channel
-  async unsubscribeFromChannel(channelId: string, userId: string) {
-    const subscribers = this.channelSubscriptions.get(channelId)
-    if (subscribers) {
-      subscribers.delete(userId)
+  //Pointing attachment URLs at our proxy, Discord's expire after a day
+  private signAttachment(channelId: string, attachment: DiscordAttachment): DiscordAttachment {
+    const url = signAttachmentUrl(channelId, attachment.id)
+    return { ...attachment, url, proxyUrl: url }
+  }
 
-      // Clean up empty subscriptions
-      if (subscribers.size === 0) {
-        this.channelSubscriptions.delete(channelId)
-      }
+  private signAttachments(message: DiscordMessage): DiscordMessage {
+    if (message.attachments.length === 0) return message
+    return { ...message, attachments: message.attachments.map(attachment => this.signAttachment(message.channelId, attachment)) }
+  }
 
-      console.log(`👋 User ${userId} unsubscribed from channel ${channelId}`)
+  private formatAuthor(message: Message): DiscordMessageAuthor {
+    return {
+      id: message.author.id,
+      username: message.author.username,
+      displayName: message.author.displayName || message.author.username,
+      avatar: message.author.displayAvatarURL(),
+      // Messages relayed from the web are written by people, not bots
+      bot: message.author.bot && !this.isBridgeMessage(message),
+      // Interaction replies carry the application's ID as their webhook and count as the bot's own
+      ...(message.webhookId && message.webhookId !== message.applicationId && !this.isBridgeMessage(message) ? { webhook: true } : {})
     }
   }
 
+  //Previewing the replied-to message from the cache or the archive, without fetching it from Discord
+  private async formatReplyPreview(message: Message): Promise<MessageReplyPreview | null> {
+    const reference = message.reference
+    if (message.type !== MessageType.Reply || !reference?.messageId) return null
 
-  //Handling getting full channel data
-  async getChannelInfo(channelId: string) {
-    try {
-      const channel = await this.client.channels.fetch(channelId)
+    const preview = { messageId: reference.messageId, channelId: reference.channelId }
+    const cached = message.channel.messages.cache.get(reference.messageId)
+    if (cached && !cached.partial) {
+      return { ...preview, author: this.formatAuthor(cached), content: cached.content.slice(0, REPLY_PREVIEW_LENGTH) }
+    }
 
-      if (!channel || !channel.isTextBased?.()) {
-        throw new Error('Channel not found or not text-based')
-      }
+    const row = await this.repository.getMessage(reference.messageId).catch(() => null)
+    if (!row) return preview
 
-      return {
-        id: channel.id,
-        name: 'name' in channel ? channel.name : '',
-        type: channel.type,
-        serverId: 'guild' in channel && channel.guild ? channel.guild.id : '',
-        serverName: 'guild' in channel && channel.guild ? channel.guild.name : ''
-      }
-    } catch (error) {
-      console.error('Error getting channel info:', error)
-      throw error
+    return {
+      ...preview,
+      author: JSON.parse(row.author),
+      content: row.content.slice(0, REPLY_PREVIEW_LENGTH),
+      ...(row.deleted_at ? { deleted: true } : {})
     }
   }
 
+  private formatPoll(poll: Poll): DiscordPoll {
+    return {
+      question: poll.question.text ?? '',
+      answers: poll.answers.map(answer => ({
+        id: answer.id,
+        text: answer.text ?? '',
+        ...(answer.emoji ? { emoji: this.formatEmoji(answer.emoji) } : {}),
+        votes: answer.voteCount
+      })),
+      allowMultiselect: poll.allowMultiselect,
+      ...(poll.expiresTimestamp ? { expiresAt: new Date(poll.expiresTimestamp).toISOString() } : {}),
+      finalized: poll.resultsFinalized
+    }
+  }
+
+  //Keeping action rows of buttons and select menus; newer layout components are not bridged
+  private formatComponents(components: TopLevelComponent[]): DiscordComponentRow[] {
+    return components
+      .filter(component => component instanceof ActionRow)
+      .map(row => ({
+        components: row.components.flatMap((component): DiscordComponent[] => {
+          if (component instanceof ButtonComponent) {
+            return [{
+              type: 'button',
+              style: BUTTON_STYLES[component.style] ?? 'secondary',
+              ...(component.label ? { label: component.label } : {}),
+              ...(component.emoji ? { emoji: this.formatEmoji(component.emoji) } : {}),
+              ...(component.url ? { url: component.url } : {}),
+              disabled: component.disabled
+            }]
+          }
+
+          const menu = SELECT_MENUS[component.type]
+          if (!(component instanceof BaseSelectMenuComponent) || !menu) return []
+
+          return [{
+            type: 'select',
+            menu,
+            ...(component.placeholder ? { placeholder: component.placeholder } : {}),
+            minValues: component.minValues ?? 1,
+            maxValues: component.maxValues ?? 1,
+            options: component instanceof StringSelectMenuComponent
+              ? component.options.map(option => ({
+                label: option.label,
+                value: option.value,
+                ...(option.description ? { description: option.description } : {}),
+                ...(option.emoji ? { emoji: this.formatEmoji(option.emoji) } : {}),
+                default: !!option.default
+              }))
+              : [],
+            disabled: component.disabled
+          }]
+        })
+      }))
+  }
+
+  private formatEmoji(emoji: { id?: string | null, name?: string | null, animated?: boolean | null }): DiscordEmoji {
+    return {
+      name: emoji.name ?? '',
+      ...(emoji.id ? { id: emoji.id, url: customEmojiUrl(emoji.id, !!emoji.animated) } : {}),
+      ...(emoji.animated ? { animated: true } : {})
+    }
+  }
+
+  //Resolving mentions against the message's server, as the author's audience sees them
+  private createMentionResolver(message: Message): MentionResolver {
+    const guild = message.guild
+
+    return {
+      user: (id) => {
+        const member = guild?.members.cache.get(id) ?? message.mentions.members?.get(id)
+        if (member) {
+          return { name: member.displayName, ...(member.displayColor ? { color: member.displayHexColor } : {}) }
+        }
+
+        const user = message.mentions.users.get(id) ?? this.client.users.cache.get(id)
+        return user ? { name: user.displayName } : null
+      },
+      role: (id) => {
+        const role = guild?.roles.cache.get(id)
+        return role ? { name: role.name, ...(role.color ? { color: role.hexColor } : {}) } : null
+      },
+      channel: (id) => {
+        const channel = this.client.channels.cache.get(id)
+        return channel && 'name' in channel && channel.name ? { name: channel.name } : null
+      }
+    }
+  }
+
+  //Handling subscribing to channel, resolves true for the user's first socket in it
+  async subscribeToChannel(channelId: string, userId: string) {
+    const firstJoin = await this.subscriptions.subscribe(channelId, userId)
+    console.log(`👥 User ${userId} subscribed to channel ${channelId}`)
+    return firstJoin
+  }
+
+  //Tracking open sockets so unread counts reach users who have not joined a channel
+  async registerConnection(socketId: string, userId: string, username: string) {
+    await this.subscriptions.addConnection(userId)
+    await this.presence.track(socketId, userId, username)
+  }
+
+  async unregisterConnection(socketId: string, userId: string) {
+    await this.subscriptions.removeConnection(userId)
+    await this.presence.untrack(socketId)
+  }
+
+  recordHeartbeat(socketId: string, idle: boolean) {
+    return this.presence.heartbeat(socketId, idle)
+  }
+
+  //Handling unsubscribing to channel; resolves true once the user's last socket left
+  //Channels keep streaming into the replay buffer for a while after their last subscriber disconnected
+  private async isStreamed(channelId: string) {
+    return await this.subscriptions.hasSubscribers(channelId) || await this.replay.isRetained(channelId)
+  }
+
+  //Numbering a stream event and buffering it for `resume` before it goes out to the channel room
+  //Sockets that joined with a filter sit in a `filtered:` room too and get messages one by one, if they pass
+  private async emitToChannel(channelId: string, entry: ReplayEventInput) {
+    const sequenced = await this.replay.append(channelId, entry)
+    if (sequenced.event === 'message_delete') {
+      this.socket.to(`channel:${channelId}`).emit('message_delete', sequenced.data)
+      return
+    }
+
+    const { event, data } = sequenced
+    if (matchesFilter(data, undefined, '')) {
+      this.socket.to(`channel:${channelId}`).except(`filtered:${channelId}`).emit(event, data)
+    }
+    for (const socket of await this.socket.in(`filtered:${channelId}`).fetchSockets()) {
+      if (matchesFilter(data, socket.data.filters?.[channelId], socket.data.discordId)) socket.emit(event, data)
+    }
+  }
+
+  //Handing a guild channel event to webhook subscriptions; slow receivers never hold up the stream
+  private publishWebhook(event: WebhookEvent) {
+    this.webhooks?.publish(event).catch((error) => console.error('Error publishing webhook event:', error))
+  }
+
+  //The channel's latest sequence number, what a client passes to `resume` if nothing arrives after joining
+  getChannelSeq(channelId: string) {
+    return this.replay.head(channelId)
+  }
+
+  //Stream events a client missed since `afterSeq`, or null when they are no longer buffered
+  getMissedEvents(channelId: string, afterSeq: number) {
+    return this.replay.read(channelId, afterSeq)
+  }
+
+  //Keeping a channel buffered after a subscriber's socket dropped, so the client can resume it
+  retainChannel(channelId: string) {
+    return this.replay.retain(channelId)
+  }
+
+  async unsubscribeFromChannel(channelId: string, userId: string) {
+    const lastLeave = await this.subscriptions.unsubscribe(channelId, userId)
+    console.log(`👋 User ${userId} unsubscribed from channel ${channelId}`)
+    return lastLeave
+  }
+
+  //Web users currently viewing a channel, on any node
+  async getChannelPresence(channelId: string): Promise<ChannelViewer[]> {
+    const userIds = await this.subscriptions.getSubscribers(channelId)
+    const presence = await this.subscriptions.getPresence(userIds)
+
+    return userIds.map(id => ({ id, ...(presence.get(id) ?? { username: '', status: 'away' as const }) }))
+  }
+
+  //Storing this node's view of a user's presence and telling the channels they watch
+  private async publishPresence(userId: string, presence: UserPresence | null) {
+    await this.subscriptions.setPresence(userId, presence)
+
+    const merged = (await this.subscriptions.getPresence([userId])).get(userId)
+    const channelIds = await this.subscriptions.getUserSubscriptions(userId)
+    if (!merged || channelIds.length === 0) return
+
+    this.socket.to(channelIds.map(channelId => `channel:${channelId}`)).emit('presence_update', { userId, status: merged.status })
+  }
+
+
+  //Handling getting full channel data, as the user sees it in their channel list
+  async getChannelInfo(channelId: string, userId: string): Promise<DiscordChannel> {
+    if (this.shouldForward()) return this.forward('getChannelInfo', [channelId, userId])
+
+    const { channel, member } = await this.resolveChannelMember(channelId, userId)
+    return this.formatChannel(channel, member)
+  }
+
+
+  //Fetching a page of channel history, newest page first, messages in chronological order; bots included, callers apply the viewer's filter
+  async fetchChannelHistory(channelId: string, options: { before?: string; limit?: number } = {}): Promise<MessageHistoryPage> {
+    if (this.shouldForward()) return this.forward('fetchChannelHistory', [channelId, options])
+
+    const limit = Math.min(Math.max(options.limit ?? DEFAULT_HISTORY_LIMIT, 1), MAX_HISTORY_LIMIT)
+
+    try {
+      const archived = await this.getArchivedPage(channelId, options.before, limit)
+      if (archived) return archived
+
+      const channel = await this.client.channels.fetch(channelId)
+
+      if (!channel || !channel.isTextBased?.()) {
+        throw new Error('Channel not found or not text-based')
+      }
+
+      // Load an existing bridge webhook so messages sent from the web before a restart stay visible
+      const host = channel.isDMBased() ? null : this.getWebhookHost(channel)
+      if (host) {
+        await this.getBridgeWebhook(host, { create: false }).catch(() => null)
+      }
+
+      const fetched = await channel.messages.fetch({
+        limit,
+        ...(options.before ? { before: options.before } : {})
+      })
+
+      // Cursor is the oldest message fetched, even if the viewer's filter drops it later
+      const ordered = [...fetched.values()].sort((a, b) => compareSnowflakes(a.id, b.id))
+      const oldest = ordered[0]
+      const newest = ordered[ordered.length - 1]
+      const hasMore = fetched.size === limit
+
+      const messages: DiscordMessage[] = []
+      for (const message of ordered) {
+        const formatted = await this.formatMessage(message)
+        await this.saveToArchive(message, formatted)
+        messages.push(formatted)
+      }
+
+      // Record that this ID range is now fully archived
+      const from = hasMore && oldest ? oldest.id : '0'
+      const to = options.before ? (BigInt(options.before) - 1n).toString() : newest?.id
+      if (to && BigInt(from) <= BigInt(to)) {
+        await this.repository.addCoverage(channelId, { from, to })
+        if (!options.before) this.liveArchiveTails.set(channelId, to)
+      }
+
+      return {
+        messages,
+        hasMore,
+        ...(hasMore && oldest ? { nextCursor: oldest.id } : {})
+      }
+    } catch (error) {
+      console.error('Error fetching channel history:', error)
+      throw error
+    }
+  }
+
+
+  //Sending a message on behalf of a web user through the channel's bridge webhook
+  async sendMessage(channelId: string, userId: string, content: string): Promise<DiscordMessage> {
+    if (this.shouldForward()) return this.forward('sendMessage', [channelId, userId, content])
+
+    const text = content.trim()
+    if (!text || text.length > MAX_MESSAGE_LENGTH) {
+      throw new OperationalError('INVALID_CONTENT', `Message must be between 1 and ${MAX_MESSAGE_LENGTH} characters`)
+    }
+
+    const channel = await this.client.channels.fetch(channelId).catch(() => null)
+    if (!channel || channel.isDMBased() || !channel.isTextBased()) {
+      throw new OperationalError('SEND_FAILED', 'Channel not found or not writable', { statusCode: 404 })
+    }
+
+    const member = await channel.guild.members.fetch(userId).catch(() => null)
+    const permissions = member ? channel.permissionsFor(member) : null
+    if (!member || !permissions || !this.canView(channel, member) || !this.resolvePermissions(channel, member).canWrite) {
+      throw new OperationalError('MISSING_PERMISSION', 'You do not have permission to send messages in this channel', { statusCode: 403 })
+    }
+
+    // Webhook posts bypass Discord's slowmode, so it is enforced here per web user
+    const slowmodeKey = `${channelId}:${userId}`
+    const cooldown = (channel.rateLimitPerUser ?? 0) * 1000
+    if (cooldown > 0 && !permissions.has('ManageMessages') && !permissions.has('ManageChannels')) {
+      const elapsed = Date.now() - (this.lastSentAt.get(slowmodeKey) ?? 0)
+      if (elapsed < cooldown) {
+        throw new OperationalError('SLOWMODE', 'Slowmode is enabled in this channel', { statusCode: 429, retryAfter: cooldown - elapsed })
+      }
+    }
+
+    const parse: MessageMentionTypes[] = permissions.has('MentionEveryone') ? ['users', 'roles', 'everyone'] : ['users']
+
+    try {
+      const host = this.getWebhookHost(channel)
+      const webhook = host ? await this.getBridgeWebhook(host) : null
+      const sent = webhook
+        ? await webhook.send({
+          content: text,
+          username: member.displayName.slice(0, 80),
+          avatarURL: member.displayAvatarURL(),
+          allowedMentions: { parse },
+          ...(channel.isThread() ? { threadId: channel.id } : {})
+        })
+        : await channel.send({ content: `**${member.displayName}**: ${text}`, allowedMentions: { parse } })
+
+      this.lastSentAt.set(slowmodeKey, Date.now())
+      console.log(`✉️ User ${userId} sent a message to channel ${channelId}`)
+
+      // Bridged messages are authored by the webhook, so the sender's own message is marked read here
+      if (await this.saveReadMarker(userId, channelId, sent.id)) {
+        await this.pushChannelUpdate(channel, member).catch(() => null)
+      }
+      return await this.formatMessage(sent)
+    } catch (error) {
+      throw this.toSendError(error)
+    }
+  }
+
+  //Finding or creating the webhook used to attribute web messages
+  private async getBridgeWebhook(channel: WebhookChannel, options: { create?: boolean } = {}) {
+    const cached = this.bridgeWebhooks.get(channel.id)
+    if (cached) return cached
+
+    const me = channel.guild.members.me
+    if (!me || !channel.permissionsFor(me).has('ManageWebhooks')) return null
+
+    const existing = await channel.fetchWebhooks()
+    let webhook = existing.find(hook => hook.owner?.id === this.client.user?.id && hook.name === BRIDGE_WEBHOOK_NAME) ?? null
+
+    if (!webhook && options.create !== false) {
+      webhook = await channel.createWebhook({
+        name: BRIDGE_WEBHOOK_NAME,
+        reason: 'Relaying messages sent from the web client'
+      })
+    }
+
+    if (webhook) {
+      this.bridgeWebhooks.set(channel.id, webhook)
+      this.bridgeWebhookIds.add(webhook.id)
+    }
+    return webhook
+  }
+
+  private isWebhookChannel(channel: { type: ChannelType }): channel is WebhookChannel {
+    return [
+      ChannelType.GuildText,
+      ChannelType.GuildAnnouncement,
+      ChannelType.GuildForum,
+      ChannelType.GuildMedia,
+      ChannelType.GuildVoice,
+      ChannelType.GuildStageVoice
+    ].includes(channel.type)
+  }
+
+  //Webhooks live on the parent channel; thread messages are posted through it with a thread ID
+  private getWebhookHost(channel: GuildBasedChannel): WebhookChannel | null {
+    if (this.isWebhookChannel(channel)) return channel
+    if (channel.isThread() && channel.parent && this.isWebhookChannel(channel.parent)) return channel.parent
+    return null
+  }
+
+  private isThreadParent(channel: GuildBasedChannel): channel is TextChannel | NewsChannel | ForumChannel | MediaChannel {
+    return [ChannelType.GuildText, ChannelType.GuildAnnouncement, ChannelType.GuildForum, ChannelType.GuildMedia].includes(channel.type)
+  }
+
+  //Messages posted by our own bridge webhook are web users, not bots
+  private isBridgeMessage(message: Message) {
+    return !!message.webhookId && this.bridgeWebhookIds.has(message.webhookId)
+  }
+
+  //Translating Discord failures into codes the web client can act on
+  private toSendError(error: unknown) {
+    if (error instanceof OperationalError) return error
+
+    if (error instanceof RateLimitError) {
+      return new OperationalError('RATE_LIMITED', 'Discord rate limit reached, try again shortly', { statusCode: 429, retryAfter: error.retryAfter })
+    }
+
+    if (error instanceof DiscordAPIError) {
+      if (error.code === DISCORD_SLOWMODE_ERROR) {
+        return new OperationalError('SLOWMODE', 'Slowmode is enabled in this channel', { statusCode: 429 })
+      }
+      if (error.code === DISCORD_MISSING_PERMISSIONS_ERROR) {
+        return new OperationalError('MISSING_PERMISSION', 'The bot is missing permissions in this channel', { statusCode: 403 })
+      }
+    }
+
+    console.error('Error sending message:', error)
+    return new OperationalError('SEND_FAILED', 'Failed to send message', { statusCode: 502, severity: 'MEDIUM' })
+  }
+
+  //Resolving a member's effective permissions in a channel
+  private resolvePermissions(channel: GuildBasedChannel, member: GuildMember): ChannelPermissions {
+    const permissions = channel.permissionsFor(member)
+
+    if (channel.isThread()) {
+      return {
+        canRead: this.canView(channel, member),
+        canWrite: permissions.has('SendMessagesInThreads') && (!channel.locked || permissions.has('ManageThreads')),
+        canManage: permissions.has('ManageThreads')
+      }
+    }
+
+    return {
+      canRead: this.canView(channel, member),
+      canWrite: permissions.has('SendMessages'),
+      canManage: permissions.has('ManageChannels')
+    }
+  }
+
+  //Private threads are only visible to their members and to thread moderators
+  private canView(channel: GuildBasedChannel, member: GuildMember) {
+    const permissions = channel.permissionsFor(member)
+    if (!permissions.has('ViewChannel')) return false
+
+    if (channel.type === ChannelType.PrivateThread) {
+      return permissions.has('ManageThreads') || channel.members.cache.has(member.id)
+    }
+    return true
+  }
+
+
+  //Moving a user's read marker forward and syncing the new unread count to all of their sockets
+  async markRead(userId: string, channelId: string, messageId?: string): Promise<DiscordChannel> {
+    if (this.shouldForward()) return this.forward('markRead', [userId, channelId, messageId])
+
+    const { channel, member } = await this.resolveChannelMember(channelId, userId)
+    if (!channel.isTextBased()) {
+      throw new OperationalError('INVALID_CHANNEL', 'This channel has no messages')
+    }
+
+    const target = messageId ?? channel.lastMessageId
+    if (target) await this.saveReadMarker(userId, channelId, target)
+
+    return this.pushChannelUpdate(channel, member)
+  }
+
+  //Storing a read marker; markers never move backwards
+  private async saveReadMarker(userId: string, channelId: string, messageId: string) {
+    const current = await this.repository.getReadMarker(userId, channelId)
+    if (current && compareSnowflakes(messageId, current.last_read_message_id) <= 0) return false
+
+    await this.repository.saveReadMarker({
+      user_discord_id: userId,
+      channel_id: channelId,
+      last_read_message_id: messageId,
+      updated_at: new Date()
+    })
+    return true
+  }
+
+  //Counting archived messages after the user's read marker
+  private async getUnreadCount(channel: GuildBasedChannel, userId: string) {
+    const marker = await this.repository.getReadMarker(userId, channel.id)
+
+    // The first time a user sees a channel, its existing history counts as read
+    if (!marker) {
+      const latest = 'lastMessageId' in channel ? channel.lastMessageId : null
+      await this.saveReadMarker(userId, channel.id, latest ?? '0')
+      return 0
+    }
+
+    return this.repository.countMessagesAfter(channel.id, marker.last_read_message_id, {
+      excludeAuthorId: userId,
+      excludeBots: true,
+      limit: MAX_UNREAD_COUNT
+    })
+  }
+
+  //Sending a freshly counted channel entry to every socket of the member
+  private async pushChannelUpdate(channel: GuildBasedChannel, member: GuildMember) {
+    const formatted = await this.formatChannel(channel, member)
+    this.socket.to(`user:${member.id}`).emit('channel_update', formatted)
+    return formatted
+  }
+
+  //Updating unread counts of connected users who can see the channel a message arrived in
+  private async pushUnreadCounts(message: Message<true>) {
+    const channel = message.channel
+
+    for (const userId of await this.subscriptions.getConnectedUsers()) {
+      if (userId === message.author.id) continue
+
+      const member = message.guild.members.cache.get(userId)
+      if (!member || !this.isVisibleChannel(channel, member)) continue
+
+      await this.pushChannelUpdate(channel, member)
+    }
+  }
+
+  //Filing a new message in the inbox of every user with a matching watch rule who can view its channel
+  private async notifyWatchers(message: Message<true>, formatted: DiscordMessage) {
+    const rulesByUser: Map<string, DatabaseWatchRule[]> = new Map()
+    for (const rule of await this.repository.getAllWatchRules()) {
+      if (rule.user_discord_id === message.author.id) continue
+      rulesByUser.set(rule.user_discord_id, [...rulesByUser.get(rule.user_discord_id) ?? [], rule])
+    }
+
+    // Assuming every mentioned role first, so members are only looked up for rules that could match
+    const mentionedRoleIds = [...message.mentions.roles.keys()]
+    for (const [userId, rules] of rulesByUser) {
+      const match = (roleIds: string[]) => rules
+        .map(row => ({ id: row.id, reasons: matchWatchRule(formatted, JSON.parse(row.rule) as WatchRuleInput, { id: userId, roleIds }) }))
+        .filter(({ reasons }) => reasons.length > 0)
+      if (match(mentionedRoleIds).length === 0) continue
+
+      const member = await message.guild.members.fetch(userId).catch(() => null)
+      if (!member || !this.canView(message.channel, member)) continue
+
+      const matches = match([...member.roles.cache.keys()])
+      if (matches.length === 0) continue
+
+      const row: DatabaseNotification = {
+        user_discord_id: userId,
+        message_id: message.id,
+        channel_id: message.channelId,
+        server_id: message.guildId,
+        rule_ids: JSON.stringify(matches.map(({ id }) => id)),
+        reasons: JSON.stringify([...new Set(matches.flatMap(({ reasons }) => reasons))]),
+        created_at: new Date()
+      }
+      await this.repository.saveNotification(row)
+
+      const notification = fromDatabaseNotification(row, formatted)
+      this.socket.to(`user:${userId}`).emit('notification', { notification, ...await this.getInboxStatus(userId) })
+    }
+  }
+
+  //A user's watch rules, oldest first
+  async listWatchRules(userId: string): Promise<WatchRule[]> {
+    if (this.shouldForward()) return this.forward('listWatchRules', [userId])
+
+    return (await this.repository.getWatchRules(userId)).map(fromDatabaseWatchRule)
+  }
+
+  async addWatchRule(userId: string, input: WatchRuleInput): Promise<WatchRule> {
+    if (this.shouldForward()) return this.forward('addWatchRule', [userId, input])
+
+    if (!input.keywords?.length && input.pattern === undefined && !input.mentions && !input.replies) {
+      throw new OperationalError('INVALID_PAYLOAD', 'A watch rule needs keywords, a pattern, mentions or replies')
+    }
+    if ((await this.repository.getWatchRules(userId)).length >= MAX_WATCH_RULES) {
+      throw new OperationalError('WATCH_LIMIT', `You can have at most ${MAX_WATCH_RULES} watch rules`)
+    }
+
+    const row: DatabaseWatchRule = { id: randomUUID(), user_discord_id: userId, rule: JSON.stringify(input), created_at: new Date() }
+    await this.repository.saveWatchRule(row)
+    return fromDatabaseWatchRule(row)
+  }
+
+  async removeWatchRule(userId: string, ruleId: string): Promise<void> {
+    if (this.shouldForward()) return this.forward('removeWatchRule', [userId, ruleId])
+
+    if (!(await this.repository.deleteWatchRule(userId, ruleId))) {
+      throw new OperationalError('WATCH_NOT_FOUND', 'Watch rule not found', { statusCode: 404 })
+    }
+  }
+
+  //A page of the user's inbox, newest first; notifications from channels they can no longer view are left out
+  async getInbox(userId: string, query: GetInboxRequest = {}): Promise<InboxPage> {
+    if (this.shouldForward()) return this.forward('getInbox', [userId, query])
+
+    const limit = query.limit ?? DEFAULT_INBOX_LIMIT
+    const rows = await this.repository.getNotifications(userId, {
+      ...(query.before ? { before: query.before } : {}),
+      ...(query.unreadOnly ? { unreadOnly: true } : {}),
+      limit
+    })
+
+    const visible = await this.visibleNotifications(userId, rows)
+    const notifications: DiscordNotification[] = []
+    for (const row of visible) {
+      const message = await this.repository.getMessage(row.message_id)
+      if (message && !message.deleted_at) {
+        notifications.push(fromDatabaseNotification(row, this.signAttachments(fromDatabaseMessage(message))))
+      }
+    }
+
+    const oldest = rows[rows.length - 1]
+    return {
+      notifications,
+      unreadCount: (await this.getInboxStatus(userId)).unreadCount,
+      hasMore: rows.length === limit,
+      ...(rows.length === limit && oldest ? { nextCursor: oldest.message_id } : {})
+    }
+  }
+
+  //The number of unread notifications the user can still see
+  async getInboxStatus(userId: string): Promise<InboxEvent> {
+    if (this.shouldForward()) return this.forward('getInboxStatus', [userId])
+
+    const unread = await this.repository.getNotifications(userId, { unreadOnly: true, limit: MAX_NOTIFICATIONS_PER_USER })
+    return { unreadCount: (await this.visibleNotifications(userId, unread)).length }
+  }
+
+  //Marking notifications read, all of them without `notificationIds`, and syncing the count to every socket of the user
+  async markNotificationsRead(userId: string, notificationIds?: string[]): Promise<InboxEvent> {
+    if (this.shouldForward()) return this.forward('markNotificationsRead', [userId, notificationIds])
+
+    await this.repository.markNotificationsRead(userId, notificationIds ?? null, new Date())
+    const status = await this.getInboxStatus(userId)
+    this.socket.to(`user:${userId}`).emit('inbox_update', status)
+    return status
+  }
+
+  //Notifications in channels the user can still view, checking each channel once
+  private async visibleNotifications(userId: string, rows: DatabaseNotification[]) {
+    const access: Map<string, Promise<boolean>> = new Map()
+    const visible: DatabaseNotification[] = []
+
+    for (const row of rows) {
+      let canView = access.get(row.channel_id)
+      if (!canView) {
+        canView = this.authorizeChannelAccess(row.channel_id, userId).then(() => true, () => false)
+        access.set(row.channel_id, canView)
+      }
+      if (await canView) visible.push(row)
+    }
+
+    return visible
+  }
+
+  //Checking that a user may join a channel's room
+  async authorizeChannelAccess(channelId: string, userId: string): Promise<void> {
+    if (this.shouldForward()) return this.forward('authorizeChannelAccess', [channelId, userId])
+
+    const { channel } = await this.resolveChannelMember(channelId, userId)
+    if (!channel.isTextBased()) {
+      throw new OperationalError('INVALID_CHANNEL', 'This channel has no messages to stream')
+    }
+  }
+
+  //Checking that a user may manage the webhook subscriptions of a server (Administrator) or of one channel (Manage Webhooks there)
+  async authorizeWebhookAdmin(userId: string, guildId: string, channelId?: string): Promise<void> {
+    if (this.shouldForward()) return this.forward('authorizeWebhookAdmin', [userId, guildId, channelId])
+
+    if (channelId) {
+      const { channel, member } = await this.resolveChannelMember(channelId, userId)
+      if (channel.guildId !== guildId) {
+        throw new OperationalError('CHANNEL_NOT_FOUND', 'Channel not found', { statusCode: 404 })
+      }
+      if (!channel.isTextBased()) {
+        throw new OperationalError('INVALID_CHANNEL', 'This channel has no messages to forward')
+      }
+      if (!channel.permissionsFor(member).has('ManageWebhooks')) {
+        throw new OperationalError('MISSING_PERMISSION', 'You need Manage Webhooks in this channel', { statusCode: 403 })
+      }
+      return
+    }
+
+    // Server-wide subscriptions see every channel, so they take a member who can too
+    const guild = this.client.guilds.cache.get(guildId)
+    const member = await guild?.members.fetch(userId).catch(() => null)
+    if (!member) throw new OperationalError('GUILD_NOT_FOUND', 'Server not found', { statusCode: 404 })
+    if (!member.permissions.has('Administrator')) {
+      throw new OperationalError('MISSING_PERMISSION', 'You need Administrator to manage server-wide webhooks', { statusCode: 403 })
+    }
+  }
+
+  //Looking up an archived attachment with a Discord URL that can still be downloaded
+  async getAttachment(channelId: string, attachmentId: string, refresh = false): Promise<DiscordAttachment> {
+    if (this.shouldForward()) return this.forward('getAttachment', [channelId, attachmentId, refresh])
+
+    const notFound = new OperationalError('ATTACHMENT_NOT_FOUND', 'Attachment not found', { statusCode: 404 })
+    const row = await this.repository.getMessageByAttachment(attachmentId)
+    if (!row || row.channel_id !== channelId || row.deleted_at) throw notFound
+
+    const archived = (JSON.parse(row.attachments) as DiscordAttachment[]).find(attachment => attachment.id === attachmentId)
+    if (!archived) throw notFound
+    if (!refresh && !isDiscordUrlExpired(archived.url)) return archived
+
+    // Fetching the message again returns freshly signed Discord URLs
+    const channel = await this.client.channels.fetch(channelId).catch(() => null)
+    const message = channel?.isTextBased() ? await channel.messages.fetch(row.discord_id).catch(() => null) : null
+    const attachment = message?.attachments.get(attachmentId)
+    if (!message || !attachment) throw notFound
+
+    await this.archiveMessage(message)
+    return this.formatAttachment(attachment)
+  }
+
+  //Listing the active threads of a channel, or a page of its archived ones
+  async listThreads(userId: string, request: ListThreadsRequest): Promise<ThreadPage> {
+    if (this.shouldForward()) return this.forward('listThreads', [userId, request])
+
+    const { channel, member } = await this.resolveChannelMember(request.channelId, userId)
+    if (!this.isThreadParent(channel)) {
+      throw new OperationalError('INVALID_CHANNEL', 'This channel has no threads')
+    }
+
+    if (!request.archived) {
+      const { threads } = await channel.threads.fetchActive()
+      const visible = [...threads.values()].filter(thread => this.canView(thread, member))
+      return {
+        channelId: channel.id,
+        threads: await Promise.all(visible.map(thread => this.formatChannel(thread, member))),
+        hasMore: false
+      }
+    }
+
+    if (request.before !== undefined && Number.isNaN(Date.parse(request.before))) {
+      throw new OperationalError('INVALID_QUERY', '`before` must be an ISO8601 date')
+    }
+
+    const limit = Math.min(Math.max(request.limit ?? DEFAULT_THREAD_LIMIT, 1), MAX_THREAD_LIMIT)
+    const options = { limit, ...(request.before ? { before: request.before } : {}) }
+
+    // Only text channels have private threads, and Discord only lists archived ones to bots with Manage Threads
+    const me = channel.guild.members.me
+    const listPrivate = channel.type === ChannelType.GuildText && !!me && channel.permissionsFor(me).has('ManageThreads')
+    const [publicThreads, privateThreads] = await Promise.all([
+      channel.threads.fetchArchived({ type: 'public', ...options }),
+      listPrivate ? channel.threads.fetchArchived({ type: 'private', fetchAll: true, ...options }) : null
+    ])
+
+    // Both lists are newest first; whatever is cut from the merged page comes back through the cursor
+    const merged = [...publicThreads.threads.values(), ...(privateThreads?.threads.values() ?? [])]
+      .sort((a, b) => (b.archivedAt?.getTime() ?? 0) - (a.archivedAt?.getTime() ?? 0))
+    const page = merged.slice(0, limit)
+    const hasMore = publicThreads.hasMore || !!privateThreads?.hasMore || merged.length > limit
+
+    // Cursor is the oldest archive time kept, even if that thread is hidden from the caller
+    const oldest = page[page.length - 1]
+    const visible: AnyThreadChannel[] = []
+    for (const thread of page) {
+      if (await this.canViewArchivedThread(thread, member)) visible.push(thread)
+    }
+
+    return {
+      channelId: channel.id,
+      threads: await Promise.all(visible.map(thread => this.formatChannel(thread, member))),
+      hasMore,
+      ...(hasMore && oldest?.archivedAt ? { nextCursor: oldest.archivedAt.toISOString() } : {})
+    }
+  }
+
+  //Archived private threads are not in the thread member cache, so the caller's membership is looked up first
+  private async canViewArchivedThread(thread: AnyThreadChannel, member: GuildMember) {
+    if (thread.type === ChannelType.PrivateThread && !thread.members.cache.has(member.id) && !thread.permissionsFor(member).has('ManageThreads')) {
+      await thread.members.fetch({ member: member.id }).catch(() => null)
+    }
+    return this.canView(thread, member)
+  }
+
+  //Resolving a guild channel together with the user's membership, which must be allowed to view it
+  private async resolveChannelMember(channelId: string, userId: string) {
+    const channel = await this.client.channels.fetch(channelId).catch(() => null)
+    if (!channel || channel.isDMBased()) {
+      throw new OperationalError('CHANNEL_NOT_FOUND', 'Channel not found', { statusCode: 404 })
+    }
+
+    const member = await channel.guild.members.fetch(userId).catch(() => null)
+    if (!member || !this.canView(channel, member)) {
+      throw new OperationalError('MISSING_PERMISSION', 'You do not have access to this channel', { statusCode: 403 })
+    }
+
+    return { channel, member }
+  }
+
+  //Evicting every socket of a user from a channel room, on every node
+  private async revokeAccess(channel: GuildBasedChannel, userId: string, reason: AccessRevokedEvent['reason']) {
+    const room = `channel:${channel.id}`
+    const event: AccessRevokedEvent = { channelId: channel.id, serverId: channel.guild.id, reason }
+
+    for (const socket of await this.socket.in(room).fetchSockets()) {
+      if (socket.data.discordId !== userId) continue
+      socket.emit('access_revoked', event)
+      socket.leave(room)
+      socket.leave(`filtered:${channel.id}`)
+    }
+
+    await this.subscriptions.removeSubscriber(channel.id, userId)
+    const username = (await this.subscriptions.getPresence([userId])).get(userId)?.username ?? ''
+    this.socket.to(room).emit('user_left', { channelId: channel.id, user: { id: userId, username } })
+    console.log(`🚫 Revoked access to channel ${channel.id} for user ${userId} (${reason})`)
+  }
+
+  //Re-checking a member's access to the channels of their guild they are watching
+  private async recheckMemberAccess(member: GuildMember) {
+    try {
+      for (const channelId of await this.subscriptions.getUserSubscriptions(member.id)) {
+        const channel = member.guild.channels.cache.get(channelId)
+        if (channel && !this.canView(channel, member)) {
+          await this.revokeAccess(channel, member.id, 'PERMISSIONS_CHANGED')
+        }
+      }
+    } catch (error) {
+      console.error('Error re-checking member access:', error)
+    }
+  }
+
+  //Role permission changes can affect any member of the guild
+  private async recheckGuildAccess(guild: Guild) {
+    for (const userId of await this.subscriptions.getConnectedUsers().catch(() => [])) {
+      const member = guild.members.cache.get(userId)
+      if (member) await this.recheckMemberAccess(member)
+    }
+  }
+
+  //Re-checking everyone watching a channel after its permission overwrites changed
+  private async recheckChannelAccess(channel: GuildBasedChannel) {
+    for (const userId of await this.subscriptions.getSubscribers(channel.id)) {
+      const member = channel.guild.members.cache.get(userId)
+      if (member && !this.canView(channel, member)) {
+        await this.revokeAccess(channel, userId, 'PERMISSIONS_CHANGED')
+      }
+    }
+  }
+
+  private async handleMemberRemove(member: GuildMember | PartialGuildMember) {
+    try {
+      for (const channelId of await this.subscriptions.getUserSubscriptions(member.id)) {
+        const channel = member.guild.channels.cache.get(channelId)
+        if (channel) await this.revokeAccess(channel, member.id, 'MEMBER_REMOVED')
+      }
+    } catch (error) {
+      console.error('Error handling member removal:', error)
+    }
+  }
+
+  //Bridged channel types the member can view
+  private isVisibleChannel(channel: GuildBasedChannel, member: GuildMember) {
+    return CHANNEL_TYPES[channel.type] !== undefined && this.canView(channel, member)
+  }
+
+  //Pushing created, renamed, moved or re-permissioned channels to the connected users who can see them
+  private async handleChannelChange(previous: GuildBasedChannel | null, channel: GuildBasedChannel) {
+    try {
+      for (const userId of await this.subscriptions.getConnectedUsers()) {
+        const member = channel.guild.members.cache.get(userId)
+        if (!member) continue
+
+        if (this.isVisibleChannel(channel, member)) {
+          await this.pushChannelUpdate(channel, member)
+        } else if (previous && this.isVisibleChannel(previous, member)) {
+          // The channel dropped out of this user's list
+          this.socket.to(`user:${userId}`).emit('channel_delete', { channelId: channel.id, serverId: channel.guild.id })
+        }
+      }
+
+      if (previous) await this.recheckChannelAccess(channel)
+    } catch (error) {
+      console.error('Error handling channel change:', error)
+    }
+  }
+
+  //Telling everyone who could see a deleted channel and emptying its room on every node
+  private async handleChannelDelete(channel: GuildBasedChannel) {
+    try {
+      const rooms = await this.getViewerRooms(channel)
+      this.socket.to(rooms).emit('channel_delete', { channelId: channel.id, serverId: channel.guild.id })
+      this.socket.in(`channel:${channel.id}`).socketsLeave([`channel:${channel.id}`, `filtered:${channel.id}`])
+
+      await this.subscriptions.removeChannel(channel.id)
+      this.liveArchiveTails.delete(channel.id)
+      this.bridgeWebhooks.delete(channel.id)
+      console.log(`🗑️ Channel ${channel.id} was deleted`)
+    } catch (error) {
+      console.error('Error handling channel delete:', error)
+    }
+  }
+
+  //The channel's own room plus the user rooms of every connected user who can see it, joined or not
+  private async getViewerRooms(channel: GuildBasedChannel) {
+    const rooms = [`channel:${channel.id}`]
+    for (const userId of await this.subscriptions.getConnectedUsers()) {
+      const member = channel.guild.members.cache.get(userId)
+      if (member && this.isVisibleChannel(channel, member)) rooms.push(`user:${userId}`)
+    }
+    return rooms
+  }
+
+  //Streaming voice channel occupancy; a move is a leave from one channel and a join to another
+  private async handleVoiceStateUpdate(oldState: VoiceState, newState: VoiceState) {
+    try {
+      if (oldState.channel && oldState.channelId !== newState.channelId) {
+        await this.emitVoiceState(oldState.channel, oldState.id, null)
+      }
+      if (newState.channel) {
+        await this.emitVoiceState(newState.channel, newState.id, this.formatVoiceParticipant(newState))
+      }
+    } catch (error) {
+      console.error('Error handling voice state update:', error)
+    }
+  }
+
+  // Each side of a move is sent separately so viewers of one channel never learn about the other
+  private async emitVoiceState(channel: VoiceBasedChannel, userId: string, participant: VoiceParticipant | null) {
+    this.socket.to(await this.getViewerRooms(channel)).emit('voice_state_update', {
+      channelId: channel.id,
+      serverId: channel.guild.id,
+      userId,
+      participant
+    })
+  }
+
+  private formatVoiceParticipant(state: VoiceState): VoiceParticipant {
+    return {
+      id: state.id,
+      username: state.member?.user.username ?? '',
+      displayName: state.member?.displayName ?? '',
+      avatar: state.member?.displayAvatarURL() ?? '',
+      selfMute: !!state.selfMute,
+      selfDeaf: !!state.selfDeaf,
+      serverMute: !!state.serverMute,
+      serverDeaf: !!state.serverDeaf,
+      streaming: !!state.streaming,
+      video: !!state.selfVideo,
+      suppressed: !!state.suppress
+    }
+  }
+
+  //Channel entry as seen by one member
+  private async formatChannel(channel: GuildBasedChannel, member: GuildMember): Promise<DiscordChannel> {
+    return {
+      id: channel.id,
+      name: channel.name,
+      type: CHANNEL_TYPES[channel.type] ?? 'text',
+      serverId: channel.guild.id,
+      serverName: channel.guild.name,
+      position: 'position' in channel && typeof channel.position === 'number' ? channel.position : 0,
+      ...(channel.parentId ? { parentId: channel.parentId } : {}),
+      ...(channel.isThread() ? { thread: this.formatThreadInfo(channel) } : {}),
+      ...(channel.isVoiceBased()
+        ? { voiceMembers: [...channel.members.values()].map(voiceMember => this.formatVoiceParticipant(voiceMember.voice)) }
+        : {}),
+      unreadCount: channel.isTextBased() ? await this.getUnreadCount(channel, member.id) : 0,
+      isActive: (await this.subscriptions.getSubscribers(channel.id)).includes(member.id),
+      permissions: this.resolvePermissions(channel, member)
+    }
+  }
+
+
+  private formatThreadInfo(thread: AnyThreadChannel): ThreadInfo {
+    const parent = thread.parent
+    const tags = parent?.isThreadOnly()
+      ? parent.availableTags.filter(tag => thread.appliedTags.includes(tag.id)).map(tag => tag.name)
+      : []
+
+    return {
+      archived: !!thread.archived,
+      locked: !!thread.locked,
+      private: thread.type === ChannelType.PrivateThread,
+      forumPost: !!parent?.isThreadOnly(),
+      ...(thread.ownerId ? { ownerId: thread.ownerId } : {}),
+      ...(thread.messageCount !== null ? { messageCount: thread.messageCount } : {}),
+      ...(tags.length > 0 ? { tags } : {}),
+      ...(thread.createdAt ? { createdAt: thread.createdAt.toISOString() } : {}),
+      ...(thread.archived && thread.archivedAt ? { archivedAt: thread.archivedAt.toISOString() } : {})
+    }
+  }
+
+
+  //Handling getting user's channels
+  async getUserChannels(userId: string) {
+    if (this.shouldForward()) return this.forward('getUserChannels', [userId])
 
-  //Handling getting user's channels
-  async getUserChannels(userId: string) {
     try {
       const channels: DiscordChannel[] = []
+      // The user's OAuth guild list spares a member lookup in every guild they are not in
+      const guildIds = await this.oauth?.getUserGuildIds(userId) ?? null
 
       for (const guild of this.client.guilds.cache.values()) {
+        if (guildIds && !guildIds.has(guild.id)) continue
         const member = await guild.members.fetch(userId).catch(() => null)
 
         if (member) {
-          const textChannels = guild.channels.cache.filter(channel =>
-            channel.isTextBased?.() && channel.type === 0 && channel.permissionsFor(member).has('ViewChannel')
+          // Archived threads are only listed on request, through list_threads
+          const visible = guild.channels.cache.filter(channel =>
+            channel.type !== ChannelType.GuildCategory &&
+            !(channel.isThread() && channel.archived) &&
+            this.isVisibleChannel(channel, member)
           )
 
-          for (const channel of textChannels.values()) {
-            channels.push({
-              id: channel.id,
-              name: 'name' in channel ? channel.name : '',
-              type: 'text',
-              serverId: guild.id,
-              serverName: guild.name,
-              position: 'position' in channel && typeof channel.position === 'number' ? channel.position : 0,
-              unreadCount: 0,
-              isActive: false,
-              permissions: {
-                canRead: channel.permissionsFor(member).has('ViewChannel'),
-                canWrite: channel.permissionsFor(member).has('SendMessages'),
-                canManage: channel.permissionsFor(member).has('ManageChannels')
-              }
-            })
+          // Like Discord, only show categories that contain something the member can see
+          const parentIds = new Set(visible.map(channel => channel.parentId))
+          const categories = guild.channels.cache.filter(channel =>
+            channel.type === ChannelType.GuildCategory && parentIds.has(channel.id))
+
+          for (const channel of [...categories.values(), ...visible.values()]) {
+            channels.push(await this.formatChannel(channel, member))
           }
         }
       }
@@ -272,7 +2047,9 @@ export class DiscordBot {
 
 
   //Getting connected user data
-  async getUserInfo(discordId: string) {
+  async getUserInfo(discordId: string): Promise<DiscordUserProfile | null> {
+    if (this.shouldForward()) return this.forward('getUserInfo', [discordId])
+
     try {
       const user = await this.client.users.fetch(discordId)
       return {
@@ -291,22 +2068,23 @@ export class DiscordBot {
   }
 
 
+  //Guilds the bot has joined, for marking them in the user's guild list
+  async getBotGuildIds(): Promise<string[]> {
+    if (this.shouldForward()) return this.forward('getBotGuildIds', [])
+
+    return [...this.client.guilds.cache.keys()]
+  }
+
+
   //Getting subscription statistics
   getSubscriptionStats() {
-    const stats = {
-      totalChannels: this.channelSubscriptions.size,
-      totalSubscribers: 0,
-      channelDetails: [] as Array<{ channelId: string, subscriberCount: number }>
-    }
-
-    for (const [channelId, subscribers] of this.channelSubscriptions.entries()) {
-      stats.totalSubscribers += subscribers.size
-      stats.channelDetails.push({
-        channelId,
-        subscriberCount: subscribers.size
-      })
-    }
+    return this.subscriptions.getStats()
+  }
 
-    return stats
+  //Cluster role for the status endpoint
+  getClusterInfo() {
+    return this.cluster
+      ? { enabled: true, nodeId: this.cluster.nodeId, leader: this.cluster.isLeader() }
+      : { enabled: false }
   }
 } 
\ No newline at end of file
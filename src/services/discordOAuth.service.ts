@@ -0,0 +1,279 @@
+import crypto from 'crypto'
+import axios, { isAxiosError } from 'axios'
+import type Redis from 'ioredis'
+import { PermissionFlagsBits } from 'discord.js'
+import { DiscordOAuthTokens } from '../types'
+import { OperationalError } from '../middleware/errorHandler'
+
+export const DEFAULT_DISCORD_API_URL = 'https://discord.com/api'
+const AUTHORIZE_URL = 'https://discord.com/oauth2/authorize'
+export const OAUTH_SCOPES = 'identify email guilds'
+
+// Access tokens this close to expiry are refreshed before they are used
+const TOKEN_REFRESH_MARGIN_MS = 60 * 1000
+// Discord rate-limits /users/@me/guilds tightly, so a user's list is reused for a while
+export const GUILD_CACHE_TTL_MS = 60 * 1000
+
+// What the bridge needs: read channels and history, post through webhooks, react and attach files
+export const BOT_INVITE_PERMISSIONS =
+  PermissionFlagsBits.ViewChannel |
+  PermissionFlagsBits.ReadMessageHistory |
+  PermissionFlagsBits.SendMessages |
+  PermissionFlagsBits.SendMessagesInThreads |
+  PermissionFlagsBits.EmbedLinks |
+  PermissionFlagsBits.AttachFiles |
+  PermissionFlagsBits.AddReactions |
+  PermissionFlagsBits.ManageWebhooks
+
+export interface DiscordOAuthConfig {
+  clientId: string
+  clientSecret: string
+  redirectUri: string
+  apiUrl: string
+}
+
+// GET /users/@me
+export interface DiscordOAuthUser {
+  id: string
+  username: string
+  email?: string | null
+  bot?: boolean
+}
+
+// GET /users/@me/guilds; `permissions` is the user's permission bitfield as a string
+export interface DiscordUserGuild {
+  id: string
+  name: string
+  icon: string | null
+  owner: boolean
+  permissions: string
+}
+
+interface TokenResponse {
+  access_token: string
+  refresh_token: string
+  expires_in: number
+  scope: string
+}
+
+//Where encrypted Discord tokens are kept; Redis shares them between cluster nodes
+export interface OAuthTokenStore {
+  get(userId: string): Promise<string | null>
+  set(userId: string, value: string): Promise<void>
+  delete(userId: string): Promise<void>
+}
+
+export class InMemoryOAuthTokenStore implements OAuthTokenStore {
+  private tokens: Map<string, string> = new Map()
+
+  async get(userId: string) {
+    return this.tokens.get(userId) ?? null
+  }
+
+  async set(userId: string, value: string) {
+    this.tokens.set(userId, value)
+  }
+
+  async delete(userId: string) {
+    this.tokens.delete(userId)
+  }
+}
+
+export class RedisOAuthTokenStore implements OAuthTokenStore {
+  private redis: Redis
+
+  constructor(redis: Redis) {
+    this.redis = redis
+  }
+
+  async get(userId: string) {
+    return this.redis.get(`discord:oauth:${userId}`)
+  }
+
+  async set(userId: string, value: string) {
+    await this.redis.set(`discord:oauth:${userId}`, value)
+  }
+
+  async delete(userId: string) {
+    await this.redis.del(`discord:oauth:${userId}`)
+  }
+}
+
+// AES-256-GCM with a key derived from TOKEN_ENCRYPTION_KEY, or JWT_SECRET when it is unset
+const encryptionKey = () =>
+  crypto.createHash('sha256').update(process.env['TOKEN_ENCRYPTION_KEY'] || (process.env['JWT_SECRET'] as string)).digest()
+
+export const encryptTokens = (tokens: DiscordOAuthTokens) => {
+  const iv = crypto.randomBytes(12)
+  const cipher = crypto.createCipheriv('aes-256-gcm', encryptionKey(), iv)
+  const data = Buffer.concat([cipher.update(JSON.stringify(tokens), 'utf8'), cipher.final()])
+  return [iv, cipher.getAuthTag(), data].map(part => part.toString('base64url')).join('.')
+}
+
+//Returns null for values that were tampered with or encrypted under another key
+export const decryptTokens = (value: string): DiscordOAuthTokens | null => {
+  const [iv, tag, data] = value.split('.').map(part => Buffer.from(part, 'base64url'))
+  if (!iv || !tag || !data) return null
+
+  try {
+    const decipher = crypto.createDecipheriv('aes-256-gcm', encryptionKey(), iv)
+    decipher.setAuthTag(tag)
+    return JSON.parse(Buffer.concat([decipher.update(data), decipher.final()]).toString('utf8'))
+  } catch {
+    return null
+  }
+}
+
+const authRequired = () =>
+  new OperationalError('DISCORD_AUTH_REQUIRED', 'Sign in with Discord again to list your servers', { statusCode: 401 })
+
+const isUnauthorized = (error: unknown) =>
+  isAxiosError(error) && (error.response?.status === 400 || error.response?.status === 401)
+
+//Owners, administrators and members with Manage Server may add the bot
+export const canManageGuild = (guild: DiscordUserGuild) => {
+  const permissions = BigInt(guild.permissions || '0')
+  return guild.owner || (permissions & (PermissionFlagsBits.Administrator | PermissionFlagsBits.ManageGuild)) !== 0n
+}
+
+//The user's Discord OAuth2 grant: login, stored tokens and the guild list they unlock
+export class DiscordOAuthService {
+  private config: DiscordOAuthConfig
+  private store: OAuthTokenStore
+  private guildCache: Map<string, { guilds: DiscordUserGuild[], fetchedAt: number }> = new Map()
+  // Discord accepts each refresh token once, so concurrent callers share the refresh in flight
+  private refreshes: Map<string, Promise<string>> = new Map()
+
+  constructor(config: DiscordOAuthConfig, store: OAuthTokenStore = new InMemoryOAuthTokenStore()) {
+    this.config = config
+    this.store = store
+  }
+
+  authorizeUrl(state: string) {
+    const params = new URLSearchParams({
+      client_id: this.config.clientId,
+      redirect_uri: this.config.redirectUri,
+      response_type: 'code',
+      scope: OAUTH_SCOPES,
+      state,
+      prompt: 'consent'
+    })
+    return `${AUTHORIZE_URL}?${params.toString()}`
+  }
+
+  //Adding the bot to one guild, with the guild preselected
+  botInviteUrl(guildId: string) {
+    const params = new URLSearchParams({
+      client_id: this.config.clientId,
+      scope: 'bot',
+      permissions: BOT_INVITE_PERMISSIONS.toString(),
+      guild_id: guildId,
+      disable_guild_select: 'true'
+    })
+    return `${AUTHORIZE_URL}?${params.toString()}`
+  }
+
+  //Trading the callback code for tokens, which are kept for later guild lookups
+  async exchangeCode(code: string, now = Date.now()): Promise<DiscordOAuthUser> {
+    const tokens = await this.requestTokens({ grant_type: 'authorization_code', code, redirect_uri: this.config.redirectUri })
+    const { data: user } = await axios.get<DiscordOAuthUser>(`${this.config.apiUrl}/users/@me`, {
+      headers: { Authorization: `Bearer ${tokens.access_token}` }
+    })
+
+    await this.saveTokens(user.id, tokens, now)
+    this.guildCache.delete(user.id)
+    return user
+  }
+
+  //A valid access token for the user, refreshed when it is about to expire
+  async getAccessToken(userId: string, now = Date.now()) {
+    const tokens = await this.readTokens(userId)
+    if (!tokens) throw authRequired()
+    if (tokens.expiresAt - TOKEN_REFRESH_MARGIN_MS > now) return tokens.accessToken
+
+    let refresh = this.refreshes.get(userId)
+    if (!refresh) {
+      refresh = this.refreshTokens(userId, tokens, now).finally(() => this.refreshes.delete(userId))
+      this.refreshes.set(userId, refresh)
+    }
+    return refresh
+  }
+
+  async getUserGuilds(userId: string, now = Date.now()): Promise<DiscordUserGuild[]> {
+    const cached = this.guildCache.get(userId)
+    if (cached && now - cached.fetchedAt < GUILD_CACHE_TTL_MS) return cached.guilds
+
+    const accessToken = await this.getAccessToken(userId, now)
+    try {
+      const { data: guilds } = await axios.get<DiscordUserGuild[]>(`${this.config.apiUrl}/users/@me/guilds`, {
+        headers: { Authorization: `Bearer ${accessToken}` }
+      })
+      this.guildCache.set(userId, { guilds, fetchedAt: now })
+      return guilds
+    } catch (error) {
+      if (!isUnauthorized(error)) throw error
+      await this.store.delete(userId)
+      throw authRequired()
+    }
+  }
+
+  //The user's guild IDs, or null when they have no stored grant or Discord cannot be reached
+  async getUserGuildIds(userId: string): Promise<Set<string> | null> {
+    try {
+      return new Set((await this.getUserGuilds(userId)).map(guild => guild.id))
+    } catch (error) {
+      if (!(error instanceof OperationalError)) console.error('Error fetching user guilds:', error)
+      return null
+    }
+  }
+
+  private async readTokens(userId: string) {
+    const stored = await this.store.get(userId)
+    return stored ? decryptTokens(stored) : null
+  }
+
+  private async refreshTokens(userId: string, tokens: DiscordOAuthTokens, now: number) {
+    try {
+      const refreshed = await this.requestTokens({ grant_type: 'refresh_token', refresh_token: tokens.refreshToken })
+      await this.saveTokens(userId, refreshed, now)
+      return refreshed.access_token
+    } catch (error) {
+      // The user revoked the app, or the refresh token was already spent
+      if (!isUnauthorized(error)) throw error
+
+      // Another node spent it first and stored the new grant, which stays
+      const current = await this.readTokens(userId)
+      if (current && current.refreshToken !== tokens.refreshToken) return current.accessToken
+      await this.store.delete(userId)
+      throw authRequired()
+    }
+  }
+
+  private async requestTokens(params: Record<string, string>) {
+    const body = new URLSearchParams({ client_id: this.config.clientId, client_secret: this.config.clientSecret, ...params })
+    const { data } = await axios.post<TokenResponse>(`${this.config.apiUrl}/oauth2/token`, body, {
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' }
+    })
+    return data
+  }
+
+  private async saveTokens(userId: string, tokens: TokenResponse, now: number) {
+    await this.store.set(userId, encryptTokens({
+      accessToken: tokens.access_token,
+      refreshToken: tokens.refresh_token,
+      scope: tokens.scope,
+      expiresAt: now + tokens.expires_in * 1000
+    }))
+  }
+}
+
+//Reading the OAuth2 application from the environment; DISCORD_API_URL points tests at a stand-in
+export const createDiscordOAuthService = (redis?: Redis | null) => new DiscordOAuthService(
+  {
+    clientId: process.env['DISCORD_CLIENT_ID']!,
+    clientSecret: process.env['DISCORD_CLIENT_SECRET']!,
+    redirectUri: process.env['DISCORD_REDIRECT_URI']!,
+    apiUrl: (process.env['DISCORD_API_URL'] || DEFAULT_DISCORD_API_URL).replace(/\/$/, '')
+  },
+  redis ? new RedisOAuthTokenStore(redis) : new InMemoryOAuthTokenStore()
+)
@@ -0,0 +1,103 @@
+import { PresenceStatus, UserPresence } from '../types'
+
+// Clients heartbeat every ~30 seconds; missing three in a row marks them away
+export const PRESENCE_HEARTBEAT_INTERVAL_MS = 30000
+export const PRESENCE_AWAY_AFTER_MS = 90000
+const SWEEP_INTERVAL_MS = 15000
+
+type PresenceListener = (userId: string, presence: UserPresence | null) => void | Promise<void>
+
+interface TrackedSocket {
+  userId: string
+  username: string
+  idle: boolean
+  lastSeen: number
+}
+
+//Turning the heartbeats of one node's sockets into a single status per user
+export class PresenceTracker {
+  private sockets: Map<string, TrackedSocket> = new Map()
+  private published: Map<string, PresenceStatus> = new Map()
+  private listener: PresenceListener
+  private awayAfterMs: number
+  private timer: NodeJS.Timeout | null = null
+
+  constructor(listener: PresenceListener, options: { awayAfterMs?: number } = {}) {
+    this.listener = listener
+    this.awayAfterMs = options.awayAfterMs ?? PRESENCE_AWAY_AFTER_MS
+  }
+
+  track(socketId: string, userId: string, username: string, now = Date.now()) {
+    this.sockets.set(socketId, { userId, username, idle: false, lastSeen: now })
+    this.startSweeping()
+    return this.refresh(userId, now)
+  }
+
+  heartbeat(socketId: string, idle: boolean, now = Date.now()) {
+    const socket = this.sockets.get(socketId)
+    if (!socket) return Promise.resolve()
+
+    socket.idle = idle
+    socket.lastSeen = now
+    return this.refresh(socket.userId, now)
+  }
+
+  untrack(socketId: string, now = Date.now()) {
+    const socket = this.sockets.get(socketId)
+    if (!socket) return Promise.resolve()
+
+    this.sockets.delete(socketId)
+    if (this.sockets.size === 0) this.stopSweeping()
+    return this.refresh(socket.userId, now)
+  }
+
+  //Downgrading users whose heartbeats stopped
+  async sweep(now = Date.now()) {
+    for (const userId of new Set([...this.sockets.values()].map(socket => socket.userId))) {
+      await this.refresh(userId, now)
+    }
+  }
+
+  stop() {
+    this.stopSweeping()
+  }
+
+  private statusOf(socket: TrackedSocket, now: number): PresenceStatus {
+    if (now - socket.lastSeen > this.awayAfterMs) return 'away'
+    return socket.idle ? 'idle' : 'online'
+  }
+
+  //Publishing the user's best status across their sockets, only when it changed
+  private async refresh(userId: string, now: number) {
+    const sockets = [...this.sockets.values()].filter(socket => socket.userId === userId)
+    const statuses = sockets.map(socket => this.statusOf(socket, now))
+    const status: PresenceStatus | null = statuses.includes('online')
+      ? 'online'
+      : statuses.includes('idle') ? 'idle' : statuses.length > 0 ? 'away' : null
+
+    if ((this.published.get(userId) ?? null) === status) return
+
+    if (status) {
+      this.published.set(userId, status)
+    } else {
+      this.published.delete(userId)
+    }
+
+    try {
+      await this.listener(userId, status ? { username: (sockets[0] as TrackedSocket).username, status } : null)
+    } catch (error) {
+      console.error('Error publishing presence:', error)
+    }
+  }
+
+  private startSweeping() {
+    if (this.timer) return
+    this.timer = setInterval(() => this.sweep(), SWEEP_INTERVAL_MS)
+    this.timer.unref()
+  }
+
+  private stopSweeping() {
+    if (this.timer) clearInterval(this.timer)
+    this.timer = null
+  }
+}
@@ -0,0 +1,214 @@
+import type Redis from 'ioredis'
+import { ReplayEvent } from '../types'
+
+export const DEFAULT_REPLAY_BUFFER_SIZE = 500
+export const DEFAULT_REPLAY_BUFFER_TTL_MS = 5 * 60 * 1000
+
+// Counters outlive the buffered events so a quiet channel keeps its numbering
+const SEQUENCE_TTL_MS = 24 * 60 * 60 * 1000
+
+export interface ReplayConfig {
+  size: number // events kept per channel
+  ttlMs: number // how long events are kept after a channel's last one, and channels after their last subscriber
+}
+
+// A stream event before it is numbered
+export type ReplayEventInput = ReplayEvent extends infer E
+  ? E extends ReplayEvent ? { event: E['event'], data: Omit<E['data'], 'seq'> } : never
+  : never
+
+export interface ReplayRead {
+  seq: number // the channel's latest sequence number
+  events: ReplayEvent[] | null // null when some of the missed events were already dropped
+}
+
+//Where channel sequence counters and their recent events are kept; Redis shares them between cluster nodes
+export interface ReplayStore {
+  append(channelId: string, entry: ReplayEventInput, config: ReplayConfig, now: number): Promise<ReplayEvent>
+  // The latest sequence number, starting a counter when the channel has none
+  head(channelId: string, now: number): Promise<number>
+  read(channelId: string, afterSeq: number, now: number): Promise<ReplayRead>
+  retain(channelId: string, ttlMs: number, now: number): Promise<void>
+  isRetained(channelId: string, now: number): Promise<boolean>
+}
+
+const sequenced = (entry: ReplayEventInput, seq: number) => ({ event: entry.event, data: { ...entry.data, seq } }) as ReplayEvent
+
+//The events after `afterSeq`, or null when the buffer no longer reaches back that far
+const missedEvents = (seq: number, events: ReplayEvent[], afterSeq: number) => {
+  if (afterSeq > seq) return null
+
+  const missed = events.filter(entry => entry.data.seq > afterSeq)
+  return missed.length === seq - afterSeq ? missed : null
+}
+
+interface ChannelStream {
+  seq: number
+  seqExpiresAt: number
+  events: ReplayEvent[]
+  eventsExpireAt: number
+}
+
+export class InMemoryReplayStore implements ReplayStore {
+  private streams: Map<string, ChannelStream> = new Map()
+  private retained: Map<string, number> = new Map()
+
+  async append(channelId: string, entry: ReplayEventInput, config: ReplayConfig, now: number) {
+    const stream = this.stream(channelId, now)
+    stream.seq += 1
+
+    const event = sequenced(entry, stream.seq)
+    stream.events.push(event)
+    if (stream.events.length > config.size) stream.events.splice(0, stream.events.length - config.size)
+    stream.eventsExpireAt = now + config.ttlMs
+
+    return event
+  }
+
+  async head(channelId: string, now: number) {
+    return this.stream(channelId, now).seq
+  }
+
+  async read(channelId: string, afterSeq: number, now: number) {
+    const stream = this.stream(channelId, now)
+    return { seq: stream.seq, events: missedEvents(stream.seq, stream.events, afterSeq) }
+  }
+
+  async retain(channelId: string, ttlMs: number, now: number) {
+    this.retained.set(channelId, now + ttlMs)
+  }
+
+  async isRetained(channelId: string, now: number) {
+    const until = this.retained.get(channelId)
+    if (until !== undefined && until <= now) this.retained.delete(channelId)
+    return until !== undefined && until > now
+  }
+
+  private stream(channelId: string, now: number) {
+    let stream = this.streams.get(channelId)
+    if (!stream || stream.seqExpiresAt <= now) {
+      // Counters start at the current time in milliseconds, so a channel whose counter expired or whose
+      // node restarted continues above any number handed out before instead of starting over
+      stream = { seq: now, seqExpiresAt: 0, events: [], eventsExpireAt: 0 }
+      this.streams.set(channelId, stream)
+      if (this.streams.size > 10000) this.sweep(now)
+    }
+
+    if (stream.eventsExpireAt <= now) stream.events = []
+    stream.seqExpiresAt = now + SEQUENCE_TTL_MS
+    return stream
+  }
+
+  private sweep(now: number) {
+    for (const [channelId, stream] of this.streams) {
+      if (stream.seqExpiresAt <= now) this.streams.delete(channelId)
+    }
+    for (const [channelId, until] of this.retained) {
+      if (until <= now) this.retained.delete(channelId)
+    }
+  }
+}
+
+// Same numbering as the in-memory store; the list holds the latest events in order, so the last one is `seq`
+const APPEND_SCRIPT = `
+if redis.call('exists', KEYS[1]) == 0 then redis.call('set', KEYS[1], ARGV[1]) end
+local seq = redis.call('incr', KEYS[1])
+redis.call('pexpire', KEYS[1], ARGV[2])
+redis.call('rpush', KEYS[2], ARGV[3])
+redis.call('ltrim', KEYS[2], -tonumber(ARGV[4]), -1)
+redis.call('pexpire', KEYS[2], ARGV[5])
+return seq`
+
+const HEAD_SCRIPT = `
+if redis.call('exists', KEYS[1]) == 0 then redis.call('set', KEYS[1], ARGV[1]) end
+redis.call('pexpire', KEYS[1], ARGV[2])
+return redis.call('get', KEYS[1])`
+
+const seqKey = (channelId: string) => `discord:replay:seq:${channelId}`
+const eventsKey = (channelId: string) => `discord:replay:events:${channelId}`
+const retainKey = (channelId: string) => `discord:replay:retain:${channelId}`
+
+export class RedisReplayStore implements ReplayStore {
+  private redis: Redis
+
+  constructor(redis: Redis) {
+    this.redis = redis
+  }
+
+  async append(channelId: string, entry: ReplayEventInput, config: ReplayConfig, now: number) {
+    const seq = await this.redis.eval(
+      APPEND_SCRIPT, 2, seqKey(channelId), eventsKey(channelId),
+      now, SEQUENCE_TTL_MS, JSON.stringify(entry), config.size, config.ttlMs
+    ) as number
+
+    return sequenced(entry, Number(seq))
+  }
+
+  async head(channelId: string, now: number) {
+    return Number(await this.redis.eval(HEAD_SCRIPT, 1, seqKey(channelId), now, SEQUENCE_TTL_MS))
+  }
+
+  // Both keys are read in one transaction so the list lines up with the counter
+  async read(channelId: string, afterSeq: number, now: number) {
+    const results = await this.redis.multi()
+      .get(seqKey(channelId))
+      .lrange(eventsKey(channelId), 0, -1)
+      .exec()
+    const current = results?.[0]?.[1] as string | null
+    if (current === null) return { seq: await this.head(channelId, now), events: null }
+
+    const seq = Number(current)
+    const entries = (results?.[1]?.[1] as string[]).map(raw => JSON.parse(raw) as ReplayEventInput)
+    const events = entries.map((entry, index) => sequenced(entry, seq - entries.length + 1 + index))
+    return { seq, events: missedEvents(seq, events, afterSeq) }
+  }
+
+  async retain(channelId: string, ttlMs: number) {
+    await this.redis.set(retainKey(channelId), '1', 'PX', ttlMs)
+  }
+
+  async isRetained(channelId: string) {
+    return (await this.redis.exists(retainKey(channelId))) === 1
+  }
+}
+
+//Numbering channel stream events and keeping the latest ones so reconnecting clients can catch up
+export class ReplayBuffer {
+  readonly config: ReplayConfig
+  private store: ReplayStore
+
+  constructor(store: ReplayStore, config: ReplayConfig) {
+    this.store = store
+    this.config = config
+  }
+
+  append(channelId: string, entry: ReplayEventInput) {
+    return this.store.append(channelId, entry, this.config, Date.now())
+  }
+
+  head(channelId: string) {
+    return this.store.head(channelId, Date.now())
+  }
+
+  read(channelId: string, afterSeq: number) {
+    return this.store.read(channelId, afterSeq, Date.now())
+  }
+
+  // Keeps buffering a channel for a while after its last subscriber disconnected
+  retain(channelId: string) {
+    return this.store.retain(channelId, this.config.ttlMs, Date.now())
+  }
+
+  isRetained(channelId: string) {
+    return this.store.isRetained(channelId, Date.now())
+  }
+}
+
+//Building the buffer from REPLAY_BUFFER_* settings, shared through Redis when one is given
+export const createReplayBuffer = (redis?: Redis | null) => new ReplayBuffer(
+  redis ? new RedisReplayStore(redis) : new InMemoryReplayStore(),
+  {
+    size: parseInt(process.env['REPLAY_BUFFER_SIZE'] || '') || DEFAULT_REPLAY_BUFFER_SIZE,
+    ttlMs: parseInt(process.env['REPLAY_BUFFER_TTL_MS'] || '') || DEFAULT_REPLAY_BUFFER_TTL_MS
+  }
+)
@@ -0,0 +1,286 @@
+import crypto from 'crypto'
+import jwt from 'jsonwebtoken'
+import type Redis from 'ioredis'
+import { AccessTokenPayload, AuthPayload, SessionRevokedEvent, SessionTokens } from '../types'
+import { OperationalError } from '../middleware/errorHandler'
+
+export const DEFAULT_ACCESS_TOKEN_TTL_MS = 15 * 60 * 1000
+export const DEFAULT_REFRESH_TOKEN_TTL_MS = 30 * 24 * 60 * 60 * 1000
+// Tabs refreshing at the same moment present the token one of them just rotated
+export const DEFAULT_REFRESH_GRACE_MS = 10000
+
+export interface SessionRecord {
+  id: string
+  user: AuthPayload
+  refreshHash: string // only hashes of refresh tokens are stored
+  previousHash: string
+  rotatedAt: number
+  expiresAt: number
+}
+
+export type RotateResult =
+  | { status: 'rotated', user: AuthPayload }
+  | { status: 'reused' } // an old refresh token came back, it was probably stolen
+  | { status: 'missing' }
+
+//Where sessions and revocations are kept; Redis shares them between cluster nodes
+export interface SessionStore {
+  create(session: SessionRecord, now: number): Promise<void>
+  get(sessionId: string, now: number): Promise<SessionRecord | null>
+  // Swaps in `nextHash` when `hash` is current, or was rotated out less than `graceMs` ago
+  rotate(sessionId: string, hash: string, nextHash: string, expiresAt: number, now: number, graceMs: number): Promise<RotateResult>
+  // Deletes the session and lists it as revoked until its last access token expires
+  revoke(sessionId: string, until: number, now: number): Promise<void>
+  isRevoked(sessionId: string, now: number): Promise<boolean>
+}
+
+export class InMemorySessionStore implements SessionStore {
+  private sessions: Map<string, SessionRecord> = new Map()
+  private revoked: Map<string, number> = new Map()
+
+  async create(session: SessionRecord, now: number) {
+    this.sweep(now)
+    this.sessions.set(session.id, { ...session })
+  }
+
+  async get(sessionId: string, now: number) {
+    const session = this.sessions.get(sessionId)
+    return session && session.expiresAt > now ? session : null
+  }
+
+  async rotate(sessionId: string, hash: string, nextHash: string, expiresAt: number, now: number, graceMs: number): Promise<RotateResult> {
+    const session = await this.get(sessionId, now)
+    if (!session) return { status: 'missing' }
+
+    const recent = session.previousHash === hash && now - session.rotatedAt < graceMs
+    if (session.refreshHash !== hash && !recent) return { status: 'reused' }
+
+    this.sessions.set(sessionId, { ...session, refreshHash: nextHash, previousHash: session.refreshHash, rotatedAt: now, expiresAt })
+    return { status: 'rotated', user: session.user }
+  }
+
+  async revoke(sessionId: string, until: number, now: number) {
+    this.sessions.delete(sessionId)
+    this.revoked.set(sessionId, until)
+    this.sweep(now)
+  }
+
+  async isRevoked(sessionId: string, now: number) {
+    return (this.revoked.get(sessionId) ?? 0) > now
+  }
+
+  //Dropping sessions nobody signed out of and revocations that outlived their access tokens; Redis expires both on its own
+  private sweep(now: number) {
+    for (const [id, session] of this.sessions) {
+      if (session.expiresAt <= now) this.sessions.delete(id)
+    }
+    for (const [id, expiry] of this.revoked) {
+      if (expiry <= now) this.revoked.delete(id)
+    }
+  }
+}
+
+// Same checks as the in-memory store, run atomically inside Redis
+const ROTATE_SCRIPT = `
+local current = redis.call('hget', KEYS[1], 'refreshHash')
+if not current then return {0} end
+local previous = redis.call('hget', KEYS[1], 'previousHash')
+local rotatedAt = tonumber(redis.call('hget', KEYS[1], 'rotatedAt')) or 0
+local now = tonumber(ARGV[3])
+if current ~= ARGV[1] and not (previous == ARGV[1] and now - rotatedAt < tonumber(ARGV[4])) then return {1} end
+redis.call('hset', KEYS[1], 'refreshHash', ARGV[2], 'previousHash', current, 'rotatedAt', ARGV[3])
+redis.call('pexpire', KEYS[1], ARGV[5])
+return {2, redis.call('hget', KEYS[1], 'user')}`
+
+export class RedisSessionStore implements SessionStore {
+  private redis: Redis
+
+  constructor(redis: Redis) {
+    this.redis = redis
+  }
+
+  async create(session: SessionRecord) {
+    await this.redis.multi()
+      .hset(sessionKey(session.id), {
+        user: JSON.stringify(session.user),
+        refreshHash: session.refreshHash,
+        previousHash: session.previousHash,
+        rotatedAt: String(session.rotatedAt)
+      })
+      .pexpire(sessionKey(session.id), Math.max(session.expiresAt - session.rotatedAt, 1))
+      .exec()
+  }
+
+  async get(sessionId: string, now: number) {
+    const [fields, ttl] = await Promise.all([this.redis.hgetall(sessionKey(sessionId)), this.redis.pttl(sessionKey(sessionId))])
+    if (!fields['refreshHash'] || !fields['user']) return null
+
+    return {
+      id: sessionId,
+      user: JSON.parse(fields['user']),
+      refreshHash: fields['refreshHash'],
+      previousHash: fields['previousHash'] ?? '',
+      rotatedAt: Number(fields['rotatedAt']),
+      expiresAt: now + Math.max(ttl, 0)
+    }
+  }
+
+  async rotate(sessionId: string, hash: string, nextHash: string, expiresAt: number, now: number, graceMs: number): Promise<RotateResult> {
+    const [status, user] = await this.redis.eval(
+      ROTATE_SCRIPT, 1, sessionKey(sessionId),
+      hash, nextHash, now, graceMs, Math.max(expiresAt - now, 1)
+    ) as [number, string?]
+
+    if (status === 2 && user) return { status: 'rotated', user: JSON.parse(user) }
+    return { status: status === 1 ? 'reused' : 'missing' }
+  }
+
+  async revoke(sessionId: string, until: number, now: number) {
+    await this.redis.multi()
+      .del(sessionKey(sessionId))
+      .set(`discord:revoked:${sessionId}`, '1', 'PX', Math.max(until - now, 1))
+      .exec()
+  }
+
+  async isRevoked(sessionId: string) {
+    return (await this.redis.exists(`discord:revoked:${sessionId}`)) === 1
+  }
+}
+
+const sessionKey = (sessionId: string) => `discord:session:${sessionId}`
+
+const hashSecret = (secret: string) => crypto.createHash('sha256').update(secret).digest('base64url')
+
+const newSecret = () => crypto.randomBytes(32).toString('base64url')
+
+const jwtSecret = () => process.env['JWT_SECRET'] as string
+
+// Drops JWT claims like `iat` and `exp` that decoded tokens carry
+const toAuthPayload = (source: AuthPayload): AuthPayload => ({
+  discord_id: source.discord_id,
+  username: source.username,
+  email: source.email,
+  is_bot: source.is_bot,
+  created_at: source.created_at,
+  updated_at: source.updated_at
+})
+
+const invalidRefreshToken = () => new OperationalError('INVALID_REFRESH_TOKEN', 'Invalid or expired refresh token', { statusCode: 401 })
+
+type RevokeListener = (sessionId: string, event: SessionRevokedEvent) => void | Promise<void>
+
+export interface SessionServiceOptions {
+  accessTtlMs?: number
+  refreshTtlMs?: number
+  refreshGraceMs?: number
+}
+
+//Login sessions: short-lived JWT access tokens, rotating opaque refresh tokens and revocation
+export class SessionService {
+  readonly accessTtlMs: number
+  readonly refreshTtlMs: number
+  private store: SessionStore
+  private refreshGraceMs: number
+  private listeners: RevokeListener[] = []
+
+  constructor(store: SessionStore, options: SessionServiceOptions = {}) {
+    this.store = store
+    this.accessTtlMs = options.accessTtlMs ?? DEFAULT_ACCESS_TOKEN_TTL_MS
+    this.refreshTtlMs = options.refreshTtlMs ?? DEFAULT_REFRESH_TOKEN_TTL_MS
+    this.refreshGraceMs = options.refreshGraceMs ?? DEFAULT_REFRESH_GRACE_MS
+  }
+
+  async createSession(user: AuthPayload, now = Date.now()): Promise<SessionTokens> {
+    const sessionId = crypto.randomUUID()
+    const secret = newSecret()
+
+    await this.store.create({
+      id: sessionId,
+      user: toAuthPayload(user),
+      refreshHash: hashSecret(secret),
+      previousHash: '',
+      rotatedAt: now,
+      expiresAt: now + this.refreshTtlMs
+    }, now)
+    return this.issue(sessionId, user, secret)
+  }
+
+  //Trading a refresh token for new tokens; a rotated token coming back ends the session
+  async refresh(refreshToken: string, now = Date.now()): Promise<SessionTokens> {
+    const [sessionId, secret] = refreshToken.split('.')
+    if (!sessionId || !secret) throw invalidRefreshToken()
+
+    const next = newSecret()
+    const result = await this.store.rotate(
+      sessionId, hashSecret(secret), hashSecret(next), now + this.refreshTtlMs, now, this.refreshGraceMs
+    )
+
+    if (result.status === 'reused') {
+      console.warn(`🔐 Refresh token reused, revoking session ${sessionId}`)
+      await this.revoke(sessionId, 'REFRESH_TOKEN_REUSED', now)
+    }
+    if (result.status !== 'rotated') throw invalidRefreshToken()
+
+    return this.issue(sessionId, result.user, next)
+  }
+
+  //Finding the live session a refresh token belongs to, without rotating it
+  async findSession(refreshToken: string, now = Date.now()) {
+    const [sessionId, secret] = refreshToken.split('.')
+    if (!sessionId || !secret) return null
+
+    const session = await this.store.get(sessionId, now)
+    const hash = hashSecret(secret)
+    return session && (session.refreshHash === hash || session.previousHash === hash) ? session : null
+  }
+
+  async revoke(sessionId: string, reason: SessionRevokedEvent['reason'] = 'LOGGED_OUT', now = Date.now()) {
+    await this.store.revoke(sessionId, now + this.accessTtlMs, now)
+
+    for (const listener of this.listeners) {
+      try {
+        await listener(sessionId, { reason })
+      } catch (error) {
+        console.error('Error notifying session revocation:', error)
+      }
+    }
+  }
+
+  onRevoke(listener: RevokeListener) {
+    this.listeners.push(listener)
+  }
+
+  //Verifying an access token and that its session has not been revoked; JWT errors are thrown as they are
+  async verifyAccessToken(token: string, now = Date.now()): Promise<{ sessionId: string, user: AuthPayload }> {
+    const payload = jwt.verify(token, jwtSecret()) as AccessTokenPayload
+
+    if (!payload.sid || !payload.discord_id || !payload.username) {
+      throw new OperationalError('INVALID_TOKEN', 'Invalid token payload', { statusCode: 401 })
+    }
+    if (await this.store.isRevoked(payload.sid, now)) {
+      throw new OperationalError('SESSION_REVOKED', 'Session has been revoked', { statusCode: 401 })
+    }
+
+    return { sessionId: payload.sid, user: toAuthPayload(payload) }
+  }
+
+  private issue(sessionId: string, user: AuthPayload, secret: string): SessionTokens {
+    const claims: AccessTokenPayload = { ...toAuthPayload(user), sid: sessionId }
+
+    return {
+      sessionId,
+      accessToken: jwt.sign(claims, jwtSecret(), { expiresIn: Math.floor(this.accessTtlMs / 1000) }),
+      refreshToken: `${sessionId}.${secret}`,
+      expiresIn: this.accessTtlMs
+    }
+  }
+}
+
+//Choosing the session store and token lifetimes from the environment
+export const createSessionService = (redis?: Redis | null) => new SessionService(
+  redis ? new RedisSessionStore(redis) : new InMemorySessionStore(),
+  {
+    accessTtlMs: parseInt(process.env['ACCESS_TOKEN_TTL_MS'] || '') || DEFAULT_ACCESS_TOKEN_TTL_MS,
+    refreshTtlMs: parseInt(process.env['REFRESH_TOKEN_TTL_MS'] || '') || DEFAULT_REFRESH_TOKEN_TTL_MS
+  }
+)
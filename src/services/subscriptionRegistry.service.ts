@@ -0,0 +1,283 @@
+import type Redis from 'ioredis'
+import { PresenceStatus, UserPresence } from '../types'
+
+export interface SubscriptionStats {
+  totalChannels: number
+  totalSubscribers: number
+  channelDetails: Array<{ channelId: string, subscriberCount: number }>
+}
+
+//Which users are watching which channels; subscriptions are reference counted per socket
+export interface SubscriptionRegistry {
+  // Resolves true when this is the user's first socket in the channel, on any node
+  subscribe(channelId: string, userId: string): Promise<boolean>
+  // Resolves true when the user's last socket left the channel, on every node
+  unsubscribe(channelId: string, userId: string): Promise<boolean>
+  getSubscribers(channelId: string): Promise<string[]>
+  // Dropping every subscription to a channel at once, e.g. when it is deleted
+  removeChannel(channelId: string): Promise<void>
+  // Dropping all of one user's subscriptions to a channel, on every socket, e.g. when access is revoked
+  removeSubscriber(channelId: string, userId: string): Promise<void>
+  getUserSubscriptions(userId: string): Promise<string[]>
+  hasSubscribers(channelId: string): Promise<boolean>
+  // Users with at least one open socket, whether or not they joined any channel
+  addConnection(userId: string): Promise<void>
+  removeConnection(userId: string): Promise<void>
+  getConnectedUsers(): Promise<string[]>
+  // This node's view of a user's presence, null once their last socket here is gone
+  setPresence(userId: string, presence: UserPresence | null): Promise<void>
+  // Presence merged across nodes; users without any are left out
+  getPresence(userIds: string[]): Promise<Map<string, UserPresence>>
+  getStats(): Promise<SubscriptionStats>
+}
+
+const STATUS_RANK: Record<PresenceStatus, number> = { away: 0, idle: 1, online: 2 }
+
+//A user counts as online if any of their tabs is
+export const mergePresence = (a: UserPresence | undefined, b: UserPresence) =>
+  !a || STATUS_RANK[b.status] > STATUS_RANK[a.status] ? b : a
+
+//Registry for a single process
+export class LocalSubscriptionRegistry implements SubscriptionRegistry {
+  private channels: Map<string, Map<string, number>> = new Map()
+  private connections: Map<string, number> = new Map()
+  private presence: Map<string, UserPresence> = new Map()
+
+  async subscribe(channelId: string, userId: string) {
+    const users = this.channels.get(channelId) ?? new Map<string, number>()
+    const count = (users.get(userId) ?? 0) + 1
+    users.set(userId, count)
+    this.channels.set(channelId, users)
+    return count === 1
+  }
+
+  async unsubscribe(channelId: string, userId: string) {
+    const users = this.channels.get(channelId)
+    if (!users?.has(userId)) return false
+
+    const count = (users.get(userId) ?? 0) - 1
+    if (count > 0) {
+      users.set(userId, count)
+    } else {
+      users.delete(userId)
+    }
+
+    // Clean up empty subscriptions
+    if (users.size === 0) this.channels.delete(channelId)
+    return count <= 0
+  }
+
+  async getSubscribers(channelId: string) {
+    return [...(this.channels.get(channelId)?.keys() ?? [])]
+  }
+
+  async removeChannel(channelId: string) {
+    this.channels.delete(channelId)
+  }
+
+  async removeSubscriber(channelId: string, userId: string) {
+    const users = this.channels.get(channelId)
+    users?.delete(userId)
+    if (users?.size === 0) this.channels.delete(channelId)
+  }
+
+  async getUserSubscriptions(userId: string) {
+    return [...this.channels.entries()].filter(([, users]) => users.has(userId)).map(([channelId]) => channelId)
+  }
+
+  async hasSubscribers(channelId: string) {
+    return (this.channels.get(channelId)?.size ?? 0) > 0
+  }
+
+  async addConnection(userId: string) {
+    this.connections.set(userId, (this.connections.get(userId) ?? 0) + 1)
+  }
+
+  async removeConnection(userId: string) {
+    const count = (this.connections.get(userId) ?? 0) - 1
+    if (count > 0) {
+      this.connections.set(userId, count)
+    } else {
+      this.connections.delete(userId)
+    }
+  }
+
+  async getConnectedUsers() {
+    return [...this.connections.keys()]
+  }
+
+  async setPresence(userId: string, presence: UserPresence | null) {
+    if (presence) {
+      this.presence.set(userId, presence)
+    } else {
+      this.presence.delete(userId)
+    }
+  }
+
+  async getPresence(userIds: string[]) {
+    const result: Map<string, UserPresence> = new Map()
+    for (const userId of userIds) {
+      const presence = this.presence.get(userId)
+      if (presence) result.set(userId, presence)
+    }
+    return result
+  }
+
+  async getStats() {
+    return buildStats([...this.channels.entries()].map(([channelId, users]) => [channelId, users.size]))
+  }
+}
+
+const CHANNELS_KEY = 'discord:subscriptions:channels'
+const CONNECTIONS_KEY = 'discord:connections'
+const PRESENCE_KEY = 'discord:presence'
+const channelKey = (channelId: string) => `discord:subscriptions:${channelId}`
+
+const fieldUser = (field: string) => field.slice(field.indexOf('|') + 1)
+
+//Sockets a user has open in a channel across nodes, from its `${nodeId}|${userId}` -> count hash
+const countForUser = (fields: Record<string, string>, userId: string) =>
+  Object.entries(fields).reduce((total, [field, count]) =>
+    fieldUser(field) === userId ? total + Math.max(Number(count), 0) : total, 0)
+
+//Registry shared by every node; each hash field is `${nodeId}|${userId}` holding a socket count
+export class RedisSubscriptionRegistry implements SubscriptionRegistry {
+  private redis: Redis
+  private nodeId: string
+
+  constructor(redis: Redis, nodeId: string) {
+    this.redis = redis
+    this.nodeId = nodeId
+  }
+
+  // The transaction reads the hash right after our change, so concurrent joins on other nodes cannot both look first
+  async subscribe(channelId: string, userId: string) {
+    const results = await this.redis.multi()
+      .hincrby(channelKey(channelId), `${this.nodeId}|${userId}`, 1)
+      .sadd(CHANNELS_KEY, channelId)
+      .hgetall(channelKey(channelId))
+      .exec()
+    return countForUser(results?.[2]?.[1] as Record<string, string>, userId) === 1
+  }
+
+  async unsubscribe(channelId: string, userId: string) {
+    const field = `${this.nodeId}|${userId}`
+    const results = await this.redis.multi()
+      .hincrby(channelKey(channelId), field, -1)
+      .hgetall(channelKey(channelId))
+      .exec()
+    const count = results?.[0]?.[1] as number
+    if (count <= 0) await this.redis.hdel(channelKey(channelId), field)
+    await this.removeChannelIfEmpty(channelId)
+
+    // A negative count means this node never had the subscription, e.g. it was revoked meanwhile
+    return count >= 0 && countForUser(results?.[1]?.[1] as Record<string, string>, userId) === 0
+  }
+
+  async getSubscribers(channelId: string) {
+    const fields = await this.redis.hkeys(channelKey(channelId))
+    return [...new Set(fields.map(fieldUser))]
+  }
+
+  async removeChannel(channelId: string) {
+    await this.redis.multi()
+      .del(channelKey(channelId))
+      .srem(CHANNELS_KEY, channelId)
+      .exec()
+  }
+
+  async removeSubscriber(channelId: string, userId: string) {
+    const fields = (await this.redis.hkeys(channelKey(channelId))).filter(field => fieldUser(field) === userId)
+    if (fields.length > 0) await this.redis.hdel(channelKey(channelId), ...fields)
+    await this.removeChannelIfEmpty(channelId)
+  }
+
+  async getUserSubscriptions(userId: string) {
+    const channelIds = await this.redis.smembers(CHANNELS_KEY)
+    const subscribed = await Promise.all(channelIds.map(async (channelId) =>
+      (await this.getSubscribers(channelId)).includes(userId)))
+    return channelIds.filter((_channelId, index) => subscribed[index])
+  }
+
+  async hasSubscribers(channelId: string) {
+    return (await this.redis.hlen(channelKey(channelId))) > 0
+  }
+
+  async addConnection(userId: string) {
+    await this.redis.hincrby(CONNECTIONS_KEY, `${this.nodeId}|${userId}`, 1)
+  }
+
+  async removeConnection(userId: string) {
+    const field = `${this.nodeId}|${userId}`
+    const count = await this.redis.hincrby(CONNECTIONS_KEY, field, -1)
+    if (count <= 0) await this.redis.hdel(CONNECTIONS_KEY, field)
+  }
+
+  async getConnectedUsers() {
+    const fields = await this.redis.hkeys(CONNECTIONS_KEY)
+    return [...new Set(fields.map(fieldUser))]
+  }
+
+  async setPresence(userId: string, presence: UserPresence | null) {
+    const field = `${this.nodeId}|${userId}`
+    if (presence) {
+      await this.redis.hset(PRESENCE_KEY, field, JSON.stringify(presence))
+    } else {
+      await this.redis.hdel(PRESENCE_KEY, field)
+    }
+  }
+
+  async getPresence(userIds: string[]) {
+    const wanted = new Set(userIds)
+    const result: Map<string, UserPresence> = new Map()
+
+    for (const [field, raw] of Object.entries(await this.redis.hgetall(PRESENCE_KEY))) {
+      const userId = fieldUser(field)
+      if (wanted.has(userId)) result.set(userId, mergePresence(result.get(userId), JSON.parse(raw) as UserPresence))
+    }
+    return result
+  }
+
+  async getStats() {
+    const channelIds = await this.redis.smembers(CHANNELS_KEY)
+    const counts = await Promise.all(channelIds.map(async (channelId) =>
+      [channelId, (await this.getSubscribers(channelId)).length] as [string, number]))
+    return buildStats(counts.filter(([, count]) => count > 0))
+  }
+
+  //Dropping every subscription and connection held by nodes that are no longer alive
+  async pruneNodes(isAlive: (nodeId: string) => Promise<boolean>) {
+    const alive: Map<string, boolean> = new Map()
+    const pruneHash = async (key: string) => {
+      for (const field of await this.redis.hkeys(key)) {
+        const nodeId = field.slice(0, field.indexOf('|'))
+        if (!alive.has(nodeId)) alive.set(nodeId, await isAlive(nodeId))
+        if (!alive.get(nodeId)) await this.redis.hdel(key, field)
+      }
+    }
+
+    for (const channelId of await this.redis.smembers(CHANNELS_KEY)) {
+      await pruneHash(channelKey(channelId))
+      await this.removeChannelIfEmpty(channelId)
+    }
+    await pruneHash(CONNECTIONS_KEY)
+    await pruneHash(PRESENCE_KEY)
+  }
+
+  //Dropping this node's subscriptions on shutdown
+  async clear() {
+    await this.pruneNodes(async (nodeId) => nodeId !== this.nodeId)
+  }
+
+  private async removeChannelIfEmpty(channelId: string) {
+    if ((await this.redis.hlen(channelKey(channelId))) === 0) {
+      await this.redis.srem(CHANNELS_KEY, channelId)
+    }
+  }
+}
+
+const buildStats = (counts: Array<[string, number]>): SubscriptionStats => ({
+  totalChannels: counts.length,
+  totalSubscribers: counts.reduce((total, [, count]) => total + count, 0),
+  channelDetails: counts.map(([channelId, subscriberCount]) => ({ channelId, subscriberCount }))
+})
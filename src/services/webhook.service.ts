@@ -0,0 +1,407 @@
+import crypto from 'crypto'
+import dns from 'dns'
+import http from 'http'
+import https from 'https'
+import { isIP, LookupFunction } from 'net'
+import axios from 'axios'
+import type Redis from 'ioredis'
+import { OperationalError } from '../middleware/errorHandler'
+import { CreateWebhookRequest, WebhookDeadLetter, WebhookEvent, WebhookEventType, WebhookPayload, WebhookSubscription } from '../types'
+
+export const WEBHOOK_EVENT_TYPES: readonly WebhookEventType[] = ['message_create', 'message_update', 'message_delete', 'reaction_add', 'reaction_remove', 'reaction_clear']
+export const MAX_WEBHOOKS_PER_GUILD = 25
+export const DEFAULT_WEBHOOK_MAX_ATTEMPTS = 6
+export const DEFAULT_WEBHOOK_RETRY_BASE_MS = 10 * 1000
+export const DEFAULT_WEBHOOK_RETRY_MAX_MS = 60 * 60 * 1000
+export const DEFAULT_WEBHOOK_TIMEOUT_MS = 10 * 1000
+export const DEFAULT_WEBHOOK_DEAD_LETTER_SIZE = 100
+
+// `t=<unix seconds>,v1=<hex HMAC-SHA256 of "<t>.<body>">`
+export const WEBHOOK_SIGNATURE_HEADER = 'X-Webhook-Signature'
+
+const RETRY_POLL_INTERVAL_MS = 1000
+const RETRY_BATCH_SIZE = 100
+
+export interface WebhookConfig {
+  maxAttempts: number // the first delivery included; after the last one the delivery is dead-lettered
+  retryBaseMs: number // wait before the first retry, doubled for each one after it
+  retryMaxMs: number
+  timeoutMs: number
+  deadLetterSize: number // failed deliveries kept per subscription
+  allowPrivateUrls: boolean // loopback and private network receivers, for development
+}
+
+//A subscription as stored, with the secret its deliveries are signed with
+export interface StoredWebhook extends WebhookSubscription {
+  secret: string
+}
+
+//A payload on its way to a subscription's URL
+export interface WebhookDelivery {
+  payload: WebhookPayload
+  attempts: number
+  lastError?: string
+  lastStatus?: number
+}
+
+//Where subscriptions, pending retries and dead letters are kept; Redis shares them between cluster nodes
+export interface WebhookStore {
+  save(webhook: StoredWebhook): Promise<void>
+  get(webhookId: string): Promise<StoredWebhook | null>
+  delete(webhookId: string): Promise<void>
+  // Every subscription of a server, channel ones included, oldest first
+  list(guildId: string): Promise<StoredWebhook[]>
+  schedule(delivery: WebhookDelivery, at: number): Promise<void>
+  // Retries due by `now`; each one is handed to a single caller
+  takeDue(now: number, limit: number): Promise<WebhookDelivery[]>
+  addDeadLetter(deadLetter: WebhookDeadLetter, size: number): Promise<void>
+  // Newest first
+  listDeadLetters(webhookId: string): Promise<WebhookDeadLetter[]>
+  takeDeadLetter(webhookId: string, deliveryId: string): Promise<WebhookDeadLetter | null>
+}
+
+const byCreation = (a: StoredWebhook, b: StoredWebhook) => a.createdAt.localeCompare(b.createdAt)
+
+export class InMemoryWebhookStore implements WebhookStore {
+  private webhooks: Map<string, StoredWebhook> = new Map()
+  private retries: Array<{ at: number, delivery: WebhookDelivery }> = []
+  private deadLetters: Map<string, WebhookDeadLetter[]> = new Map()
+
+  async save(webhook: StoredWebhook) {
+    this.webhooks.set(webhook.id, webhook)
+  }
+
+  async get(webhookId: string) {
+    return this.webhooks.get(webhookId) ?? null
+  }
+
+  async delete(webhookId: string) {
+    this.webhooks.delete(webhookId)
+    this.deadLetters.delete(webhookId)
+  }
+
+  async list(guildId: string) {
+    return [...this.webhooks.values()].filter(webhook => webhook.guildId === guildId).sort(byCreation)
+  }
+
+  async schedule(delivery: WebhookDelivery, at: number) {
+    this.retries.push({ at, delivery })
+    this.retries.sort((a, b) => a.at - b.at)
+  }
+
+  async takeDue(now: number, limit: number) {
+    const due = this.retries.findIndex(retry => retry.at > now)
+    return this.retries.splice(0, Math.min(due === -1 ? this.retries.length : due, limit)).map(retry => retry.delivery)
+  }
+
+  async addDeadLetter(deadLetter: WebhookDeadLetter, size: number) {
+    const list = this.deadLetters.get(deadLetter.payload.webhookId) ?? []
+    list.unshift(deadLetter)
+    list.splice(size)
+    this.deadLetters.set(deadLetter.payload.webhookId, list)
+  }
+
+  async listDeadLetters(webhookId: string) {
+    return [...this.deadLetters.get(webhookId) ?? []]
+  }
+
+  async takeDeadLetter(webhookId: string, deliveryId: string) {
+    const list = this.deadLetters.get(webhookId) ?? []
+    const index = list.findIndex(deadLetter => deadLetter.payload.id === deliveryId)
+    return index === -1 ? null : list.splice(index, 1)[0] ?? null
+  }
+}
+
+// Pending retries are the members of one sorted set, scored by when they are due
+const TAKE_DUE_SCRIPT = `
+local due = redis.call('zrangebyscore', KEYS[1], '-inf', ARGV[1], 'LIMIT', 0, ARGV[2])
+for _, member in ipairs(due) do redis.call('zrem', KEYS[1], member) end
+return due`
+
+const webhookKey = (webhookId: string) => `discord:webhooks:${webhookId}`
+const guildKey = (guildId: string) => `discord:webhooks:guild:${guildId}`
+const deadLetterKey = (webhookId: string) => `discord:webhooks:dead:${webhookId}`
+const RETRIES_KEY = 'discord:webhooks:retries'
+
+export class RedisWebhookStore implements WebhookStore {
+  private redis: Redis
+
+  constructor(redis: Redis) {
+    this.redis = redis
+  }
+
+  async save(webhook: StoredWebhook) {
+    await this.redis.multi()
+      .set(webhookKey(webhook.id), JSON.stringify(webhook))
+      .sadd(guildKey(webhook.guildId), webhook.id)
+      .exec()
+  }
+
+  async get(webhookId: string) {
+    const raw = await this.redis.get(webhookKey(webhookId))
+    return raw ? JSON.parse(raw) as StoredWebhook : null
+  }
+
+  async delete(webhookId: string) {
+    const webhook = await this.get(webhookId)
+    if (!webhook) return
+
+    await this.redis.multi()
+      .del(webhookKey(webhookId), deadLetterKey(webhookId))
+      .srem(guildKey(webhook.guildId), webhookId)
+      .exec()
+  }
+
+  async list(guildId: string) {
+    const ids = await this.redis.smembers(guildKey(guildId))
+    if (ids.length === 0) return []
+
+    const rows = await this.redis.mget(ids.map(webhookKey))
+    return rows.flatMap(raw => raw ? [JSON.parse(raw) as StoredWebhook] : []).sort(byCreation)
+  }
+
+  async schedule(delivery: WebhookDelivery, at: number) {
+    await this.redis.zadd(RETRIES_KEY, at, JSON.stringify(delivery))
+  }
+
+  async takeDue(now: number, limit: number) {
+    const due = await this.redis.eval(TAKE_DUE_SCRIPT, 1, RETRIES_KEY, now, limit) as string[]
+    return due.map(raw => JSON.parse(raw) as WebhookDelivery)
+  }
+
+  async addDeadLetter(deadLetter: WebhookDeadLetter, size: number) {
+    const key = deadLetterKey(deadLetter.payload.webhookId)
+    await this.redis.multi()
+      .lpush(key, JSON.stringify(deadLetter))
+      .ltrim(key, 0, size - 1)
+      .exec()
+  }
+
+  async listDeadLetters(webhookId: string) {
+    return (await this.redis.lrange(deadLetterKey(webhookId), 0, -1)).map(raw => JSON.parse(raw) as WebhookDeadLetter)
+  }
+
+  // Removing the exact entry means only one of several nodes racing for it gets it
+  async takeDeadLetter(webhookId: string, deliveryId: string) {
+    for (const raw of await this.redis.lrange(deadLetterKey(webhookId), 0, -1)) {
+      const deadLetter = JSON.parse(raw) as WebhookDeadLetter
+      if (deadLetter.payload.id !== deliveryId) continue
+      return (await this.redis.lrem(deadLetterKey(webhookId), 1, raw)) === 1 ? deadLetter : null
+    }
+    return null
+  }
+}
+
+// Literal addresses of loopback, private, link-local and carrier-grade NAT networks
+const PRIVATE_IPV4 = /^(?:0|10|127)\.|^169\.254\.|^172\.(?:1[6-9]|2\d|3[01])\.|^192\.168\.|^100\.(?:6[4-9]|[7-9]\d|1[01]\d|12[0-7])\./
+const PRIVATE_IPV6 = /^(?:::1?|f[cd][0-9a-f]{2}:.*|fe[89ab][0-9a-f]:.*|::ffff:.*)$/
+
+const isPrivateHost = (hostname: string) => {
+  const host = hostname.replace(/^\[|\]$/g, '').toLowerCase()
+  if (host === 'localhost' || host.endsWith('.localhost')) return true
+  if (isIP(host) === 4) return PRIVATE_IPV4.test(host)
+  if (isIP(host) === 6) return PRIVATE_IPV6.test(host)
+  return false
+}
+
+// Resolving receiver hostnames on the connection itself, so a name that points at (or is later rebound to) a private address is refused
+const publicLookup: LookupFunction = (hostname, options, callback) => {
+  dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) return callback(error, '')
+
+    const first = addresses[0]
+    if (!first || addresses.some(({ address }) => isPrivateHost(address))) {
+      return callback(Object.assign(new Error(`${hostname} resolves to a loopback or private network address`), { code: 'EPRIVATEADDRESS' }), '')
+    }
+    if (options.all) return callback(null, addresses)
+    callback(null, first.address, first.family)
+  })
+}
+
+//Why a receiver URL is refused, or null when it is fine
+export const checkWebhookUrl = (value: string, allowPrivate: boolean) => {
+  let url: URL
+  try {
+    url = new URL(value)
+  } catch {
+    return 'Invalid URL'
+  }
+
+  if (url.protocol !== 'https:' && url.protocol !== 'http:') return 'Must be an http or https URL'
+  if (url.username || url.password) return 'Must not contain credentials'
+  if (!allowPrivate && isPrivateHost(url.hostname)) return 'Loopback and private network addresses are not allowed'
+  return null
+}
+
+export const signWebhookBody = (secret: string, body: string, timestamp: number) =>
+  `t=${timestamp},v1=${crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')}`
+
+const publicWebhook = (webhook: StoredWebhook): WebhookSubscription => ({
+  id: webhook.id,
+  url: webhook.url,
+  guildId: webhook.guildId,
+  ...(webhook.channelId ? { channelId: webhook.channelId } : {}),
+  events: webhook.events,
+  createdBy: webhook.createdBy,
+  createdAt: webhook.createdAt
+})
+
+//Posting channel events to subscribed URLs, retrying failures with exponential backoff
+export class WebhookService {
+  readonly config: WebhookConfig
+  private store: WebhookStore
+  private timer: NodeJS.Timeout | null = null
+  // Agents that check the address each delivery actually connects to; null when private receivers are allowed
+  private agents: { httpAgent: http.Agent, httpsAgent: https.Agent } | null
+
+  constructor(store: WebhookStore, config: WebhookConfig) {
+    this.store = store
+    this.config = config
+    this.agents = config.allowPrivateUrls
+      ? null
+      : { httpAgent: new http.Agent({ lookup: publicLookup }), httpsAgent: new https.Agent({ lookup: publicLookup }) }
+  }
+
+  async create(request: CreateWebhookRequest, createdBy: string, now = Date.now()) {
+    const problem = checkWebhookUrl(request.url, this.config.allowPrivateUrls)
+    if (problem) throw new OperationalError('INVALID_WEBHOOK_URL', problem)
+    if ((await this.store.list(request.guildId)).length >= MAX_WEBHOOKS_PER_GUILD) {
+      throw new OperationalError('WEBHOOK_LIMIT', `A server can have at most ${MAX_WEBHOOKS_PER_GUILD} webhooks`)
+    }
+
+    const webhook: StoredWebhook = {
+      id: crypto.randomUUID(),
+      url: request.url,
+      guildId: request.guildId,
+      ...(request.channelId ? { channelId: request.channelId } : {}),
+      events: [...new Set(request.events)],
+      createdBy,
+      createdAt: new Date(now).toISOString(),
+      secret: crypto.randomBytes(32).toString('hex')
+    }
+    await this.store.save(webhook)
+    return { webhook: publicWebhook(webhook), secret: webhook.secret }
+  }
+
+  async list(guildId: string) {
+    return (await this.store.list(guildId)).map(publicWebhook)
+  }
+
+  async get(webhookId: string) {
+    const webhook = await this.store.get(webhookId)
+    return webhook ? publicWebhook(webhook) : null
+  }
+
+  // Pending retries of a removed subscription are dropped when they come due
+  remove(webhookId: string) {
+    return this.store.delete(webhookId)
+  }
+
+  listDeadLetters(webhookId: string) {
+    return this.store.listDeadLetters(webhookId)
+  }
+
+  //Sending an event to every subscription of its server or channel that asked for its type
+  async publish(event: WebhookEvent, now = Date.now()) {
+    const webhooks = (await this.store.list(event.guildId))
+      .filter(webhook => webhook.events.includes(event.type) && (!webhook.channelId || webhook.channelId === event.channelId))
+
+    const timestamp = new Date(now).toISOString()
+    await Promise.all(webhooks.map(webhook => this.attempt(webhook, {
+      payload: { ...event, id: crypto.randomUUID(), webhookId: webhook.id, timestamp },
+      attempts: 0
+    }, now)))
+  }
+
+  //Trying a dead-lettered delivery again; it gets a fresh set of attempts if this one fails
+  async redeliver(webhookId: string, deliveryId: string, now = Date.now()) {
+    const webhook = await this.store.get(webhookId)
+    if (!webhook) throw new OperationalError('WEBHOOK_NOT_FOUND', 'Webhook not found', { statusCode: 404 })
+
+    const deadLetter = await this.store.takeDeadLetter(webhookId, deliveryId)
+    if (!deadLetter) throw new OperationalError('DELIVERY_NOT_FOUND', 'Delivery not found', { statusCode: 404 })
+
+    return this.attempt(webhook, { payload: deadLetter.payload, attempts: 0 }, now)
+  }
+
+  async retryDue(now = Date.now()) {
+    for (const delivery of await this.store.takeDue(now, RETRY_BATCH_SIZE)) {
+      const webhook = await this.store.get(delivery.payload.webhookId)
+      if (webhook) await this.attempt(webhook, delivery, now)
+    }
+  }
+
+  //Polling for due retries; every cluster node may run this, each retry is taken once
+  start() {
+    if (this.timer) return
+    this.timer = setInterval(() => {
+      this.retryDue().catch((error) => console.error('Error retrying webhook deliveries:', error))
+    }, RETRY_POLL_INTERVAL_MS)
+    this.timer.unref()
+  }
+
+  stop() {
+    if (this.timer) clearInterval(this.timer)
+    this.timer = null
+  }
+
+  // 1x, 2x, 4x... the base delay after the first, second, third... failed attempt
+  private retryDelay(attempts: number) {
+    return Math.min(this.config.retryBaseMs * 2 ** (attempts - 1), this.config.retryMaxMs)
+  }
+
+  //One POST of a delivery; resolves whether the receiver accepted it, scheduling a retry or dead-lettering it if not
+  private async attempt(webhook: StoredWebhook, delivery: WebhookDelivery, now: number) {
+    const body = JSON.stringify(delivery.payload)
+    let failure: { lastError: string, lastStatus?: number }
+
+    try {
+      // Subscriptions saved while private receivers were allowed must not keep reaching them
+      const problem = checkWebhookUrl(webhook.url, this.config.allowPrivateUrls)
+      if (problem) throw new Error(problem)
+
+      const response = await axios.post(webhook.url, body, {
+        headers: {
+          'Content-Type': 'application/json',
+          'User-Agent': 'DiscordStreamBackend-Webhooks/1.0',
+          'X-Webhook-Id': webhook.id,
+          'X-Webhook-Delivery': delivery.payload.id,
+          'X-Webhook-Event': delivery.payload.type,
+          [WEBHOOK_SIGNATURE_HEADER]: signWebhookBody(webhook.secret, body, Math.floor(Date.now() / 1000))
+        },
+        timeout: this.config.timeoutMs,
+        // A redirect could point the request anywhere, so it counts as a failure
+        maxRedirects: 0,
+        validateStatus: () => true,
+        // Going through a proxy would check the proxy's address instead of the receiver's
+        ...(this.agents ? { ...this.agents, proxy: false as const } : {})
+      })
+      if (response.status >= 200 && response.status < 300) return true
+      failure = { lastError: `Receiver answered ${response.status}`, lastStatus: response.status }
+    } catch (error) {
+      failure = { lastError: error instanceof Error ? error.message : String(error) }
+    }
+
+    const failed: WebhookDelivery = { payload: delivery.payload, attempts: delivery.attempts + 1, ...failure }
+    if (failed.attempts < this.config.maxAttempts) {
+      await this.store.schedule(failed, now + this.retryDelay(failed.attempts))
+    } else {
+      await this.store.addDeadLetter({ payload: failed.payload, attempts: failed.attempts, ...failure, failedAt: new Date(now).toISOString() }, this.config.deadLetterSize)
+      console.warn(`🪝 Webhook ${webhook.id} gave up on delivery ${delivery.payload.id} after ${failed.attempts} attempts: ${failure.lastError}`)
+    }
+    return false
+  }
+}
+
+//Building the service from WEBHOOK_* settings, shared through Redis when one is given
+export const createWebhookService = (redis?: Redis | null) => new WebhookService(
+  redis ? new RedisWebhookStore(redis) : new InMemoryWebhookStore(),
+  {
+    maxAttempts: parseInt(process.env['WEBHOOK_MAX_ATTEMPTS'] || '') || DEFAULT_WEBHOOK_MAX_ATTEMPTS,
+    retryBaseMs: parseInt(process.env['WEBHOOK_RETRY_BASE_MS'] || '') || DEFAULT_WEBHOOK_RETRY_BASE_MS,
+    retryMaxMs: parseInt(process.env['WEBHOOK_RETRY_MAX_MS'] || '') || DEFAULT_WEBHOOK_RETRY_MAX_MS,
+    timeoutMs: parseInt(process.env['WEBHOOK_TIMEOUT_MS'] || '') || DEFAULT_WEBHOOK_TIMEOUT_MS,
+    deadLetterSize: parseInt(process.env['WEBHOOK_DEAD_LETTER_SIZE'] || '') || DEFAULT_WEBHOOK_DEAD_LETTER_SIZE,
+    allowPrivateUrls: process.env['WEBHOOK_ALLOW_PRIVATE_URLS'] === 'true'
+  }
+)
@@ -1,70 +1,313 @@
+import type { Namespace, Socket } from 'socket.io';
+
 //For defining req.user type
 declare module 'express-serve-static-core' {
   interface Request {
     user?: AuthPayload;
+    sessionId?: string;
   }
 }
 
-declare module 'socket.io' {
-  interface SocketData {
-    user?: AuthPayload;
-    userId?: string;
-    discordId?: string;
-    permissions?: string[];
-    [key: string]: unknown;
-  }
+//Set on every /discord socket by authenticateSocket
+export interface DiscordSocketData {
+  user: AuthPayload;
+  discordId: string;
+  sessionId: string;
+  filters?: Record<string, MessageFilter>; // per joined channel, set by `join_channel` and `resume`
 }
 
 
-//Channels response type
-export interface GetChannelsResponse {
-  success: boolean;
-  channels: DiscordChannel[];
-  error?:string
+//Stable codes of failed acks; clients switch on these, `error` is only for display
+export type SocketErrorCode =
+  | 'INVALID_PAYLOAD'
+  | 'UNKNOWN_EVENT'
+  | 'RATE_LIMITED'
+  | 'CHANNEL_NOT_FOUND'
+  | 'CHANNEL_NOT_JOINED'
+  | 'INVALID_CHANNEL'
+  | 'MISSING_PERMISSION'
+  | 'MESSAGE_NOT_FOUND'
+  | 'INVALID_CONTENT'
+  | 'INVALID_EMOJI'
+  | 'INVALID_QUERY'
+  | 'SLOWMODE'
+  | 'SEND_FAILED'
+  | 'WATCH_NOT_FOUND'
+  | 'WATCH_LIMIT'
+  | 'LEADER_UNAVAILABLE'
+  | 'INTERNAL_ERROR';
+
+//Where a payload failed validation, e.g. `{ path: 'channelId', message: 'Expected a Discord ID' }`
+export interface ValidationIssue {
+  path: string;
+  message: string;
+}
+
+//Every failed ack has this shape
+export interface SocketErrorAck {
+  success: false;
+  code: SocketErrorCode;
+  error: string;
+  issues?: ValidationIssue[]; // INVALID_PAYLOAD only
+  retryAfter?: number; // RATE_LIMITED and SLOWMODE, in milliseconds
 }
 
+//Acks either succeed with their payload or fail with a SocketErrorAck
+export type SocketAck<T = object> = ({ success: true } & T) | SocketErrorAck;
+
+//Channels response type
+export type GetChannelsResponse = SocketAck<{ channels: DiscordChannel[] }>;
+
 export interface GetChannelResponse{
   success:boolean
   channel:DiscordChannel
   error?:string
 }
 
-export interface JoinChannelResponse {
-  success: boolean;
-  channelId?: string;
-  alreadyJoined?: boolean;
-  error?: string;
+export interface ChannelRequest {
+  channelId: string;
 }
 
-export interface LeaveChannelResponse {
-  success: boolean;
+//Which messages of a channel a socket receives; every given condition must match
+export interface MessageFilter {
+  authorIds?: string[]; // only these authors
+  excludeAuthorIds?: string[];
+  includeBots?: boolean; // bot messages are left out unless true
+  includeWebhooks?: boolean; // so are webhook messages, except ones relayed from the web
+  keywords?: string[]; // any of them, case-insensitive
+  pattern?: string; // regular expression tested case-insensitively against the content
+  hasAttachment?: boolean;
+  hasEmbed?: boolean;
+  mentionsMe?: boolean; // mentions the viewer or @everyone, or replies to them
+}
+
+export interface JoinChannelRequest extends ChannelRequest {
+  filter?: MessageFilter; // replaces the channel's filter when joined again
+}
+
+// `seq` is the channel's latest sequence number, the starting point for `resume`
+export type JoinChannelResponse = SocketAck<{ channelId: string; alreadyJoined?: boolean; seq: number }>;
+
+export type LeaveChannelResponse = SocketAck<{ channelId: string }>;
+
+//Channel history page request/response
+export interface FetchHistoryRequest {
+  channelId: string;
+  before?: string; // message ID cursor, exclusive
+  limit?: number;
+}
+
+export type FetchHistoryResponse = SocketAck<{ channelId: string } & MessageHistoryPage>;
+
+//Sending a message from the web client
+export interface SendMessageRequest {
+  channelId: string;
+  content: string;
+}
+
+export type SendMessageResponse = SocketAck<{ message: DiscordMessage }>;
+
+//Web user typing state; omitting isTyping means the user is typing
+export interface TypingRequest {
+  channelId: string;
+  isTyping?: boolean;
+}
+
+//Reacting from the web; emoji is a unicode character, a custom emoji ID or `name:id`
+export interface ReactionRequest {
+  channelId: string;
+  messageId: string;
+  emoji: string;
+}
+
+export type ReactionResponse = SocketAck<{ reaction: DiscordReaction }>;
+
+//Searching archived messages; every given filter must match
+export interface SearchMessagesRequest {
+  query?: string; // free-text terms, all must appear in the message
+  authorId?: string;
   channelId?: string;
-  error?: string;
+  after?: string; // ISO8601
+  before?: string; // ISO8601
+  hasAttachment?: boolean;
+  cursor?: string; // message ID, results continue with older messages
+  limit?: number;
+}
+
+export interface MessageHistoryPage {
+  messages: DiscordMessage[];
+  hasMore: boolean;
+  nextCursor?: string;
+}
+
+export type SearchMessagesResponse = SocketAck<MessageHistoryPage>;
+
+//Listing a channel's threads or forum posts; archived threads are paged with `before` (ISO8601 archive time)
+export interface ListThreadsRequest {
+  channelId: string;
+  archived?: boolean;
+  before?: string;
+  limit?: number;
 }
 
+export interface ThreadPage {
+  channelId: string;
+  threads: DiscordChannel[];
+  hasMore: boolean;
+  nextCursor?: string;
+}
+
+export type ListThreadsResponse = SocketAck<ThreadPage>;
+
+//Moving the caller's read marker; defaults to the newest message in the channel
+export interface MarkReadRequest {
+  channelId: string;
+  messageId?: string;
+}
+
+export type MarkReadResponse = SocketAck<{ channel: DiscordChannel }>;
+
+//Stream events of a joined channel carry its sequence number, one higher for each event
+export type Sequenced<T> = T & { seq: number };
+
+export interface MessageDeleteEvent {
+  messageId: string;
+  channelId: string;
+}
+
+//Channel stream events kept for replay after a reconnect
+export type ReplayEvent =
+  | { event: 'message'; data: Sequenced<DiscordMessage> }
+  | { event: 'message_update'; data: Sequenced<DiscordMessage> }
+  | { event: 'message_delete'; data: Sequenced<MessageDeleteEvent> };
+
+//Rejoining channels after a reconnect, with the last sequence number seen in each
+export interface ResumeRequest {
+  channels: Array<{ channelId: string; lastSeq: number; filter?: MessageFilter }>;
+}
+
+//`refetch` means the missed events are no longer buffered and history has to be fetched again
+export type ResumedChannel =
+  | { channelId: string; status: 'replayed'; replayed: number; seq: number }
+  | { channelId: string; status: 'refetch'; seq: number }
+  | { channelId: string; status: 'failed'; code: SocketErrorCode; error: string };
+
+export type ResumeResponse = SocketAck<{ channels: ResumedChannel[] }>;
+
 
 
 // Core message types
 export interface DiscordMessage {
   id: string;
+  type: string; // Discord message type in snake_case, e.g. 'default', 'reply', 'user_join', 'channel_pinned_message'
+  system: boolean; // join, boost and pin notices rather than something a person wrote
   content: string;
-  author: {
-    id: string;
-    username: string;
-    displayName?: string;
-    avatar?: string;
-    bot: boolean;
-  };
+  author: DiscordMessageAuthor;
   timestamp: string; // ISO8601
   channelId: string;
   serverId: string;
   attachments: DiscordAttachment[];
   embeds: DiscordEmbed[];
   reactions: DiscordReaction[];
+  tokens: ContentToken[]; // content parsed into mentions, emoji, timestamps and markdown
+  replyTo?: MessageReplyPreview;
+  stickers: DiscordSticker[];
+  poll?: DiscordPoll;
+  components: DiscordComponentRow[];
   edited: boolean;
   editedTimestamp?: string;
 }
 
+export interface DiscordMessageAuthor {
+  id: string;
+  username: string;
+  displayName?: string;
+  avatar?: string;
+  bot: boolean;
+  webhook?: boolean; // posted through a webhook other than the bridge's own
+}
+
+//The message a reply points at; author and content are missing when it is no longer known
+export interface MessageReplyPreview {
+  messageId: string;
+  channelId: string;
+  author?: DiscordMessageAuthor;
+  content?: string; // cut to a preview length
+  deleted?: boolean;
+}
+
+//Emoji used in polls and components
+export interface DiscordEmoji {
+  name: string; // unicode character or custom emoji name
+  id?: string; // set for custom emoji
+  url?: string;
+  animated?: boolean;
+}
+
+export interface DiscordSticker {
+  id: string;
+  name: string;
+  format: 'png' | 'apng' | 'lottie' | 'gif'; // lottie stickers are JSON animations
+  url: string;
+}
+
+export interface DiscordPoll {
+  question: string;
+  answers: Array<{
+    id: number;
+    text: string;
+    emoji?: DiscordEmoji;
+    votes: number;
+  }>;
+  allowMultiselect: boolean;
+  expiresAt?: string; // ISO8601
+  finalized: boolean;
+}
+
+//Buttons and select menus; web users see them but cannot use them
+export type DiscordComponent =
+  | {
+    type: 'button';
+    style: 'primary' | 'secondary' | 'success' | 'danger' | 'link' | 'premium';
+    label?: string;
+    emoji?: DiscordEmoji;
+    url?: string;
+    disabled: boolean;
+  }
+  | {
+    type: 'select';
+    menu: 'string' | 'user' | 'role' | 'mentionable' | 'channel';
+    placeholder?: string;
+    minValues: number;
+    maxValues: number;
+    options: Array<{ label: string; value: string; description?: string; emoji?: DiscordEmoji; default: boolean }>;
+    disabled: boolean;
+  };
+
+export interface DiscordComponentRow {
+  components: DiscordComponent[];
+}
+
+//Discord timestamp styles: t/T time, d/D date, f/F date and time, R relative
+export type TimestampStyle = 't' | 'T' | 'd' | 'D' | 'f' | 'F' | 'R';
+
+export type ContentSpanType = 'bold' | 'italic' | 'underline' | 'strikethrough' | 'spoiler' | 'blockquote' | 'subtext';
+
+//Message content as a token stream; spans nest, everything else is a leaf
+export type ContentToken =
+  | { type: 'text'; text: string }
+  | { type: ContentSpanType; children: ContentToken[] }
+  | { type: 'heading'; level: 1 | 2 | 3; children: ContentToken[] }
+  | { type: 'inline_code'; code: string }
+  | { type: 'code_block'; code: string; language?: string }
+  | { type: 'link'; url: string; children: ContentToken[] }
+  | { type: 'user_mention'; id: string; name: string; color?: string }
+  | { type: 'role_mention'; id: string; name: string; color?: string }
+  | { type: 'channel_mention'; id: string; name: string }
+  | { type: 'everyone_mention'; target: 'everyone' | 'here' }
+  | { type: 'custom_emoji'; id: string; name: string; animated: boolean; url: string }
+  | { type: 'timestamp'; timestamp: string; style: TimestampStyle }; // ISO8601
+
 //Discord message files
 export interface DiscordAttachment {
   id: string;
@@ -94,30 +337,319 @@ export interface DiscordEmbed {
     value: string;
     inline: boolean;
   }>;
+  type?: string; // rich, image, video, gifv, article or link
+  footer?: {
+    text: string;
+    iconUrl?: string;
+  };
+  timestamp?: string; // ISO8601
+  video?: {
+    url: string;
+    width?: number;
+    height?: number;
+  };
+  provider?: {
+    name?: string;
+    url?: string;
+  };
 }
 
 //Discord message reactions
 export interface DiscordReaction {
-  emoji: string;
+  emoji: string; // unicode character or custom emoji name
+  emojiId?: string; // set for custom emoji
+  emojiUrl?: string; // CDN image for custom emoji
+  animated?: boolean;
   count: number;
-  users: string[];
+  users: string[]; // known reactor IDs, may be a subset of count
+}
+
+//Live reaction events, emitted to channel:<id> rooms
+export interface ReactionEvent {
+  channelId: string;
+  messageId: string;
+  userId: string;
+  reaction: DiscordReaction;
+}
+
+export interface ReactionClearEvent {
+  channelId: string;
+  messageId: string;
+  emoji?: string; // omitted when every reaction was cleared
+}
+
+//Sent to viewers of a deleted channel and to users who can no longer see it
+export interface ChannelDeleteEvent {
+  channelId: string;
+  serverId: string;
+}
+
+//Sent to each socket evicted from a channel room after losing access
+export interface AccessRevokedEvent {
+  channelId: string;
+  serverId: string;
+  reason: 'PERMISSIONS_CHANGED' | 'MEMBER_REMOVED';
+}
+
+// Web viewer presence; `away` means the client stopped sending heartbeats
+export type PresenceStatus = 'online' | 'idle' | 'away';
+
+export interface UserPresence {
+  username: string;
+  status: PresenceStatus;
+}
+
+export interface ChannelViewer extends UserPresence {
+  id: string;
+}
+
+//Sent every ~30 seconds by clients; `idle` when the user has not interacted for a while
+export interface HeartbeatRequest {
+  idle?: boolean;
+}
+
+export interface GetPresenceRequest {
+  channelId: string;
+}
+
+export type GetPresenceResponse = SocketAck<{ channelId: string; viewers: ChannelViewer[] }>;
+
+//A user's standing watch over every channel they can view; it fires when any of its triggers matches
+export interface WatchRuleInput {
+  keywords?: string[]; // any of them, case-insensitive
+  pattern?: string; // regular expression tested case-insensitively against the content
+  mentions?: boolean; // the user, one of their roles, @everyone or @here
+  replies?: boolean; // replies to one of the user's messages
+  serverId?: string; // only messages in this server
+  channelIds?: string[]; // only messages in these channels
+}
+
+export interface WatchRule extends WatchRuleInput {
+  id: string;
+  createdAt: string; // ISO8601
+}
+
+export type WatchMatchReason = 'keyword' | 'pattern' | 'mention' | 'role_mention' | 'everyone' | 'reply';
+
+//A message that matched some of a user's watch rules, kept in their inbox until it is deleted
+export interface DiscordNotification {
+  id: string; // the message ID, a message notifies a user once
+  channelId: string;
+  serverId: string;
+  ruleIds: string[];
+  reasons: WatchMatchReason[];
+  message: DiscordMessage;
+  read: boolean;
+  createdAt: string; // ISO8601
+}
+
+export interface InboxEvent {
+  unreadCount: number;
+}
+
+export type ListWatchesResponse = SocketAck<{ rules: WatchRule[] }>;
+
+export type AddWatchResponse = SocketAck<{ rule: WatchRule }>;
+
+export interface RemoveWatchRequest {
+  ruleId: string;
+}
+
+export type RemoveWatchResponse = SocketAck<{ ruleId: string }>;
+
+export interface GetInboxRequest {
+  before?: string; // notification ID cursor, newest first
+  limit?: number;
+  unreadOnly?: boolean;
+}
+
+export interface InboxPage {
+  notifications: DiscordNotification[];
+  unreadCount: number;
+  hasMore: boolean;
+  nextCursor?: string;
+}
+
+export type GetInboxResponse = SocketAck<InboxPage>;
+
+//Without `notificationIds` every notification is marked read
+export interface MarkNotificationsReadRequest {
+  notificationIds?: string[];
+}
+
+export type MarkNotificationsReadResponse = SocketAck<InboxEvent>;
+
+// Effective permissions of a member in a channel
+export interface ChannelPermissions {
+  canRead: boolean;
+  canWrite: boolean;
+  canManage: boolean;
+}
+
+export type DiscordChannelType =
+  | 'text'
+  | 'voice'
+  | 'category'
+  | 'announcement'
+  | 'stage'
+  | 'forum'
+  | 'media'
+  | 'thread';
+
+//Thread details; forum and media channel posts are threads too
+export interface ThreadInfo {
+  archived: boolean;
+  locked: boolean;
+  private: boolean;
+  forumPost: boolean;
+  ownerId?: string;
+  messageCount?: number;
+  tags?: string[]; // names of the forum tags applied to the post
+  createdAt?: string;
+  archivedAt?: string;
+}
+
+//Someone connected to a voice or stage channel
+export interface VoiceParticipant {
+  id: string;
+  username: string;
+  displayName: string;
+  avatar: string;
+  selfMute: boolean;
+  selfDeaf: boolean;
+  serverMute: boolean;
+  serverDeaf: boolean;
+  streaming: boolean;
+  video: boolean;
+  suppressed: boolean; // stage audience members
+}
+
+//Sent when someone joins, leaves or changes their state in a voice channel
+export interface VoiceStateEvent {
+  channelId: string;
+  serverId: string;
+  userId: string;
+  participant: VoiceParticipant | null; // null when the user left this channel
 }
 
 // Discord Channel type
 export interface DiscordChannel {
   id: string;
   name: string;
-  type: 'text' | 'voice' | 'category';
+  type: DiscordChannelType;
   serverId: string;
   serverName: string;
   position: number;
-  unreadCount: number;
-  isActive: boolean;
-  permissions: {
-    canRead: boolean;
-    canWrite: boolean;
-    canManage: boolean;
-  };
+  parentId?: string; // category of a channel, or the channel a thread belongs to
+  thread?: ThreadInfo;
+  voiceMembers?: VoiceParticipant[]; // voice and stage channels only
+  unreadCount: number; // messages after the user's read marker, capped at 100
+  isActive: boolean; // the user has the channel open on at least one socket
+  permissions: ChannelPermissions;
+}
+
+// A guild from the user's OAuth `guilds` scope
+export interface DiscordGuild {
+  id: string;
+  name: string;
+  icon?: string; // icon URL
+  owner: boolean;
+  canManage: boolean; // owner, Administrator or Manage Server; may invite the bot
+  botPresent: boolean;
+}
+
+export interface ListGuildsResponse {
+  success: boolean;
+  guilds?: DiscordGuild[];
+  code?: string;
+  error?: string;
+}
+
+export interface BotInviteResponse {
+  success: boolean;
+  url?: string;
+  code?: string;
+  error?: string;
+}
+
+//Channel activity forwarded to webhook subscriptions; `data` has the shape of the matching socket event
+export type WebhookEvent = { guildId: string; channelId: string } & (
+  | { type: 'message_create' | 'message_update'; data: DiscordMessage }
+  | { type: 'message_delete'; data: MessageDeleteEvent }
+  | { type: 'reaction_add' | 'reaction_remove'; data: ReactionEvent }
+  | { type: 'reaction_clear'; data: ReactionClearEvent }
+);
+
+export type WebhookEventType = WebhookEvent['type'];
+
+//The JSON body POSTed to a subscription's URL
+export type WebhookPayload = WebhookEvent & {
+  id: string; // delivery ID, the same on every retry
+  webhookId: string;
+  timestamp: string; // ISO8601, when the event was published
+};
+
+//Registering a URL for the channel events of a server, or of one of its channels
+export interface CreateWebhookRequest {
+  url: string;
+  guildId: string;
+  channelId?: string; // every channel of the server when omitted
+  events: WebhookEventType[];
+}
+
+export interface WebhookSubscription extends CreateWebhookRequest {
+  id: string;
+  createdBy: string; // Discord ID of the user who registered it
+  createdAt: string; // ISO8601
+}
+
+//A delivery that failed every attempt, kept until it is retried or pushed out by newer ones
+export interface WebhookDeadLetter {
+  payload: WebhookPayload;
+  attempts: number;
+  lastError: string;
+  lastStatus?: number; // HTTP status of the last attempt, when the receiver answered
+  failedAt: string; // ISO8601
+}
+
+export interface ListWebhooksResponse {
+  success: boolean;
+  webhooks?: WebhookSubscription[];
+  code?: string;
+  error?: string;
+}
+
+//`secret` signs every delivery and is only ever returned here
+export interface CreateWebhookResponse {
+  success: boolean;
+  webhook?: WebhookSubscription;
+  secret?: string;
+  code?: string;
+  error?: string;
+  issues?: ValidationIssue[];
+}
+
+export interface ListDeadLettersResponse {
+  success: boolean;
+  deadLetters?: WebhookDeadLetter[];
+  code?: string;
+  error?: string;
+}
+
+//`delivered` is false when the retry failed too; the delivery is then back on the retry schedule
+export interface RedeliverWebhookResponse {
+  success: boolean;
+  delivered?: boolean;
+  code?: string;
+  error?: string;
+}
+
+//Discord OAuth2 tokens kept for a user, stored encrypted
+export interface DiscordOAuthTokens {
+  accessToken: string;
+  refreshToken: string;
+  scope: string;
+  expiresAt: number;
 }
 
 // User types
@@ -130,36 +662,113 @@ export interface AuthPayload {
   updated_at: string;
 }
 
-export interface UserInfo {
-  userId: string;
+//Access token claims: the user plus the session that issued the token
+export interface AccessTokenPayload extends AuthPayload {
+  sid: string;
+}
+
+export interface SessionTokens {
+  sessionId: string;
+  accessToken: string;
+  refreshToken: string;
+  expiresIn: number; // access token lifetime in milliseconds
+}
+
+export interface RefreshResponse {
+  success: boolean;
+  accessToken?: string;
+  expiresIn?: number;
+  code?: string;
+  error?: string;
+}
+
+// Sent to a session's sockets right before they are disconnected
+export interface SessionRevokedEvent {
+  reason: 'LOGGED_OUT' | 'REFRESH_TOKEN_REUSED';
+}
+
+//A Discord user's public profile
+export interface DiscordUserProfile {
+  id: string;
   username: string;
-  permissions: string[];
-}
-
-// Socket.IO event types
-export interface SocketEvents {
-  // Client to Server
-  'get_channels': (callback?: (response: GetChannelsResponse) => void) => void;
-  'join_channel': (data: { channelId: string }, callback?: (response: GetChannelsResponse) => void) => void;
-  'leave_channel': (data: { channelId: string }, callback?: (response: LeaveChannelResponse) => void) => void;
-  'typing': (data: { channelId: string }) => void;
-
-  // Server to Client
-  'channels_list': (channels: DiscordChannel[]) => void;
-  'user_info': (userInfo: UserInfo) => void;
-  'message': (message: DiscordMessage) => void;
-  'message_update': (message: DiscordMessage) => void;
-  'message_delete': (data: { messageId: string; channelId: string }) => void;
-  'messages_bulk': (data: { channelId: string; messages: DiscordMessage[]; hasMore?: boolean; nextCursor?: string }) => void;
+  displayName: string;
+  avatar?: string;
+  isBot: boolean;
+  createdAt: string;
+}
+
+export interface MeResponse {
+  success: boolean;
+  user?: DiscordUserProfile;
+  error?: string;
+}
+
+//Server `error` events, for failures that have no ack to answer
+export interface SocketErrorEvent {
+  code: string;
+  message: string;
+  severity: 'LOW' | 'MEDIUM' | 'HIGH';
+}
+
+type Ack<T> = (response: T) => void;
+
+// Events clients send on the /discord namespace; payloads are validated before they reach a handler
+export interface ClientToServerEvents {
+  'get_channels': (callback?: Ack<GetChannelsResponse>) => void;
+  'join_channel': (data: JoinChannelRequest, callback?: Ack<JoinChannelResponse>) => void;
+  'leave_channel': (data: ChannelRequest, callback?: Ack<LeaveChannelResponse>) => void;
+  'fetch_history': (data: FetchHistoryRequest, callback?: Ack<FetchHistoryResponse>) => void;
+  'send_message': (data: SendMessageRequest, callback?: Ack<SendMessageResponse>) => void;
+  'typing': (data: TypingRequest) => void;
+  'search_messages': (data: SearchMessagesRequest, callback?: Ack<SearchMessagesResponse>) => void;
+  'add_reaction': (data: ReactionRequest, callback?: Ack<ReactionResponse>) => void;
+  'remove_reaction': (data: ReactionRequest, callback?: Ack<ReactionResponse>) => void;
+  'list_threads': (data: ListThreadsRequest, callback?: Ack<ListThreadsResponse>) => void;
+  'mark_read': (data: MarkReadRequest, callback?: Ack<MarkReadResponse>) => void;
+  'get_presence': (data: GetPresenceRequest, callback?: Ack<GetPresenceResponse>) => void;
+  'heartbeat': (data: HeartbeatRequest) => void;
+  'resume': (data: ResumeRequest, callback?: Ack<ResumeResponse>) => void;
+  'list_watches': (callback?: Ack<ListWatchesResponse>) => void;
+  'add_watch': (data: WatchRuleInput, callback?: Ack<AddWatchResponse>) => void;
+  'remove_watch': (data: RemoveWatchRequest, callback?: Ack<RemoveWatchResponse>) => void;
+  'get_inbox': (data: GetInboxRequest, callback?: Ack<GetInboxResponse>) => void;
+  'mark_notifications_read': (data: MarkNotificationsReadRequest, callback?: Ack<MarkNotificationsReadResponse>) => void;
+}
+
+// Events the server sends on the /discord namespace
+export interface ServerToClientEvents {
+  'channels': (channels: DiscordChannel[]) => void;
+  'user_info': (user: DiscordUserProfile) => void;
+  'message': (message: Sequenced<DiscordMessage>) => void;
+  'message_update': (message: Sequenced<DiscordMessage>) => void;
+  'message_delete': (data: Sequenced<MessageDeleteEvent>) => void;
+  'messages_bulk': (data: { channelId: string } & MessageHistoryPage) => void;
   'channel_update': (channel: DiscordChannel) => void;
+  'channel_delete': (data: ChannelDeleteEvent) => void;
+  'access_revoked': (data: AccessRevokedEvent) => void;
+  'session_revoked': (data: SessionRevokedEvent) => void;
+  'voice_state_update': (data: VoiceStateEvent) => void;
   'user_joined': (data: { channelId: string; user: { id: string; username: string } }) => void;
   'user_left': (data: { channelId: string; user: { id: string; username: string } }) => void;
+  'presence_update': (data: { userId: string; status: PresenceStatus }) => void;
   'typing_start': (data: { channelId: string; userId: string; username: string }) => void;
   'typing_stop': (data: { channelId: string; userId: string }) => void;
-  'error': (error: { code: string; message: string; severity: 'LOW' | 'MEDIUM' | 'HIGH' }) => void;
+  'reaction_add': (data: ReactionEvent) => void;
+  'reaction_remove': (data: ReactionEvent) => void;
+  'reaction_clear': (data: ReactionClearEvent) => void;
+  'error': (error: SocketErrorEvent) => void;
   'rate_limited': (data: { message: string; retryAfter: number }) => void;
+  'notification': (data: { notification: DiscordNotification } & InboxEvent) => void;
+  'notification_delete': (data: { notificationId: string } & InboxEvent) => void;
+  'inbox_update': (data: InboxEvent) => void;
 }
 
+// Nodes only exchange the Redis adapter's own messages
+export type InterServerEvents = Record<string, never>;
+
+export type DiscordNamespace = Namespace<ClientToServerEvents, ServerToClientEvents, InterServerEvents, DiscordSocketData>;
+export type DiscordSocket = Socket<ClientToServerEvents, ServerToClientEvents, InterServerEvents, DiscordSocketData>;
+
 
 
 
@@ -175,14 +784,23 @@ export interface DatabaseMessage {
   discord_id: string;
   content: string;
   author_discord_id: string;
+  author: string; // JSON string, author snapshot at send time (webhook names vary per message)
   channel_id: string;
   server_id: string;
   attachments: string; // JSON string
   embeds: string; // JSON string
   reactions: string; // JSON string
+  tokens?: string; // JSON string, mentions resolved at send time; older rows are re-parsed
+  message_type?: string; // missing on rows archived before types were kept
+  system?: boolean;
+  reply_to?: string; // JSON string
+  stickers?: string; // JSON string
+  poll?: string; // JSON string
+  components?: string; // JSON string
   created_at: Date;
   edited_at?: Date;
   edited: boolean;
+  deleted_at?: Date;
 }
 
 export interface DatabaseUser {
@@ -195,6 +813,31 @@ export interface DatabaseUser {
   updated_at: Date;
 }
 
+export interface DatabaseReadMarker {
+  user_discord_id: string;
+  channel_id: string;
+  last_read_message_id: string;
+  updated_at: Date;
+}
+
+export interface DatabaseWatchRule {
+  id: string;
+  user_discord_id: string;
+  rule: string; // JSON string, the WatchRuleInput
+  created_at: Date;
+}
+
+export interface DatabaseNotification {
+  user_discord_id: string;
+  message_id: string;
+  channel_id: string;
+  server_id: string;
+  rule_ids: string; // JSON string
+  reasons: string; // JSON string
+  created_at: Date;
+  read_at?: Date;
+}
+
 export interface DatabaseChannel {
   id: string;
   discord_id: string;
@@ -0,0 +1,51 @@
+import crypto from 'crypto'
+
+// Signed proxy URLs stay valid this long after a message is sent to a client
+export const DEFAULT_ATTACHMENT_URL_TTL_MS = 60 * 60 * 1000
+
+// Discord URLs this close to expiry are refreshed before downloading
+const DISCORD_EXPIRY_MARGIN_MS = 60 * 1000
+
+export type SignatureCheck = 'valid' | 'expired' | 'invalid'
+
+const secret = () => process.env['ATTACHMENT_URL_SECRET'] || (process.env['JWT_SECRET'] as string)
+
+const ttl = () => parseInt(process.env['ATTACHMENT_URL_TTL_MS'] || '') || DEFAULT_ATTACHMENT_URL_TTL_MS
+
+const sign = (channelId: string, attachmentId: string, expires: number) =>
+  crypto.createHmac('sha256', secret()).update(`${channelId}/${attachmentId}/${expires}`).digest('base64url')
+
+//Building a short-lived URL that lets a browser load the attachment through our proxy without a token
+export const signAttachmentUrl = (channelId: string, attachmentId: string, now = Date.now()) => {
+  // Rounded to the minute so one message formats to the same URL for everyone, and browsers can cache it
+  const expires = Math.ceil((now + ttl()) / 60000) * 60000
+  const base = (process.env['PUBLIC_URL'] || '').replace(/\/$/, '')
+  return `${base}/api/attachments/${channelId}/${attachmentId}?expires=${expires}&signature=${sign(channelId, attachmentId, expires)}`
+}
+
+export const verifyAttachmentSignature = (
+  channelId: string,
+  attachmentId: string,
+  expires: string,
+  signature: string,
+  now = Date.now()
+): SignatureCheck => {
+  if (!/^\d+$/.test(expires)) return 'invalid'
+
+  const expected = Buffer.from(sign(channelId, attachmentId, Number(expires)))
+  const actual = Buffer.from(signature)
+  if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) return 'invalid'
+
+  return Number(expires) > now ? 'valid' : 'expired'
+}
+
+//Discord CDN URLs carry their expiry as hex seconds in `ex`; URLs without one never expire
+export const isDiscordUrlExpired = (url: string, now = Date.now()) => {
+  try {
+    const expiry = new URL(url).searchParams.get('ex')
+    if (!expiry || !/^[0-9a-f]+$/i.test(expiry)) return false
+    return parseInt(expiry, 16) * 1000 <= now + DISCORD_EXPIRY_MARGIN_MS
+  } catch {
+    return true
+  }
+}
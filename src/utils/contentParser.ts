@@ -0,0 +1,239 @@
+import { ContentSpanType, ContentToken, TimestampStyle } from '../types'
+
+export interface ResolvedMention {
+  name: string
+  color?: string // hex, only when the member or role is colored
+}
+
+//Looks up mention targets; anything it cannot find gets the placeholder Discord shows
+export interface MentionResolver {
+  user(id: string): ResolvedMention | null
+  role(id: string): ResolvedMention | null
+  channel(id: string): ResolvedMention | null
+}
+
+const UNRESOLVED: MentionResolver = {
+  user: () => null,
+  role: () => null,
+  channel: () => null
+}
+
+// Spans nested deeper than this are left as plain text
+const MAX_DEPTH = 8
+
+interface ParseContext {
+  resolver: MentionResolver
+  depth: number
+  blocks: boolean // headings, subtext and quotes only open at the start of a line
+  quotes: boolean // quotes do not nest
+}
+
+interface Rule {
+  pattern: RegExp // sticky, tried at the current position
+  block?: boolean
+  quote?: boolean
+  wordBoundary?: boolean // not right after a letter, so snake_case stays text
+  build(match: RegExpExecArray, context: ParseContext): ContentToken | null
+}
+
+export const customEmojiUrl = (id: string, animated: boolean) =>
+  `https://cdn.discordapp.com/emojis/${id}.${animated ? 'gif' : 'png'}`
+
+const group = (match: RegExpExecArray, index: number) => match[index] ?? ''
+
+const parseInner = (text: string, context: ParseContext, overrides: Partial<ParseContext> = {}) =>
+  parseTokens(text, { ...context, depth: context.depth + 1, blocks: false, ...overrides })
+
+const span = (type: ContentSpanType) => (match: RegExpExecArray, context: ParseContext): ContentToken => ({
+  type,
+  children: parseInner(group(match, 1), context)
+})
+
+const mention = (resolved: ResolvedMention | null, fallback: string) => ({
+  name: resolved?.name ?? fallback,
+  ...(resolved?.color ? { color: resolved.color } : {})
+})
+
+// Order matters: code wins over everything, bold is tried before italic
+const RULES: Rule[] = [
+  {
+    pattern: />>> ([\s\S]*)/y,
+    block: true,
+    quote: true,
+    build: (match, context) => ({
+      type: 'blockquote',
+      children: parseInner(group(match, 1), context, { blocks: true, quotes: false })
+    })
+  },
+  {
+    pattern: /> ([^\n]*)\n?/y,
+    block: true,
+    quote: true,
+    build: (match, context) => ({
+      type: 'blockquote',
+      children: parseInner(group(match, 1), context, { blocks: true, quotes: false })
+    })
+  },
+  {
+    pattern: /(#{1,3}) ([^\n]+)\n?/y,
+    block: true,
+    build: (match, context) => ({
+      type: 'heading',
+      level: group(match, 1).length as 1 | 2 | 3,
+      children: parseInner(group(match, 2), context)
+    })
+  },
+  { pattern: /-# ([^\n]+)\n?/y, block: true, build: span('subtext') },
+  {
+    pattern: /```(?:([\w+#.-]+)\n)?\n?([\s\S]*?)\n?```/y,
+    build: match => ({
+      type: 'code_block',
+      code: group(match, 2),
+      ...(match[1] ? { language: match[1] } : {})
+    })
+  },
+  {
+    pattern: /``([^`][\s\S]*?)``|`([^`]+)`/y,
+    build: match => ({ type: 'inline_code', code: match[1] ?? group(match, 2) })
+  },
+  { pattern: /\\([^\w\s])/y, build: match => ({ type: 'text', text: group(match, 1) }) },
+  {
+    pattern: /<@!?(\d+)>/y,
+    build: (match, context) => ({
+      type: 'user_mention',
+      id: group(match, 1),
+      ...mention(context.resolver.user(group(match, 1)), 'Unknown User')
+    })
+  },
+  {
+    pattern: /<@&(\d+)>/y,
+    build: (match, context) => ({
+      type: 'role_mention',
+      id: group(match, 1),
+      ...mention(context.resolver.role(group(match, 1)), 'deleted-role')
+    })
+  },
+  {
+    pattern: /<#(\d+)>/y,
+    build: (match, context) => ({
+      type: 'channel_mention',
+      id: group(match, 1),
+      name: context.resolver.channel(group(match, 1))?.name ?? 'unknown'
+    })
+  },
+  {
+    pattern: /<(a?):(\w+):(\d+)>/y,
+    build: match => ({
+      type: 'custom_emoji',
+      id: group(match, 3),
+      name: group(match, 2),
+      animated: match[1] === 'a',
+      url: customEmojiUrl(group(match, 3), match[1] === 'a')
+    })
+  },
+  {
+    pattern: /<t:(-?\d+)(?::([tTdDfFR]))?>/y,
+    build: match => {
+      const date = new Date(Number(match[1]) * 1000)
+      if (Number.isNaN(date.getTime())) return null
+
+      return {
+        type: 'timestamp',
+        timestamp: date.toISOString(),
+        style: (match[2] ?? 'f') as TimestampStyle
+      }
+    }
+  },
+  {
+    pattern: /@(everyone|here)/y,
+    build: match => ({ type: 'everyone_mention', target: match[1] === 'here' ? 'here' : 'everyone' })
+  },
+  {
+    pattern: /\[([^[\]\n]+)\]\(<?(https?:\/\/[^\s()<>]+)>?\)/y,
+    build: (match, context) => ({
+      type: 'link',
+      url: group(match, 2),
+      children: parseInner(group(match, 1), context)
+    })
+  },
+  {
+    // Angle brackets only suppress the embed; trailing punctuation is not part of a bare link
+    pattern: /<(https?:\/\/[^\s<>]+)>|(https?:\/\/[^\s<]+[^\s<.,:;"')\]!?*_~|])/y,
+    build: match => {
+      const url = match[1] ?? group(match, 2)
+      return { type: 'link', url, children: [{ type: 'text', text: url }] }
+    }
+  },
+  { pattern: /\|\|([\s\S]+?)\|\|/y, build: span('spoiler') },
+  { pattern: /\*\*([\s\S]+?)\*\*(?!\*)/y, build: span('bold') },
+  { pattern: /__([\s\S]+?)__(?!_)/y, build: span('underline') },
+  { pattern: /\*(?=\S)((?:\*\*[\s\S]+?\*\*|[\s\S])+?)\*(?!\*)/y, build: span('italic') },
+  { pattern: /_([\s\S]+?)_(?!\w)/y, wordBoundary: true, build: span('italic') },
+  { pattern: /~~([\s\S]+?)~~/y, build: span('strikethrough') }
+]
+
+const matchRule = (text: string, index: number, context: ParseContext) => {
+  const lineStart = index === 0 || text[index - 1] === '\n'
+
+  for (const rule of RULES) {
+    if (rule.block && !(context.blocks && lineStart)) continue
+    if (rule.quote && !context.quotes) continue
+    if (rule.wordBoundary && index > 0 && /\w/.test(text[index - 1] as string)) continue
+
+    rule.pattern.lastIndex = index
+    const match = rule.pattern.exec(text)
+    if (!match) continue
+
+    // Building recurses into the same patterns, so the end is taken first
+    const end = index + match[0].length
+    const token = rule.build(match, context)
+    if (token) return { token, end }
+  }
+
+  return null
+}
+
+//Joining neighbouring text, and consecutive quote lines into one quote
+const merge = (tokens: ContentToken[]) => {
+  const merged: ContentToken[] = []
+
+  for (const token of tokens) {
+    const previous = merged[merged.length - 1]
+    if (previous?.type === 'text' && token.type === 'text') {
+      previous.text += token.text
+    } else if (previous?.type === 'blockquote' && token.type === 'blockquote') {
+      previous.children = merge([...previous.children, { type: 'text', text: '\n' }, ...token.children])
+    } else {
+      merged.push(token)
+    }
+  }
+
+  return merged
+}
+
+const parseTokens = (text: string, context: ParseContext): ContentToken[] => {
+  const tokens: ContentToken[] = []
+  let index = 0
+  let plain = ''
+
+  while (index < text.length) {
+    const matched = context.depth < MAX_DEPTH ? matchRule(text, index, context) : null
+
+    if (matched) {
+      if (plain) tokens.push({ type: 'text', text: plain })
+      plain = ''
+      tokens.push(matched.token)
+      index = matched.end
+    } else {
+      plain += text[index]
+      index++
+    }
+  }
+
+  if (plain) tokens.push({ type: 'text', text: plain })
+  return merge(tokens)
+}
+
+//Parsing Discord-flavoured markdown into tokens clients can render without a markdown library
+export const parseContent = (content: string, resolver: MentionResolver = UNRESOLVED): ContentToken[] =>
+  parseTokens(content, { resolver, depth: 0, blocks: true, quotes: true })
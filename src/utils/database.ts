@@ -0,0 +1,710 @@
+import fs from 'fs'
+import path from 'path'
+import readline from 'readline'
+import {
+  DatabaseChannel,
+  DatabaseMessage,
+  DatabaseNotification,
+  DatabaseReadMarker,
+  DatabaseUser,
+  DatabaseWatchRule,
+  DiscordMessage,
+  DiscordNotification,
+  WatchRule,
+  WatchRuleInput
+} from '../types'
+import { parseContent } from './contentParser'
+
+// Range of message IDs (inclusive) for which every message in the channel is archived
+export interface ArchiveCoverage {
+  from: string
+  to: string
+}
+
+export interface MessageSearchQuery {
+  channelIds: string[]
+  terms: string[] // lowercased
+  authorId?: string
+  after?: Date
+  before?: Date
+  hasAttachment?: boolean
+  cursor?: string
+  limit: number
+}
+
+export interface UnreadCountOptions {
+  excludeAuthorId?: string // the reader's own messages are never unread
+  excludeBots?: boolean
+  limit: number // counting stops here, clients show it as "limit+"
+}
+
+export interface NotificationQuery {
+  before?: string // message ID cursor
+  unreadOnly?: boolean
+  limit: number
+}
+
+// Older notifications are dropped once a user's inbox holds this many
+export const MAX_NOTIFICATIONS_PER_USER = 500
+
+export interface ArchiveStats {
+  messages: number
+  users: number
+  channels: number
+}
+
+//Storage behind the message archive; implementations must keep messages ordered by snowflake
+export interface MessageRepository {
+  open(): Promise<void>
+  close(): Promise<void>
+  isConnected(): boolean
+  saveMessage(message: DatabaseMessage): Promise<void>
+  markMessageDeleted(messageId: string, deletedAt: Date): Promise<void>
+  getMessage(messageId: string): Promise<DatabaseMessage | null>
+  getMessageByAttachment(attachmentId: string): Promise<DatabaseMessage | null>
+  // Up to `limit` newest non-deleted messages older than `before`, in chronological order
+  getChannelMessages(channelId: string, options: { before?: string, limit: number }): Promise<DatabaseMessage[]>
+  // Up to `limit` matching non-deleted messages older than `cursor`, newest first
+  searchMessages(query: MessageSearchQuery): Promise<DatabaseMessage[]>
+  // Number of non-deleted messages newer than `after`
+  countMessagesAfter(channelId: string, after: string, options: UnreadCountOptions): Promise<number>
+  saveUser(user: DatabaseUser): Promise<void>
+  getUser(discordId: string): Promise<DatabaseUser | null>
+  saveChannel(channel: DatabaseChannel): Promise<void>
+  getChannel(discordId: string): Promise<DatabaseChannel | null>
+  saveReadMarker(marker: DatabaseReadMarker): Promise<void>
+  getReadMarker(userId: string, channelId: string): Promise<DatabaseReadMarker | null>
+  addCoverage(channelId: string, range: ArchiveCoverage): Promise<void>
+  getCoverage(channelId: string): Promise<ArchiveCoverage[]>
+  saveWatchRule(rule: DatabaseWatchRule): Promise<void>
+  // False when the user has no such rule
+  deleteWatchRule(userId: string, ruleId: string): Promise<boolean>
+  getWatchRules(userId: string): Promise<DatabaseWatchRule[]>
+  // Every user's rules, checked against each new message
+  getAllWatchRules(): Promise<DatabaseWatchRule[]>
+  // Replaces the user's notification for the same message; keeps the newest MAX_NOTIFICATIONS_PER_USER
+  saveNotification(notification: DatabaseNotification): Promise<void>
+  // Up to `limit` notifications older than `before`, newest first
+  getNotifications(userId: string, query: NotificationQuery): Promise<DatabaseNotification[]>
+  // Marks the given messages' notifications read, or all of them when `messageIds` is null
+  markNotificationsRead(userId: string, messageIds: string[] | null, readAt: Date): Promise<void>
+  // Removes a deleted message's notifications, resolving to the users who had one
+  deleteNotifications(messageId: string): Promise<string[]>
+  getStats(): ArchiveStats
+}
+
+//Snowflakes are compared as BigInt, they do not fit in a Number
+const toId = (id: string) => BigInt(id)
+
+const markerKey = (userId: string, channelId: string) => `${userId}:${channelId}`
+
+//Merging a new range into a sorted, non-overlapping coverage list
+export const mergeCoverage = (ranges: ArchiveCoverage[], range: ArchiveCoverage): ArchiveCoverage[] => {
+  const all = [...ranges, range].sort((a, b) => (toId(a.from) < toId(b.from) ? -1 : 1))
+  const merged: ArchiveCoverage[] = []
+
+  for (const current of all) {
+    const last = merged[merged.length - 1]
+    // Adjacent ranges merge too, there is no ID between them
+    if (last && toId(current.from) <= toId(last.to) + 1n) {
+      if (toId(current.to) > toId(last.to)) last.to = current.to
+    } else {
+      merged.push({ ...current })
+    }
+  }
+
+  return merged
+}
+
+//Checking an archived message against every filter of a search
+export const matchesSearch = (message: DatabaseMessage, query: MessageSearchQuery) => {
+  if (message.deleted_at) return false
+  if (query.authorId && message.author_discord_id !== query.authorId) return false
+  if (query.after && message.created_at < query.after) return false
+  if (query.before && message.created_at >= query.before) return false
+  if (query.hasAttachment !== undefined && (message.attachments !== '[]') !== query.hasAttachment) return false
+
+  if (query.terms.length === 0) return true
+  // Embeds carry most shared links, so they are searched along with the content
+  const haystack = `${message.content}\n${message.embeds}`.toLowerCase()
+  return query.terms.every(term => haystack.includes(term))
+}
+
+//In-memory repository, used in tests and as the base for the file repository
+export class InMemoryMessageRepository implements MessageRepository {
+  protected messages: Map<string, DatabaseMessage> = new Map()
+  protected channelIndex: Map<string, string[]> = new Map()
+  protected attachmentIndex: Map<string, string> = new Map() // attachment ID -> message ID
+  protected users: Map<string, DatabaseUser> = new Map()
+  protected channels: Map<string, DatabaseChannel> = new Map()
+  protected coverage: Map<string, ArchiveCoverage[]> = new Map()
+  protected readMarkers: Map<string, DatabaseReadMarker> = new Map()
+  protected watchRules: Map<string, DatabaseWatchRule[]> = new Map() // user ID -> rules, oldest first
+  protected notifications: Map<string, DatabaseNotification[]> = new Map() // user ID -> notifications, by message ID
+  protected connected = false
+
+  async open() {
+    this.connected = true
+  }
+
+  async close() {
+    this.connected = false
+  }
+
+  isConnected() {
+    return this.connected
+  }
+
+  async saveMessage(message: DatabaseMessage) {
+    this.applyMessage(message)
+  }
+
+  async markMessageDeleted(messageId: string, deletedAt: Date) {
+    this.applyDelete(messageId, deletedAt)
+  }
+
+  async getMessage(messageId: string) {
+    return this.messages.get(messageId) ?? null
+  }
+
+  async getMessageByAttachment(attachmentId: string) {
+    const messageId = this.attachmentIndex.get(attachmentId)
+    return messageId ? this.getMessage(messageId) : null
+  }
+
+  async getChannelMessages(channelId: string, options: { before?: string, limit: number }) {
+    const ids = this.channelIndex.get(channelId) ?? []
+    const before = options.before ? toId(options.before) : null
+    const result: DatabaseMessage[] = []
+
+    for (let i = ids.length - 1; i >= 0 && result.length < options.limit; i--) {
+      const id = ids[i] as string
+      if (before !== null && toId(id) >= before) continue
+
+      const message = this.messages.get(id)
+      if (message && !message.deleted_at) result.push(message)
+    }
+
+    return result.reverse()
+  }
+
+  async searchMessages(query: MessageSearchQuery) {
+    const cursor = query.cursor ? toId(query.cursor) : null
+    const matches: DatabaseMessage[] = []
+
+    for (const channelId of query.channelIds) {
+      for (const id of this.channelIndex.get(channelId) ?? []) {
+        if (cursor !== null && toId(id) >= cursor) continue
+
+        const message = this.messages.get(id)
+        if (message && matchesSearch(message, query)) matches.push(message)
+      }
+    }
+
+    return matches
+      .sort((a, b) => (toId(a.discord_id) > toId(b.discord_id) ? -1 : 1))
+      .slice(0, query.limit)
+  }
+
+  async countMessagesAfter(channelId: string, after: string, options: UnreadCountOptions) {
+    const ids = this.channelIndex.get(channelId) ?? []
+    const from = toId(after)
+    let count = 0
+
+    // Walk back from the newest message until we reach the marker
+    for (let i = ids.length - 1; i >= 0 && count < options.limit; i--) {
+      const id = ids[i] as string
+      if (toId(id) <= from) break
+
+      const message = this.messages.get(id)
+      if (!message || message.deleted_at) continue
+      if (options.excludeAuthorId && message.author_discord_id === options.excludeAuthorId) continue
+      if (options.excludeBots && JSON.parse(message.author).bot) continue
+      count++
+    }
+
+    return count
+  }
+
+  async saveUser(user: DatabaseUser) {
+    this.users.set(user.discord_id, user)
+  }
+
+  async getUser(discordId: string) {
+    return this.users.get(discordId) ?? null
+  }
+
+  async saveChannel(channel: DatabaseChannel) {
+    this.channels.set(channel.discord_id, channel)
+  }
+
+  async getChannel(discordId: string) {
+    return this.channels.get(discordId) ?? null
+  }
+
+  async saveReadMarker(marker: DatabaseReadMarker) {
+    this.readMarkers.set(markerKey(marker.user_discord_id, marker.channel_id), marker)
+  }
+
+  async getReadMarker(userId: string, channelId: string) {
+    return this.readMarkers.get(markerKey(userId, channelId)) ?? null
+  }
+
+  async addCoverage(channelId: string, range: ArchiveCoverage) {
+    this.coverage.set(channelId, mergeCoverage(this.coverage.get(channelId) ?? [], range))
+  }
+
+  async getCoverage(channelId: string) {
+    return this.coverage.get(channelId) ?? []
+  }
+
+  async saveWatchRule(rule: DatabaseWatchRule) {
+    this.applyWatchRule(rule)
+  }
+
+  async deleteWatchRule(userId: string, ruleId: string) {
+    return this.applyWatchRuleDelete(userId, ruleId)
+  }
+
+  async getWatchRules(userId: string) {
+    return [...this.watchRules.get(userId) ?? []]
+  }
+
+  async getAllWatchRules() {
+    return [...this.watchRules.values()].flat()
+  }
+
+  async saveNotification(notification: DatabaseNotification) {
+    this.applyNotification(notification)
+  }
+
+  async getNotifications(userId: string, query: NotificationQuery) {
+    const notifications = this.notifications.get(userId) ?? []
+    const before = query.before ? toId(query.before) : null
+    const result: DatabaseNotification[] = []
+
+    for (let i = notifications.length - 1; i >= 0 && result.length < query.limit; i--) {
+      const notification = notifications[i] as DatabaseNotification
+      if (before !== null && toId(notification.message_id) >= before) continue
+      if (query.unreadOnly && notification.read_at) continue
+      result.push(notification)
+    }
+
+    return result
+  }
+
+  async markNotificationsRead(userId: string, messageIds: string[] | null, readAt: Date) {
+    this.applyNotificationsRead(userId, messageIds, readAt)
+  }
+
+  async deleteNotifications(messageId: string) {
+    return this.applyNotificationsDelete(messageId)
+  }
+
+  getStats(): ArchiveStats {
+    return {
+      messages: this.messages.size,
+      users: this.users.size,
+      channels: this.channels.size
+    }
+  }
+
+  protected applyMessage(message: DatabaseMessage) {
+    const existing = this.messages.get(message.discord_id)
+    this.messages.set(message.discord_id, existing?.deleted_at ? { ...message, deleted_at: existing.deleted_at } : message)
+    for (const attachment of JSON.parse(message.attachments) as Array<{ id: string }>) {
+      this.attachmentIndex.set(attachment.id, message.discord_id)
+    }
+    if (existing) return
+
+    // Keep the per-channel index sorted; live messages almost always append at the end
+    const ids = this.channelIndex.get(message.channel_id) ?? []
+    const id = toId(message.discord_id)
+    let index = ids.length
+    while (index > 0 && toId(ids[index - 1] as string) > id) index--
+    ids.splice(index, 0, message.discord_id)
+    this.channelIndex.set(message.channel_id, ids)
+  }
+
+  protected applyDelete(messageId: string, deletedAt: Date) {
+    const existing = this.messages.get(messageId)
+    if (existing) this.messages.set(messageId, { ...existing, deleted_at: deletedAt })
+  }
+
+  protected applyWatchRule(rule: DatabaseWatchRule) {
+    const rules = (this.watchRules.get(rule.user_discord_id) ?? []).filter(existing => existing.id !== rule.id)
+    this.watchRules.set(rule.user_discord_id, [...rules, rule])
+  }
+
+  protected applyWatchRuleDelete(userId: string, ruleId: string) {
+    const rules = this.watchRules.get(userId) ?? []
+    const remaining = rules.filter(rule => rule.id !== ruleId)
+    if (remaining.length === rules.length) return false
+
+    if (remaining.length > 0) this.watchRules.set(userId, remaining)
+    else this.watchRules.delete(userId)
+    return true
+  }
+
+  protected applyNotification(notification: DatabaseNotification) {
+    const notifications = (this.notifications.get(notification.user_discord_id) ?? [])
+      .filter(existing => existing.message_id !== notification.message_id)
+
+    // Same insertion as the channel index, matches almost always arrive newest last
+    const id = toId(notification.message_id)
+    let index = notifications.length
+    while (index > 0 && toId((notifications[index - 1] as DatabaseNotification).message_id) > id) index--
+    notifications.splice(index, 0, notification)
+    if (notifications.length > MAX_NOTIFICATIONS_PER_USER) notifications.splice(0, notifications.length - MAX_NOTIFICATIONS_PER_USER)
+
+    this.notifications.set(notification.user_discord_id, notifications)
+  }
+
+  protected applyNotificationsRead(userId: string, messageIds: string[] | null, readAt: Date) {
+    const ids = messageIds ? new Set(messageIds) : null
+    const notifications = this.notifications.get(userId) ?? []
+    this.notifications.set(userId, notifications.map(notification =>
+      !notification.read_at && (!ids || ids.has(notification.message_id)) ? { ...notification, read_at: readAt } : notification))
+  }
+
+  protected applyNotificationsDelete(messageId: string) {
+    const userIds: string[] = []
+    for (const [userId, notifications] of this.notifications) {
+      const remaining = notifications.filter(notification => notification.message_id !== messageId)
+      if (remaining.length === notifications.length) continue
+
+      userIds.push(userId)
+      this.notifications.set(userId, remaining)
+    }
+    return userIds
+  }
+}
+
+type ArchiveRecord =
+  | { op: 'message', data: DatabaseMessage }
+  | { op: 'delete', id: string, at: string }
+  | { op: 'user', data: DatabaseUser }
+  | { op: 'channel', data: DatabaseChannel }
+  | { op: 'coverage', channelId: string, range: ArchiveCoverage }
+  | { op: 'read', data: DatabaseReadMarker }
+  | { op: 'watch', data: DatabaseWatchRule }
+  | { op: 'unwatch', userId: string, id: string }
+  | { op: 'notification', data: DatabaseNotification }
+  | { op: 'notification_read', userId: string, ids: string[] | null, at: string }
+  | { op: 'notification_delete', messageId: string }
+
+const DATE_FIELDS = ['created_at', 'updated_at', 'edited_at', 'deleted_at', 'read_at']
+
+//Embedded file repository: an append-only JSON lines log replayed into memory on open
+export class FileMessageRepository extends InMemoryMessageRepository {
+  private filePath: string
+  private stream: fs.WriteStream | null = null
+  private recordCount = 0
+  private compacting: Promise<void> | null = null
+
+  constructor(filePath: string) {
+    super()
+    this.filePath = filePath
+  }
+
+  override async open() {
+    await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true })
+
+    if (fs.existsSync(this.filePath)) {
+      await this.replay()
+    }
+
+    if (this.needsCompaction()) {
+      await this.compact()
+    }
+
+    this.stream = this.createStream(this.filePath, 'a')
+    this.connected = true
+    console.log(`🗄️ Message archive opened at ${this.filePath} (${this.messages.size} messages)`)
+  }
+
+  override async close() {
+    await this.compacting?.catch(() => undefined)
+    const stream = this.stream
+    this.stream = null
+    this.connected = false
+    if (stream) await new Promise<void>(resolve => stream.end(resolve))
+  }
+
+  override async saveMessage(message: DatabaseMessage) {
+    await super.saveMessage(message)
+    await this.append({ op: 'message', data: message })
+  }
+
+  override async markMessageDeleted(messageId: string, deletedAt: Date) {
+    await super.markMessageDeleted(messageId, deletedAt)
+    await this.append({ op: 'delete', id: messageId, at: deletedAt.toISOString() })
+  }
+
+  override async saveUser(user: DatabaseUser) {
+    await super.saveUser(user)
+    await this.append({ op: 'user', data: user })
+  }
+
+  override async saveChannel(channel: DatabaseChannel) {
+    await super.saveChannel(channel)
+    await this.append({ op: 'channel', data: channel })
+  }
+
+  override async addCoverage(channelId: string, range: ArchiveCoverage) {
+    await super.addCoverage(channelId, range)
+    await this.append({ op: 'coverage', channelId, range })
+  }
+
+  override async saveReadMarker(marker: DatabaseReadMarker) {
+    await super.saveReadMarker(marker)
+    await this.append({ op: 'read', data: marker })
+  }
+
+  override async saveWatchRule(rule: DatabaseWatchRule) {
+    await super.saveWatchRule(rule)
+    await this.append({ op: 'watch', data: rule })
+  }
+
+  override async deleteWatchRule(userId: string, ruleId: string) {
+    const deleted = await super.deleteWatchRule(userId, ruleId)
+    if (deleted) await this.append({ op: 'unwatch', userId, id: ruleId })
+    return deleted
+  }
+
+  override async saveNotification(notification: DatabaseNotification) {
+    await super.saveNotification(notification)
+    await this.append({ op: 'notification', data: notification })
+  }
+
+  override async markNotificationsRead(userId: string, messageIds: string[] | null, readAt: Date) {
+    await super.markNotificationsRead(userId, messageIds, readAt)
+    await this.append({ op: 'notification_read', userId, ids: messageIds, at: readAt.toISOString() })
+  }
+
+  override async deleteNotifications(messageId: string) {
+    const userIds = await super.deleteNotifications(messageId)
+    if (userIds.length > 0) await this.append({ op: 'notification_delete', messageId })
+    return userIds
+  }
+
+  private inboxSize() {
+    let size = 0
+    for (const rules of this.watchRules.values()) size += rules.length
+    for (const notifications of this.notifications.values()) size += notifications.length
+    return size
+  }
+
+  //Edits, deletes and reaction updates append whole rows, so the log is rewritten once most of it is redundant
+  private needsCompaction() {
+    return this.recordCount > 2 * (this.messages.size + this.users.size + this.channels.size + this.readMarkers.size + this.inboxSize()) + 1000
+  }
+
+  private createStream(filePath: string, flags: string) {
+    const stream = fs.createWriteStream(filePath, { flags })
+    // A failed write (full disk, lost mount) destroys the stream and fails every queued write through its callback
+    stream.on('error', error => console.error(`Message archive write failed for ${filePath}:`, error))
+    return stream
+  }
+
+  //Resolving once the record is on disk, so callers see failed writes instead of losing them silently
+  private async append(record: ArchiveRecord) {
+    const stream = this.stream
+    if (!stream) throw new Error('Message archive is not open')
+    if (stream.errored) throw stream.errored
+
+    this.recordCount++
+    await new Promise<void>((resolve, reject) => {
+      stream.write(`${JSON.stringify(record)}\n`, error => (error ? reject(error) : resolve()))
+    })
+
+    if (!this.compacting && this.needsCompaction()) {
+      this.compacting = this.compactOpenLog().finally(() => {
+        this.compacting = null
+      })
+    }
+    // Records written while compacting are only in the log once the compacted file has replaced it
+    if (this.compacting) await this.compacting
+  }
+
+  private async replay() {
+    const lines = readline.createInterface({ input: fs.createReadStream(this.filePath), crlfDelay: Infinity })
+
+    for await (const line of lines) {
+      if (!line.trim()) continue
+
+      try {
+        const record = JSON.parse(line, (key, value) =>
+          DATE_FIELDS.includes(key) && typeof value === 'string' ? new Date(value) : value
+        ) as ArchiveRecord
+        this.applyRecord(record)
+        this.recordCount++
+      } catch {
+        // A crash mid-write can leave a truncated last line
+        console.warn(`⚠️  Skipping unreadable archive record in ${this.filePath}`)
+      }
+    }
+  }
+
+  private applyRecord(record: ArchiveRecord) {
+    switch (record.op) {
+      case 'message':
+        this.applyMessage(record.data)
+        break
+      case 'delete':
+        this.applyDelete(record.id, new Date(record.at))
+        break
+      case 'user':
+        this.users.set(record.data.discord_id, record.data)
+        break
+      case 'channel':
+        this.channels.set(record.data.discord_id, record.data)
+        break
+      case 'coverage':
+        this.coverage.set(record.channelId, mergeCoverage(this.coverage.get(record.channelId) ?? [], record.range))
+        break
+      case 'read':
+        this.readMarkers.set(markerKey(record.data.user_discord_id, record.data.channel_id), record.data)
+        break
+      case 'watch':
+        this.applyWatchRule(record.data)
+        break
+      case 'unwatch':
+        this.applyWatchRuleDelete(record.userId, record.id)
+        break
+      case 'notification':
+        this.applyNotification(record.data)
+        break
+      case 'notification_read':
+        this.applyNotificationsRead(record.userId, record.ids, new Date(record.at))
+        break
+      case 'notification_delete':
+        this.applyNotificationsDelete(record.messageId)
+        break
+    }
+  }
+
+  //Every live row as a record, which is all a compacted log holds
+  private snapshot(): ArchiveRecord[] {
+    return [
+      ...[...this.users.values()].map(data => ({ op: 'user' as const, data })),
+      ...[...this.channels.values()].map(data => ({ op: 'channel' as const, data })),
+      ...[...this.messages.values()].map(data => ({ op: 'message' as const, data })),
+      ...[...this.coverage.entries()].flatMap(([channelId, ranges]) =>
+        ranges.map(range => ({ op: 'coverage' as const, channelId, range }))),
+      ...[...this.readMarkers.values()].map(data => ({ op: 'read' as const, data })),
+      ...[...this.watchRules.values()].flat().map(data => ({ op: 'watch' as const, data })),
+      ...[...this.notifications.values()].flat().map(data => ({ op: 'notification' as const, data }))
+    ]
+  }
+
+  private async compact() {
+    const tempPath = `${this.filePath}.compact`
+    const out = fs.createWriteStream(tempPath)
+    const records = this.snapshot()
+
+    for (const record of records) out.write(`${JSON.stringify(record)}\n`)
+    await new Promise<void>((resolve, reject) => {
+      out.on('error', reject)
+      out.end(resolve)
+    })
+
+    await fs.promises.rename(tempPath, this.filePath)
+    this.recordCount = records.length
+    console.log(`🗜️ Compacted message archive to ${records.length} records`)
+  }
+
+  //Compacting without closing the archive: the snapshot and every later record go to a new file, which replaces the log once written
+  private async compactOpenLog() {
+    const previous = this.stream
+    if (!previous) return
+
+    // Taken and swapped in the same tick, so each record lands either in the snapshot or after it
+    const tempPath = `${this.filePath}.compact`
+    const records = this.snapshot()
+    const next = this.createStream(tempPath, 'w')
+    this.stream = next
+    this.recordCount = records.length
+
+    const written = Promise.all(records.map(record => new Promise<void>((resolve, reject) => {
+      next.write(`${JSON.stringify(record)}\n`, error => (error ? reject(error) : resolve()))
+    })))
+    await Promise.all([written, new Promise<void>(resolve => previous.end(resolve))])
+
+    // The new file keeps its open descriptor across the rename, so later writes follow it
+    await fs.promises.rename(tempPath, this.filePath)
+    console.log(`🗜️ Compacted message archive to ${records.length} records`)
+  }
+}
+
+//Mapping a formatted message to its archive row
+export const toDatabaseMessage = (message: DiscordMessage): DatabaseMessage => ({
+  id: message.id,
+  discord_id: message.id,
+  content: message.content,
+  author_discord_id: message.author.id,
+  author: JSON.stringify(message.author),
+  channel_id: message.channelId,
+  server_id: message.serverId,
+  attachments: JSON.stringify(message.attachments),
+  embeds: JSON.stringify(message.embeds),
+  reactions: JSON.stringify(message.reactions),
+  tokens: JSON.stringify(message.tokens),
+  message_type: message.type,
+  system: message.system,
+  ...(message.replyTo ? { reply_to: JSON.stringify(message.replyTo) } : {}),
+  stickers: JSON.stringify(message.stickers),
+  ...(message.poll ? { poll: JSON.stringify(message.poll) } : {}),
+  components: JSON.stringify(message.components),
+  created_at: new Date(message.timestamp),
+  ...(message.edited && message.editedTimestamp ? { edited_at: new Date(message.editedTimestamp) } : {}),
+  edited: message.edited
+})
+
+//Mapping an archive row back to the shape sent to clients
+export const fromDatabaseMessage = (row: DatabaseMessage): DiscordMessage => ({
+  id: row.discord_id,
+  type: row.message_type ?? 'default',
+  system: row.system ?? false,
+  content: row.content,
+  author: JSON.parse(row.author),
+  timestamp: row.created_at.toISOString(),
+  channelId: row.channel_id,
+  serverId: row.server_id,
+  attachments: JSON.parse(row.attachments),
+  embeds: JSON.parse(row.embeds),
+  reactions: JSON.parse(row.reactions),
+  // Rows archived before tokens existed are parsed again, without mention names
+  tokens: row.tokens ? JSON.parse(row.tokens) : parseContent(row.content),
+  ...(row.reply_to ? { replyTo: JSON.parse(row.reply_to) } : {}),
+  stickers: row.stickers ? JSON.parse(row.stickers) : [],
+  ...(row.poll ? { poll: JSON.parse(row.poll) } : {}),
+  components: row.components ? JSON.parse(row.components) : [],
+  edited: row.edited,
+  editedTimestamp: row.edited_at ? row.edited_at.toISOString() : ''
+})
+
+//Choosing the archive implementation from the environment
+export const createMessageRepository = (): MessageRepository => {
+  if (process.env['ARCHIVE_DRIVER'] === 'memory') return new InMemoryMessageRepository()
+  return new FileMessageRepository(process.env['ARCHIVE_PATH'] || './data/archive.jsonl')
+}
+
+//Mapping a watch rule row to the shape sent to clients
+export const fromDatabaseWatchRule = (row: DatabaseWatchRule): WatchRule => ({
+  ...JSON.parse(row.rule) as WatchRuleInput,
+  id: row.id,
+  createdAt: row.created_at.toISOString()
+})
+
+//Mapping a notification row and its message to the shape sent to clients
+export const fromDatabaseNotification = (row: DatabaseNotification, message: DiscordMessage): DiscordNotification => ({
+  id: row.message_id,
+  channelId: row.channel_id,
+  serverId: row.server_id,
+  ruleIds: JSON.parse(row.rule_ids),
+  reasons: JSON.parse(row.reasons),
+  message,
+  read: !!row.read_at,
+  createdAt: row.created_at.toISOString()
+})
@@ -0,0 +1,94 @@
+import { RE2 } from 're2-wasm'
+import { ContentToken, DiscordMessage, MessageFilter, WatchMatchReason, WatchRuleInput } from '../types'
+
+export const MAX_FILTER_PATTERN_LENGTH = 200
+
+// Compiled `pattern`s, null for ones that do not compile; the same few are tested against every message
+const patternCache: Map<string, RE2 | null> = new Map()
+
+//Client patterns run on RE2, which matches in linear time whatever the pattern; backreferences and lookarounds do not compile
+const compile = (pattern: string) => new RE2(pattern, 'iu')
+
+//Why a client's `pattern` cannot be used, or null when it is fine
+export const checkPattern = (pattern: string) => {
+  if (pattern.length > MAX_FILTER_PATTERN_LENGTH) return `Must be at most ${MAX_FILTER_PATTERN_LENGTH} characters`
+  try {
+    compile(pattern)
+  } catch {
+    return 'Invalid regular expression'
+  }
+  return null
+}
+
+// Patterns saved before a check was tightened may no longer compile; those never match
+const compilePattern = (pattern: string) => {
+  if (!patternCache.has(pattern)) {
+    let regex: RE2 | null = null
+    try {
+      regex = compile(pattern)
+    } catch {
+      console.warn(`Ignoring a filter pattern that does not compile: ${pattern}`)
+    }
+    if (patternCache.size >= 1000) patternCache.clear()
+    patternCache.set(pattern, regex)
+  }
+  return patternCache.get(pattern) ?? null
+}
+
+const testPattern = (pattern: string, content: string) => compilePattern(pattern)?.test(content) ?? false
+
+const mentions = (tokens: ContentToken[], viewerId: string): boolean => tokens.some(token => {
+  if (token.type === 'user_mention') return token.id === viewerId
+  if (token.type === 'everyone_mention') return true
+  return 'children' in token && mentions(token.children, viewerId)
+})
+
+//Every mention token of a message, spans included
+const mentionTokens = (tokens: ContentToken[]): ContentToken[] => tokens.flatMap(token => {
+  if (token.type === 'user_mention' || token.type === 'role_mention' || token.type === 'everyone_mention') return [token]
+  return 'children' in token ? mentionTokens(token.children) : []
+})
+
+const containsKeyword = (content: string, keywords: string[]) => {
+  const lowered = content.toLowerCase()
+  return keywords.some(keyword => lowered.includes(keyword.toLowerCase()))
+}
+
+//Whether a socket watching with `filter` receives the message; without one, bot and webhook messages are left out
+export const matchesFilter = (message: DiscordMessage, filter: MessageFilter | undefined, viewerId: string) => {
+  const { author } = message
+  if (author.webhook ? !filter?.includeWebhooks : author.bot && !filter?.includeBots) return false
+  if (!filter) return true
+
+  if (filter.authorIds && !filter.authorIds.includes(author.id)) return false
+  if (filter.excludeAuthorIds?.includes(author.id)) return false
+  if (filter.hasAttachment !== undefined && filter.hasAttachment !== message.attachments.length > 0) return false
+  if (filter.hasEmbed !== undefined && filter.hasEmbed !== message.embeds.length > 0) return false
+
+  if (filter.keywords && filter.keywords.length > 0 && !containsKeyword(message.content, filter.keywords)) return false
+  if (filter.pattern !== undefined && !testPattern(filter.pattern, message.content)) return false
+
+  if (filter.mentionsMe && !mentions(message.tokens, viewerId) && message.replyTo?.author?.id !== viewerId) return false
+  return true
+}
+
+//Why a watch rule fires for a message, empty when it does not; `roleIds` are the watcher's roles in the message's server
+export const matchWatchRule = (message: DiscordMessage, rule: WatchRuleInput, watcher: { id: string, roleIds: string[] }) => {
+  const reasons: WatchMatchReason[] = []
+  if (rule.serverId && rule.serverId !== message.serverId) return reasons
+  if (rule.channelIds && !rule.channelIds.includes(message.channelId)) return reasons
+
+  if (rule.keywords && rule.keywords.length > 0 && containsKeyword(message.content, rule.keywords)) reasons.push('keyword')
+  if (rule.pattern !== undefined && testPattern(rule.pattern, message.content)) reasons.push('pattern')
+
+  if (rule.mentions) {
+    for (const token of mentionTokens(message.tokens)) {
+      if (token.type === 'user_mention' && token.id === watcher.id) reasons.push('mention')
+      if (token.type === 'role_mention' && watcher.roleIds.includes(token.id)) reasons.push('role_mention')
+      if (token.type === 'everyone_mention') reasons.push('everyone')
+    }
+  }
+  if (rule.replies && message.replyTo?.author?.id === watcher.id) reasons.push('reply')
+
+  return [...new Set(reasons)]
+}
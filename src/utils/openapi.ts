@@ -0,0 +1,467 @@
+type Schema = Record<string, unknown>
+
+const string = (extra: Schema = {}): Schema => ({ type: 'string', ...extra })
+const integer = (extra: Schema = {}): Schema => ({ type: 'integer', ...extra })
+const boolean = (): Schema => ({ type: 'boolean' })
+const array = (items: Schema): Schema => ({ type: 'array', items })
+const ref = (name: string): Schema => ({ $ref: `#/components/schemas/${name}` })
+const snowflake = (): Schema => string({ pattern: '^\\d{17,20}$' })
+const dateTime = (): Schema => string({ format: 'date-time' })
+const uuid = (): Schema => string({ format: 'uuid' })
+
+const WEBHOOK_EVENTS = ['message_create', 'message_update', 'message_delete', 'reaction_add', 'reaction_remove', 'reaction_clear']
+
+//Object schema; every property not listed in `optional` is required
+const object = (properties: Record<string, Schema>, optional: string[] = []): Schema => {
+  const required = Object.keys(properties).filter(key => !optional.includes(key))
+  return { type: 'object', properties, ...(required.length > 0 ? { required } : {}) }
+}
+
+const response = (properties: Record<string, Schema>, optional: string[] = []) =>
+  object({ success: boolean(), ...properties }, optional)
+
+// Mirrors the interfaces in src/types.ts that the REST routes return
+const SCHEMAS: Record<string, Schema> = {
+  Error: object({
+    success: boolean(),
+    error: string(),
+    code: string(),
+    issues: array(object({ path: string(), message: string() })),
+    timestamp: dateTime()
+  }, ['code', 'issues', 'timestamp']),
+  ChannelPermissions: object({ canRead: boolean(), canWrite: boolean(), canManage: boolean() }),
+  ThreadInfo: object({
+    archived: boolean(),
+    locked: boolean(),
+    private: boolean(),
+    forumPost: boolean(),
+    ownerId: snowflake(),
+    messageCount: integer(),
+    tags: array(string()),
+    createdAt: dateTime(),
+    archivedAt: dateTime()
+  }, ['ownerId', 'messageCount', 'tags', 'createdAt', 'archivedAt']),
+  VoiceParticipant: object({
+    id: snowflake(),
+    username: string(),
+    displayName: string(),
+    avatar: string(),
+    selfMute: boolean(),
+    selfDeaf: boolean(),
+    serverMute: boolean(),
+    serverDeaf: boolean(),
+    streaming: boolean(),
+    video: boolean(),
+    suppressed: boolean()
+  }),
+  DiscordChannel: object({
+    id: snowflake(),
+    name: string(),
+    type: string({ enum: ['text', 'voice', 'category', 'announcement', 'stage', 'forum', 'media', 'thread'] }),
+    serverId: snowflake(),
+    serverName: string(),
+    position: integer(),
+    parentId: snowflake(),
+    thread: ref('ThreadInfo'),
+    voiceMembers: array(ref('VoiceParticipant')),
+    unreadCount: integer({ maximum: 100 }),
+    isActive: boolean(),
+    permissions: ref('ChannelPermissions')
+  }, ['parentId', 'thread', 'voiceMembers']),
+  DiscordMessageAuthor: object({
+    id: snowflake(),
+    username: string(),
+    displayName: string(),
+    avatar: string(),
+    bot: boolean(),
+    webhook: boolean()
+  }, ['displayName', 'avatar', 'webhook']),
+  MessageReplyPreview: object({
+    messageId: snowflake(),
+    channelId: snowflake(),
+    author: ref('DiscordMessageAuthor'),
+    content: string(),
+    deleted: boolean()
+  }, ['author', 'content', 'deleted']),
+  DiscordAttachment: object({
+    id: snowflake(),
+    filename: string(),
+    url: string({ description: 'Signed URL served by /api/attachments' }),
+    proxyUrl: string(),
+    size: integer(),
+    contentType: string(),
+    width: integer(),
+    height: integer()
+  }, ['contentType', 'width', 'height']),
+  DiscordEmbed: object({
+    type: string(),
+    title: string(),
+    description: string(),
+    url: string(),
+    color: integer(),
+    timestamp: dateTime(),
+    thumbnail: object({ url: string() }),
+    image: object({ url: string() }),
+    video: object({ url: string(), width: integer(), height: integer() }, ['width', 'height']),
+    author: object({ name: string(), iconUrl: string() }, ['iconUrl']),
+    footer: object({ text: string(), iconUrl: string() }, ['iconUrl']),
+    provider: object({ name: string(), url: string() }, ['name', 'url']),
+    fields: array(object({ name: string(), value: string(), inline: boolean() }))
+  }, ['type', 'title', 'description', 'url', 'color', 'timestamp', 'thumbnail', 'image', 'video', 'author', 'footer', 'provider']),
+  DiscordReaction: object({
+    emoji: string(),
+    emojiId: snowflake(),
+    emojiUrl: string(),
+    animated: boolean(),
+    count: integer(),
+    users: array(snowflake())
+  }, ['emojiId', 'emojiUrl', 'animated']),
+  DiscordEmoji: object({ name: string(), id: snowflake(), url: string(), animated: boolean() }, ['id', 'url', 'animated']),
+  DiscordSticker: object({ id: snowflake(), name: string(), format: string({ enum: ['png', 'apng', 'lottie', 'gif'] }), url: string() }),
+  DiscordPoll: object({
+    question: string(),
+    answers: array(object({ id: integer(), text: string(), emoji: ref('DiscordEmoji'), votes: integer() }, ['emoji'])),
+    allowMultiselect: boolean(),
+    expiresAt: dateTime(),
+    finalized: boolean()
+  }, ['expiresAt']),
+  DiscordComponent: {
+    oneOf: [
+      object({
+        type: string({ enum: ['button'] }),
+        style: string({ enum: ['primary', 'secondary', 'success', 'danger', 'link', 'premium'] }),
+        label: string(),
+        emoji: ref('DiscordEmoji'),
+        url: string(),
+        disabled: boolean()
+      }, ['label', 'emoji', 'url']),
+      object({
+        type: string({ enum: ['select'] }),
+        menu: string({ enum: ['string', 'user', 'role', 'mentionable', 'channel'] }),
+        placeholder: string(),
+        minValues: integer(),
+        maxValues: integer(),
+        options: array(object({
+          label: string(),
+          value: string(),
+          description: string(),
+          emoji: ref('DiscordEmoji'),
+          default: boolean()
+        }, ['description', 'emoji'])),
+        disabled: boolean()
+      }, ['placeholder'])
+    ]
+  },
+  DiscordComponentRow: object({ components: array(ref('DiscordComponent')) }),
+  // One schema for the whole token union; which fields are set depends on `type`
+  ContentToken: object({
+    type: string({
+      enum: [
+        'text', 'bold', 'italic', 'underline', 'strikethrough', 'spoiler', 'blockquote', 'subtext', 'heading',
+        'inline_code', 'code_block', 'link', 'user_mention', 'role_mention', 'channel_mention', 'everyone_mention',
+        'custom_emoji', 'timestamp'
+      ]
+    }),
+    text: string(),
+    children: array(ref('ContentToken')),
+    level: integer({ minimum: 1, maximum: 3 }),
+    code: string(),
+    language: string(),
+    url: string(),
+    id: snowflake(),
+    name: string(),
+    color: string(),
+    target: string({ enum: ['everyone', 'here'] }),
+    animated: boolean(),
+    timestamp: dateTime(),
+    style: string({ enum: ['t', 'T', 'd', 'D', 'f', 'F', 'R'] })
+  }, ['text', 'children', 'level', 'code', 'language', 'url', 'id', 'name', 'color', 'target', 'animated', 'timestamp', 'style']),
+  DiscordMessage: object({
+    id: snowflake(),
+    type: string({ description: "Discord message type in snake_case, e.g. 'default' or 'reply'" }),
+    system: boolean(),
+    content: string(),
+    author: ref('DiscordMessageAuthor'),
+    timestamp: dateTime(),
+    channelId: snowflake(),
+    serverId: snowflake(),
+    attachments: array(ref('DiscordAttachment')),
+    embeds: array(ref('DiscordEmbed')),
+    reactions: array(ref('DiscordReaction')),
+    tokens: array(ref('ContentToken')),
+    replyTo: ref('MessageReplyPreview'),
+    stickers: array(ref('DiscordSticker')),
+    poll: ref('DiscordPoll'),
+    components: array(ref('DiscordComponentRow')),
+    edited: boolean(),
+    editedTimestamp: string({ description: 'ISO8601, empty when the message was never edited' })
+  }, ['replyTo', 'poll', 'editedTimestamp']),
+  MessageDeleteEvent: object({ messageId: snowflake(), channelId: snowflake() }),
+  ReactionEvent: object({ channelId: snowflake(), messageId: snowflake(), userId: snowflake(), reaction: ref('DiscordReaction') }),
+  ReactionClearEvent: object({ channelId: snowflake(), messageId: snowflake(), emoji: string() }, ['emoji']),
+  DiscordUserProfile: object({
+    id: snowflake(),
+    username: string(),
+    displayName: string(),
+    avatar: string(),
+    isBot: boolean(),
+    createdAt: dateTime()
+  }, ['avatar']),
+  DiscordGuild: object({
+    id: snowflake(),
+    name: string(),
+    icon: string(),
+    owner: boolean(),
+    canManage: boolean(),
+    botPresent: boolean()
+  }, ['icon']),
+  WebhookSubscription: object({
+    id: uuid(),
+    url: string(),
+    guildId: snowflake(),
+    channelId: snowflake(),
+    events: array(string({ enum: WEBHOOK_EVENTS })),
+    createdBy: snowflake(),
+    createdAt: dateTime()
+  }, ['channelId']),
+  WebhookPayload: object({
+    id: uuid(),
+    webhookId: uuid(),
+    type: string({ enum: WEBHOOK_EVENTS }),
+    guildId: snowflake(),
+    channelId: snowflake(),
+    timestamp: dateTime(),
+    data: { oneOf: [ref('DiscordMessage'), ref('MessageDeleteEvent'), ref('ReactionEvent'), ref('ReactionClearEvent')] }
+  }),
+  WebhookDeadLetter: object({
+    payload: ref('WebhookPayload'),
+    attempts: integer(),
+    lastError: string(),
+    lastStatus: integer(),
+    failedAt: dateTime()
+  }, ['lastStatus']),
+  GetChannelsResponse: response({ channels: array(ref('DiscordChannel')) }),
+  GetChannelResponse: response({ channel: ref('DiscordChannel') }),
+  MessagePage: response({
+    channelId: snowflake(),
+    messages: array(ref('DiscordMessage')),
+    hasMore: boolean(),
+    nextCursor: snowflake()
+  }, ['channelId', 'nextCursor']),
+  MeResponse: response({ user: ref('DiscordUserProfile') }),
+  ListGuildsResponse: response({ guilds: array(ref('DiscordGuild')) }),
+  BotInviteResponse: response({ url: string() }),
+  ListWebhooksResponse: response({ webhooks: array(ref('WebhookSubscription')) }),
+  CreateWebhookResponse: response({ webhook: ref('WebhookSubscription'), secret: string({ description: 'Signs every delivery; only returned here' }) }),
+  ListDeadLettersResponse: response({ deadLetters: array(ref('WebhookDeadLetter')) }),
+  RedeliverWebhookResponse: response({ delivered: boolean() }),
+  RefreshResponse: response({ accessToken: string(), expiresIn: integer() }),
+  SuccessResponse: response({})
+}
+
+export interface ApiParameter {
+  name: string
+  in: 'path' | 'query'
+  description?: string
+  required?: boolean
+  schema: Schema
+}
+
+//One REST operation; paths use OpenAPI `{param}` templates
+export interface ApiOperation {
+  method: 'get' | 'post' | 'delete'
+  path: string
+  tag: string
+  summary: string
+  authenticated: boolean
+  parameters?: ApiParameter[]
+  body?: Schema
+  response: { status?: number, description: string, schema?: Schema, contentType?: string }
+  errors?: number[]
+}
+
+const ERROR_DESCRIPTIONS: Record<number, string> = {
+  400: 'Invalid request',
+  401: 'Missing, invalid or revoked token',
+  403: 'No access',
+  404: 'Not found',
+  429: 'Rate limited; see the Retry-After header',
+  500: 'Unexpected server error',
+  502: 'Discord could not be reached'
+}
+
+const path = (name: string, description?: string): ApiParameter =>
+  ({ name, in: 'path', required: true, schema: snowflake(), ...(description ? { description } : {}) })
+
+const idPath = (name: string): ApiParameter => ({ name, in: 'path', required: true, schema: uuid() })
+
+const query = (name: string, schema: Schema, description?: string): ApiParameter =>
+  ({ name, in: 'query', schema, ...(description ? { description } : {}) })
+
+const json = (schema: string, description = 'OK') => ({ description, schema: ref(schema) })
+
+export const API_OPERATIONS: ApiOperation[] = [
+  { method: 'get', path: '/api/health', tag: 'Health', summary: 'Server health status', authenticated: false, response: { description: 'Healthy' } },
+  { method: 'get', path: '/api/metrics', tag: 'Health', summary: 'Real-time metrics', authenticated: false, response: { description: 'OK' } },
+  { method: 'get', path: '/api/status', tag: 'Health', summary: 'Detailed server status', authenticated: false, response: { description: 'OK' } },
+  { method: 'get', path: '/api/ready', tag: 'Health', summary: 'Load balancer readiness', authenticated: false, response: { description: 'Ready' } },
+  { method: 'get', path: '/api/live', tag: 'Health', summary: 'Liveness probe', authenticated: false, response: { description: 'Alive' } },
+
+  {
+    method: 'get', path: '/api/auth/discord/login', tag: 'Auth', summary: 'Start the Discord OAuth2 login', authenticated: false,
+    response: { status: 302, description: 'Redirect to Discord' }, errors: [429]
+  },
+  {
+    method: 'get', path: '/api/auth/discord/callback', tag: 'Auth', summary: 'Finish the login and set the session cookies', authenticated: false,
+    parameters: [query('code', string()), query('state', string())],
+    response: { status: 302, description: 'Redirect to the frontend' }, errors: [429]
+  },
+  {
+    method: 'post', path: '/api/auth/refresh', tag: 'Auth', summary: 'Rotate the refresh token and issue a new access token', authenticated: false,
+    body: object({ refreshToken: string({ description: 'Only needed when the refresh_token cookie is not sent' }) }, ['refreshToken']),
+    response: json('RefreshResponse'), errors: [401, 429]
+  },
+  {
+    method: 'post', path: '/api/auth/logout', tag: 'Auth', summary: 'End the session and disconnect its sockets', authenticated: false,
+    response: json('SuccessResponse'), errors: [429]
+  },
+
+  {
+    method: 'get', path: '/api/me', tag: 'Users', summary: "The caller's Discord profile", authenticated: true,
+    response: json('MeResponse'), errors: [401, 429, 500]
+  },
+  {
+    method: 'get', path: '/api/channels', tag: 'Channels', summary: 'Channels the caller can see', authenticated: true,
+    response: json('GetChannelsResponse'), errors: [401, 429, 500]
+  },
+  {
+    method: 'get', path: '/api/channels/{channelId}', tag: 'Channels', summary: 'One channel the caller can see', authenticated: true,
+    parameters: [path('channelId')],
+    response: json('GetChannelResponse'), errors: [401, 403, 404, 429, 500]
+  },
+  {
+    method: 'get', path: '/api/channels/{channelId}/messages', tag: 'Channels', summary: 'A page of channel history', authenticated: true,
+    parameters: [
+      path('channelId'),
+      query('before', snowflake(), 'Message ID cursor, exclusive; pass `nextCursor` from the previous page'),
+      query('limit', integer({ minimum: 1, maximum: 100, default: 50 }))
+    ],
+    response: json('MessagePage'), errors: [400, 401, 403, 404, 429, 500]
+  },
+  {
+    method: 'get', path: '/api/search', tag: 'Messages', summary: 'Search archived messages in readable channels', authenticated: true,
+    parameters: [
+      query('query', string(), 'Free-text terms, all of which must appear'),
+      query('authorId', snowflake()),
+      query('channelId', snowflake()),
+      query('after', dateTime()),
+      query('before', dateTime()),
+      query('hasAttachment', boolean()),
+      query('cursor', snowflake()),
+      query('limit', integer({ minimum: 1, maximum: 100, default: 25 }))
+    ],
+    response: json('MessagePage'), errors: [400, 401, 429, 500]
+  },
+  {
+    method: 'get', path: '/api/attachments/{channelId}/{attachmentId}', tag: 'Messages', summary: 'Download an attachment through the server cache', authenticated: true,
+    parameters: [
+      path('channelId'),
+      path('attachmentId'),
+      query('expires', integer(), 'Signed URLs only; replaces the access token'),
+      query('signature', string(), 'Signed URLs only')
+    ],
+    response: { description: 'The file', schema: string({ format: 'binary' }), contentType: 'application/octet-stream' },
+    errors: [401, 403, 404, 429, 502]
+  },
+  {
+    method: 'get', path: '/api/guilds', tag: 'Guilds', summary: "The caller's Discord servers, with the bot's presence marked", authenticated: true,
+    response: json('ListGuildsResponse'), errors: [401, 429, 502]
+  },
+  {
+    method: 'get', path: '/api/guilds/{guildId}/invite', tag: 'Guilds', summary: 'URL that adds the bot to a server the caller manages', authenticated: true,
+    parameters: [path('guildId')],
+    response: json('BotInviteResponse'), errors: [401, 403, 404, 429, 502]
+  },
+  {
+    method: 'get', path: '/api/webhooks', tag: 'Webhooks', summary: 'Webhook subscriptions of a server, or of one of its channels', authenticated: true,
+    parameters: [
+      { ...query('guildId', snowflake()), required: true },
+      query('channelId', snowflake(), 'Only subscriptions of this channel; needs Manage Webhooks there instead of Administrator')
+    ],
+    response: json('ListWebhooksResponse'), errors: [400, 401, 403, 404, 429, 500]
+  },
+  {
+    method: 'post', path: '/api/webhooks', tag: 'Webhooks', summary: 'Register a URL for channel events', authenticated: true,
+    body: object({
+      url: string(),
+      guildId: snowflake(),
+      channelId: { ...snowflake(), description: 'Every channel of the server when omitted' },
+      events: array(string({ enum: WEBHOOK_EVENTS }))
+    }, ['channelId']),
+    response: { status: 201, ...json('CreateWebhookResponse', 'Created') }, errors: [400, 401, 403, 404, 429, 500]
+  },
+  {
+    method: 'delete', path: '/api/webhooks/{webhookId}', tag: 'Webhooks', summary: 'Remove a subscription', authenticated: true,
+    parameters: [idPath('webhookId')],
+    response: json('SuccessResponse'), errors: [401, 403, 404, 429, 500]
+  },
+  {
+    method: 'get', path: '/api/webhooks/{webhookId}/dead-letters', tag: 'Webhooks', summary: 'Deliveries that failed every attempt', authenticated: true,
+    parameters: [idPath('webhookId')],
+    response: json('ListDeadLettersResponse'), errors: [401, 403, 404, 429, 500]
+  },
+  {
+    method: 'post', path: '/api/webhooks/{webhookId}/dead-letters/{deliveryId}/retry', tag: 'Webhooks', summary: 'Send a dead-lettered delivery again', authenticated: true,
+    parameters: [idPath('webhookId'), idPath('deliveryId')],
+    response: json('RedeliverWebhookResponse'), errors: [401, 403, 404, 429, 500]
+  },
+  {
+    method: 'get', path: '/api/openapi.json', tag: 'Docs', summary: 'This document', authenticated: false,
+    response: { description: 'OpenAPI 3 document' }
+  }
+]
+
+//Assembling the OpenAPI 3 document from the operations above
+export const buildOpenApiDocument = (serverUrl = process.env['PUBLIC_URL'] || '/') => {
+  const paths: Record<string, Record<string, unknown>> = {}
+
+  for (const operation of API_OPERATIONS) {
+    const { status = 200, description, schema, contentType = 'application/json' } = operation.response
+    const responses: Record<string, unknown> = {
+      [status]: { description, ...(schema ? { content: { [contentType]: { schema } } } : {}) }
+    }
+    for (const error of operation.errors ?? []) {
+      responses[error] = { description: ERROR_DESCRIPTIONS[error], content: { 'application/json': { schema: ref('Error') } } }
+    }
+
+    paths[operation.path] = {
+      ...paths[operation.path],
+      [operation.method]: {
+        tags: [operation.tag],
+        summary: operation.summary,
+        ...(operation.authenticated ? { security: [{ bearerAuth: [] }, { cookieAuth: [] }] } : {}),
+        ...(operation.parameters ? { parameters: operation.parameters } : {}),
+        ...(operation.body ? { requestBody: { content: { 'application/json': { schema: operation.body } } } } : {}),
+        responses
+      }
+    }
+  }
+
+  return {
+    openapi: '3.0.3',
+    info: {
+      title: 'Discord Stream Backend API',
+      version: '1.0.0',
+      description: 'REST routes of the Discord stream backend. Real-time updates are only available over Socket.IO on the /discord namespace.'
+    },
+    servers: [{ url: serverUrl }],
+    paths,
+    components: {
+      securitySchemes: {
+        bearerAuth: { type: 'http', scheme: 'bearer', bearerFormat: 'JWT' },
+        cookieAuth: { type: 'apiKey', in: 'cookie', name: 'access_token' }
+      },
+      schemas: SCHEMAS
+    }
+  }
+}
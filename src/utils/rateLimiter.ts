@@ -0,0 +1,113 @@
+import type Redis from 'ioredis'
+import { RateLimitConfig } from '../types'
+
+export interface RateLimitResult {
+  allowed: boolean
+  remaining: number
+  retryAfter: number // milliseconds until enough tokens are available, 0 when allowed
+}
+
+//Where token buckets are kept; Redis shares them between cluster nodes
+export interface RateLimitStore {
+  consume(key: string, cost: number, config: RateLimitConfig, now: number): Promise<RateLimitResult>
+}
+
+// Buckets hold `maxRequests` tokens and refill completely over `windowMs`
+const refillRate = (config: RateLimitConfig) => config.maxRequests / config.windowMs
+
+export class InMemoryRateLimitStore implements RateLimitStore {
+  private buckets: Map<string, { tokens: number, updated: number }> = new Map()
+
+  async consume(key: string, cost: number, config: RateLimitConfig, now: number) {
+    const rate = refillRate(config)
+    const bucket = this.buckets.get(key) ?? { tokens: config.maxRequests, updated: now }
+    const tokens = Math.min(config.maxRequests, bucket.tokens + (now - bucket.updated) * rate)
+
+    const allowed = tokens >= cost
+    const remaining = allowed ? tokens - cost : tokens
+    this.buckets.set(key, { tokens: remaining, updated: now })
+    if (this.buckets.size > 10000) this.sweep(config, now)
+
+    return {
+      allowed,
+      remaining: Math.floor(remaining),
+      retryAfter: allowed ? 0 : Math.ceil((cost - tokens) / rate)
+    }
+  }
+
+  // Buckets idle for a full window are full again and can be forgotten
+  private sweep(config: RateLimitConfig, now: number) {
+    for (const [key, bucket] of this.buckets) {
+      if (now - bucket.updated >= config.windowMs) this.buckets.delete(key)
+    }
+  }
+}
+
+// Same refill logic as the in-memory store, run atomically inside Redis
+const CONSUME_SCRIPT = `
+local capacity = tonumber(ARGV[1])
+local rate = tonumber(ARGV[2])
+local now = tonumber(ARGV[3])
+local cost = tonumber(ARGV[4])
+local bucket = redis.call('hmget', KEYS[1], 'tokens', 'updated')
+local tokens = tonumber(bucket[1]) or capacity
+local updated = tonumber(bucket[2]) or now
+tokens = math.min(capacity, tokens + (now - updated) * rate)
+local allowed = 0
+local retry = 0
+if tokens >= cost then
+  tokens = tokens - cost
+  allowed = 1
+else
+  retry = math.ceil((cost - tokens) / rate)
+end
+redis.call('hset', KEYS[1], 'tokens', tostring(tokens), 'updated', tostring(now))
+redis.call('pexpire', KEYS[1], ARGV[5])
+return {allowed, math.floor(tokens), retry}`
+
+export class RedisRateLimitStore implements RateLimitStore {
+  private redis: Redis
+
+  constructor(redis: Redis) {
+    this.redis = redis
+  }
+
+  async consume(key: string, cost: number, config: RateLimitConfig, now: number) {
+    const [allowed, remaining, retryAfter] = await this.redis.eval(
+      CONSUME_SCRIPT, 1, `discord:ratelimit:${key}`,
+      config.maxRequests, refillRate(config), now, cost, config.windowMs
+    ) as [number, number, number]
+
+    return { allowed: allowed === 1, remaining, retryAfter }
+  }
+}
+
+//Token bucket rate limiter shared by socket events and HTTP routes
+export class RateLimiter {
+  readonly config: RateLimitConfig
+  private store: RateLimitStore
+
+  constructor(store: RateLimitStore, config: RateLimitConfig) {
+    this.store = store
+    this.config = config
+  }
+
+  async consume(key: string, cost = 1): Promise<RateLimitResult> {
+    try {
+      return await this.store.consume(key, cost, this.config, Date.now())
+    } catch (error) {
+      // Fail open: a Redis outage should not lock every user out
+      console.error('Rate limiter error:', error)
+      return { allowed: true, remaining: 0, retryAfter: 0 }
+    }
+  }
+}
+
+//Building the limiter from RATE_LIMIT_* settings, shared through Redis when one is given
+export const createRateLimiter = (redis?: Redis | null) => new RateLimiter(
+  redis ? new RedisRateLimitStore(redis) : new InMemoryRateLimitStore(),
+  {
+    windowMs: parseInt(process.env['RATE_LIMIT_WINDOW_MS'] || '60000'),
+    maxRequests: parseInt(process.env['RATE_LIMIT_MAX_REQUESTS'] || '100')
+  }
+)
@@ -0,0 +1,15 @@
+import Redis from 'ioredis'
+
+//Creating a Redis connection from REDIS_URL, logging instead of crashing on connection errors
+export const createRedisClient = (url = process.env['REDIS_URL'] || 'redis://localhost:6379') => {
+  const client = new Redis(url, { lazyConnect: false })
+
+  client.on('error', (error) => {
+    console.error('Redis error:', error.message)
+  })
+
+  return client
+}
+
+//Cluster mode is enabled whenever a Redis URL is configured
+export const isClusterEnabled = () => !!process.env['REDIS_URL']
@@ -0,0 +1,118 @@
+import { ValidationIssue } from '../types'
+import { checkPattern } from './messageFilter'
+
+export type ValidationResult<T> = { ok: true, value: T } | { ok: false, issues: ValidationIssue[] }
+
+export interface Validator<T> {
+  validate(value: unknown, path?: string): ValidationResult<T>
+}
+
+// Object properties built from an optional validator may be left out
+export interface OptionalValidator<T> extends Validator<T | undefined> {
+  optional: true
+}
+
+export type Infer<V> = V extends Validator<infer T> ? T : never
+
+type Shape = Record<string, Validator<unknown>>
+type OptionalKeys<S extends Shape> = { [K in keyof S]: S[K] extends OptionalValidator<unknown> ? K : never }[keyof S]
+type InferShape<S extends Shape> =
+  { [K in Exclude<keyof S, OptionalKeys<S>>]: Infer<S[K]> } &
+  { [K in OptionalKeys<S>]?: Exclude<Infer<S[K]>, undefined> }
+
+const ok = <T>(value: T): ValidationResult<T> => ({ ok: true, value })
+const fail = <T>(path: string, message: string): ValidationResult<T> => ({ ok: false, issues: [{ path: path || '(payload)', message }] })
+
+//Building a validator from a check that returns an error message, or null when the value is fine
+const check = <T>(test: (value: unknown) => string | null): Validator<T> => ({
+  validate(value, path = '') {
+    const message = test(value)
+    return message ? fail(path, message) : ok(value as T)
+  }
+})
+
+export const string = (options: { minLength?: number, maxLength?: number, pattern?: RegExp, message?: string } = {}) =>
+  check<string>(value => {
+    if (typeof value !== 'string') return 'Expected a string'
+    if (options.minLength !== undefined && value.length < options.minLength) {
+      return options.minLength === 1 ? 'Must not be empty' : `Must be at least ${options.minLength} characters`
+    }
+    if (options.maxLength !== undefined && value.length > options.maxLength) return `Must be at most ${options.maxLength} characters`
+    if (options.pattern && !options.pattern.test(value)) return options.message ?? 'Invalid format'
+    return null
+  })
+
+// Discord IDs; REST routes test path and query parameters against it directly
+export const SNOWFLAKE_PATTERN = /^\d{17,20}$/
+
+export const snowflake = () => string({ pattern: SNOWFLAKE_PATTERN, message: 'Expected a Discord ID' })
+
+export const isoDate = () =>
+  check<string>(value => typeof value === 'string' && !Number.isNaN(Date.parse(value)) ? null : 'Expected an ISO8601 date')
+
+// Regular expressions from clients, refused when they are too long or RE2 cannot compile them
+export const regex = () => check<string>(value => typeof value === 'string' ? checkPattern(value) : 'Expected a string')
+
+// One of a fixed set of strings
+export const oneOf = <T extends string>(values: readonly T[]) =>
+  check<T>(value => values.includes(value as T) ? null : `Expected one of ${values.join(', ')}`)
+
+export const boolean = () => check<boolean>(value => typeof value === 'boolean' ? null : 'Expected true or false')
+
+export const integer = (options: { min?: number, max?: number } = {}) =>
+  check<number>(value => {
+    if (typeof value !== 'number' || !Number.isInteger(value)) return 'Expected an integer'
+    if (options.min !== undefined && value < options.min) return `Must be at least ${options.min}`
+    if (options.max !== undefined && value > options.max) return `Must be at most ${options.max}`
+    return null
+  })
+
+export const optional = <T>(validator: Validator<T>): OptionalValidator<T> => ({
+  optional: true,
+  validate: (value, path) => value === undefined ? ok(undefined) : validator.validate(value, path)
+})
+
+export const array = <T>(item: Validator<T>, options: { minLength?: number, maxLength?: number } = {}): Validator<T[]> => ({
+  validate(value, path = '') {
+    if (!Array.isArray(value)) return fail(path, 'Expected an array')
+    if (options.minLength !== undefined && value.length < options.minLength) return fail(path, `Must have at least ${options.minLength} items`)
+    if (options.maxLength !== undefined && value.length > options.maxLength) return fail(path, `Must have at most ${options.maxLength} items`)
+
+    const result: T[] = []
+    const issues: ValidationIssue[] = []
+    value.forEach((element, index) => {
+      const checked = item.validate(element, `${path}[${index}]`)
+      if (checked.ok) result.push(checked.value)
+      else issues.push(...checked.issues)
+    })
+
+    return issues.length > 0 ? { ok: false, issues } : ok(result)
+  }
+})
+
+//Plain objects with the given properties; unknown properties are dropped, absent optional ones left out
+export const object = <S extends Shape>(shape: S): Validator<InferShape<S>> => ({
+  validate(value, path = '') {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) return fail(path, 'Expected an object')
+
+    const result: Record<string, unknown> = {}
+    const issues: ValidationIssue[] = []
+    for (const [key, validator] of Object.entries(shape)) {
+      const property = (value as Record<string, unknown>)[key]
+      const propertyPath = path ? `${path}.${key}` : key
+      if (property === undefined && !('optional' in validator)) {
+        issues.push({ path: propertyPath, message: 'Required' })
+        continue
+      }
+
+      const checked = validator.validate(property, propertyPath)
+      if (!checked.ok) {
+        issues.push(...checked.issues)
+      } else if (checked.value !== undefined) {
+        result[key] = checked.value
+      }
+    }
+
+    return issues.length > 0 ? { ok: false, issues } : ok(result as InferShape<S>)
+  }
+})
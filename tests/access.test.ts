@@ -0,0 +1,131 @@
+import { createServer } from 'http';
+import type { AddressInfo } from 'net';
+import { ChannelType } from 'discord.js';
+import { Server } from 'socket.io';
+import Client, { Socket as ClientSocket } from 'socket.io-client';
+import { setupDiscordNamespace } from '../src/namespaces/discordNamespace';
+import { DiscordBot } from '../src/services/discordBot.service';
+import { InMemorySessionStore, SessionService } from '../src/services/session.service';
+import { InMemoryMessageRepository } from '../src/utils/database';
+import {
+    AccessRevokedEvent,
+    ClientToServerEvents,
+    DiscordSocketData,
+    InterServerEvents,
+    JoinChannelResponse,
+    ServerToClientEvents
+} from '../src/types';
+
+const TEST_USER = {
+    discord_id: '200000000000000001',
+    username: 'alice',
+    email: 'alice@example.com',
+    is_bot: false,
+    created_at: '',
+    updated_at: ''
+};
+
+const SERVER_ID = '400000000000000001';
+const CHANNEL_ID = '300000000000000001';
+
+describe('Channel access', () => {
+    const httpServer = createServer();
+    const io = new Server<ClientToServerEvents, ServerToClientEvents, InterServerEvents, DiscordSocketData>(httpServer);
+    const discordNamespace = io.of('/discord');
+    const discordBot = new DiscordBot(discordNamespace, new InMemoryMessageRepository());
+    const sessions = new SessionService(new InMemorySessionStore());
+    let client: ClientSocket;
+    let url: string;
+    let token: string;
+
+    // Just enough of discord.js for the permission checks; only members in `viewers` have View Channel
+    const viewers = new Set<string>();
+    const guild = {
+        id: SERVER_ID,
+        members: { cache: new Map<string, unknown>(), fetch: async (id: string) => guild.members.cache.get(id) ?? null },
+        channels: { cache: new Map<string, unknown>() }
+    };
+    const member = { id: TEST_USER.discord_id, guild };
+    const channel = {
+        id: CHANNEL_ID,
+        type: ChannelType.GuildText,
+        guild,
+        guildId: SERVER_ID,
+        isDMBased: () => false,
+        isTextBased: () => true,
+        permissionsFor: ({ id }: { id: string }) => ({ has: () => viewers.has(id) })
+    };
+    guild.members.cache.set(member.id, member);
+    guild.channels.cache.set(CHANNEL_ID, channel);
+
+    const join = () => new Promise<JoinChannelResponse>(resolve => client.emit('join_channel', { channelId: CHANNEL_ID }, resolve));
+    const roomSockets = async () => (await discordNamespace.in(`channel:${CHANNEL_ID}`).fetchSockets()).map(socket => socket.data.discordId);
+
+    beforeAll(async () => {
+        process.env['JWT_SECRET'] = process.env['JWT_SECRET'] || 'test-secret';
+        setupDiscordNamespace(discordNamespace, discordBot, sessions);
+        await new Promise<void>(resolve => httpServer.listen(0, resolve));
+        url = `http://localhost:${(httpServer.address() as AddressInfo).port}/discord`;
+        token = (await sessions.createSession(TEST_USER)).accessToken;
+    });
+
+    beforeEach(async () => {
+        viewers.clear();
+        jest.spyOn(discordBot['client'].channels, 'fetch').mockResolvedValue(channel as never);
+        jest.spyOn(discordBot, 'fetchChannelHistory').mockResolvedValue({ messages: [], hasMore: false });
+
+        client = Client(url, { auth: { token }, reconnection: false });
+        await new Promise<void>(resolve => client.on('connect', () => resolve()));
+    });
+
+    afterEach(() => {
+        client.close();
+    });
+
+    afterAll(() => {
+        io.close();
+        httpServer.close();
+    });
+
+    test('should refuse to join a channel without View Channel', async () => {
+        expect(await join()).toEqual({
+            success: false,
+            code: 'MISSING_PERMISSION',
+            error: 'You do not have access to this channel'
+        });
+        expect(await roomSockets()).toEqual([]);
+
+        viewers.add(TEST_USER.discord_id);
+        expect(await join()).toMatchObject({ success: true, channelId: CHANNEL_ID });
+        expect(await roomSockets()).toEqual([TEST_USER.discord_id]);
+    });
+
+    const revocations: Array<[string, () => Promise<void>, AccessRevokedEvent['reason']]> = [
+        ['a role change', () => discordBot['recheckMemberAccess'](member as never), 'PERMISSIONS_CHANGED'],
+        ['a role permission change', () => discordBot['recheckGuildAccess'](guild as never), 'PERMISSIONS_CHANGED'],
+        ['a permission overwrite change', () => discordBot['handleChannelChange']({ ...channel, permissionsFor: () => ({ has: () => true }) } as never, channel as never), 'PERMISSIONS_CHANGED'],
+        ['removal from the server', () => discordBot['handleMemberRemove'](member as never), 'MEMBER_REMOVED']
+    ];
+
+    test.each(revocations)('should evict the user from the room after %s', async (_name, revoke, reason) => {
+        viewers.add(TEST_USER.discord_id);
+        expect(await join()).toMatchObject({ success: true });
+        expect(await roomSockets()).toEqual([TEST_USER.discord_id]);
+
+        const revoked = new Promise<AccessRevokedEvent>(resolve => client.once('access_revoked', resolve));
+        // Removed members keep View Channel on paper; the removal alone is enough
+        if (reason === 'PERMISSIONS_CHANGED') viewers.delete(TEST_USER.discord_id);
+        await revoke();
+
+        expect(await revoked).toEqual({ channelId: CHANNEL_ID, serverId: SERVER_ID, reason });
+        expect(await roomSockets()).toEqual([]);
+        expect(await discordBot['subscriptions'].getSubscribers(CHANNEL_ID)).toEqual([]);
+
+        // The left room no longer streams to the socket
+        const streamed: string[] = [];
+        client.on('message_delete', ({ messageId }) => streamed.push(messageId));
+        await discordBot['emitToChannel'](CHANNEL_ID, { event: 'message_delete', data: { messageId: '100000000000000001', channelId: CHANNEL_ID } });
+        await new Promise(resolve => setTimeout(resolve, 50));
+        expect(streamed).toEqual([]);
+    });
+});
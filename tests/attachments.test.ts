@@ -0,0 +1,185 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import http from 'http';
+import type { AddressInfo } from 'net';
+import { Readable } from 'stream';
+import request from 'supertest';
+import express from 'express';
+import { createAttachmentRouter } from '../src/routes/attachment.route';
+import { OperationalError } from '../src/middleware/errorHandler';
+import { AttachmentCache } from '../src/services/attachmentCache.service';
+import { DiscordBot } from '../src/services/discordBot.service';
+import { InMemorySessionStore, SessionService } from '../src/services/session.service';
+import { InMemoryMessageRepository, toDatabaseMessage } from '../src/utils/database';
+import { signAttachmentUrl } from '../src/utils/attachmentUrls';
+import { InMemoryRateLimitStore, RateLimiter } from '../src/utils/rateLimiter';
+import { DiscordMessage, DiscordNamespace } from '../src/types';
+
+const CHANNEL_ID = '300000000000000001';
+const ATTACHMENT_ID = '700000000000000001';
+const FILE = Buffer.from('not really a png');
+
+const TEST_USER = {
+  discord_id: '200000000000000001',
+  username: 'alice',
+  email: 'alice@example.com',
+  is_bot: false,
+  created_at: '',
+  updated_at: ''
+};
+
+const makeMessage = (url: string): DiscordMessage => ({
+  id: '100000000000000001',
+  type: 'default',
+  system: false,
+  content: '',
+  author: { id: TEST_USER.discord_id, username: 'alice', bot: false },
+  timestamp: '2024-01-01T12:00:00.000Z',
+  channelId: CHANNEL_ID,
+  serverId: '400000000000000001',
+  attachments: [{
+    id: ATTACHMENT_ID,
+    filename: 'cat.png',
+    url,
+    proxyUrl: url,
+    size: FILE.length,
+    contentType: 'image/png'
+  }],
+  embeds: [],
+  reactions: [],
+  tokens: [],
+  stickers: [],
+  components: [],
+  edited: false,
+  editedTimestamp: ''
+});
+
+describe('Attachment proxy', () => {
+  const repository = new InMemoryMessageRepository();
+  const discordBot = new DiscordBot({} as DiscordNamespace, repository);
+  const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'attachments-'));
+  const cache = new AttachmentCache(directory);
+  const sessions = new SessionService(new InMemorySessionStore());
+  const app = express();
+  app.use('/api/attachments', createAttachmentRouter(discordBot, cache, sessions));
+
+  // Stands in for the Discord CDN
+  let downloads = 0;
+  const cdn = http.createServer((_req, res) => {
+    downloads++;
+    res.writeHead(200, { 'Content-Type': 'image/png' });
+    res.end(FILE);
+  });
+
+  beforeAll(async () => {
+    process.env['JWT_SECRET'] = process.env['JWT_SECRET'] || 'test-secret';
+    await new Promise<void>(resolve => cdn.listen(0, '127.0.0.1', resolve));
+
+    // Discord URLs carry their expiry in hex seconds
+    const expiry = Math.floor(Date.now() / 1000 + 86400).toString(16);
+    const { port } = cdn.address() as AddressInfo;
+    await repository.saveMessage(toDatabaseMessage(makeMessage(`http://127.0.0.1:${port}/cat.png?ex=${expiry}`)));
+    await cache.open();
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => cdn.close(resolve));
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  test('should serve signed URLs from the cache after the first download', async () => {
+    const url = signAttachmentUrl(CHANNEL_ID, ATTACHMENT_ID);
+
+    const first = await request(app).get(url);
+    expect(first.status).toBe(200);
+    expect(first.headers['content-type']).toBe('image/png');
+    expect(first.headers['content-security-policy']).toContain('sandbox');
+    expect(first.body).toEqual(FILE);
+
+    const second = await request(app).get(url);
+    expect(second.status).toBe(200);
+    expect(downloads).toBe(1);
+  });
+
+  test('should reject tampered, expired and missing credentials', async () => {
+    const tampered = await request(app).get(`${signAttachmentUrl(CHANNEL_ID, ATTACHMENT_ID)}x`);
+    expect(tampered.status).toBe(403);
+    expect(tampered.body.code).toBe('INVALID_SIGNATURE');
+
+    const expired = await request(app).get(signAttachmentUrl(CHANNEL_ID, ATTACHMENT_ID, Date.now() - 24 * 60 * 60 * 1000));
+    expect(expired.status).toBe(403);
+    expect(expired.body.code).toBe('URL_EXPIRED');
+
+    // A signature for one attachment does not open another
+    const other = signAttachmentUrl(CHANNEL_ID, '700000000000000002').replace('700000000000000002', ATTACHMENT_ID);
+    expect((await request(app).get(other)).status).toBe(403);
+
+    expect((await request(app).get(`/api/attachments/${CHANNEL_ID}/${ATTACHMENT_ID}`)).status).toBe(401);
+  });
+
+  test('should check channel access for token requests', async () => {
+    const { accessToken: token } = await sessions.createSession(TEST_USER);
+    const authorize = jest.spyOn(discordBot, 'authorizeChannelAccess')
+      .mockRejectedValueOnce(new OperationalError('MISSING_PERMISSION', 'No access', { statusCode: 403 }))
+      .mockResolvedValueOnce();
+
+    const denied = await request(app)
+      .get(`/api/attachments/${CHANNEL_ID}/${ATTACHMENT_ID}`)
+      .set('Authorization', `Bearer ${token}`);
+    expect(denied.status).toBe(403);
+    expect(denied.body.code).toBe('MISSING_PERMISSION');
+
+    const allowed = await request(app)
+      .get(`/api/attachments/${CHANNEL_ID}/${ATTACHMENT_ID}`)
+      .set('Authorization', `Bearer ${token}`);
+    expect(allowed.status).toBe(200);
+    expect(authorize).toHaveBeenCalledWith(CHANNEL_ID, TEST_USER.discord_id);
+  });
+
+  test('should rate-limit downloads per user, and signed URLs per IP', async () => {
+    const { accessToken: token } = await sessions.createSession(TEST_USER);
+    jest.spyOn(discordBot, 'authorizeChannelAccess').mockResolvedValue();
+    const limiter = new RateLimiter(new InMemoryRateLimitStore(), { windowMs: 60000, maxRequests: 1 });
+    const limited = express();
+    limited.use('/api/attachments', createAttachmentRouter(discordBot, cache, sessions, limiter));
+
+    const download = () => request(limited).get(`/api/attachments/${CHANNEL_ID}/${ATTACHMENT_ID}`).set('Authorization', `Bearer ${token}`);
+    expect((await download()).status).toBe(200);
+    const refused = await download();
+    expect(refused.status).toBe(429);
+    expect(refused.headers['retry-after']).toBeDefined();
+
+    const url = signAttachmentUrl(CHANNEL_ID, ATTACHMENT_ID);
+    expect((await request(limited).get(url)).status).toBe(200);
+    expect((await request(limited).get(url)).status).toBe(429);
+  });
+
+  test('should answer 404 for attachments outside the channel', async () => {
+    const res = await request(app).get(signAttachmentUrl('300000000000000002', ATTACHMENT_ID));
+    expect(res.status).toBe(404);
+    expect(res.body.code).toBe('ATTACHMENT_NOT_FOUND');
+  });
+});
+
+describe('Attachment cache', () => {
+  test('should evict the least recently used files and skip oversized ones', async () => {
+    const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'attachments-'));
+    const cache = new AttachmentCache(directory, { maxBytes: 10, maxFileBytes: 8 });
+    const file = (size: number) => async () => Readable.from([Buffer.alloc(size)]);
+    await cache.open();
+
+    await cache.fetch('a', file(6));
+    await cache.fetch('b', file(4));
+    cache.get('a');
+    await cache.fetch('c', file(4));
+
+    expect(cache.get('b')).toBeNull();
+    expect(cache.get('a')).not.toBeNull();
+    expect(cache.getStats()).toEqual({ files: 2, bytes: 10 });
+
+    expect(await cache.fetch('d', file(9))).toBeNull();
+    expect(fs.readdirSync(directory).sort()).toEqual(['a', 'c']);
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+});
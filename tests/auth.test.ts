@@ -1,47 +1,197 @@
+import { createServer } from 'http';
+import type { AddressInfo } from 'net';
 import request from 'supertest';
 import express from 'express';
 import cookieParser from 'cookie-parser';
-import authRouter from '../src/routes/auth';
 import nock from 'nock';
+import RedisMock from 'ioredis-mock';
+import type Redis from 'ioredis';
+import { Server } from 'socket.io';
+import Client from 'socket.io-client';
+import { createAuthRouter } from '../src/routes/auth.route';
+import { authenticateRequest } from '../src/middleware/discordAuth';
+import { setupDiscordNamespace } from '../src/namespaces/discordNamespace';
+import { DiscordBot } from '../src/services/discordBot.service';
+import { InMemorySessionStore, RedisSessionStore, SessionService, SessionStore } from '../src/services/session.service';
+import { DEFAULT_DISCORD_API_URL, DiscordOAuthService } from '../src/services/discordOAuth.service';
+import { InMemoryMessageRepository } from '../src/utils/database';
+import { ClientToServerEvents, DiscordSocketData, InterServerEvents, ServerToClientEvents, SessionRevokedEvent } from '../src/types';
 
-const app = express();
-app.use(cookieParser());
-app.use('/api/auth', authRouter);
+const TEST_USER = {
+    discord_id: '200000000000000001',
+    username: 'alice',
+    email: 'alice@example.com',
+    is_bot: false,
+    created_at: '',
+    updated_at: ''
+};
 
-describe('Discord OAuth2 Auth Routes', () => {
-    test('should handle callback with valid state and code', async () => {
-        // Step 1: Get state and cookie from login
+//Collecting Set-Cookie headers into `name -> full cookie string`
+const cookiesOf = (res: request.Response) => {
+    const header = res.headers['set-cookie'] as unknown as string[] | undefined;
+    return Object.fromEntries((header ?? []).map(cookie => [cookie.split('=')[0], cookie]));
+};
+
+const valueOf = (cookie: string | undefined) => cookie?.split(';')[0] ?? '';
+
+beforeAll(() => {
+    process.env['JWT_SECRET'] = process.env['JWT_SECRET'] || 'test-secret';
+});
+
+const stores: Array<[string, () => SessionStore]> = [
+    ['in-memory', () => new InMemorySessionStore()],
+    ['redis', () => new RedisSessionStore(new RedisMock() as unknown as Redis)]
+];
+
+describe('In-memory session store', () => {
+    test('should drop expired sessions and revocations when sessions are created or revoked', async () => {
+        const store = new InMemorySessionStore();
+        const sessions = new SessionService(store, { refreshTtlMs: 1000 });
+
+        const abandoned = await sessions.createSession(TEST_USER, 0);
+        const signedOut = await sessions.createSession(TEST_USER, 0);
+        await store.revoke(signedOut.sessionId, 500, 0);
+        expect(store['sessions'].size).toBe(1);
+        expect(store['revoked'].size).toBe(1);
+
+        // Both are long gone by the next login
+        const current = await sessions.createSession(TEST_USER, 2000);
+        expect([...store['sessions'].keys()]).toEqual([current.sessionId]);
+        expect(store['revoked'].size).toBe(0);
+        expect(await store.get(abandoned.sessionId, 2000)).toBeNull();
+    });
+});
+
+describe.each(stores)('Sessions (%s store)', (_name, createStore) => {
+    test('should rotate refresh tokens, tolerate a concurrent refresh and revoke on reuse', async () => {
+        const sessions = new SessionService(createStore(), { refreshGraceMs: 1000 });
+        const revoked: string[] = [];
+        sessions.onRevoke(sessionId => { revoked.push(sessionId); });
+
+        const first = await sessions.createSession(TEST_USER, 0);
+        const second = await sessions.refresh(first.refreshToken, 100);
+        expect(second.refreshToken).not.toBe(first.refreshToken);
+        expect((await sessions.verifyAccessToken(second.accessToken)).user).toEqual(TEST_USER);
+
+        // Another tab refreshing with the token that was just rotated
+        const third = await sessions.refresh(first.refreshToken, 200);
+
+        // The same token long after it was rotated out means it leaked
+        await expect(sessions.refresh(second.refreshToken, 5000)).rejects.toMatchObject({ code: 'INVALID_REFRESH_TOKEN' });
+        expect(revoked).toEqual([first.sessionId]);
+        await expect(sessions.refresh(third.refreshToken, 5000)).rejects.toMatchObject({ code: 'INVALID_REFRESH_TOKEN' });
+        await expect(sessions.verifyAccessToken(third.accessToken, 5000)).rejects.toMatchObject({ code: 'SESSION_REVOKED' });
+    });
+});
+
+describe('Auth routes', () => {
+    const sessions = new SessionService(new InMemorySessionStore());
+    const app = express();
+    app.use(express.json());
+    app.use(cookieParser());
+    const oauth = new DiscordOAuthService({
+        clientId: 'client',
+        clientSecret: 'secret',
+        redirectUri: 'http://localhost/api/auth/discord/callback',
+        apiUrl: DEFAULT_DISCORD_API_URL
+    });
+    app.use('/api/auth', createAuthRouter(sessions, oauth));
+    app.get('/api/me', authenticateRequest(sessions), (req, res) => { res.json({ user: req.user }); });
+
+    afterEach(() => {
+        nock.cleanAll();
+    });
+
+    test('should start a session in secure cookies after the OAuth callback', async () => {
         const loginRes = await request(app).get('/api/auth/discord/login');
-        const location = loginRes.headers['location'];
-        if (!location) throw new Error('No redirect location header');
-        const state = new URL(location).searchParams.get('state');
-        if (!state) throw new Error('No state in redirect URL');
-        const cookies = loginRes.headers['set-cookie'];
-        if (!cookies) throw new Error('No set-cookie header');
-        const cookieHeader = Array.isArray(cookies) ? cookies.join('; ') : cookies;
-
-        // Step 2: Mock Discord API responses
+        const state = new URL(loginRes.headers['location'] as string).searchParams.get('state');
+        const stateCookie = cookiesOf(loginRes)['discord_oauth_state'];
+        expect(stateCookie).toMatch(/Secure/);
+
         nock('https://discord.com')
             .post('/api/oauth2/token')
-            .reply(200, { access_token: 'fake_access_token' });
-
+            .reply(200, { access_token: 'fake_access_token', refresh_token: 'fake_refresh_token', expires_in: 604800, scope: 'identify email guilds' });
         nock('https://discord.com')
             .get('/api/users/@me')
-            .reply(200, {
-                id: '123',
-                username: 'testuser',
-                email: 'test@example.com',
-                bot: false
-            });
-
-        // Step 3: Call the callback endpoint with the extracted state and cookie
+            .reply(200, { id: TEST_USER.discord_id, username: 'alice', email: 'alice@example.com', bot: false });
+
         const callbackRes = await request(app)
             .get('/api/auth/discord/callback')
-            .set('Cookie', cookieHeader)
+            .set('Cookie', valueOf(stateCookie))
             .query({ code: 'fakecode', state });
 
-        // Step 4: Assert redirect to frontend with token
         expect(callbackRes.status).toBe(302);
-        expect(callbackRes.headers['location']).toMatch(/token=/);
+        expect(callbackRes.headers['location']).not.toMatch(/token=/);
+
+        const cookies = cookiesOf(callbackRes);
+        expect(cookies['access_token']).toMatch(/HttpOnly/);
+        expect(cookies['access_token']).toMatch(/Secure/);
+        expect(cookies['refresh_token']).toMatch(/Path=\/api\/auth/);
+
+        const me = await request(app).get('/api/me').set('Cookie', valueOf(cookies['access_token']));
+        expect(me.body.user.discord_id).toBe(TEST_USER.discord_id);
+    });
+
+    test('should refresh from the cookie and reject a missing token', async () => {
+        const { refreshToken } = await sessions.createSession(TEST_USER);
+
+        const res = await request(app).post('/api/auth/refresh').set('Cookie', `refresh_token=${refreshToken}`);
+        expect(res.status).toBe(200);
+        expect(res.body.success).toBe(true);
+        expect(valueOf(cookiesOf(res)['refresh_token'])).not.toBe(`refresh_token=${refreshToken}`);
+
+        const me = await request(app).get('/api/me').set('Authorization', `Bearer ${res.body.accessToken}`);
+        expect(me.status).toBe(200);
+
+        const missing = await request(app).post('/api/auth/refresh');
+        expect(missing.status).toBe(401);
+        expect(missing.body.code).toBe('INVALID_REFRESH_TOKEN');
+    });
+
+    test('should revoke the session on logout', async () => {
+        const { accessToken, refreshToken } = await sessions.createSession(TEST_USER);
+
+        const res = await request(app).post('/api/auth/logout').set('Cookie', `refresh_token=${refreshToken}`);
+        expect(res.status).toBe(200);
+        expect(cookiesOf(res)['access_token']).toMatch(/Expires=Thu, 01 Jan 1970/);
+
+        const me = await request(app).get('/api/me').set('Authorization', `Bearer ${accessToken}`);
+        expect(me.status).toBe(401);
+        expect(me.body.error).toBe('Session has been revoked');
+
+        const refresh = await request(app).post('/api/auth/refresh').send({ refreshToken });
+        expect(refresh.status).toBe(401);
+    });
+});
+
+describe('Socket sessions', () => {
+    test('should disconnect live sockets and refuse new ones once the session is revoked', async () => {
+        const httpServer = createServer();
+        const io = new Server<ClientToServerEvents, ServerToClientEvents, InterServerEvents, DiscordSocketData>(httpServer);
+        const discordNamespace = io.of('/discord');
+        const sessions = new SessionService(new InMemorySessionStore());
+        setupDiscordNamespace(discordNamespace, new DiscordBot(discordNamespace, new InMemoryMessageRepository()), sessions);
+        await new Promise<void>(resolve => httpServer.listen(0, resolve));
+        const url = `http://localhost:${(httpServer.address() as AddressInfo).port}/discord`;
+
+        const { sessionId, accessToken } = await sessions.createSession(TEST_USER);
+        const client = Client(url, { auth: { token: accessToken }, reconnection: false });
+        await new Promise<void>(resolve => client.on('connect', () => resolve()));
+
+        const revokedEvent = new Promise<SessionRevokedEvent>(resolve => client.on('session_revoked', resolve));
+        const disconnected = new Promise<string>(resolve => client.on('disconnect', resolve));
+        await sessions.revoke(sessionId);
+
+        expect(await revokedEvent).toEqual({ reason: 'LOGGED_OUT' });
+        expect(await disconnected).toBe('io server disconnect');
+
+        const retry = Client(url, { auth: { token: accessToken }, reconnection: false });
+        const error = await new Promise<Error>(resolve => retry.on('connect_error', resolve));
+        expect(error.message).toBe('Session has been revoked');
+
+        retry.close();
+        client.close();
+        io.close();
+        httpServer.close();
     });
-});
\ No newline at end of file
+});
@@ -0,0 +1,180 @@
+import os from 'os';
+import request from 'supertest';
+import express from 'express';
+import type { Server } from 'socket.io';
+import { createChannelRouter } from '../src/routes/channel.route';
+import { createUserRouter } from '../src/routes/user.route';
+import { createHealthRouter } from '../src/routes/health.route';
+import { createAuthRouter } from '../src/routes/auth.route';
+import { createSearchRouter } from '../src/routes/search.route';
+import { createAttachmentRouter } from '../src/routes/attachment.route';
+import { createGuildRouter } from '../src/routes/guild.route';
+import { createWebhookRouter } from '../src/routes/webhook.route';
+import { OperationalError } from '../src/middleware/errorHandler';
+import { DiscordBot } from '../src/services/discordBot.service';
+import { AttachmentCache } from '../src/services/attachmentCache.service';
+import { DEFAULT_DISCORD_API_URL, DiscordOAuthService } from '../src/services/discordOAuth.service';
+import { InMemorySessionStore, SessionService } from '../src/services/session.service';
+import { createWebhookService } from '../src/services/webhook.service';
+import { buildOpenApiDocument } from '../src/utils/openapi';
+import { InMemoryRateLimitStore, RateLimiter } from '../src/utils/rateLimiter';
+import { DiscordChannel, DiscordNamespace } from '../src/types';
+
+const CHANNEL_ID = '300000000000000001';
+
+const TEST_USER = {
+    discord_id: '200000000000000001',
+    username: 'alice',
+    email: 'alice@example.com',
+    is_bot: false,
+    created_at: '2024-01-01T00:00:00.000Z',
+    updated_at: ''
+};
+
+const CHANNEL: DiscordChannel = {
+    id: CHANNEL_ID,
+    name: 'general',
+    type: 'text',
+    serverId: '400000000000000001',
+    serverName: 'Test Server',
+    position: 0,
+    unreadCount: 0,
+    isActive: false,
+    permissions: { canRead: true, canWrite: true, canManage: false }
+};
+
+describe('REST API', () => {
+    const discordBot = new DiscordBot({} as DiscordNamespace);
+    const sessions = new SessionService(new InMemorySessionStore());
+    const app = express();
+    app.use('/api/channels', createChannelRouter(discordBot, sessions));
+    app.use('/api/me', createUserRouter(discordBot, sessions));
+    let token: string;
+
+    beforeAll(async () => {
+        process.env['JWT_SECRET'] = process.env['JWT_SECRET'] || 'test-secret';
+        token = (await sessions.createSession(TEST_USER)).accessToken;
+    });
+
+    test('should list channels and require a token', async () => {
+        jest.spyOn(discordBot, 'getUserChannels').mockResolvedValue([CHANNEL]);
+
+        const res = await request(app).get('/api/channels').set('Authorization', `Bearer ${token}`);
+        expect(res.status).toBe(200);
+        expect(res.body).toEqual({ success: true, channels: [CHANNEL] });
+
+        expect((await request(app).get('/api/channels')).status).toBe(401);
+    });
+
+    test('should return one channel as the caller sees it', async () => {
+        const getChannelInfo = jest.spyOn(discordBot, 'getChannelInfo')
+            .mockResolvedValueOnce(CHANNEL)
+            .mockRejectedValueOnce(new OperationalError('MISSING_PERMISSION', 'You do not have access to this channel', { statusCode: 403 }));
+
+        const res = await request(app).get(`/api/channels/${CHANNEL_ID}`).set('Authorization', `Bearer ${token}`);
+        expect(res.body).toEqual({ success: true, channel: CHANNEL });
+        expect(getChannelInfo).toHaveBeenCalledWith(CHANNEL_ID, TEST_USER.discord_id);
+
+        const denied = await request(app).get(`/api/channels/${CHANNEL_ID}`).set('Authorization', `Bearer ${token}`);
+        expect(denied.status).toBe(403);
+        expect(denied.body.code).toBe('MISSING_PERMISSION');
+
+        const invalid = await request(app).get('/api/channels/general').set('Authorization', `Bearer ${token}`);
+        expect(invalid.status).toBe(404);
+        expect(getChannelInfo).toHaveBeenCalledTimes(2);
+    });
+
+    test('should page through history after checking access', async () => {
+        const authorize = jest.spyOn(discordBot, 'authorizeChannelAccess').mockResolvedValue();
+        const fetchHistory = jest.spyOn(discordBot, 'fetchChannelHistory')
+            .mockResolvedValue({ messages: [], hasMore: true, nextCursor: '100000000000000001' });
+
+        const res = await request(app)
+            .get(`/api/channels/${CHANNEL_ID}/messages`)
+            .query({ before: '100000000000000009', limit: '20' })
+            .set('Authorization', `Bearer ${token}`);
+        expect(res.body).toEqual({ success: true, channelId: CHANNEL_ID, messages: [], hasMore: true, nextCursor: '100000000000000001' });
+        expect(authorize).toHaveBeenCalledWith(CHANNEL_ID, TEST_USER.discord_id);
+        expect(fetchHistory).toHaveBeenCalledWith(CHANNEL_ID, { before: '100000000000000009', limit: 20 });
+
+        const badCursor = await request(app)
+            .get(`/api/channels/${CHANNEL_ID}/messages`)
+            .query({ before: 'yesterday' })
+            .set('Authorization', `Bearer ${token}`);
+        expect(badCursor.status).toBe(400);
+        expect(badCursor.body.code).toBe('INVALID_CURSOR');
+    });
+
+    test('should fall back to token claims when Discord cannot return the profile', async () => {
+        jest.spyOn(discordBot, 'getUserInfo').mockResolvedValue(null);
+
+        const res = await request(app).get('/api/me').set('Authorization', `Bearer ${token}`);
+        expect(res.body).toEqual({
+            success: true,
+            user: { id: TEST_USER.discord_id, username: 'alice', displayName: 'alice', isBot: false, createdAt: TEST_USER.created_at }
+        });
+    });
+
+    test('should charge signed-in routes to the user at their socket event costs', async () => {
+        jest.spyOn(discordBot, 'getUserChannels').mockResolvedValue([CHANNEL]);
+        jest.spyOn(discordBot, 'getUserInfo').mockResolvedValue(null);
+        const limiter = new RateLimiter(new InMemoryRateLimitStore(), { windowMs: 60000, maxRequests: 6 });
+        const limited = express();
+        limited.use('/api/channels', createChannelRouter(discordBot, sessions, limiter));
+        limited.use('/api/me', createUserRouter(discordBot, sessions, limiter));
+
+        // Unauthenticated requests are turned away before they can spend a user's tokens
+        expect((await request(limited).get('/api/channels')).status).toBe(401);
+
+        const channels = await request(limited).get('/api/channels').set('Authorization', `Bearer ${token}`);
+        expect(channels.status).toBe(200);
+        expect(channels.headers['ratelimit-remaining']).toBe('1');
+
+        // A history page costs 2, like fetch_history
+        const history = await request(limited).get(`/api/channels/${CHANNEL_ID}/messages`).set('Authorization', `Bearer ${token}`);
+        expect(history.status).toBe(429);
+        expect(history.headers['retry-after']).toBeDefined();
+
+        expect((await request(limited).get('/api/me').set('Authorization', `Bearer ${token}`)).status).toBe(200);
+        expect((await request(limited).get('/api/me').set('Authorization', `Bearer ${token}`)).status).toBe(429);
+    });
+});
+
+describe('OpenAPI document', () => {
+    test('should describe every mounted REST route', () => {
+        const discordBot = new DiscordBot({} as DiscordNamespace);
+        const sessions = new SessionService(new InMemorySessionStore());
+        const oauth = new DiscordOAuthService({ clientId: '', clientSecret: '', redirectUri: '', apiUrl: DEFAULT_DISCORD_API_URL });
+        // The health routes only read the namespace when called
+        const io = { of: () => ({}) } as unknown as Server;
+        const routers: Array<[string, express.Router]> = [
+            ['/api', createHealthRouter(io, discordBot)],
+            ['/api/auth', createAuthRouter(sessions, oauth)],
+            ['/api/search', createSearchRouter(discordBot, sessions)],
+            ['/api/attachments', createAttachmentRouter(discordBot, new AttachmentCache(os.tmpdir()), sessions)],
+            ['/api/guilds', createGuildRouter(discordBot, oauth, sessions)],
+            ['/api/channels', createChannelRouter(discordBot, sessions)],
+            ['/api/me', createUserRouter(discordBot, sessions)],
+            ['/api/webhooks', createWebhookRouter(discordBot, createWebhookService(), sessions)]
+        ];
+
+        // Express `:param` paths in OpenAPI `{param}` form, e.g. `get /api/channels/{channelId}`
+        const mounted = routers.flatMap(([prefix, router]) => router.stack
+            .filter(layer => layer.route)
+            .flatMap(layer => Object.keys((layer.route as unknown as { methods: Record<string, boolean> }).methods).map(method =>
+                `${method} ${`${prefix}${layer.route!.path}`.replace(/\/$/, '').replace(/:(\w+)/g, '{$1}')}`)));
+
+        const document = buildOpenApiDocument();
+        const documented = Object.entries(document.paths).flatMap(([path, operations]) =>
+            Object.keys(operations).map(method => `${method} ${path}`));
+
+        expect(documented).toEqual(expect.arrayContaining(mounted));
+        expect(mounted.length).toBeGreaterThan(10);
+
+        // Every schema reference resolves
+        const refs = JSON.stringify(document).match(/#\/components\/schemas\/\w+/g) ?? [];
+        for (const ref of new Set(refs)) {
+            expect(document.components.schemas).toHaveProperty(ref.split('/').pop()!);
+        }
+    });
+});
@@ -0,0 +1,270 @@
+import { createServer } from 'http';
+import type { AddressInfo } from 'net';
+import { ChannelType } from 'discord.js';
+import { Server } from 'socket.io';
+import Client, { Socket as ClientSocket } from 'socket.io-client';
+import RedisMock from 'ioredis-mock';
+import type Redis from 'ioredis';
+import { setupDiscordNamespace } from '../src/namespaces/discordNamespace';
+import { ClusterCoordinator } from '../src/services/cluster.service';
+import { DiscordBot } from '../src/services/discordBot.service';
+import { InMemorySessionStore, SessionService } from '../src/services/session.service';
+import { RedisSubscriptionRegistry } from '../src/services/subscriptionRegistry.service';
+import { OperationalError } from '../src/middleware/errorHandler';
+import { InMemoryMessageRepository } from '../src/utils/database';
+import {
+  ChannelDeleteEvent,
+  ClientToServerEvents,
+  DiscordChannel,
+  DiscordSocketData,
+  InterServerEvents,
+  JoinChannelResponse,
+  ServerToClientEvents
+} from '../src/types';
+
+// ioredis-mock instances share one in-process keyspace and pub/sub bus, standing in for a real Redis
+const createRedis = () => new RedisMock() as unknown as Redis;
+
+const waitFor = async (condition: () => boolean, timeoutMs = 3000) => {
+  const started = Date.now();
+  while (!condition()) {
+    if (Date.now() - started > timeoutMs) throw new Error('Timed out waiting for condition');
+    await new Promise(resolve => setTimeout(resolve, 20));
+  }
+};
+
+describe('Cluster coordination', () => {
+  let redis: Redis;
+
+  beforeEach(async () => {
+    redis = createRedis();
+    await redis.flushall();
+  });
+
+  test('should share reference-counted subscriptions across nodes', async () => {
+    const nodeA = new RedisSubscriptionRegistry(redis, 'node-a');
+    const nodeB = new RedisSubscriptionRegistry(createRedis(), 'node-b');
+
+    // Two tabs of the same user on node A, one viewer on node B
+    expect(await nodeA.subscribe('channel-1', 'user-1')).toBe(true);
+    expect(await nodeA.subscribe('channel-1', 'user-1')).toBe(false);
+    expect(await nodeB.subscribe('channel-1', 'user-2')).toBe(true);
+
+    expect((await nodeB.getSubscribers('channel-1')).sort()).toEqual(['user-1', 'user-2']);
+
+    expect(await nodeA.unsubscribe('channel-1', 'user-1')).toBe(false);
+    expect(await nodeB.getSubscribers('channel-1')).toContain('user-1');
+
+    // Node B disappears without cleaning up
+    await nodeA.pruneNodes(async (nodeId) => nodeId === 'node-a');
+    expect(await nodeA.getSubscribers('channel-1')).toEqual(['user-1']);
+
+    expect(await nodeA.unsubscribe('channel-1', 'user-1')).toBe(true);
+    expect(await nodeA.hasSubscribers('channel-1')).toBe(false);
+    expect((await nodeA.getStats()).totalChannels).toBe(0);
+  });
+
+  test('should drop every subscription to a deleted channel', async () => {
+    const nodeA = new RedisSubscriptionRegistry(redis, 'node-a');
+    const nodeB = new RedisSubscriptionRegistry(createRedis(), 'node-b');
+
+    await nodeA.subscribe('channel-1', 'user-1');
+    await nodeB.subscribe('channel-1', 'user-2');
+    await nodeB.subscribe('channel-2', 'user-2');
+
+    await nodeA.removeChannel('channel-1');
+    expect(await nodeB.hasSubscribers('channel-1')).toBe(false);
+    expect((await nodeB.getStats()).channelDetails).toEqual([{ channelId: 'channel-2', subscriberCount: 1 }]);
+  });
+
+  test('should drop a revoked user from a channel on every node', async () => {
+    const nodeA = new RedisSubscriptionRegistry(redis, 'node-a');
+    const nodeB = new RedisSubscriptionRegistry(createRedis(), 'node-b');
+
+    await nodeA.subscribe('channel-1', 'user-1');
+    await nodeB.subscribe('channel-1', 'user-1');
+    await nodeB.subscribe('channel-1', 'user-2');
+    await nodeB.subscribe('channel-2', 'user-1');
+    expect((await nodeA.getUserSubscriptions('user-1')).sort()).toEqual(['channel-1', 'channel-2']);
+
+    await nodeA.removeSubscriber('channel-1', 'user-1');
+    expect(await nodeB.getSubscribers('channel-1')).toEqual(['user-2']);
+    expect(await nodeA.getUserSubscriptions('user-1')).toEqual(['channel-2']);
+  });
+
+  test('should track connected users across nodes', async () => {
+    const nodeA = new RedisSubscriptionRegistry(redis, 'node-a');
+    const nodeB = new RedisSubscriptionRegistry(createRedis(), 'node-b');
+
+    await nodeA.addConnection('user-1');
+    await nodeA.addConnection('user-1');
+    await nodeB.addConnection('user-2');
+    expect((await nodeA.getConnectedUsers()).sort()).toEqual(['user-1', 'user-2']);
+
+    await nodeA.removeConnection('user-1');
+    expect(await nodeA.getConnectedUsers()).toContain('user-1');
+
+    await nodeA.pruneNodes(async (nodeId) => nodeId === 'node-a');
+    expect(await nodeA.getConnectedUsers()).toEqual(['user-1']);
+  });
+
+  test('should merge presence from every node', async () => {
+    const nodeA = new RedisSubscriptionRegistry(redis, 'node-a');
+    const nodeB = new RedisSubscriptionRegistry(createRedis(), 'node-b');
+
+    await nodeA.setPresence('user-1', { username: 'alice', status: 'away' });
+    await nodeB.setPresence('user-1', { username: 'alice', status: 'idle' });
+    await nodeB.setPresence('user-2', { username: 'bob', status: 'online' });
+
+    const presence = await nodeA.getPresence(['user-1']);
+    expect([...presence.entries()]).toEqual([['user-1', { username: 'alice', status: 'idle' }]]);
+
+    await nodeB.setPresence('user-1', null);
+    expect((await nodeA.getPresence(['user-1'])).get('user-1')?.status).toBe('away');
+  });
+
+  test('should elect a single leader and fail over when it stops', async () => {
+    const first = new ClusterCoordinator(redis, { nodeId: 'node-a', leaseMs: 300 });
+    const second = new ClusterCoordinator(createRedis(), { nodeId: 'node-b', leaseMs: 300 });
+
+    await first.start();
+    await second.start();
+
+    try {
+      expect(first.isLeader()).toBe(true);
+      expect(second.isLeader()).toBe(false);
+
+      await first.stop();
+      await waitFor(() => second.isLeader());
+      expect(second.isLeader()).toBe(true);
+    } finally {
+      await first.stop();
+      await second.stop();
+    }
+  });
+
+  test('should forward calls from followers to the leader', async () => {
+    const leader = new ClusterCoordinator(redis, { nodeId: 'node-a', leaseMs: 300 });
+    const follower = new ClusterCoordinator(createRedis(), { nodeId: 'node-b', leaseMs: 300, requestTimeoutMs: 1000 });
+
+    leader.setRequestHandler(async (method, args) => {
+      if (method === 'fail') throw new OperationalError('MISSING_PERMISSION', 'Nope', { statusCode: 403 });
+      return { method, args };
+    });
+
+    await leader.start();
+    await follower.start();
+
+    try {
+      await expect(follower.callLeader('echo', [1, 'two'])).resolves.toEqual({ method: 'echo', args: [1, 'two'] });
+
+      const error = await follower.callLeader('fail', []).catch((err: unknown) => err);
+      expect(error).toBeInstanceOf(OperationalError);
+      expect((error as OperationalError).code).toBe('MISSING_PERMISSION');
+      expect((error as OperationalError).statusCode).toBe(403);
+    } finally {
+      await follower.stop();
+      await leader.stop();
+    }
+  });
+});
+
+describe('Channel events', () => {
+  const SERVER_ID = '400000000000000001';
+  const CHANNEL_ID = '300000000000000001';
+  const users = [
+    { discord_id: '200000000000000001', username: 'alice', email: 'alice@example.com', is_bot: false, created_at: '', updated_at: '' },
+    { discord_id: '200000000000000002', username: 'bob', email: 'bob@example.com', is_bot: false, created_at: '', updated_at: '' }
+  ];
+  const [alice, bob] = users as [typeof users[number], typeof users[number]];
+
+  const httpServer = createServer();
+  const io = new Server<ClientToServerEvents, ServerToClientEvents, InterServerEvents, DiscordSocketData>(httpServer);
+  const discordNamespace = io.of('/discord');
+  // Connected users and subscriptions live in Redis, as on a cluster node
+  const subscriptions = new RedisSubscriptionRegistry(createRedis(), 'node-a');
+  const discordBot = new DiscordBot(discordNamespace, new InMemoryMessageRepository(), { subscriptions });
+  const sessions = new SessionService(new InMemorySessionStore());
+  const clients: Record<string, ClientSocket> = {};
+
+  // Just enough of discord.js for the visibility checks; only members in `viewers` have View Channel
+  const viewers = new Set<string>();
+  const guild = { id: SERVER_ID, name: 'Test Server', members: { cache: new Map(users.map(user => [user.discord_id, { id: user.discord_id }])) } };
+  const makeChannel = (canView: (userId: string) => boolean) => ({
+    id: CHANNEL_ID,
+    name: 'general',
+    type: ChannelType.GuildText,
+    guild,
+    guildId: SERVER_ID,
+    position: 0,
+    lastMessageId: null,
+    isThread: () => false,
+    isVoiceBased: () => false,
+    isTextBased: () => true,
+    permissionsFor: ({ id }: { id: string }) => ({ has: () => canView(id) })
+  });
+  const channel = makeChannel(userId => viewers.has(userId));
+
+  // Events of one kind each user receives within a short wait
+  const collect = async <T>(event: 'channel_update' | 'channel_delete', action: () => Promise<void>) => {
+    const received: Record<string, T[]> = { [alice.discord_id]: [], [bob.discord_id]: [] };
+    for (const [userId, client] of Object.entries(clients)) client.on(event, (data: unknown) => received[userId]!.push(data as T));
+    await action();
+    await new Promise(resolve => setTimeout(resolve, 50));
+    for (const client of Object.values(clients)) client.off(event);
+    return received;
+  };
+
+  beforeAll(async () => {
+    process.env['JWT_SECRET'] = process.env['JWT_SECRET'] || 'test-secret';
+    setupDiscordNamespace(discordNamespace, discordBot, sessions);
+    await new Promise<void>(resolve => httpServer.listen(0, resolve));
+    const url = `http://localhost:${(httpServer.address() as AddressInfo).port}/discord`;
+
+    for (const user of users) {
+      const { accessToken } = await sessions.createSession(user);
+      const client = Client(url, { auth: { token: accessToken }, reconnection: false });
+      await new Promise<void>(resolve => client.on('connect', () => resolve()));
+      clients[user.discord_id] = client;
+    }
+  });
+
+  beforeEach(() => {
+    viewers.clear();
+    viewers.add(alice.discord_id);
+    jest.spyOn(discordBot, 'authorizeChannelAccess').mockResolvedValue();
+    jest.spyOn(discordBot, 'fetchChannelHistory').mockResolvedValue({ messages: [], hasMore: false });
+  });
+
+  afterAll(() => {
+    Object.values(clients).forEach(client => client.close());
+    io.close();
+    httpServer.close();
+  });
+
+  test('should send channel updates only to users who can see the channel', async () => {
+    const created = await collect<DiscordChannel>('channel_update', () => discordBot['handleChannelChange'](null, channel as never));
+    expect(created[alice.discord_id]).toEqual([expect.objectContaining({ id: CHANNEL_ID, name: 'general', serverId: SERVER_ID })]);
+    expect(created[bob.discord_id]).toEqual([]);
+
+    // Hidden from alice by a permission change: the channel leaves their list, bob still hears nothing
+    const previous = makeChannel(userId => userId === alice.discord_id);
+    viewers.clear();
+    const hidden = await collect<ChannelDeleteEvent>('channel_delete', () => discordBot['handleChannelChange'](previous as never, channel as never));
+    expect(hidden).toEqual({ [alice.discord_id]: [{ channelId: CHANNEL_ID, serverId: SERVER_ID }], [bob.discord_id]: [] });
+  });
+
+  test('should send channel deletes only to users who could see it and empty its room', async () => {
+    const joined = await new Promise<JoinChannelResponse>(resolve =>
+      clients[alice.discord_id]!.emit('join_channel', { channelId: CHANNEL_ID }, resolve));
+    expect(joined).toMatchObject({ success: true });
+    expect(await subscriptions.hasSubscribers(CHANNEL_ID)).toBe(true);
+
+    const deleted = await collect<ChannelDeleteEvent>('channel_delete', () => discordBot['handleChannelDelete'](channel as never));
+    // One event per socket, even though alice is in both the channel room and their user room
+    expect(deleted).toEqual({ [alice.discord_id]: [{ channelId: CHANNEL_ID, serverId: SERVER_ID }], [bob.discord_id]: [] });
+
+    expect(await discordNamespace.in(`channel:${CHANNEL_ID}`).fetchSockets()).toEqual([]);
+    expect(await subscriptions.hasSubscribers(CHANNEL_ID)).toBe(false);
+  });
+});
@@ -0,0 +1,74 @@
+import { MentionResolver, parseContent } from '../src/utils/contentParser';
+
+const resolver: MentionResolver = {
+  user: (id) => (id === '200000000000000001' ? { name: 'Alice', color: '#e91e63' } : null),
+  role: (id) => (id === '500000000000000001' ? { name: 'Moderators', color: '#3498db' } : null),
+  channel: (id) => (id === '300000000000000001' ? { name: 'general' } : null)
+};
+
+describe('Content parser', () => {
+  test('should resolve mentions, emoji and timestamps', () => {
+    const tokens = parseContent(
+      'hey <@!200000000000000001> and <@200000000000000002>, ask <@&500000000000000001> in <#300000000000000001> ' +
+      '<a:party:600000000000000001> <t:1704110400:R> @here',
+      resolver
+    );
+
+    expect(tokens).toEqual([
+      { type: 'text', text: 'hey ' },
+      { type: 'user_mention', id: '200000000000000001', name: 'Alice', color: '#e91e63' },
+      { type: 'text', text: ' and ' },
+      { type: 'user_mention', id: '200000000000000002', name: 'Unknown User' },
+      { type: 'text', text: ', ask ' },
+      { type: 'role_mention', id: '500000000000000001', name: 'Moderators', color: '#3498db' },
+      { type: 'text', text: ' in ' },
+      { type: 'channel_mention', id: '300000000000000001', name: 'general' },
+      { type: 'text', text: ' ' },
+      {
+        type: 'custom_emoji',
+        id: '600000000000000001',
+        name: 'party',
+        animated: true,
+        url: 'https://cdn.discordapp.com/emojis/600000000000000001.gif'
+      },
+      { type: 'text', text: ' ' },
+      { type: 'timestamp', timestamp: '2024-01-01T12:00:00.000Z', style: 'R' },
+      { type: 'text', text: ' ' },
+      { type: 'everyone_mention', target: 'here' }
+    ]);
+  });
+
+  test('should nest markdown spans and leave code untouched', () => {
+    expect(parseContent('***both*** ||secret __under__|| ~~gone~~ snake_case_name `<@1> **raw**`')).toEqual([
+      { type: 'bold', children: [{ type: 'italic', children: [{ type: 'text', text: 'both' }] }] },
+      { type: 'text', text: ' ' },
+      {
+        type: 'spoiler',
+        children: [{ type: 'text', text: 'secret ' }, { type: 'underline', children: [{ type: 'text', text: 'under' }] }]
+      },
+      { type: 'text', text: ' ' },
+      { type: 'strikethrough', children: [{ type: 'text', text: 'gone' }] },
+      { type: 'text', text: ' snake_case_name ' },
+      { type: 'inline_code', code: '<@1> **raw**' }
+    ]);
+
+    expect(parseContent('```ts\nconst a = 1\n```')).toEqual([{ type: 'code_block', code: 'const a = 1', language: 'ts' }]);
+    expect(parseContent('\\*not italic\\*')).toEqual([{ type: 'text', text: '*not italic*' }]);
+  });
+
+  test('should parse links and line-level blocks', () => {
+    expect(parseContent('# Title\n> one\n> two\n-# small print\nsee [docs](https://example.com/a) or https://example.com/b.')).toEqual([
+      { type: 'heading', level: 1, children: [{ type: 'text', text: 'Title' }] },
+      { type: 'blockquote', children: [{ type: 'text', text: 'one\ntwo' }] },
+      { type: 'subtext', children: [{ type: 'text', text: 'small print' }] },
+      { type: 'text', text: 'see ' },
+      { type: 'link', url: 'https://example.com/a', children: [{ type: 'text', text: 'docs' }] },
+      { type: 'text', text: ' or ' },
+      { type: 'link', url: 'https://example.com/b', children: [{ type: 'text', text: 'https://example.com/b' }] },
+      { type: 'text', text: '.' }
+    ]);
+
+    // Headings only open a line
+    expect(parseContent('not a # heading')).toEqual([{ type: 'text', text: 'not a # heading' }]);
+  });
+});
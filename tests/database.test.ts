@@ -0,0 +1,328 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { ChannelType, Collection } from 'discord.js';
+import { Server } from 'socket.io';
+import { DiscordBot } from '../src/services/discordBot.service';
+import {
+  FileMessageRepository,
+  fromDatabaseMessage,
+  InMemoryMessageRepository,
+  MAX_NOTIFICATIONS_PER_USER,
+  mergeCoverage,
+  toDatabaseMessage
+} from '../src/utils/database';
+import { ClientToServerEvents, DiscordMessage, DiscordSocketData, InterServerEvents, ServerToClientEvents } from '../src/types';
+
+const makeMessage = (id: string, overrides: Partial<DiscordMessage> = {}): DiscordMessage => ({
+  id,
+  type: 'default',
+  system: false,
+  content: `message ${id}`,
+  author: { id: '200000000000000001', username: 'alice', displayName: 'Alice', bot: false },
+  timestamp: '2024-01-01T12:00:00.000Z',
+  channelId: '300000000000000001',
+  serverId: '400000000000000001',
+  attachments: [],
+  embeds: [],
+  reactions: [],
+  tokens: [{ type: 'text', text: `message ${id}` }],
+  stickers: [],
+  components: [],
+  edited: false,
+  editedTimestamp: '',
+  ...overrides
+});
+
+describe('Message archive', () => {
+  test('should round-trip messages through archive rows', () => {
+    const message = makeMessage('100000000000000001', { edited: true, editedTimestamp: '2024-01-02T00:00:00.000Z' });
+    expect(fromDatabaseMessage(toDatabaseMessage(message))).toEqual(message);
+  });
+
+  test('should round-trip replies, polls and components', () => {
+    const message = makeMessage('100000000000000003', {
+      type: 'reply',
+      replyTo: { messageId: '100000000000000001', channelId: '300000000000000001', content: 'message 100000000000000001' },
+      poll: {
+        question: 'Lunch?',
+        answers: [{ id: 1, text: 'Pizza', emoji: { name: '🍕' }, votes: 3 }, { id: 2, text: 'Salad', votes: 1 }],
+        allowMultiselect: false,
+        expiresAt: '2024-01-02T12:00:00.000Z',
+        finalized: false
+      },
+      components: [{ components: [{ type: 'button', style: 'link', label: 'Docs', url: 'https://example.com', disabled: false }] }]
+    });
+
+    expect(fromDatabaseMessage(toDatabaseMessage(message))).toEqual(message);
+  });
+
+  test('should parse content of rows archived without tokens', () => {
+    const { tokens: _tokens, ...row } = toDatabaseMessage(makeMessage('100000000000000002', { content: '**hi**' }));
+    expect(fromDatabaseMessage(row).tokens).toEqual([{ type: 'bold', children: [{ type: 'text', text: 'hi' }] }]);
+  });
+
+  test('should page channel messages backwards in chronological order', async () => {
+    const repository = new InMemoryMessageRepository();
+    await repository.open();
+
+    // Saved out of order on purpose
+    for (const id of ['100000000000000003', '100000000000000001', '100000000000000004', '100000000000000002']) {
+      await repository.saveMessage(toDatabaseMessage(makeMessage(id)));
+    }
+    await repository.markMessageDeleted('100000000000000003', new Date());
+
+    const latest = await repository.getChannelMessages('300000000000000001', { limit: 2 });
+    expect(latest.map(row => row.discord_id)).toEqual(['100000000000000002', '100000000000000004']);
+
+    const older = await repository.getChannelMessages('300000000000000001', { before: '100000000000000002', limit: 2 });
+    expect(older.map(row => row.discord_id)).toEqual(['100000000000000001']);
+  });
+
+  test('should merge overlapping and adjacent coverage ranges', () => {
+    const merged = mergeCoverage(
+      [{ from: '10', to: '20' }, { from: '40', to: '50' }],
+      { from: '21', to: '39' }
+    );
+    expect(merged).toEqual([{ from: '10', to: '50' }]);
+  });
+
+  test('should restore the file archive after a restart', async () => {
+    const dir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'archive-'));
+    const filePath = path.join(dir, 'archive.jsonl');
+
+    try {
+      const first = new FileMessageRepository(filePath);
+      await first.open();
+      await first.saveMessage(toDatabaseMessage(makeMessage('100000000000000001')));
+      await first.saveMessage(toDatabaseMessage(makeMessage('100000000000000002')));
+      await first.markMessageDeleted('100000000000000001', new Date());
+      await first.addCoverage('300000000000000001', { from: '0', to: '100000000000000002' });
+      await first.close();
+
+      const second = new FileMessageRepository(filePath);
+      await second.open();
+      const rows = await second.getChannelMessages('300000000000000001', { limit: 10 });
+      expect(rows.map(row => row.discord_id)).toEqual(['100000000000000002']);
+      expect(rows[0]?.created_at).toBeInstanceOf(Date);
+      expect((await second.getMessage('100000000000000001'))?.deleted_at).toBeInstanceOf(Date);
+      expect(await second.getCoverage('300000000000000001')).toEqual([{ from: '0', to: '100000000000000002' }]);
+      await second.close();
+    } finally {
+      await fs.promises.rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  test('should compact the file archive while it is open once most of it is stale', async () => {
+    const dir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'archive-'));
+    const filePath = path.join(dir, 'archive.jsonl');
+    const withReactions = (count: number, id = '100000000000000001') =>
+      toDatabaseMessage(makeMessage(id, { reactions: [{ emoji: '👍', count, users: [] }] }));
+
+    try {
+      const first = new FileMessageRepository(filePath);
+      await first.open();
+      for (let count = 1; count <= 1000; count++) await first.saveMessage(withReactions(count));
+
+      // Writes that race the compaction end up in the new log, after the snapshot
+      await Promise.all([
+        first.saveMessage(withReactions(1001)),
+        first.saveMessage(withReactions(1002)),
+        first.saveMessage(withReactions(1, '100000000000000002')),
+        first.saveMessage(withReactions(1003))
+      ]);
+      await first.saveMessage(withReactions(2, '100000000000000002'));
+      await first.close();
+
+      const lines = (await fs.promises.readFile(filePath, 'utf8')).trim().split('\n');
+      expect(lines.length).toBeLessThan(10);
+      expect(fs.existsSync(`${filePath}.compact`)).toBe(false);
+
+      const second = new FileMessageRepository(filePath);
+      await second.open();
+      expect(JSON.parse((await second.getMessage('100000000000000001'))!.reactions)).toEqual([{ emoji: '👍', count: 1003, users: [] }]);
+      expect(JSON.parse((await second.getMessage('100000000000000002'))!.reactions)).toEqual([{ emoji: '👍', count: 2, users: [] }]);
+      await second.close();
+    } finally {
+      await fs.promises.rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  test('should count unread messages after the read marker', async () => {
+    const repository = new InMemoryMessageRepository();
+    await repository.open();
+
+    const other = { id: '200000000000000002', username: 'bob', bot: false };
+    const bot = { id: '200000000000000003', username: 'helper', bot: true };
+    await repository.saveMessage(toDatabaseMessage(makeMessage('100000000000000001', { author: other })));
+    await repository.saveMessage(toDatabaseMessage(makeMessage('100000000000000002', { author: other })));
+    await repository.saveMessage(toDatabaseMessage(makeMessage('100000000000000003')));
+    await repository.saveMessage(toDatabaseMessage(makeMessage('100000000000000004', { author: bot })));
+    await repository.saveMessage(toDatabaseMessage(makeMessage('100000000000000005', { author: other })));
+    await repository.markMessageDeleted('100000000000000005', new Date());
+
+    const options = { excludeAuthorId: '200000000000000001', excludeBots: true, limit: 100 };
+    expect(await repository.countMessagesAfter('300000000000000001', '100000000000000001', options)).toBe(1);
+    expect(await repository.countMessagesAfter('300000000000000001', '0', options)).toBe(2);
+    expect(await repository.countMessagesAfter('300000000000000001', '0', { limit: 3 })).toBe(3);
+  });
+
+  test('should keep read markers across restarts', async () => {
+    const dir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'archive-'));
+    const filePath = path.join(dir, 'archive.jsonl');
+
+    try {
+      const first = new FileMessageRepository(filePath);
+      await first.open();
+      await first.saveReadMarker({
+        user_discord_id: '200000000000000001',
+        channel_id: '300000000000000001',
+        last_read_message_id: '100000000000000002',
+        updated_at: new Date()
+      });
+      await first.close();
+
+      const second = new FileMessageRepository(filePath);
+      await second.open();
+      const marker = await second.getReadMarker('200000000000000001', '300000000000000001');
+      expect(marker?.last_read_message_id).toBe('100000000000000002');
+      expect(marker?.updated_at).toBeInstanceOf(Date);
+      expect(await second.getReadMarker('200000000000000001', '300000000000000002')).toBeNull();
+      await second.close();
+    } finally {
+      await fs.promises.rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  test('should keep watch rules and the notification inbox across restarts', async () => {
+    const dir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'archive-'));
+    const filePath = path.join(dir, 'archive.jsonl');
+    const userId = '200000000000000001';
+    const notification = (messageId: string) => ({
+      user_discord_id: userId,
+      message_id: messageId,
+      channel_id: '300000000000000001',
+      server_id: '400000000000000001',
+      rule_ids: '["rule-1"]',
+      reasons: '["keyword"]',
+      created_at: new Date()
+    });
+
+    try {
+      const first = new FileMessageRepository(filePath);
+      await first.open();
+      await first.saveWatchRule({ id: 'rule-1', user_discord_id: userId, rule: '{"keywords":["deploy"]}', created_at: new Date() });
+      await first.saveWatchRule({ id: 'rule-2', user_discord_id: userId, rule: '{"mentions":true}', created_at: new Date() });
+      expect(await first.deleteWatchRule(userId, 'rule-2')).toBe(true);
+      expect(await first.deleteWatchRule(userId, 'rule-2')).toBe(false);
+
+      // Saved out of order, listed newest first
+      await first.saveNotification(notification('100000000000000003'));
+      await first.saveNotification(notification('100000000000000001'));
+      await first.saveNotification(notification('100000000000000002'));
+      await first.markNotificationsRead(userId, ['100000000000000001'], new Date());
+      expect(await first.deleteNotifications('100000000000000002')).toEqual([userId]);
+      await first.close();
+
+      const second = new FileMessageRepository(filePath);
+      await second.open();
+      expect((await second.getWatchRules(userId)).map(rule => rule.id)).toEqual(['rule-1']);
+      expect((await second.getAllWatchRules()).map(rule => rule.id)).toEqual(['rule-1']);
+
+      const inbox = await second.getNotifications(userId, { limit: 10 });
+      expect(inbox.map(row => row.message_id)).toEqual(['100000000000000003', '100000000000000001']);
+      expect(inbox[1]?.read_at).toBeInstanceOf(Date);
+      expect((await second.getNotifications(userId, { unreadOnly: true, limit: 10 })).map(row => row.message_id)).toEqual(['100000000000000003']);
+      expect((await second.getNotifications(userId, { before: '100000000000000003', limit: 10 })).map(row => row.message_id)).toEqual(['100000000000000001']);
+
+      await second.markNotificationsRead(userId, null, new Date());
+      expect(await second.getNotifications(userId, { unreadOnly: true, limit: 10 })).toEqual([]);
+      await second.close();
+    } finally {
+      await fs.promises.rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  test('should keep only the newest notifications of a user', async () => {
+    const repository = new InMemoryMessageRepository();
+    for (let i = 0; i < MAX_NOTIFICATIONS_PER_USER + 5; i++) {
+      await repository.saveNotification({
+        user_discord_id: '200000000000000001',
+        message_id: `1000000000000${String(i).padStart(5, '0')}`,
+        channel_id: '300000000000000001',
+        server_id: '400000000000000001',
+        rule_ids: '[]',
+        reasons: '[]',
+        created_at: new Date()
+      });
+    }
+
+    const inbox = await repository.getNotifications('200000000000000001', { limit: MAX_NOTIFICATIONS_PER_USER + 5 });
+    expect(inbox).toHaveLength(MAX_NOTIFICATIONS_PER_USER);
+    expect(inbox[inbox.length - 1]?.message_id).toBe('100000000000000005');
+  });
+
+  test('should fail pending writes when the file archive cannot be written', async () => {
+    const dir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'archive-'));
+    const repository = new FileMessageRepository(path.join(dir, 'archive.jsonl'));
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    try {
+      await repository.open();
+      await repository.saveMessage(toDatabaseMessage(makeMessage('100000000000000001')));
+
+      // The disk fills up under the open stream
+      const full = Object.assign(new Error('ENOSPC: no space left on device, write'), { code: 'ENOSPC' });
+      const failWrite = (...args: unknown[]) => (args[args.length - 1] as (error: Error) => void)(full);
+      jest.spyOn(fs, 'write').mockImplementation(failWrite as never);
+      jest.spyOn(fs, 'writev').mockImplementation(failWrite as never);
+
+      const pending = [
+        repository.saveMessage(toDatabaseMessage(makeMessage('100000000000000002'))),
+        repository.saveMessage(toDatabaseMessage(makeMessage('100000000000000003')))
+      ];
+      for (const result of await Promise.allSettled(pending)) {
+        expect(result).toMatchObject({ status: 'rejected', reason: { code: 'ENOSPC' } });
+      }
+
+      // Later writes fail straight away rather than queueing on the dead stream
+      await expect(repository.markMessageDeleted('100000000000000001', new Date())).rejects.toMatchObject({ code: 'ENOSPC' });
+      await repository.close();
+    } finally {
+      await fs.promises.rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  test('should only write a message author when their profile changed', async () => {
+    // Never attached to an HTTP server; the bot only needs a namespace to exist
+    const io = new Server<ClientToServerEvents, ServerToClientEvents, InterServerEvents, DiscordSocketData>();
+    const repository = new InMemoryMessageRepository();
+    const discordBot = new DiscordBot(io.of('/discord'), repository);
+    const saveUser = jest.spyOn(repository, 'saveUser');
+
+    const author = { id: '200000000000000001', username: 'alice', bot: false };
+    const archive = (formatted: DiscordMessage) => discordBot['saveToArchive']({
+      inGuild: () => true,
+      guildId: '400000000000000001',
+      channelId: '300000000000000001',
+      channel: { name: 'general', type: ChannelType.GuildText, position: 0 },
+      webhookId: null,
+      author,
+      attachments: new Collection()
+    } as never, formatted);
+
+    await archive(makeMessage('100000000000000001'));
+    await archive(makeMessage('100000000000000002'));
+    expect(saveUser).toHaveBeenCalledTimes(1);
+    const created = (await repository.getUser(author.id))?.created_at;
+
+    await archive(makeMessage('100000000000000003', { author: { ...author, displayName: 'Alice Liddell', avatar: 'https://cdn.example.com/alice.png' } }));
+    expect(saveUser).toHaveBeenCalledTimes(2);
+    expect(await repository.getUser(author.id)).toMatchObject({
+      username: 'alice',
+      display_name: 'Alice Liddell',
+      avatar_url: 'https://cdn.example.com/alice.png',
+      created_at: created
+    });
+  });
+});
@@ -0,0 +1,258 @@
+import { createServer } from 'http';
+import type { AddressInfo } from 'net';
+import { Server } from 'socket.io';
+import Client, { Socket as ClientSocket } from 'socket.io-client';
+import { setupDiscordNamespace } from '../src/namespaces/discordNamespace';
+import { CLIENT_EVENT_SCHEMAS } from '../src/middleware/validation';
+import { DiscordBot } from '../src/services/discordBot.service';
+import { InMemorySessionStore, SessionService } from '../src/services/session.service';
+import { InMemoryMessageRepository } from '../src/utils/database';
+import { matchesFilter } from '../src/utils/messageFilter';
+import {
+    ClientToServerEvents,
+    DiscordMessage,
+    DiscordMessageAuthor,
+    DiscordSocketData,
+    FetchHistoryResponse,
+    InterServerEvents,
+    JoinChannelResponse,
+    MessageHistoryPage,
+    ResumeResponse,
+    ServerToClientEvents
+} from '../src/types';
+
+const TEST_USER = {
+    discord_id: '200000000000000001',
+    username: 'alice',
+    email: 'alice@example.com',
+    is_bot: false,
+    created_at: '',
+    updated_at: ''
+};
+
+const CHANNEL_ID = '300000000000000001';
+const PERSON: DiscordMessageAuthor = { id: '200000000000000002', username: 'bob', bot: false };
+const CI_BOT: DiscordMessageAuthor = { id: '200000000000000003', username: 'ci', bot: true };
+const HOOK: DiscordMessageAuthor = { id: '200000000000000004', username: 'alerts', bot: true, webhook: true };
+
+const makeMessage = (id: string, content: string, overrides: Partial<DiscordMessage> = {}): DiscordMessage => ({
+    id,
+    type: 'default',
+    system: false,
+    content,
+    author: PERSON,
+    timestamp: '2024-01-01T12:00:00.000Z',
+    channelId: CHANNEL_ID,
+    serverId: '400000000000000001',
+    attachments: [],
+    embeds: [],
+    reactions: [],
+    tokens: [{ type: 'text', text: content }],
+    stickers: [],
+    components: [],
+    edited: false,
+    ...overrides
+});
+
+describe('Message filters', () => {
+    const viewer = TEST_USER.discord_id;
+
+    test('should leave out bot and webhook messages unless asked for', () => {
+        expect(matchesFilter(makeMessage('1', 'hi'), undefined, viewer)).toBe(true);
+        expect(matchesFilter(makeMessage('1', 'hi', { author: CI_BOT }), undefined, viewer)).toBe(false);
+        expect(matchesFilter(makeMessage('1', 'hi', { author: HOOK }), {}, viewer)).toBe(false);
+
+        expect(matchesFilter(makeMessage('1', 'hi', { author: CI_BOT }), { includeBots: true }, viewer)).toBe(true);
+        expect(matchesFilter(makeMessage('1', 'hi', { author: HOOK }), { includeBots: true }, viewer)).toBe(false);
+        expect(matchesFilter(makeMessage('1', 'hi', { author: HOOK }), { includeWebhooks: true }, viewer)).toBe(true);
+    });
+
+    test('should require every given condition', () => {
+        const deploy = makeMessage('1', 'Deploy of api finished', { author: CI_BOT, embeds: [{ fields: [] }] });
+
+        expect(matchesFilter(deploy, { includeBots: true, authorIds: [CI_BOT.id], keywords: ['DEPLOY'], hasEmbed: true }, viewer)).toBe(true);
+        expect(matchesFilter(deploy, { includeBots: true, excludeAuthorIds: [CI_BOT.id] }, viewer)).toBe(false);
+        expect(matchesFilter(deploy, { includeBots: true, keywords: ['rollback', 'failed'] }, viewer)).toBe(false);
+        expect(matchesFilter(deploy, { includeBots: true, hasAttachment: true }, viewer)).toBe(false);
+        expect(matchesFilter(deploy, { includeBots: true, pattern: '^deploy of (api|web)' }, viewer)).toBe(true);
+        expect(matchesFilter(deploy, { includeBots: true, pattern: 'web$' }, viewer)).toBe(false);
+    });
+
+    test('should match mentions of the viewer, everyone and replies to them', () => {
+        const mention = makeMessage('1', '**hey <@200000000000000001>**', {
+            tokens: [{ type: 'bold', children: [{ type: 'text', text: 'hey ' }, { type: 'user_mention', id: viewer, name: 'alice' }] }]
+        });
+        const everyone = makeMessage('2', '@here', { tokens: [{ type: 'everyone_mention', target: 'here' }] });
+        const reply = makeMessage('3', 'agreed', {
+            replyTo: { messageId: '100000000000000001', channelId: CHANNEL_ID, author: { id: viewer, username: 'alice', bot: false } }
+        });
+
+        for (const message of [mention, everyone, reply]) {
+            expect(matchesFilter(message, { mentionsMe: true }, viewer)).toBe(true);
+        }
+        expect(matchesFilter(mention, { mentionsMe: true }, PERSON.id)).toBe(false);
+        expect(matchesFilter(makeMessage('4', 'hello'), { mentionsMe: true }, viewer)).toBe(false);
+    });
+
+    test('should accept any pattern RE2 compiles and refuse the rest', () => {
+        const join = CLIENT_EVENT_SCHEMAS.join_channel!;
+
+        // Repeated groups cannot backtrack on RE2, so they are fine
+        for (const pattern of ['deploy (started|finished)', '(foo|bar)+', '(\\d{3})+', '(a+)+$']) {
+            expect(join.validate({ channelId: CHANNEL_ID, filter: { pattern } }).ok).toBe(true);
+        }
+        expect(join.validate({ channelId: CHANNEL_ID, filter: { pattern: '(\\w)\\1', keywords: [''] } })).toEqual({
+            ok: false,
+            issues: [
+                { path: 'filter.keywords[0]', message: 'Must not be empty' },
+                { path: 'filter.pattern', message: 'Invalid regular expression' }
+            ]
+        });
+        expect(join.validate({ channelId: CHANNEL_ID, filter: { pattern: 'deploy(?= now)' } })).toMatchObject({ ok: false });
+        expect(join.validate({ channelId: CHANNEL_ID, filter: { pattern: 'x'.repeat(201) } })).toEqual({
+            ok: false,
+            issues: [{ path: 'filter.pattern', message: 'Must be at most 200 characters' }]
+        });
+        expect(join.validate({ channelId: CHANNEL_ID, filter: { pattern: '[a-' } })).toEqual({
+            ok: false,
+            issues: [{ path: 'filter.pattern', message: 'Invalid regular expression' }]
+        });
+    });
+
+    test('should match patterns in linear time', () => {
+        const started = Date.now();
+
+        expect(matchesFilter(makeMessage('5', `${'a'.repeat(5000)}c`), { pattern: '(a|a)*b' }, PERSON.id)).toBe(false);
+        expect(matchesFilter(makeMessage('6', `${'a'.repeat(5000)}b`), { pattern: '(a|aa)+b' }, PERSON.id)).toBe(true);
+        expect(Date.now() - started).toBeLessThan(1000);
+    });
+});
+
+describe('Filtered channel streams', () => {
+    const httpServer = createServer();
+    const io = new Server<ClientToServerEvents, ServerToClientEvents, InterServerEvents, DiscordSocketData>(httpServer);
+    const discordNamespace = io.of('/discord');
+    const discordBot = new DiscordBot(discordNamespace, new InMemoryMessageRepository());
+    const sessions = new SessionService(new InMemorySessionStore());
+    const clients: ClientSocket[] = [];
+    let url: string;
+    let token: string;
+
+    const connect = async () => {
+        const client = Client(url, { auth: { token }, reconnection: false });
+        clients.push(client);
+        await new Promise<void>(resolve => client.on('connect', () => resolve()));
+        return client;
+    };
+
+    const join = (client: ClientSocket, payload: object) =>
+        new Promise<JoinChannelResponse>(resolve => client.emit('join_channel', { channelId: CHANNEL_ID, ...payload }, resolve));
+
+    // Message ids each client receives until the delete, which every socket of the channel gets
+    const collect = (client: ClientSocket) => new Promise<string[]>(resolve => {
+        const ids: string[] = [];
+        client.on('message', (message: DiscordMessage) => ids.push(message.id));
+        client.once('message_delete', () => {
+            client.off('message');
+            resolve(ids);
+        });
+    });
+
+    const stream = async (messages: DiscordMessage[]) => {
+        for (const message of messages) {
+            await discordBot['emitToChannel'](CHANNEL_ID, { event: 'message', data: message });
+        }
+        await discordBot['emitToChannel'](CHANNEL_ID, { event: 'message_delete', data: { messageId: '100000000000000009', channelId: CHANNEL_ID } });
+    };
+
+    const messages = [
+        makeMessage('100000000000000001', 'hello'),
+        makeMessage('100000000000000002', 'Deploy of api finished', { author: CI_BOT }),
+        makeMessage('100000000000000003', 'deploy looks good'),
+        makeMessage('100000000000000004', 'paging on-call', { author: HOOK })
+    ];
+
+    beforeAll(async () => {
+        process.env['JWT_SECRET'] = process.env['JWT_SECRET'] || 'test-secret';
+        setupDiscordNamespace(discordNamespace, discordBot, sessions);
+        await new Promise<void>(resolve => httpServer.listen(0, resolve));
+        url = `http://localhost:${(httpServer.address() as AddressInfo).port}/discord`;
+        token = (await sessions.createSession(TEST_USER)).accessToken;
+    });
+
+    beforeEach(() => {
+        jest.spyOn(discordBot, 'authorizeChannelAccess').mockResolvedValue();
+        jest.spyOn(discordBot, 'fetchChannelHistory').mockResolvedValue({ messages: [], hasMore: false });
+    });
+
+    afterAll(() => {
+        clients.forEach(client => client.close());
+        io.close();
+        httpServer.close();
+    });
+
+    test('should send each socket only the messages its filter passes', async () => {
+        const filtered = await connect();
+        const unfiltered = await connect();
+        expect(await join(filtered, { filter: { includeBots: true, keywords: ['deploy'] } })).toMatchObject({ success: true });
+        expect(await join(unfiltered, {})).toMatchObject({ success: true });
+
+        const received = Promise.all([collect(filtered), collect(unfiltered)]);
+        await stream(messages);
+        expect(await received).toEqual([
+            ['100000000000000002', '100000000000000003'],
+            ['100000000000000001', '100000000000000003']
+        ]);
+
+        // Joining again replaces the filter
+        expect(await join(filtered, { filter: { includeWebhooks: true, authorIds: [HOOK.id] } })).toMatchObject({ alreadyJoined: true });
+        const replaced = collect(filtered);
+        await stream(messages);
+        expect(await replaced).toEqual(['100000000000000004']);
+
+        expect(await join(filtered, {})).toMatchObject({ alreadyJoined: true });
+        const cleared = collect(filtered);
+        await stream(messages);
+        expect(await cleared).toEqual(['100000000000000001', '100000000000000003']);
+    });
+
+    test('should replay only matching messages on resume', async () => {
+        const client = await connect();
+        const joined = await join(client, {});
+        if (!joined.success) throw new Error(joined.error);
+        await stream(messages);
+
+        const resumed = await connect();
+        const replayed = collect(resumed);
+        const response = await new Promise<ResumeResponse>(resolve => resumed.emit('resume', {
+            channels: [{ channelId: CHANNEL_ID, lastSeq: joined.seq, filter: { includeBots: true, pattern: '^deploy' } }]
+        }, resolve));
+
+        expect(response).toEqual({ success: true, channels: [{ channelId: CHANNEL_ID, status: 'replayed', replayed: 3, seq: joined.seq + 5 }] });
+        expect(await replayed).toEqual(['100000000000000002', '100000000000000003']);
+    });
+
+    test('should filter history pages like live messages and keep their cursor', async () => {
+        jest.spyOn(discordBot, 'fetchChannelHistory').mockResolvedValue({ messages, hasMore: true, nextCursor: '100000000000000001' });
+        const filtered = await connect();
+        const unfiltered = await connect();
+
+        const backfill = new Promise<MessageHistoryPage>(resolve => filtered.once('messages_bulk', resolve));
+        expect(await join(filtered, { filter: { includeBots: true, keywords: ['deploy'] } })).toMatchObject({ success: true });
+        expect(await backfill).toEqual({ channelId: CHANNEL_ID, messages: [messages[1], messages[2]], hasMore: true, nextCursor: '100000000000000001' });
+
+        const plain = new Promise<MessageHistoryPage>(resolve => unfiltered.once('messages_bulk', resolve));
+        expect(await join(unfiltered, {})).toMatchObject({ success: true });
+        expect((await plain).messages.map(message => message.id)).toEqual(['100000000000000001', '100000000000000003']);
+
+        const page = await new Promise<FetchHistoryResponse>(resolve =>
+            filtered.emit('fetch_history', { channelId: CHANNEL_ID, before: '100000000000000005' }, resolve));
+        expect(page).toEqual({
+            success: true,
+            channelId: CHANNEL_ID,
+            messages: [messages[1], messages[2]],
+            hasMore: true,
+            nextCursor: '100000000000000001'
+        });
+    });
+});
@@ -0,0 +1,176 @@
+import http from 'http';
+import type { AddressInfo } from 'net';
+import request from 'supertest';
+import express from 'express';
+import cookieParser from 'cookie-parser';
+import RedisMock from 'ioredis-mock';
+import type Redis from 'ioredis';
+import { createAuthRouter } from '../src/routes/auth.route';
+import { createGuildRouter } from '../src/routes/guild.route';
+import { DiscordBot } from '../src/services/discordBot.service';
+import { InMemorySessionStore, SessionService } from '../src/services/session.service';
+import { BOT_INVITE_PERMISSIONS, DiscordOAuthService, RedisOAuthTokenStore } from '../src/services/discordOAuth.service';
+import { DiscordGuild, DiscordNamespace } from '../src/types';
+
+const USER = { id: '200000000000000001', username: 'alice', email: 'alice@example.com' };
+const GUILDS = [
+    { id: '400000000000000001', name: 'Owned', icon: 'abc', owner: true, permissions: '0' },
+    { id: '400000000000000002', name: 'Managed', icon: null, owner: false, permissions: String(1 << 5) },
+    { id: '400000000000000003', name: 'Member', icon: null, owner: false, permissions: '1024' }
+];
+
+// Stands in for Discord's OAuth2 token endpoint and the user endpoints the `guilds` scope opens
+const createStandIn = () => {
+    const state = { issued: 0, revoked: false, guildRequests: 0 };
+    const app = express();
+    app.use(express.urlencoded({ extended: false }));
+
+    app.post('/oauth2/token', (req, res) => {
+        const { client_id, client_secret, grant_type, code, refresh_token } = req.body;
+        const valid = grant_type === 'authorization_code'
+            ? code === 'good-code'
+            : grant_type === 'refresh_token' && refresh_token === `refresh-${state.issued}` && !state.revoked;
+        if (client_id !== 'client' || client_secret !== 'secret' || !valid) {
+            res.status(400).json({ error: 'invalid_grant' });
+            return;
+        }
+
+        state.issued++;
+        res.json({
+            access_token: `access-${state.issued}`,
+            refresh_token: `refresh-${state.issued}`,
+            expires_in: 604800,
+            scope: 'identify email guilds',
+            token_type: 'Bearer'
+        });
+    });
+
+    const authorized = (req: express.Request) => req.headers.authorization === `Bearer access-${state.issued}`;
+    app.get('/users/@me', (req, res) => {
+        if (!authorized(req)) return void res.status(401).json({ message: '401: Unauthorized' });
+        res.json(USER);
+    });
+    app.get('/users/@me/guilds', (req, res) => {
+        state.guildRequests++;
+        if (!authorized(req)) return void res.status(401).json({ message: '401: Unauthorized' });
+        res.json(GUILDS);
+    });
+
+    return { server: http.createServer(app), state };
+};
+
+describe('Guilds', () => {
+    const { server, state } = createStandIn();
+    const redis = new RedisMock() as unknown as Redis;
+    const sessions = new SessionService(new InMemorySessionStore());
+    const discordBot = new DiscordBot({} as DiscordNamespace);
+    let oauth: DiscordOAuthService;
+    let app: express.Express;
+
+    beforeAll(async () => {
+        process.env['JWT_SECRET'] = process.env['JWT_SECRET'] || 'test-secret';
+        await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+
+        oauth = new DiscordOAuthService({
+            clientId: 'client',
+            clientSecret: 'secret',
+            redirectUri: 'http://localhost/api/auth/discord/callback',
+            apiUrl: `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+        }, new RedisOAuthTokenStore(redis));
+        app = express();
+        app.use(cookieParser());
+        app.use('/api/auth', createAuthRouter(sessions, oauth));
+        app.use('/api/guilds', createGuildRouter(discordBot, oauth, sessions));
+    });
+
+    beforeEach(() => {
+        jest.spyOn(discordBot, 'getBotGuildIds').mockResolvedValue([GUILDS[0]!.id]);
+    });
+
+    afterAll(async () => {
+        await new Promise(resolve => server.close(resolve));
+    });
+
+    //Logging in through the OAuth callback and returning the access token cookie
+    const login = async () => {
+        const loginRes = await request(app).get('/api/auth/discord/login');
+        const authorizeUrl = new URL(loginRes.headers['location'] as string);
+        expect(authorizeUrl.searchParams.get('scope')).toBe('identify email guilds');
+
+        const stateCookie = (loginRes.headers['set-cookie'] as unknown as string[])[0]!.split(';')[0]!;
+        const callbackRes = await request(app)
+            .get('/api/auth/discord/callback')
+            .set('Cookie', stateCookie)
+            .query({ code: 'good-code', state: authorizeUrl.searchParams.get('state') });
+        expect(callbackRes.headers['location']).not.toMatch(/error/);
+
+        const cookies = callbackRes.headers['set-cookie'] as unknown as string[];
+        return cookies.find(cookie => cookie.startsWith('access_token='))!.split(';')[0]!;
+    };
+
+    test('should store Discord tokens encrypted and list guilds with the bot marked', async () => {
+        const cookie = await login();
+
+        const stored = await redis.get(`discord:oauth:${USER.id}`);
+        expect(stored).toBeTruthy();
+        expect(stored).not.toContain(`access-${state.issued}`);
+        expect(stored).not.toContain(`refresh-${state.issued}`);
+
+        const res = await request(app).get('/api/guilds').set('Cookie', cookie);
+        expect(res.status).toBe(200);
+        const guilds = res.body.guilds as DiscordGuild[];
+        expect(guilds.map(guild => [guild.name, guild.canManage, guild.botPresent])).toEqual([
+            ['Owned', true, true],
+            ['Managed', true, false],
+            ['Member', false, false]
+        ]);
+        expect(guilds[0]!.icon).toBe(`https://cdn.discordapp.com/icons/${GUILDS[0]!.id}/abc.png`);
+
+        // Served from the cache the second time
+        const requests = state.guildRequests;
+        await request(app).get('/api/guilds').set('Cookie', cookie);
+        expect(state.guildRequests).toBe(requests);
+    });
+
+    test('should only hand invite URLs to members who manage the guild', async () => {
+        const cookie = await login();
+
+        const managed = await request(app).get(`/api/guilds/${GUILDS[1]!.id}/invite`).set('Cookie', cookie);
+        expect(managed.status).toBe(200);
+        const url = new URL(managed.body.url);
+        expect(url.searchParams.get('guild_id')).toBe(GUILDS[1]!.id);
+        expect(url.searchParams.get('scope')).toBe('bot');
+        expect(url.searchParams.get('permissions')).toBe(BOT_INVITE_PERMISSIONS.toString());
+
+        const member = await request(app).get(`/api/guilds/${GUILDS[2]!.id}/invite`).set('Cookie', cookie);
+        expect(member.status).toBe(403);
+        expect(member.body.code).toBe('MISSING_PERMISSION');
+
+        const unknown = await request(app).get('/api/guilds/400000000000000009/invite').set('Cookie', cookie);
+        expect(unknown.status).toBe(404);
+    });
+
+    test('should refresh expired Discord tokens and ask for a new login once the grant is gone', async () => {
+        await login();
+        const later = Date.now() + 8 * 24 * 60 * 60 * 1000;
+
+        expect(await oauth.getAccessToken(USER.id, later)).toBe(`access-${state.issued}`);
+
+        // Concurrent callers share one refresh instead of spending the refresh token twice
+        const issued = state.issued;
+        const tokens = await Promise.all([1, 2, 3].map(() => oauth.getAccessToken(USER.id, later * 2)));
+        expect(tokens).toEqual([1, 2, 3].map(() => `access-${issued + 1}`));
+        expect(state.issued).toBe(issued + 1);
+
+        state.revoked = true;
+        await expect(oauth.getAccessToken(USER.id, later * 3)).rejects.toMatchObject({ code: 'DISCORD_AUTH_REQUIRED' });
+        expect(await redis.get(`discord:oauth:${USER.id}`)).toBeNull();
+
+        const { accessToken } = await sessions.createSession({
+            discord_id: '200000000000000002', username: 'bob', email: '', is_bot: false, created_at: '', updated_at: ''
+        });
+        const res = await request(app).get('/api/guilds').set('Authorization', `Bearer ${accessToken}`);
+        expect(res.status).toBe(401);
+        expect(res.body.code).toBe('DISCORD_AUTH_REQUIRED');
+    });
+});
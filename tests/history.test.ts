@@ -0,0 +1,163 @@
+import { createServer } from 'http';
+import type { AddressInfo } from 'net';
+import { ChannelType, Collection } from 'discord.js';
+import { Server } from 'socket.io';
+import Client, { Socket as ClientSocket } from 'socket.io-client';
+import { setupDiscordNamespace } from '../src/namespaces/discordNamespace';
+import { DiscordBot, MAX_HISTORY_LIMIT } from '../src/services/discordBot.service';
+import { InMemorySessionStore, SessionService } from '../src/services/session.service';
+import { InMemoryMessageRepository } from '../src/utils/database';
+import {
+    ClientToServerEvents,
+    DiscordMessage,
+    DiscordSocketData,
+    FetchHistoryResponse,
+    InterServerEvents,
+    JoinChannelResponse,
+    MessageHistoryPage,
+    ServerToClientEvents
+} from '../src/types';
+
+const TEST_USER = {
+    discord_id: '200000000000000001',
+    username: 'alice',
+    email: 'alice@example.com',
+    is_bot: false,
+    created_at: '',
+    updated_at: ''
+};
+
+const SERVER_ID = '400000000000000001';
+const CHANNEL_ID = '300000000000000001';
+
+// 150 messages in the channel, oldest first
+const MESSAGE_IDS = Array.from({ length: 150 }, (_, index) => (100000000000000001n + BigInt(index)).toString());
+
+describe('Message history', () => {
+    const httpServer = createServer();
+    const io = new Server<ClientToServerEvents, ServerToClientEvents, InterServerEvents, DiscordSocketData>(httpServer);
+    const discordNamespace = io.of('/discord');
+    const discordBot = new DiscordBot(discordNamespace, new InMemoryMessageRepository());
+    const sessions = new SessionService(new InMemorySessionStore());
+    let client: ClientSocket;
+
+    // Just enough of discord.js to page through a channel; `canView` decides whether the user has View Channel
+    let canView = true;
+    const guild = { id: SERVER_ID, name: 'Test Server', members: { fetch: async (id: string) => ({ id }) } };
+    const channel = {
+        id: CHANNEL_ID,
+        name: 'general',
+        type: ChannelType.GuildText,
+        guild,
+        guildId: SERVER_ID,
+        isDMBased: () => false,
+        isTextBased: () => true,
+        isThread: () => false,
+        permissionsFor: () => ({ has: (flag: string) => flag !== 'ViewChannel' || canView }),
+        fetchWebhooks: async () => new Collection(),
+        messages: { fetch: jest.fn() }
+    };
+
+    // Like Discord: the newest `limit` messages before the cursor, newest first
+    const fetchMessages = async ({ limit, before }: { limit: number, before?: string }) => {
+        const older = MESSAGE_IDS.filter(id => !before || BigInt(id) < BigInt(before));
+        return new Collection(older.slice(-limit).reverse().map(id => [id, { id, inGuild: () => false }]));
+    };
+
+    const makeMessage = (id: string): DiscordMessage => ({
+        id,
+        type: 'default',
+        system: false,
+        content: 'hello',
+        author: { id: '200000000000000002', username: 'bob', bot: false },
+        timestamp: '2024-01-01T12:00:00.000Z',
+        channelId: CHANNEL_ID,
+        serverId: SERVER_ID,
+        attachments: [],
+        embeds: [],
+        reactions: [],
+        tokens: [{ type: 'text', text: 'hello' }],
+        stickers: [],
+        components: [],
+        edited: false
+    });
+    const ids = (messages: DiscordMessage[]) => messages.map(message => message.id);
+
+    const join = () =>
+        new Promise<JoinChannelResponse>(resolve => client.emit('join_channel', { channelId: CHANNEL_ID }, resolve));
+    const fetchHistory = (request: { before?: string, limit?: number }) =>
+        new Promise<FetchHistoryResponse>(resolve => client.emit('fetch_history', { channelId: CHANNEL_ID, ...request }, resolve));
+
+    beforeAll(async () => {
+        process.env['JWT_SECRET'] = process.env['JWT_SECRET'] || 'test-secret';
+        setupDiscordNamespace(discordNamespace, discordBot, sessions);
+        await new Promise<void>(resolve => httpServer.listen(0, resolve));
+
+        const { accessToken } = await sessions.createSession(TEST_USER);
+        client = Client(`http://localhost:${(httpServer.address() as AddressInfo).port}/discord`, {
+            auth: { token: accessToken },
+            reconnection: false
+        });
+        await new Promise<void>(resolve => client.on('connect', () => resolve()));
+    });
+
+    beforeEach(() => {
+        canView = true;
+        // Every test pages through Discord, not through ranges an earlier test archived
+        discordBot['repository'] = new InMemoryMessageRepository();
+        discordBot['liveArchiveTails'].clear();
+        channel.messages.fetch.mockImplementation(fetchMessages);
+        jest.spyOn(discordBot['client'].channels, 'fetch').mockResolvedValue(channel as never);
+        jest.spyOn(discordBot as unknown as { formatMessage: (message: { id: string }) => Promise<DiscordMessage> }, 'formatMessage')
+            .mockImplementation(async ({ id }) => makeMessage(id));
+    });
+
+    afterAll(() => {
+        client.close();
+        io.close();
+        httpServer.close();
+    });
+
+    test('should backfill the newest page on join and page back with `before`', async () => {
+        const backfill = new Promise<{ channelId: string } & MessageHistoryPage>(resolve => client.once('messages_bulk', resolve));
+        expect(await join()).toMatchObject({ success: true, channelId: CHANNEL_ID });
+
+        const first = await backfill;
+        expect(channel.messages.fetch).toHaveBeenCalledWith({ limit: 50 });
+        expect(ids(first.messages)).toEqual(MESSAGE_IDS.slice(100));
+        expect(first).toMatchObject({ channelId: CHANNEL_ID, hasMore: true, nextCursor: MESSAGE_IDS[100] });
+
+        const second = await fetchHistory({ before: first.nextCursor!, limit: 80 });
+        if (!second.success) throw new Error(second.error);
+        expect(channel.messages.fetch).toHaveBeenLastCalledWith({ limit: 80, before: MESSAGE_IDS[100] });
+        expect(ids(second.messages)).toEqual(MESSAGE_IDS.slice(20, 100));
+        expect(second).toMatchObject({ hasMore: true, nextCursor: MESSAGE_IDS[20] });
+
+        // The oldest page comes up short, which ends the paging
+        const last = await fetchHistory({ before: second.nextCursor!, limit: 80 });
+        expect(last).toEqual({ success: true, channelId: CHANNEL_ID, messages: MESSAGE_IDS.slice(0, 20).map(makeMessage), hasMore: false });
+    });
+
+    test('should cap the page size', async () => {
+        expect(await fetchHistory({ limit: MAX_HISTORY_LIMIT + 1 })).toMatchObject({
+            success: false,
+            code: 'INVALID_PAYLOAD',
+            issues: [{ path: 'limit', message: `Must be at most ${MAX_HISTORY_LIMIT}` }]
+        });
+
+        // Callers that skip the socket schema, like forwarded cluster calls, are clamped instead
+        const page = await discordBot.fetchChannelHistory(CHANNEL_ID, { before: MESSAGE_IDS[149]!, limit: 500 });
+        expect(channel.messages.fetch).toHaveBeenLastCalledWith({ limit: MAX_HISTORY_LIMIT, before: MESSAGE_IDS[149] });
+        expect(page.messages).toHaveLength(MAX_HISTORY_LIMIT);
+    });
+
+    test('should refuse history of channels the user cannot see', async () => {
+        // Leave the channel joined by the first test, then lose View Channel
+        await new Promise(resolve => client.emit('leave_channel', { channelId: CHANNEL_ID }, resolve));
+        canView = false;
+
+        expect(await join()).toEqual({ success: false, code: 'MISSING_PERMISSION', error: 'You do not have access to this channel' });
+        expect(await fetchHistory({})).toEqual({ success: false, code: 'CHANNEL_NOT_JOINED', error: 'Channel not joined' });
+        expect(channel.messages.fetch).not.toHaveBeenCalled();
+    });
+});
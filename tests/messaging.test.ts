@@ -0,0 +1,540 @@
+import { createServer } from 'http';
+import type { AddressInfo } from 'net';
+import { ChannelType, Collection, RateLimitError } from 'discord.js';
+import { Server } from 'socket.io';
+import Client, { Socket as ClientSocket } from 'socket.io-client';
+import { setupDiscordNamespace } from '../src/namespaces/discordNamespace';
+import { DiscordBot } from '../src/services/discordBot.service';
+import { InMemorySessionStore, SessionService } from '../src/services/session.service';
+import { InMemoryMessageRepository } from '../src/utils/database';
+import { InMemoryRateLimitStore, RateLimiter } from '../src/utils/rateLimiter';
+import {
+    ClientToServerEvents,
+    DiscordMessage,
+    DiscordSocketData,
+    InterServerEvents,
+    ReactionClearEvent,
+    ReactionEvent,
+    ReactionResponse,
+    SendMessageResponse,
+    ServerToClientEvents
+} from '../src/types';
+
+const TEST_USER = {
+    discord_id: '200000000000000001',
+    username: 'alice',
+    email: 'alice@example.com',
+    is_bot: false,
+    created_at: '',
+    updated_at: ''
+};
+
+const BOT_ID = '200000000000000099';
+const SERVER_ID = '400000000000000001';
+const CHANNEL_ID = '300000000000000001';
+const WEBHOOK_ID = '600000000000000001';
+
+const makeMessage = (id: string, content: string): DiscordMessage => ({
+    id,
+    type: 'default',
+    system: false,
+    content,
+    author: { id: TEST_USER.discord_id, username: 'alice', bot: false },
+    timestamp: '2024-01-01T12:00:00.000Z',
+    channelId: CHANNEL_ID,
+    serverId: SERVER_ID,
+    attachments: [],
+    embeds: [],
+    reactions: [],
+    tokens: [{ type: 'text', text: content }],
+    stickers: [],
+    components: [],
+    edited: false
+});
+
+describe('Sending messages', () => {
+    const httpServer = createServer();
+    const io = new Server<ClientToServerEvents, ServerToClientEvents, InterServerEvents, DiscordSocketData>(httpServer);
+    const discordNamespace = io.of('/discord');
+    const discordBot = new DiscordBot(discordNamespace, new InMemoryMessageRepository());
+    const sessions = new SessionService(new InMemorySessionStore());
+    const rateLimiter = new RateLimiter(new InMemoryRateLimitStore(), { windowMs: 60000, maxRequests: 1000 });
+    let client: ClientSocket;
+
+    // Just enough of discord.js to post a message; the sender's and the bot's permissions are sets of flag names
+    const userPermissions = new Set<string>();
+    const botPermissions = new Set<string>();
+    const webhook = { id: WEBHOOK_ID, send: jest.fn() };
+    const member = { id: TEST_USER.discord_id, displayName: 'Alice A.', displayAvatarURL: () => 'https://cdn.example.com/alice.png' };
+    const guild = {
+        id: SERVER_ID,
+        name: 'Test Server',
+        members: {
+            me: { id: BOT_ID },
+            cache: new Map(),
+            fetch: async (id: string) => (id === member.id ? member : null)
+        }
+    };
+    const channel = {
+        id: CHANNEL_ID,
+        name: 'general',
+        type: ChannelType.GuildText,
+        guild,
+        guildId: SERVER_ID,
+        position: 0,
+        lastMessageId: null,
+        rateLimitPerUser: 0,
+        isDMBased: () => false,
+        isTextBased: () => true,
+        isThread: () => false,
+        isVoiceBased: () => false,
+        permissionsFor: ({ id }: { id: string }) => ({ has: (flag: string) => (id === BOT_ID ? botPermissions : userPermissions).has(flag) }),
+        fetchWebhooks: async () => new Collection(),
+        createWebhook: async () => webhook,
+        send: jest.fn()
+    };
+
+    const send = (content: string) =>
+        new Promise<SendMessageResponse>(resolve => client.emit('send_message', { channelId: CHANNEL_ID, content }, resolve));
+
+    beforeAll(async () => {
+        process.env['JWT_SECRET'] = process.env['JWT_SECRET'] || 'test-secret';
+        setupDiscordNamespace(discordNamespace, discordBot, sessions, rateLimiter);
+        await new Promise<void>(resolve => httpServer.listen(0, resolve));
+
+        const { accessToken } = await sessions.createSession(TEST_USER);
+        client = Client(`http://localhost:${(httpServer.address() as AddressInfo).port}/discord`, {
+            auth: { token: accessToken },
+            reconnection: false
+        });
+        await new Promise<void>(resolve => client.on('connect', () => resolve()));
+    });
+
+    beforeEach(() => {
+        userPermissions.clear();
+        ['ViewChannel', 'SendMessages'].forEach(flag => userPermissions.add(flag));
+        botPermissions.clear();
+        botPermissions.add('ManageWebhooks');
+        channel.rateLimitPerUser = 0;
+        discordBot['lastSentAt'].clear();
+        discordBot['bridgeWebhooks'].clear();
+
+        webhook.send.mockResolvedValue({ id: '100000000000000001' });
+        channel.send.mockResolvedValue({ id: '100000000000000002' });
+        jest.spyOn(discordBot['client'].channels, 'fetch').mockResolvedValue(channel as never);
+        jest.spyOn(discordBot as unknown as { formatMessage: (message: { id: string }) => Promise<DiscordMessage> }, 'formatMessage')
+            .mockImplementation(async ({ id }) => makeMessage(id, 'hello'));
+    });
+
+    afterAll(() => {
+        client.close();
+        io.close();
+        httpServer.close();
+    });
+
+    test('should post through the bridge webhook as the sender', async () => {
+        expect(await send('  hello  ')).toEqual({ success: true, message: makeMessage('100000000000000001', 'hello') });
+        expect(webhook.send).toHaveBeenCalledWith({
+            content: 'hello',
+            username: 'Alice A.',
+            avatarURL: 'https://cdn.example.com/alice.png',
+            allowedMentions: { parse: ['users'] }
+        });
+        expect(channel.send).not.toHaveBeenCalled();
+
+        // @everyone and role pings only go through for senders allowed to make them
+        userPermissions.add('MentionEveryone');
+        await send('@everyone hello');
+        expect(webhook.send).toHaveBeenLastCalledWith(expect.objectContaining({ allowedMentions: { parse: ['users', 'roles', 'everyone'] } }));
+    });
+
+    test('should fall back to posting as the bot with the sender\'s name without Manage Webhooks', async () => {
+        botPermissions.clear();
+
+        expect(await send('hello')).toEqual({ success: true, message: makeMessage('100000000000000002', 'hello') });
+        expect(channel.send).toHaveBeenCalledWith({ content: '**Alice A.**: hello', allowedMentions: { parse: ['users'] } });
+        expect(webhook.send).not.toHaveBeenCalled();
+    });
+
+    test('should refuse senders without View Channel or Send Messages', async () => {
+        const refused = {
+            success: false,
+            code: 'MISSING_PERMISSION',
+            error: 'You do not have permission to send messages in this channel'
+        };
+
+        userPermissions.delete('SendMessages');
+        expect(await send('hello')).toEqual(refused);
+
+        userPermissions.add('SendMessages');
+        userPermissions.delete('ViewChannel');
+        expect(await send('hello')).toEqual(refused);
+        expect(webhook.send).not.toHaveBeenCalled();
+
+        expect(await send('   ')).toMatchObject({ success: false, code: 'INVALID_CONTENT' });
+    });
+
+    test('should enforce slowmode per sender unless they can manage messages', async () => {
+        channel.rateLimitPerUser = 30;
+
+        expect(await send('first')).toMatchObject({ success: true });
+        const slowed = await send('second');
+        expect(slowed).toMatchObject({ success: false, code: 'SLOWMODE', error: 'Slowmode is enabled in this channel' });
+        expect(slowed.success === false && slowed.retryAfter).toBeGreaterThan(29000);
+        expect(webhook.send).toHaveBeenCalledTimes(1);
+
+        userPermissions.add('ManageMessages');
+        expect(await send('third')).toMatchObject({ success: true });
+        expect(webhook.send).toHaveBeenCalledTimes(2);
+    });
+
+    test('should report Discord rate limits with when to retry', async () => {
+        webhook.send.mockRejectedValue(new RateLimitError({
+            timeToReset: 2000,
+            limit: 5,
+            method: 'POST',
+            hash: 'hash',
+            url: `https://discord.com/api/webhooks/${WEBHOOK_ID}/token`,
+            route: '/webhooks/:id/:token',
+            majorParameter: WEBHOOK_ID,
+            global: false,
+            retryAfter: 2000,
+            sublimitTimeout: 0,
+            scope: 'user'
+        }));
+
+        expect(await send('hello')).toEqual({
+            success: false,
+            code: 'RATE_LIMITED',
+            error: 'Discord rate limit reached, try again shortly',
+            retryAfter: 2000
+        });
+    });
+
+    // Last, as it empties the user's bucket
+    test('should drop sends once the user\'s own rate limit is used up', async () => {
+        while ((await rateLimiter.consume(`user:${TEST_USER.discord_id}`)).allowed);
+        const limited = new Promise<{ retryAfter: number }>(resolve => client.once('rate_limited', resolve));
+
+        expect(await send('hello')).toMatchObject({ success: false, code: 'RATE_LIMITED', error: 'Rate limit exceeded' });
+        expect((await limited).retryAfter).toBeGreaterThan(0);
+        expect(webhook.send).not.toHaveBeenCalled();
+    });
+});
+
+describe('Typing indicators', () => {
+    const BOB = { ...TEST_USER, discord_id: '200000000000000002', username: 'bob', email: 'bob@example.com' };
+    const DISCORD_USER = { id: '200000000000000003', username: 'carol' };
+
+    const httpServer = createServer();
+    const io = new Server<ClientToServerEvents, ServerToClientEvents, InterServerEvents, DiscordSocketData>(httpServer);
+    const discordNamespace = io.of('/discord');
+    const discordBot = new DiscordBot(discordNamespace, new InMemoryMessageRepository());
+    const sessions = new SessionService(new InMemorySessionStore());
+    let alice: ClientSocket;
+    let bob: ClientSocket;
+
+    // A channel everyone may write in, unless `canWrite` is switched off
+    let canWrite = true;
+    const channel = {
+        id: CHANNEL_ID,
+        type: ChannelType.GuildText,
+        guild: { members: { fetch: async (id: string) => ({ id }) } },
+        isDMBased: () => false,
+        isTextBased: () => true,
+        isThread: () => false,
+        permissionsFor: () => ({ has: (flag: string) => flag === 'ViewChannel' || canWrite }),
+        sendTyping: jest.fn()
+    };
+
+    const next = <T>(client: ClientSocket, event: string) => new Promise<T>(resolve => client.once(event, resolve));
+
+    // Lets socket traffic through while timers are fake; only timers are faked, not I/O callbacks
+    const settle = async (condition: () => boolean = () => false) => {
+        for (let i = 0; i < 50 && !condition(); i++) {
+            await new Promise(resolve => setImmediate(resolve));
+        }
+    };
+
+    const connect = async (user: typeof TEST_USER) => {
+        const { accessToken } = await sessions.createSession(user);
+        const client = Client(`http://localhost:${(httpServer.address() as AddressInfo).port}/discord`, {
+            auth: { token: accessToken },
+            reconnection: false
+        });
+        await new Promise<void>(resolve => client.on('connect', () => resolve()));
+        expect(await new Promise(resolve => client.emit('join_channel', { channelId: CHANNEL_ID }, resolve))).toMatchObject({ success: true });
+        return client;
+    };
+
+    beforeAll(async () => {
+        process.env['JWT_SECRET'] = process.env['JWT_SECRET'] || 'test-secret';
+        jest.spyOn(discordBot, 'authorizeChannelAccess').mockResolvedValue();
+        jest.spyOn(discordBot, 'fetchChannelHistory').mockResolvedValue({ messages: [], hasMore: false });
+        setupDiscordNamespace(discordNamespace, discordBot, sessions);
+        await new Promise<void>(resolve => httpServer.listen(0, resolve));
+        alice = await connect(TEST_USER);
+        bob = await connect(BOB);
+    });
+
+    beforeEach(() => {
+        canWrite = true;
+        discordBot['lastTypingTriggeredAt'].clear();
+        jest.spyOn(discordBot['client'].channels, 'fetch').mockResolvedValue(channel as never);
+        channel.sendTyping.mockResolvedValue(undefined);
+    });
+
+    afterEach(() => {
+        jest.useRealTimers();
+    });
+
+    afterAll(() => {
+        alice.close();
+        bob.close();
+        io.close();
+        httpServer.close();
+    });
+
+    test('should relay web typing to the rest of the room and stop it after 10 s without an update', async () => {
+        const triggerTyping = jest.spyOn(discordBot, 'triggerTyping').mockResolvedValue(undefined);
+        const stops: unknown[] = [];
+        bob.on('typing_stop', data => stops.push(data));
+        const started = next(bob, 'typing_start');
+        jest.useFakeTimers({ doNotFake: ['nextTick', 'setImmediate', 'queueMicrotask'] });
+
+        alice.emit('typing', { channelId: CHANNEL_ID });
+        expect(await started).toEqual({ channelId: CHANNEL_ID, userId: TEST_USER.discord_id, username: 'alice' });
+        expect(triggerTyping).toHaveBeenCalledWith(CHANNEL_ID, TEST_USER.discord_id);
+
+        // Re-sent while typing: the indicator stays up and the 10 s start over
+        jest.advanceTimersByTime(6000);
+        alice.emit('typing', { channelId: CHANNEL_ID });
+        await settle(() => triggerTyping.mock.calls.length === 2);
+        jest.advanceTimersByTime(9999);
+        await settle();
+        expect(stops).toEqual([]);
+
+        jest.advanceTimersByTime(1);
+        await settle(() => stops.length > 0);
+        expect(stops).toEqual([{ channelId: CHANNEL_ID, userId: TEST_USER.discord_id }]);
+
+        // An explicit stop ends it at once
+        alice.emit('typing', { channelId: CHANNEL_ID });
+        alice.emit('typing', { channelId: CHANNEL_ID, isTyping: false });
+        await settle(() => stops.length > 1);
+        expect(stops).toHaveLength(2);
+        bob.off('typing_stop');
+    });
+
+    test('should bridge Discord typing into the room and expire it after 10 s', async () => {
+        const starts: unknown[] = [];
+        const stops: unknown[] = [];
+        bob.on('typing_start', data => starts.push(data));
+        bob.on('typing_stop', data => stops.push(data));
+        jest.useFakeTimers({ doNotFake: ['nextTick', 'setImmediate', 'queueMicrotask'] });
+
+        const typing = { channel: { id: CHANNEL_ID }, user: DISCORD_USER, member: { displayName: 'Carol C.' } };
+        await discordBot['handleTypingStart'](typing as never);
+        await settle(() => starts.length > 0);
+        expect(starts).toEqual([{ channelId: CHANNEL_ID, userId: DISCORD_USER.id, username: 'Carol C.' }]);
+
+        // Discord repeats the event every few seconds while the user types
+        jest.advanceTimersByTime(8000);
+        await discordBot['handleTypingStart'](typing as never);
+        jest.advanceTimersByTime(9999);
+        await settle();
+        expect(starts).toHaveLength(1);
+        expect(stops).toEqual([]);
+
+        jest.advanceTimersByTime(1);
+        await settle(() => stops.length > 0);
+        expect(stops).toEqual([{ channelId: CHANNEL_ID, userId: DISCORD_USER.id }]);
+
+        // Channels nobody watches are not bridged
+        await discordBot['handleTypingStart']({ ...typing, channel: { id: '300000000000000009' } } as never);
+        await settle();
+        expect(starts).toHaveLength(1);
+        bob.off('typing_start');
+        bob.off('typing_stop');
+    });
+
+    test('should show the bot typing in Discord at most every 8 s per channel', async () => {
+        jest.useFakeTimers({ doNotFake: ['nextTick', 'setImmediate', 'queueMicrotask'], now: Date.parse('2024-01-01T12:00:00.000Z') });
+
+        await discordBot.triggerTyping(CHANNEL_ID, TEST_USER.discord_id);
+        await discordBot.triggerTyping(CHANNEL_ID, BOB.discord_id);
+        expect(channel.sendTyping).toHaveBeenCalledTimes(1);
+
+        jest.advanceTimersByTime(7999);
+        await discordBot.triggerTyping(CHANNEL_ID, TEST_USER.discord_id);
+        expect(channel.sendTyping).toHaveBeenCalledTimes(1);
+
+        jest.advanceTimersByTime(1);
+        await discordBot.triggerTyping(CHANNEL_ID, TEST_USER.discord_id);
+        expect(channel.sendTyping).toHaveBeenCalledTimes(2);
+
+        // Users who cannot write do not make the bot type
+        jest.advanceTimersByTime(8000);
+        canWrite = false;
+        await discordBot.triggerTyping(CHANNEL_ID, TEST_USER.discord_id);
+        expect(channel.sendTyping).toHaveBeenCalledTimes(2);
+    });
+});
+
+describe('Reactions', () => {
+    const BOB = { ...TEST_USER, discord_id: '200000000000000002', username: 'bob', email: 'bob@example.com' };
+    const DISCORD_USERS = ['200000000000000003', '200000000000000004'];
+    const MESSAGE_ID = '100000000000000001';
+
+    const httpServer = createServer();
+    const io = new Server<ClientToServerEvents, ServerToClientEvents, InterServerEvents, DiscordSocketData>(httpServer);
+    const discordNamespace = io.of('/discord');
+    const discordBot = new DiscordBot(discordNamespace, new InMemoryMessageRepository());
+    const sessions = new SessionService(new InMemorySessionStore());
+    let alice: ClientSocket;
+    let bob: ClientSocket;
+
+    // Just enough of a discord.js reaction; removing a user updates the count like Discord would
+    const makeReaction = (name: string, options: { id?: string, count: number, users: string[], me?: boolean, partial?: boolean }) => {
+        const reaction = {
+            partial: options.partial ?? false,
+            me: options.me ?? false,
+            count: options.count,
+            emoji: { id: options.id ?? null, name, animated: false, imageURL: () => `https://cdn.discordapp.com/emojis/${options.id}.png` },
+            users: {
+                cache: new Map(options.users.map(id => [id, {}])),
+                remove: jest.fn(async (id: string) => {
+                    reaction.me = false;
+                    reaction.count -= 1;
+                    reaction.users.cache.delete(id);
+                })
+            },
+            message: { id: MESSAGE_ID, channelId: CHANNEL_ID, guildId: SERVER_ID, partial: true },
+            fetch: jest.fn()
+        };
+        return reaction;
+    };
+
+    const connect = async (user: typeof TEST_USER) => {
+        const { accessToken } = await sessions.createSession(user);
+        const client = Client(`http://localhost:${(httpServer.address() as AddressInfo).port}/discord`, {
+            auth: { token: accessToken },
+            reconnection: false
+        });
+        await new Promise<void>(resolve => client.on('connect', () => resolve()));
+        expect(await new Promise(resolve => client.emit('join_channel', { channelId: CHANNEL_ID }, resolve))).toMatchObject({ success: true });
+        return client;
+    };
+
+    const react = (client: ClientSocket, event: 'add_reaction' | 'remove_reaction') =>
+        new Promise<ReactionResponse>(resolve => client.emit(event, { channelId: CHANNEL_ID, messageId: MESSAGE_ID, emoji: '👍' }, resolve));
+
+    beforeAll(async () => {
+        process.env['JWT_SECRET'] = process.env['JWT_SECRET'] || 'test-secret';
+        jest.spyOn(discordBot, 'authorizeChannelAccess').mockResolvedValue();
+        jest.spyOn(discordBot, 'fetchChannelHistory').mockResolvedValue({ messages: [], hasMore: false });
+        discordBot['client'].user = { id: BOT_ID } as never;
+        setupDiscordNamespace(discordNamespace, discordBot, sessions);
+        await new Promise<void>(resolve => httpServer.listen(0, resolve));
+        alice = await connect(TEST_USER);
+        bob = await connect(BOB);
+    });
+
+    afterAll(() => {
+        alice.close();
+        bob.close();
+        io.close();
+        httpServer.close();
+    });
+
+    test('should stream reactions added and removed in Discord with their counts', async () => {
+        const added = new Promise<ReactionEvent>(resolve => bob.once('reaction_add', resolve));
+        await discordBot['handleReactionChange']('reaction_add', makeReaction('👍', { count: 2, users: DISCORD_USERS }) as never, { id: DISCORD_USERS[1] } as never);
+        expect(await added).toEqual({
+            channelId: CHANNEL_ID,
+            messageId: MESSAGE_ID,
+            userId: DISCORD_USERS[1],
+            reaction: { emoji: '👍', count: 2, users: DISCORD_USERS }
+        });
+
+        const removed = new Promise<ReactionEvent>(resolve => bob.once('reaction_remove', resolve));
+        await discordBot['handleReactionChange']('reaction_remove', makeReaction('👍', { count: 1, users: [DISCORD_USERS[0]!] }) as never, { id: DISCORD_USERS[1] } as never);
+        expect((await removed).reaction).toEqual({ emoji: '👍', count: 1, users: [DISCORD_USERS[0]] });
+    });
+
+    test('should fall back to the emoji alone when the last reaction is gone', async () => {
+        // The removed reaction arrives as a partial that Discord can no longer return
+        const reaction = makeReaction('party', { id: '700000000000000001', count: 0, users: [], partial: true });
+        reaction.fetch.mockRejectedValue(new Error('Unknown reaction'));
+
+        const removed = new Promise<ReactionEvent>(resolve => bob.once('reaction_remove', resolve));
+        await discordBot['handleReactionChange']('reaction_remove', reaction as never, { id: DISCORD_USERS[0] } as never);
+        expect(await removed).toEqual({
+            channelId: CHANNEL_ID,
+            messageId: MESSAGE_ID,
+            userId: DISCORD_USERS[0],
+            reaction: { emoji: 'party', emojiId: '700000000000000001', count: 0, users: [] }
+        });
+    });
+
+    test('should stream cleared reactions and archive the message without them', async () => {
+        const message = { id: MESSAGE_ID, channelId: CHANNEL_ID, guildId: SERVER_ID, partial: false };
+        const partial = { ...message, partial: true, fetch: jest.fn().mockResolvedValue(message) };
+        const archiveMessage = jest.spyOn(discordBot as unknown as { archiveMessage: (message: object) => Promise<null> }, 'archiveMessage')
+            .mockResolvedValue(null);
+        const publishWebhook = jest.spyOn(discordBot as unknown as { publishWebhook: (event: object) => void }, 'publishWebhook');
+
+        const cleared = new Promise<ReactionClearEvent>(resolve => bob.once('reaction_clear', resolve));
+        await discordBot['handleReactionClear'](message as never, '👍');
+        expect(await cleared).toEqual({ channelId: CHANNEL_ID, messageId: MESSAGE_ID, emoji: '👍' });
+        expect(archiveMessage).toHaveBeenLastCalledWith(message);
+        expect(publishWebhook).toHaveBeenCalledWith({
+            type: 'reaction_clear',
+            guildId: SERVER_ID,
+            channelId: CHANNEL_ID,
+            data: { channelId: CHANNEL_ID, messageId: MESSAGE_ID, emoji: '👍' }
+        });
+
+        // Clearing every reaction on a message sent before the bot started fetches it first
+        await discordBot['handleReactionClear'](partial as never);
+        expect(partial.fetch).toHaveBeenCalled();
+        expect(archiveMessage).toHaveBeenLastCalledWith(message);
+    });
+
+    test('should react on behalf of web users and count them in place of the bot', async () => {
+        let current: ReturnType<typeof makeReaction> | null = null;
+        const message = {
+            id: MESSAGE_ID,
+            inGuild: () => false,
+            reactions: { resolve: () => current },
+            react: jest.fn(async () => (current = makeReaction('👍', { count: 1, users: [BOT_ID], me: true })))
+        };
+        jest.spyOn(discordBot['client'].channels, 'fetch').mockResolvedValue({
+            id: CHANNEL_ID,
+            guildId: SERVER_ID,
+            guild: { members: { fetch: async (id: string) => ({ id }) } },
+            isDMBased: () => false,
+            isTextBased: () => true,
+            permissionsFor: () => ({ has: () => true }),
+            messages: { fetch: async () => message }
+        } as never);
+
+        const streamed = new Promise<ReactionEvent>(resolve => bob.once('reaction_add', resolve));
+        expect(await react(alice, 'add_reaction')).toEqual({ success: true, reaction: { emoji: '👍', count: 1, users: [TEST_USER.discord_id] } });
+        expect(await streamed).toMatchObject({ userId: TEST_USER.discord_id, reaction: { count: 1 } });
+
+        // The bot's one reaction stands for both web users
+        expect(await react(bob, 'add_reaction')).toEqual({
+            success: true,
+            reaction: { emoji: '👍', count: 2, users: [TEST_USER.discord_id, BOB.discord_id] }
+        });
+        expect(message.react).toHaveBeenCalledTimes(1);
+
+        expect(await react(alice, 'remove_reaction')).toEqual({ success: true, reaction: { emoji: '👍', count: 1, users: [BOB.discord_id] } });
+        expect(current!.users.remove).not.toHaveBeenCalled();
+
+        // The last web user leaving takes the bot's reaction away
+        expect(await react(bob, 'remove_reaction')).toEqual({ success: true, reaction: { emoji: '👍', count: 0, users: [] } });
+        expect(current!.users.remove).toHaveBeenCalledWith(BOT_ID);
+    });
+});
@@ -0,0 +1,44 @@
+import { PresenceTracker } from '../src/services/presence.service';
+import { LocalSubscriptionRegistry } from '../src/services/subscriptionRegistry.service';
+import { UserPresence } from '../src/types';
+
+describe('Presence tracking', () => {
+  test('should merge tabs into one status and mark silent clients away', async () => {
+    const published: Array<[string, UserPresence | null]> = [];
+    const tracker = new PresenceTracker((userId, presence) => { published.push([userId, presence]); }, { awayAfterMs: 1000 });
+
+    await tracker.track('socket-a', 'user-1', 'alice', 0);
+    await tracker.track('socket-b', 'user-1', 'alice', 0);
+    expect(published).toEqual([['user-1', { username: 'alice', status: 'online' }]]);
+
+    // One idle tab does not make the user idle while another is active
+    await tracker.heartbeat('socket-a', true, 500);
+    expect(published).toHaveLength(1);
+
+    await tracker.heartbeat('socket-b', true, 600);
+    expect(published[1]).toEqual(['user-1', { username: 'alice', status: 'idle' }]);
+
+    await tracker.sweep(1700);
+    expect(published[2]).toEqual(['user-1', { username: 'alice', status: 'away' }]);
+
+    await tracker.heartbeat('socket-a', false, 1800);
+    expect(published[3]).toEqual(['user-1', { username: 'alice', status: 'online' }]);
+
+    await tracker.untrack('socket-a', 1900);
+    await tracker.untrack('socket-b', 1900);
+    expect(published[published.length - 1]).toEqual(['user-1', null]);
+    tracker.stop();
+  });
+
+  test('should report only the first join and the last leave of a user', async () => {
+    const registry = new LocalSubscriptionRegistry();
+
+    expect(await registry.subscribe('channel-1', 'user-1')).toBe(true);
+    expect(await registry.subscribe('channel-1', 'user-1')).toBe(false);
+    expect(await registry.unsubscribe('channel-1', 'user-1')).toBe(false);
+    expect(await registry.unsubscribe('channel-1', 'user-1')).toBe(true);
+
+    // Leaving a channel that was never joined is not a leave
+    expect(await registry.unsubscribe('channel-1', 'user-1')).toBe(false);
+  });
+});
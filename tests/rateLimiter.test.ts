@@ -0,0 +1,55 @@
+import RedisMock from 'ioredis-mock';
+import type Redis from 'ioredis';
+import request from 'supertest';
+import express from 'express';
+import { InMemoryRateLimitStore, RateLimiter, RateLimitStore, RedisRateLimitStore } from '../src/utils/rateLimiter';
+import { rateLimitRequests } from '../src/middleware/rateLimit';
+
+const CONFIG = { windowMs: 1000, maxRequests: 4 };
+
+const stores: Array<[string, () => RateLimitStore]> = [
+  ['in-memory', () => new InMemoryRateLimitStore()],
+  ['redis', () => new RedisRateLimitStore(new RedisMock() as unknown as Redis)]
+];
+
+describe.each(stores)('Token bucket (%s store)', (_name, createStore) => {
+  test('should allow a burst up to capacity, then report when to retry', async () => {
+    const store = createStore();
+    const key = `user:${Math.random()}`;
+
+    for (let i = 0; i < 4; i++) {
+      expect((await store.consume(key, 1, CONFIG, 0)).allowed).toBe(true);
+    }
+
+    const limited = await store.consume(key, 1, CONFIG, 0);
+    expect(limited.allowed).toBe(false);
+    // One token refills every 250ms
+    expect(limited.retryAfter).toBe(250);
+  });
+
+  test('should refill over the window and charge weighted costs', async () => {
+    const store = createStore();
+    const key = `user:${Math.random()}`;
+
+    expect((await store.consume(key, 4, CONFIG, 0)).allowed).toBe(true);
+    expect((await store.consume(key, 2, CONFIG, 250)).allowed).toBe(false);
+    expect((await store.consume(key, 2, CONFIG, 500)).allowed).toBe(true);
+  });
+});
+
+describe('HTTP rate limiting', () => {
+  test('should answer 429 with Retry-After once the bucket is empty', async () => {
+    const limiter = new RateLimiter(new InMemoryRateLimitStore(), { windowMs: 60000, maxRequests: 2 });
+    const app = express();
+    app.use('/limited', rateLimitRequests(limiter), (_req, res) => { res.json({ ok: true }); });
+
+    await request(app).get('/limited').expect(200);
+    await request(app).get('/limited').expect(200);
+
+    const res = await request(app).get('/limited');
+    expect(res.status).toBe(429);
+    expect(res.headers['retry-after']).toBe('30');
+    expect(res.body.retryAfter).toBeGreaterThan(29000);
+    expect(res.body.retryAfter).toBeLessThanOrEqual(30000);
+  });
+});
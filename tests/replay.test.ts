@@ -0,0 +1,186 @@
+import { createServer } from 'http';
+import type { AddressInfo } from 'net';
+import RedisMock from 'ioredis-mock';
+import type Redis from 'ioredis';
+import { Server } from 'socket.io';
+import Client, { Socket as ClientSocket } from 'socket.io-client';
+import { setupDiscordNamespace } from '../src/namespaces/discordNamespace';
+import { OperationalError } from '../src/middleware/errorHandler';
+import { DiscordBot } from '../src/services/discordBot.service';
+import { InMemorySessionStore, SessionService } from '../src/services/session.service';
+import { InMemoryReplayStore, RedisReplayStore, ReplayBuffer, ReplayStore } from '../src/services/replayBuffer.service';
+import { InMemoryMessageRepository } from '../src/utils/database';
+import {
+    ClientToServerEvents,
+    DiscordMessage,
+    DiscordSocketData,
+    InterServerEvents,
+    JoinChannelResponse,
+    ResumeResponse,
+    ServerToClientEvents
+} from '../src/types';
+
+const TEST_USER = {
+    discord_id: '200000000000000001',
+    username: 'alice',
+    email: 'alice@example.com',
+    is_bot: false,
+    created_at: '',
+    updated_at: ''
+};
+
+const CONFIG = { size: 3, ttlMs: 60000 };
+
+const makeMessage = (id: string, channelId: string): DiscordMessage => ({
+    id,
+    type: 'default',
+    system: false,
+    content: `message ${id}`,
+    author: { id: TEST_USER.discord_id, username: 'alice', displayName: 'Alice', bot: false },
+    timestamp: '2024-01-01T12:00:00.000Z',
+    channelId,
+    serverId: '400000000000000001',
+    attachments: [],
+    embeds: [],
+    reactions: [],
+    tokens: [{ type: 'text', text: `message ${id}` }],
+    stickers: [],
+    components: [],
+    edited: false,
+    editedTimestamp: ''
+});
+
+const stores: Array<[string, () => ReplayStore]> = [
+    ['in-memory', () => new InMemoryReplayStore()],
+    ['redis', () => new RedisReplayStore(new RedisMock() as unknown as Redis)]
+];
+
+// Redis mocks share their data, so every test streams its own channel
+let channelCount = 0;
+const newChannelId = () => `3000000000000${String(++channelCount).padStart(5, '0')}`;
+
+describe.each(stores)('Replay buffer (%s store)', (_name, createStore) => {
+    test('should number events per channel and return the ones after a sequence number', async () => {
+        const store = createStore();
+        const channelId = newChannelId();
+        const start = await store.head(channelId, 5000);
+        expect(start).toBe(5000);
+
+        const first = await store.append(channelId, { event: 'message', data: makeMessage('100000000000000001', channelId) }, CONFIG, 5000);
+        const second = await store.append(channelId, { event: 'message_delete', data: { messageId: '100000000000000001', channelId } }, CONFIG, 5001);
+        expect(first.data.seq).toBe(start + 1);
+        expect(second).toEqual({ event: 'message_delete', data: { messageId: '100000000000000001', channelId, seq: start + 2 } });
+
+        // Another channel has its own counter
+        const other = newChannelId();
+        expect((await store.append(other, { event: 'message', data: makeMessage('100000000000000002', other) }, CONFIG, 5002)).data.seq).toBe(5003);
+
+        expect(await store.read(channelId, start, 5003)).toEqual({ seq: start + 2, events: [first, second] });
+        expect(await store.read(channelId, start + 1, 5003)).toEqual({ seq: start + 2, events: [second] });
+        expect(await store.read(channelId, start + 2, 5003)).toEqual({ seq: start + 2, events: [] });
+    });
+
+    test('should ask for a refetch once missed events were dropped or the counter is unknown', async () => {
+        const store = createStore();
+        const channelId = newChannelId();
+        const start = await store.head(channelId, 0);
+
+        for (let i = 1; i <= 5; i++) {
+            await store.append(channelId, { event: 'message_delete', data: { messageId: `10000000000000000${i}`, channelId } }, CONFIG, i);
+        }
+
+        // Only the last three are kept
+        expect((await store.read(channelId, start + 1, 10)).events).toBeNull();
+        expect((await store.read(channelId, start + 2, 10)).events?.map(entry => entry.data.seq)).toEqual([start + 3, start + 4, start + 5]);
+
+        // Numbers the channel never handed out, e.g. from before a restart
+        expect(await store.read(channelId, start + 50, 10)).toEqual({ seq: start + 5, events: null });
+    });
+
+    test('should keep channels retained for a while', async () => {
+        const store = createStore();
+        const channelId = newChannelId();
+
+        expect(await store.isRetained(channelId, 0)).toBe(false);
+        await store.retain(channelId, 60000, 0);
+        expect(await store.isRetained(channelId, 1000)).toBe(true);
+    });
+});
+
+describe('Socket resume', () => {
+    const httpServer = createServer();
+    const io = new Server<ClientToServerEvents, ServerToClientEvents, InterServerEvents, DiscordSocketData>(httpServer);
+    const discordNamespace = io.of('/discord');
+    const replay = new ReplayBuffer(new InMemoryReplayStore(), { size: 5, ttlMs: 60000 });
+    const discordBot = new DiscordBot(discordNamespace, new InMemoryMessageRepository(), { replay });
+    const sessions = new SessionService(new InMemorySessionStore());
+    const channelId = newChannelId();
+    let url: string;
+    let token: string;
+
+    const connect = async () => {
+        const client = Client(url, { auth: { token }, reconnection: false });
+        await new Promise<void>(resolve => client.on('connect', () => resolve()));
+        return client;
+    };
+
+    beforeAll(async () => {
+        process.env['JWT_SECRET'] = process.env['JWT_SECRET'] || 'test-secret';
+        setupDiscordNamespace(discordNamespace, discordBot, sessions);
+        await new Promise<void>(resolve => httpServer.listen(0, resolve));
+        url = `http://localhost:${(httpServer.address() as AddressInfo).port}/discord`;
+        token = (await sessions.createSession(TEST_USER)).accessToken;
+    });
+
+    afterAll(() => {
+        io.close();
+        httpServer.close();
+    });
+
+    test('should replay events missed while disconnected', async () => {
+        jest.spyOn(discordBot, 'authorizeChannelAccess').mockResolvedValue();
+        jest.spyOn(discordBot, 'fetchChannelHistory').mockResolvedValue({ messages: [], hasMore: false });
+
+        const first: ClientSocket = await connect();
+        const joined = await new Promise<JoinChannelResponse>(resolve => first.emit('join_channel', { channelId }, resolve));
+        if (!joined.success) throw new Error(joined.error);
+
+        first.disconnect();
+        await new Promise(resolve => setTimeout(resolve, 100));
+        expect(await replay.isRetained(channelId)).toBe(true);
+
+        // Events that happen while the client is away
+        await replay.append(channelId, { event: 'message', data: makeMessage('100000000000000001', channelId) });
+        await replay.append(channelId, { event: 'message_update', data: { ...makeMessage('100000000000000001', channelId), edited: true } });
+        await replay.append(channelId, { event: 'message_delete', data: { messageId: '100000000000000001', channelId } });
+
+        const second: ClientSocket = await connect();
+        const received: Array<[string, number]> = [];
+        second.on('message', (message: { seq: number }) => received.push(['message', message.seq]));
+        second.on('message_update', (message: { seq: number }) => received.push(['message_update', message.seq]));
+        second.on('message_delete', (data: { seq: number }) => received.push(['message_delete', data.seq]));
+
+        const resumed = await new Promise<ResumeResponse>(resolve =>
+            second.emit('resume', { channels: [{ channelId, lastSeq: joined.seq }] }, resolve));
+
+        expect(resumed).toEqual({ success: true, channels: [{ channelId, status: 'replayed', replayed: 3, seq: joined.seq + 3 }] });
+        expect(received).toEqual([['message', joined.seq + 1], ['message_update', joined.seq + 2], ['message_delete', joined.seq + 3]]);
+
+        // Far behind the buffer, or a channel the user lost access to
+        jest.spyOn(discordBot, 'authorizeChannelAccess')
+            .mockRejectedValueOnce(new OperationalError('MISSING_PERMISSION', 'You do not have access to this channel', { statusCode: 403 }));
+        const denied = newChannelId();
+        const behind = await new Promise<ResumeResponse>(resolve => second.emit('resume', {
+            channels: [{ channelId: denied, lastSeq: 0 }, { channelId, lastSeq: joined.seq - 10 }]
+        }, resolve));
+
+        expect(behind).toEqual({
+            success: true,
+            channels: [
+                { channelId: denied, status: 'failed', code: 'MISSING_PERMISSION', error: 'You do not have access to this channel' },
+                { channelId, status: 'refetch', seq: joined.seq + 3 }
+            ]
+        });
+        second.close();
+    });
+});
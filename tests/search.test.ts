@@ -0,0 +1,119 @@
+import request from 'supertest';
+import express from 'express';
+import { createSearchRouter } from '../src/routes/search.route';
+import { InMemorySessionStore, SessionService } from '../src/services/session.service';
+import { DiscordBot } from '../src/services/discordBot.service';
+import { InMemoryMessageRepository, toDatabaseMessage } from '../src/utils/database';
+import { DiscordChannel, DiscordMessage, DiscordNamespace } from '../src/types';
+
+const READABLE_CHANNEL = '300000000000000001';
+const HIDDEN_CHANNEL = '300000000000000002';
+
+const TEST_USER = {
+  discord_id: '200000000000000001',
+  username: 'alice',
+  email: 'alice@example.com',
+  is_bot: false,
+  created_at: '',
+  updated_at: ''
+};
+
+const makeMessage = (id: string, channelId: string, content: string, overrides: Partial<DiscordMessage> = {}): DiscordMessage => ({
+  id,
+  type: 'default',
+  system: false,
+  content,
+  author: { id: '200000000000000009', username: 'bob', bot: false },
+  timestamp: '2024-01-01T12:00:00.000Z',
+  channelId,
+  serverId: '400000000000000001',
+  attachments: [],
+  embeds: [],
+  reactions: [],
+  tokens: [{ type: 'text', text: content }],
+  stickers: [],
+  components: [],
+  edited: false,
+  editedTimestamp: '',
+  ...overrides
+});
+
+const channel = (id: string): DiscordChannel => ({
+  id,
+  name: 'general',
+  type: 'text',
+  serverId: '400000000000000001',
+  serverName: 'Test',
+  position: 0,
+  unreadCount: 0,
+  isActive: false,
+  permissions: { canRead: true, canWrite: true, canManage: false }
+});
+
+describe('Message search route', () => {
+  const repository = new InMemoryMessageRepository();
+  const discordBot = new DiscordBot({} as DiscordNamespace, repository);
+  const app = express();
+  const sessions = new SessionService(new InMemorySessionStore());
+  app.use('/api/search', createSearchRouter(discordBot, sessions));
+  let token: string;
+
+  beforeAll(async () => {
+    process.env['JWT_SECRET'] = process.env['JWT_SECRET'] || 'test-secret';
+    token = (await sessions.createSession(TEST_USER)).accessToken;
+
+    await repository.open();
+    await repository.saveMessage(toDatabaseMessage(makeMessage('100000000000000001', READABLE_CHANNEL, 'deploy link https://example.com/a')));
+    await repository.saveMessage(toDatabaseMessage(makeMessage('100000000000000002', READABLE_CHANNEL, 'another deploy link https://example.com/b')));
+    await repository.saveMessage(toDatabaseMessage(makeMessage('100000000000000003', READABLE_CHANNEL, 'lunch?')));
+    await repository.saveMessage(toDatabaseMessage(makeMessage('100000000000000004', HIDDEN_CHANNEL, 'secret deploy link')));
+  });
+
+  beforeEach(() => {
+    jest.spyOn(discordBot, 'getUserChannels').mockResolvedValue([channel(READABLE_CHANNEL)]);
+  });
+
+  test('should require authentication', async () => {
+    const res = await request(app).get('/api/search').query({ query: 'deploy' });
+    expect(res.status).toBe(401);
+  });
+
+  test('should only return matches from readable channels, newest first and paginated', async () => {
+    const first = await request(app)
+      .get('/api/search')
+      .set('Authorization', `Bearer ${token}`)
+      .query({ query: 'Deploy link', limit: 1 });
+
+    expect(first.status).toBe(200);
+    expect(first.body.messages.map((m: DiscordMessage) => m.id)).toEqual(['100000000000000002']);
+    expect(first.body.hasMore).toBe(true);
+
+    const second = await request(app)
+      .get('/api/search')
+      .set('Authorization', `Bearer ${token}`)
+      .query({ query: 'deploy link', limit: 1, cursor: first.body.nextCursor });
+
+    expect(second.body.messages.map((m: DiscordMessage) => m.id)).toEqual(['100000000000000001']);
+    expect(second.body.hasMore).toBe(false);
+  });
+
+  test('should return nothing for a channel the caller cannot read', async () => {
+    const res = await request(app)
+      .get('/api/search')
+      .set('Authorization', `Bearer ${token}`)
+      .query({ channelId: HIDDEN_CHANNEL });
+
+    expect(res.status).toBe(200);
+    expect(res.body.messages).toEqual([]);
+  });
+
+  test('should reject malformed filters', async () => {
+    const res = await request(app)
+      .get('/api/search')
+      .set('Authorization', `Bearer ${token}`)
+      .query({ after: 'yesterday' });
+
+    expect(res.status).toBe(400);
+    expect(res.body.code).toBe('INVALID_QUERY');
+  });
+});
@@ -3,9 +3,19 @@ import { createServer, Server as HttpServer } from "http";
 import Client, { Socket as ClientSocket } from "socket.io-client";
 import { Server } from "socket.io";
 import { setupDiscordNamespace } from "../src/namespaces/discordNamespace";
-import { generateToken } from "../src/middleware/discordAuth";
+import { InMemorySessionStore, SessionService } from "../src/services/session.service";
 import { DiscordBot } from "../src/services/discordBot.service";
-import { DiscordChannel, GetChannelsResponse, LeaveChannelResponse } from "../src/types";
+import {
+  ClientToServerEvents,
+  DiscordChannel,
+  DiscordSocketData,
+  FetchHistoryResponse,
+  GetChannelsResponse,
+  InterServerEvents,
+  JoinChannelResponse,
+  LeaveChannelResponse,
+  ServerToClientEvents
+} from "../src/types";
 
 const TEST_USER = {
   discord_id: process.env['DISCORD_CLIENT_ID'] || '',
@@ -18,7 +28,7 @@ const TEST_USER = {
 const GENERAL_CHANNEL_ID = process.env['DISCORD_GENERAL_CHANNEL']
 
 describe('Discord Socket.IO Server ', () => {
-  let io: Server;
+  let io: Server<ClientToServerEvents, ServerToClientEvents, InterServerEvents, DiscordSocketData>;
   let clientSocket: ClientSocket;
   let httpServer: HttpServer;
   let port: number;
@@ -27,7 +37,7 @@ describe('Discord Socket.IO Server ', () => {
     try {
 
       httpServer = createServer();
-      io = new Server(httpServer);
+      io = new Server<ClientToServerEvents, ServerToClientEvents, InterServerEvents, DiscordSocketData>(httpServer);
       const discordNamespace = io.of('/discord')
       // Initialize Discord bot with the real io instance
       const discordBot = new DiscordBot(discordNamespace)
@@ -38,8 +48,9 @@ describe('Discord Socket.IO Server ', () => {
         await discordBot.initialize(botToken);
         console.log('✅ Discord bot initialized');
       }
-      setupDiscordNamespace(discordNamespace, discordBot);
-      const token = generateToken(TEST_USER);
+      const sessions = new SessionService(new InMemorySessionStore());
+      setupDiscordNamespace(discordNamespace, discordBot, sessions);
+      const { accessToken: token } = await sessions.createSession(TEST_USER);
       await new Promise<void>(resolve => {
         httpServer.listen(() => {
           const address = httpServer.address();
@@ -67,6 +78,7 @@ describe('Discord Socket.IO Server ', () => {
     clientSocket.emit('get_channels', (response: GetChannelsResponse) => {
       expect(response).toBeDefined();
       expect(response.success).toBe(true);
+      if (!response.success) return done(new Error(response.error));
       // Check that general is in the list
       const found = response.channels.some((ch: DiscordChannel) => ch.id === GENERAL_CHANNEL_ID);
       expect(found).toBe(true);
@@ -75,18 +87,32 @@ describe('Discord Socket.IO Server ', () => {
   });
 
   test('should join general channel', (done) => {
-    clientSocket.emit('join_channel', { channelId: GENERAL_CHANNEL_ID }, (response: LeaveChannelResponse) => {
+    clientSocket.emit('join_channel', { channelId: GENERAL_CHANNEL_ID }, (response: JoinChannelResponse) => {
       expect(response).toBeDefined();
       expect(response.success).toBe(true);
+      if (!response.success) return done(new Error(response.error));
       expect(response.channelId).toBe(GENERAL_CHANNEL_ID);
       done();
     });
   });
 
+  test('should fetch general channel history', (done) => {
+    clientSocket.emit('fetch_history', { channelId: GENERAL_CHANNEL_ID, limit: 5 }, (response: FetchHistoryResponse) => {
+      expect(response).toBeDefined();
+      expect(response.success).toBe(true);
+      if (!response.success) return done(new Error(response.error));
+      expect(response.channelId).toBe(GENERAL_CHANNEL_ID);
+      expect(response.messages.length).toBeLessThanOrEqual(5);
+      if (response.hasMore) expect(response.nextCursor).toBeDefined();
+      done();
+    });
+  });
+
   test('should leave general channel', (done) => {
     clientSocket.emit('leave_channel', { channelId: GENERAL_CHANNEL_ID }, (response: LeaveChannelResponse) => {
       expect(response).toBeDefined();
       expect(response.success).toBe(true);
+      if (!response.success) return done(new Error(response.error));
       expect(response.channelId).toBe(GENERAL_CHANNEL_ID);
       done()
     })
@@ -0,0 +1,244 @@
+import { createServer } from 'http';
+import type { AddressInfo } from 'net';
+import { ChannelType, Collection } from 'discord.js';
+import { Server } from 'socket.io';
+import Client, { Socket as ClientSocket } from 'socket.io-client';
+import { setupDiscordNamespace } from '../src/namespaces/discordNamespace';
+import { DiscordBot } from '../src/services/discordBot.service';
+import { InMemorySessionStore, SessionService } from '../src/services/session.service';
+import { InMemoryMessageRepository } from '../src/utils/database';
+import {
+    ClientToServerEvents,
+    DiscordSocketData,
+    InterServerEvents,
+    JoinChannelResponse,
+    ListThreadsRequest,
+    ListThreadsResponse,
+    ServerToClientEvents
+} from '../src/types';
+
+const TEST_USER = {
+    discord_id: '200000000000000001',
+    username: 'alice',
+    email: 'alice@example.com',
+    is_bot: false,
+    created_at: '',
+    updated_at: ''
+};
+
+const SERVER_ID = '400000000000000001';
+const PARENT_ID = '300000000000000001';
+const VOICE_ID = '300000000000000002';
+const RELEASES_ID = '310000000000000001';
+const PLANNING_ID = '310000000000000002';
+const INCIDENT_ID = '310000000000000003';
+const OLD_ID = '310000000000000004';
+const HIDDEN_OLD_ID = '310000000000000005';
+const SECRET_OLD_ID = '310000000000000006';
+const CLOSED_OLD_ID = '310000000000000007';
+const BOT_ID = '200000000000000009';
+
+describe('Threads', () => {
+    const httpServer = createServer();
+    const io = new Server<ClientToServerEvents, ServerToClientEvents, InterServerEvents, DiscordSocketData>(httpServer);
+    const discordNamespace = io.of('/discord');
+    const discordBot = new DiscordBot(discordNamespace, new InMemoryMessageRepository());
+    const sessions = new SessionService(new InMemorySessionStore());
+    let client: ClientSocket;
+
+    // Just enough of discord.js to list and join threads; `hidden` channels lack View Channel, `moderator` adds Manage Threads
+    // for the user, and the bot has every permission once it is `me`
+    const hidden = new Set<string>();
+    let moderator = false;
+    const guild = {
+        id: SERVER_ID,
+        name: 'Test Server',
+        members: { me: null as { id: string } | null, fetch: async (id: string) => ({ id }) }
+    };
+    const permissionsFor = (channelId: string) => ({ id }: { id: string }) => ({
+        has: (flag: string) => id === BOT_ID || (flag === 'ViewChannel' ? !hidden.has(channelId) : flag === 'ManageThreads' ? moderator : true)
+    });
+    const baseChannel = (id: string, name: string, type: ChannelType) => ({
+        id,
+        name,
+        type,
+        guild,
+        guildId: SERVER_ID,
+        position: 0,
+        lastMessageId: null,
+        isDMBased: () => false,
+        isVoiceBased: () => type === ChannelType.GuildVoice,
+        isTextBased: () => true,
+        isThreadOnly: () => false,
+        permissionsFor: permissionsFor(id)
+    });
+
+    const parent = {
+        ...baseChannel(PARENT_ID, 'general', ChannelType.GuildText),
+        isThread: () => false,
+        threads: { fetchActive: jest.fn(), fetchArchived: jest.fn() }
+    };
+    // `memberIds` are cached thread members, `fetchableIds` are only found by fetching (as for archived threads)
+    const makeThread = (
+        id: string,
+        name: string,
+        options: { private?: boolean, memberIds?: string[], fetchableIds?: string[], archivedAt?: string } = {}
+    ) => {
+        const cache = new Map<string, object>((options.memberIds ?? []).map(memberId => [memberId, {}]));
+        const fetch = async ({ member }: { member: string }) => {
+            if (!options.fetchableIds?.includes(member)) throw new Error('Unknown Member');
+            cache.set(member, {});
+        };
+        return {
+            ...baseChannel(id, name, options.private ? ChannelType.PrivateThread : ChannelType.PublicThread),
+            isThread: () => true,
+            parent,
+            parentId: PARENT_ID,
+            members: { cache, fetch },
+        archived: !!options.archivedAt,
+        archivedAt: options.archivedAt ? new Date(options.archivedAt) : null,
+        locked: false,
+        ownerId: '200000000000000002',
+        messageCount: 3,
+            appliedTags: [],
+            createdAt: new Date('2024-01-01T12:00:00.000Z')
+        };
+    };
+
+    const releases = makeThread(RELEASES_ID, 'release-notes');
+    const planning = makeThread(PLANNING_ID, 'planning', { private: true, memberIds: [TEST_USER.discord_id] });
+    const incident = makeThread(INCIDENT_ID, 'incident', { private: true });
+    const old = makeThread(OLD_ID, 'old-release', { archivedAt: '2024-01-03T12:00:00.000Z' });
+    const hiddenOld = makeThread(HIDDEN_OLD_ID, 'old-secret', { archivedAt: '2024-01-02T12:00:00.000Z' });
+    const secretOld = makeThread(SECRET_OLD_ID, 'old-planning', {
+        private: true,
+        fetchableIds: [TEST_USER.discord_id],
+        archivedAt: '2024-01-04T12:00:00.000Z'
+    });
+    const closedOld = makeThread(CLOSED_OLD_ID, 'old-incident', { private: true, archivedAt: '2024-01-01T12:00:00.000Z' });
+    const channels = new Map<string, unknown>([
+        [PARENT_ID, parent],
+        [VOICE_ID, { ...baseChannel(VOICE_ID, 'lounge', ChannelType.GuildVoice), isThread: () => false }],
+        ...[releases, planning, incident, old, hiddenOld, secretOld, closedOld].map(thread => [thread.id, thread] as [string, unknown])
+    ]);
+
+    const listThreads = (request: ListThreadsRequest) =>
+        new Promise<ListThreadsResponse>(resolve => client.emit('list_threads', request, resolve));
+    const join = (channelId: string) =>
+        new Promise<JoinChannelResponse>(resolve => client.emit('join_channel', { channelId }, resolve));
+
+    beforeAll(async () => {
+        process.env['JWT_SECRET'] = process.env['JWT_SECRET'] || 'test-secret';
+        setupDiscordNamespace(discordNamespace, discordBot, sessions);
+        await new Promise<void>(resolve => httpServer.listen(0, resolve));
+
+        const { accessToken } = await sessions.createSession(TEST_USER);
+        client = Client(`http://localhost:${(httpServer.address() as AddressInfo).port}/discord`, {
+            auth: { token: accessToken },
+            reconnection: false
+        });
+        await new Promise<void>(resolve => client.on('connect', () => resolve()));
+    });
+
+    beforeEach(() => {
+        hidden.clear();
+        hidden.add(HIDDEN_OLD_ID);
+        moderator = false;
+        guild.members.me = null;
+        secretOld.members.cache.clear();
+        jest.spyOn(discordBot['client'].channels, 'fetch').mockImplementation((async (id: string) => channels.get(id) ?? null) as never);
+        jest.spyOn(discordBot, 'fetchChannelHistory').mockResolvedValue({ messages: [], hasMore: false });
+        parent.threads.fetchActive.mockResolvedValue({ threads: new Collection([releases, planning, incident].map(thread => [thread.id, thread])) });
+        parent.threads.fetchArchived.mockResolvedValue({ threads: new Collection([old, hiddenOld].map(thread => [thread.id, thread])), hasMore: true });
+    });
+
+    afterAll(() => {
+        client.close();
+        io.close();
+        httpServer.close();
+    });
+
+    test('should list the active threads the user can see', async () => {
+        const response = await listThreads({ channelId: PARENT_ID });
+        if (!response.success) throw new Error(response.error);
+
+        expect(response).toMatchObject({ channelId: PARENT_ID, hasMore: false });
+        expect(response.threads).toEqual([
+            expect.objectContaining({
+                id: RELEASES_ID,
+                name: 'release-notes',
+                type: 'thread',
+                parentId: PARENT_ID,
+                thread: { archived: false, locked: false, private: false, forumPost: false, ownerId: '200000000000000002', messageCount: 3, createdAt: '2024-01-01T12:00:00.000Z' }
+            }),
+            // Private threads only for their members
+            expect.objectContaining({ id: PLANNING_ID, thread: expect.objectContaining({ private: true }) })
+        ]);
+
+        // Thread moderators see every private thread
+        moderator = true;
+        const moderated = await listThreads({ channelId: PARENT_ID });
+        expect(moderated.success && moderated.threads.map(thread => thread.id)).toEqual([RELEASES_ID, PLANNING_ID, INCIDENT_ID]);
+    });
+
+    test('should page archived threads by archive time, keeping the cursor past hidden ones', async () => {
+        const first = await listThreads({ channelId: PARENT_ID, archived: true, limit: 2 });
+        expect(parent.threads.fetchArchived).toHaveBeenCalledWith({ type: 'public', limit: 2 });
+        expect(first).toMatchObject({
+            success: true,
+            threads: [{ id: OLD_ID, thread: { archived: true, archivedAt: '2024-01-03T12:00:00.000Z' } }],
+            hasMore: true,
+            nextCursor: '2024-01-02T12:00:00.000Z'
+        });
+
+        parent.threads.fetchArchived.mockResolvedValue({ threads: new Collection(), hasMore: false });
+        const last = await listThreads({ channelId: PARENT_ID, archived: true, limit: 2, before: '2024-01-02T12:00:00.000Z' });
+        expect(parent.threads.fetchArchived).toHaveBeenLastCalledWith({ type: 'public', limit: 2, before: '2024-01-02T12:00:00.000Z' });
+        expect(last).toEqual({ success: true, channelId: PARENT_ID, threads: [], hasMore: false });
+    });
+
+    test('should merge archived private threads the user is in, or all of them for thread moderators', async () => {
+        guild.members.me = { id: BOT_ID };
+        parent.threads.fetchArchived.mockImplementation(async ({ type }: { type: string }) => ({
+            threads: new Collection((type === 'private' ? [secretOld, closedOld] : [old, hiddenOld]).map(thread => [thread.id, thread])),
+            hasMore: false
+        }));
+
+        const response = await listThreads({ channelId: PARENT_ID, archived: true, limit: 4 });
+        expect(parent.threads.fetchArchived).toHaveBeenCalledWith({ type: 'private', fetchAll: true, limit: 4 });
+        expect(response).toMatchObject({ success: true, threads: [{ id: SECRET_OLD_ID }, { id: OLD_ID }], hasMore: false });
+
+        moderator = true;
+        const moderated = await listThreads({ channelId: PARENT_ID, archived: true, limit: 4 });
+        expect(moderated).toMatchObject({ success: true, threads: [{ id: SECRET_OLD_ID }, { id: OLD_ID }, { id: CLOSED_OLD_ID }] });
+
+        // A page cut short by the merge still has more to come
+        const short = await listThreads({ channelId: PARENT_ID, archived: true, limit: 2 });
+        expect(short).toMatchObject({ success: true, hasMore: true, nextCursor: '2024-01-03T12:00:00.000Z' });
+    });
+
+    test('should refuse to list threads of hidden channels or channels without threads', async () => {
+        expect(await listThreads({ channelId: VOICE_ID })).toEqual({ success: false, code: 'INVALID_CHANNEL', error: 'This channel has no threads' });
+
+        hidden.add(PARENT_ID);
+        expect(await listThreads({ channelId: PARENT_ID })).toEqual({
+            success: false,
+            code: 'MISSING_PERMISSION',
+            error: 'You do not have access to this channel'
+        });
+        expect(parent.threads.fetchActive).not.toHaveBeenCalled();
+    });
+
+    test('should join threads the user can see and refuse private ones they are not in', async () => {
+        expect(await join(RELEASES_ID)).toMatchObject({ success: true, channelId: RELEASES_ID });
+        expect(await join(PLANNING_ID)).toMatchObject({ success: true, channelId: PLANNING_ID });
+        expect(await join(INCIDENT_ID)).toEqual({
+            success: false,
+            code: 'MISSING_PERMISSION',
+            error: 'You do not have access to this channel'
+        });
+
+        moderator = true;
+        expect(await join(INCIDENT_ID)).toMatchObject({ success: true, channelId: INCIDENT_ID });
+    });
+});
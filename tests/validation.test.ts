@@ -0,0 +1,150 @@
+import { createServer } from 'http';
+import type { AddressInfo } from 'net';
+import { Server } from 'socket.io';
+import Client, { Socket as ClientSocket } from 'socket.io-client';
+import { setupDiscordNamespace } from '../src/namespaces/discordNamespace';
+import { CLIENT_EVENT_SCHEMAS } from '../src/middleware/validation';
+import { OperationalError } from '../src/middleware/errorHandler';
+import { DiscordBot } from '../src/services/discordBot.service';
+import { InMemorySessionStore, SessionService } from '../src/services/session.service';
+import { InMemoryMessageRepository } from '../src/utils/database';
+import {
+    ClientToServerEvents,
+    DiscordSocketData,
+    InterServerEvents,
+    ServerToClientEvents,
+    SocketErrorAck,
+    SocketErrorEvent
+} from '../src/types';
+
+const TEST_USER = {
+    discord_id: '200000000000000001',
+    username: 'alice',
+    email: 'alice@example.com',
+    is_bot: false,
+    created_at: '',
+    updated_at: ''
+};
+
+const CHANNEL_ID = '300000000000000001';
+
+describe('Socket payload schemas', () => {
+    test('should report every invalid property', () => {
+        const result = CLIENT_EVENT_SCHEMAS.fetch_history!.validate({ channelId: 'general', limit: 500 });
+        expect(result).toEqual({
+            ok: false,
+            issues: [
+                { path: 'channelId', message: 'Expected a Discord ID' },
+                { path: 'limit', message: 'Must be at most 100' }
+            ]
+        });
+
+        expect(CLIENT_EVENT_SCHEMAS.add_reaction!.validate({ channelId: CHANNEL_ID, emoji: '' })).toEqual({
+            ok: false,
+            issues: [
+                { path: 'messageId', message: 'Required' },
+                { path: 'emoji', message: 'Must not be empty' }
+            ]
+        });
+        expect(CLIENT_EVENT_SCHEMAS.mark_read!.validate(null)).toEqual({ ok: false, issues: [{ path: '(payload)', message: 'Expected an object' }] });
+    });
+
+    test('should drop unknown properties and leave out absent optional ones', () => {
+        expect(CLIENT_EVENT_SCHEMAS.search_messages!.validate({ query: 'hello', hasAttachment: false, admin: true })).toEqual({
+            ok: true,
+            value: { query: 'hello', hasAttachment: false }
+        });
+    });
+});
+
+describe('Socket payload validation', () => {
+    const httpServer = createServer();
+    const io = new Server<ClientToServerEvents, ServerToClientEvents, InterServerEvents, DiscordSocketData>(httpServer);
+    const discordNamespace = io.of('/discord');
+    const discordBot = new DiscordBot(discordNamespace, new InMemoryMessageRepository());
+    const sessions = new SessionService(new InMemorySessionStore());
+    let client: ClientSocket;
+
+    // Emitting with an ack; payloads are untyped here so malformed ones can be sent
+    const emit = <T = SocketErrorAck>(event: string, ...args: unknown[]) =>
+        new Promise<T>(resolve => client.emit(event, ...args, resolve));
+
+    beforeAll(async () => {
+        process.env['JWT_SECRET'] = process.env['JWT_SECRET'] || 'test-secret';
+        setupDiscordNamespace(discordNamespace, discordBot, sessions);
+        await new Promise<void>(resolve => httpServer.listen(0, resolve));
+
+        const { accessToken } = await sessions.createSession(TEST_USER);
+        client = Client(`http://localhost:${(httpServer.address() as AddressInfo).port}/discord`, {
+            auth: { token: accessToken },
+            reconnection: false
+        });
+        await new Promise<void>(resolve => client.on('connect', () => resolve()));
+    });
+
+    afterAll(() => {
+        client.close();
+        io.close();
+        httpServer.close();
+    });
+
+    test('should reject malformed payloads with the failing fields', async () => {
+        const authorize = jest.spyOn(discordBot, 'authorizeChannelAccess');
+
+        expect(await emit('join_channel', { channelId: 'general' })).toEqual({
+            success: false,
+            code: 'INVALID_PAYLOAD',
+            error: 'Invalid `join_channel` payload',
+            issues: [{ path: 'channelId', message: 'Expected a Discord ID' }]
+        });
+        expect(authorize).not.toHaveBeenCalled();
+
+        // A payload-taking event sent with only an ack is validated as an empty payload
+        expect(await emit('send_message')).toMatchObject({
+            code: 'INVALID_PAYLOAD',
+            issues: [{ path: 'channelId', message: 'Required' }, { path: 'content', message: 'Required' }]
+        });
+    });
+
+    test('should reject unknown events', async () => {
+        expect(await emit('delete_everything', {})).toEqual({
+            success: false,
+            code: 'UNKNOWN_EVENT',
+            error: 'Unknown event `delete_everything`'
+        });
+    });
+
+    test('should report invalid payloads without an ack on the error event', async () => {
+        const error = new Promise<SocketErrorEvent>(resolve => client.once('error', resolve));
+        client.emit('typing', { channelId: 42 });
+
+        expect(await error).toEqual({ code: 'INVALID_PAYLOAD', message: 'Invalid `typing` payload', severity: 'LOW' });
+    });
+
+    test('should hand handlers the validated payload', async () => {
+        const search = jest.spyOn(discordBot, 'searchMessages').mockResolvedValue({ messages: [], hasMore: false });
+
+        expect(await emit('search_messages', { query: 'hello', limit: 10, admin: true })).toEqual({ success: true, messages: [], hasMore: false });
+        expect(search).toHaveBeenCalledWith(TEST_USER.discord_id, { query: 'hello', limit: 10 });
+    });
+
+    test('should answer handler failures with a uniform error ack', async () => {
+        jest.spyOn(discordBot, 'searchMessages')
+            .mockRejectedValueOnce(new OperationalError('MISSING_PERMISSION', 'You do not have access to this channel', { statusCode: 403 }))
+            .mockRejectedValueOnce(new Error('Archive offline'));
+        jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+        expect(await emit('search_messages', { channelId: CHANNEL_ID })).toEqual({
+            success: false,
+            code: 'MISSING_PERMISSION',
+            error: 'You do not have access to this channel'
+        });
+        expect(await emit('search_messages', {})).toEqual({ success: false, code: 'INTERNAL_ERROR', error: 'Failed to search messages' });
+
+        expect(await emit('get_presence', { channelId: CHANNEL_ID })).toEqual({
+            success: false,
+            code: 'CHANNEL_NOT_JOINED',
+            error: 'Channel not joined'
+        });
+    });
+});
@@ -0,0 +1,151 @@
+import { createServer } from 'http';
+import type { AddressInfo } from 'net';
+import { ChannelType } from 'discord.js';
+import { Server } from 'socket.io';
+import Client, { Socket as ClientSocket } from 'socket.io-client';
+import { setupDiscordNamespace } from '../src/namespaces/discordNamespace';
+import { DiscordBot } from '../src/services/discordBot.service';
+import { InMemorySessionStore, SessionService } from '../src/services/session.service';
+import { InMemoryMessageRepository } from '../src/utils/database';
+import {
+    ClientToServerEvents,
+    DiscordSocketData,
+    InterServerEvents,
+    ServerToClientEvents,
+    VoiceStateEvent
+} from '../src/types';
+
+const users = [
+    { discord_id: '200000000000000001', username: 'alice', email: 'alice@example.com', is_bot: false, created_at: '', updated_at: '' },
+    { discord_id: '200000000000000002', username: 'bob', email: 'bob@example.com', is_bot: false, created_at: '', updated_at: '' }
+];
+const [alice, bob] = users as [typeof users[number], typeof users[number]];
+
+const SERVER_ID = '400000000000000001';
+const LOUNGE_ID = '300000000000000001';
+const STAFF_ID = '300000000000000002';
+const CAROL_ID = '200000000000000003';
+
+describe('Voice channels', () => {
+    const httpServer = createServer();
+    const io = new Server<ClientToServerEvents, ServerToClientEvents, InterServerEvents, DiscordSocketData>(httpServer);
+    const discordNamespace = io.of('/discord');
+    const discordBot = new DiscordBot(discordNamespace, new InMemoryMessageRepository());
+    const sessions = new SessionService(new InMemorySessionStore());
+    const clients: Record<string, ClientSocket> = {};
+
+    // Just enough of discord.js for occupancy and visibility; the staff channel is hidden from bob
+    const guild = {
+        id: SERVER_ID,
+        name: 'Test Server',
+        members: {
+            cache: new Map(users.map(user => [user.discord_id, { id: user.discord_id }])),
+            fetch: async (id: string) => guild.members.cache.get(id) ?? null
+        }
+    };
+    const makeVoiceChannel = (id: string, name: string, canView: (userId: string) => boolean) => ({
+        id,
+        name,
+        type: ChannelType.GuildVoice,
+        guild,
+        guildId: SERVER_ID,
+        position: 0,
+        lastMessageId: null,
+        members: new Map<string, { voice: unknown }>(),
+        isThread: () => false,
+        isVoiceBased: () => true,
+        isTextBased: () => true,
+        isDMBased: () => false,
+        permissionsFor: ({ id: userId }: { id: string }) => ({ has: () => canView(userId) })
+    });
+    const lounge = makeVoiceChannel(LOUNGE_ID, 'lounge', () => true);
+    const staff = makeVoiceChannel(STAFF_ID, 'staff', userId => userId !== bob.discord_id);
+
+    const carol = { user: { username: 'carol' }, displayName: 'Carol', displayAvatarURL: () => 'https://cdn.example.com/carol.png' };
+    const voiceState = (channel: typeof lounge | null, state: { selfMute?: boolean } = {}) =>
+        ({ id: CAROL_ID, channelId: channel?.id ?? null, channel, member: carol, ...state });
+    const participant = (state: { selfMute?: boolean } = {}) => ({
+        id: CAROL_ID,
+        username: 'carol',
+        displayName: 'Carol',
+        avatar: 'https://cdn.example.com/carol.png',
+        selfMute: !!state.selfMute,
+        selfDeaf: false,
+        serverMute: false,
+        serverDeaf: false,
+        streaming: false,
+        video: false,
+        suppressed: false
+    });
+
+    // The voice events each user receives within a short wait
+    const collect = async (oldState: ReturnType<typeof voiceState>, newState: ReturnType<typeof voiceState>) => {
+        const received: Record<string, VoiceStateEvent[]> = { [alice.discord_id]: [], [bob.discord_id]: [] };
+        for (const [userId, client] of Object.entries(clients)) client.on('voice_state_update', event => received[userId]!.push(event));
+        await discordBot['handleVoiceStateUpdate'](oldState as never, newState as never);
+        await new Promise(resolve => setTimeout(resolve, 50));
+        for (const client of Object.values(clients)) client.off('voice_state_update');
+        return received;
+    };
+
+    beforeAll(async () => {
+        process.env['JWT_SECRET'] = process.env['JWT_SECRET'] || 'test-secret';
+        setupDiscordNamespace(discordNamespace, discordBot, sessions);
+        await new Promise<void>(resolve => httpServer.listen(0, resolve));
+        const url = `http://localhost:${(httpServer.address() as AddressInfo).port}/discord`;
+
+        for (const user of users) {
+            const { accessToken } = await sessions.createSession(user);
+            const client = Client(url, { auth: { token: accessToken }, reconnection: false });
+            await new Promise<void>(resolve => client.on('connect', () => resolve()));
+            clients[user.discord_id] = client;
+        }
+    });
+
+    beforeEach(() => {
+        lounge.members.clear();
+        staff.members.clear();
+        jest.spyOn(discordBot['client'].channels, 'fetch').mockImplementation((async (id: string) => [lounge, staff].find(channel => channel.id === id) ?? null) as never);
+    });
+
+    afterAll(() => {
+        Object.values(clients).forEach(client => client.close());
+        io.close();
+        httpServer.close();
+    });
+
+    test('should list who is in a voice channel with their voice state', async () => {
+        expect(await discordBot.getChannelInfo(LOUNGE_ID, alice.discord_id)).toMatchObject({ id: LOUNGE_ID, type: 'voice', voiceMembers: [] });
+
+        lounge.members.set(CAROL_ID, { voice: voiceState(lounge, { selfMute: true }) });
+        expect(await discordBot.getChannelInfo(LOUNGE_ID, alice.discord_id)).toMatchObject({
+            id: LOUNGE_ID,
+            voiceMembers: [participant({ selfMute: true })]
+        });
+    });
+
+    test('should send joins and leaves to everyone who can see the channel', async () => {
+        const joined = await collect(voiceState(null), voiceState(lounge));
+        const joinEvent = { channelId: LOUNGE_ID, serverId: SERVER_ID, userId: CAROL_ID, participant: participant() };
+        expect(joined).toEqual({ [alice.discord_id]: [joinEvent], [bob.discord_id]: [joinEvent] });
+
+        // Muting in place updates the participant without a leave
+        const muted = await collect(voiceState(lounge), voiceState(lounge, { selfMute: true }));
+        expect(muted[bob.discord_id]).toEqual([{ ...joinEvent, participant: participant({ selfMute: true }) }]);
+
+        const left = await collect(voiceState(lounge), voiceState(null));
+        const leaveEvent = { channelId: LOUNGE_ID, serverId: SERVER_ID, userId: CAROL_ID, participant: null };
+        expect(left).toEqual({ [alice.discord_id]: [leaveEvent], [bob.discord_id]: [leaveEvent] });
+    });
+
+    test('should split a move into a leave and a join, each sent only to its own viewers', async () => {
+        const moved = await collect(voiceState(lounge), voiceState(staff));
+
+        expect(moved[alice.discord_id]).toEqual([
+            { channelId: LOUNGE_ID, serverId: SERVER_ID, userId: CAROL_ID, participant: null },
+            { channelId: STAFF_ID, serverId: SERVER_ID, userId: CAROL_ID, participant: participant() }
+        ]);
+        // Bob cannot see the staff channel, so they only learn that Carol left the lounge
+        expect(moved[bob.discord_id]).toEqual([{ channelId: LOUNGE_ID, serverId: SERVER_ID, userId: CAROL_ID, participant: null }]);
+    });
+});
@@ -0,0 +1,275 @@
+import { createServer } from 'http';
+import type { AddressInfo } from 'net';
+import { ChannelType, Message } from 'discord.js';
+import { Server } from 'socket.io';
+import Client, { Socket as ClientSocket } from 'socket.io-client';
+import { setupDiscordNamespace } from '../src/namespaces/discordNamespace';
+import { OperationalError } from '../src/middleware/errorHandler';
+import { DiscordBot } from '../src/services/discordBot.service';
+import { InMemorySessionStore, SessionService } from '../src/services/session.service';
+import { InMemoryMessageRepository, toDatabaseMessage } from '../src/utils/database';
+import { matchWatchRule } from '../src/utils/messageFilter';
+import {
+    AddWatchResponse,
+    ClientToServerEvents,
+    DiscordMessage,
+    DiscordNotification,
+    DiscordSocketData,
+    GetInboxResponse,
+    InboxEvent,
+    InterServerEvents,
+    ListWatchesResponse,
+    MarkNotificationsReadResponse,
+    RemoveWatchResponse,
+    ServerToClientEvents,
+    SocketErrorAck
+} from '../src/types';
+
+const TEST_USER = {
+    discord_id: '200000000000000001',
+    username: 'alice',
+    email: 'alice@example.com',
+    is_bot: false,
+    created_at: '',
+    updated_at: ''
+};
+
+const SERVER_ID = '400000000000000001';
+const CHANNEL_ID = '300000000000000001';
+const HIDDEN_CHANNEL_ID = '300000000000000002';
+const ROLE_ID = '500000000000000001';
+const BOB = { id: '200000000000000002', username: 'bob', bot: false };
+
+const makeMessage = (id: string, content: string, overrides: Partial<DiscordMessage> = {}): DiscordMessage => ({
+    id,
+    type: 'default',
+    system: false,
+    content,
+    author: BOB,
+    timestamp: '2024-01-01T12:00:00.000Z',
+    channelId: CHANNEL_ID,
+    serverId: SERVER_ID,
+    attachments: [],
+    embeds: [],
+    reactions: [],
+    tokens: [{ type: 'text', text: content }],
+    stickers: [],
+    components: [],
+    edited: false,
+    ...overrides
+});
+
+describe('Watch rules', () => {
+    const watcher = { id: TEST_USER.discord_id, roleIds: [ROLE_ID] };
+
+    test('should report every trigger that fired', () => {
+        const message = makeMessage('1', 'Deploy failed, <@&500000000000000001> please look', {
+            tokens: [
+                { type: 'text', text: 'Deploy failed, ' },
+                { type: 'role_mention', id: ROLE_ID, name: 'oncall' },
+                { type: 'text', text: ' please look' }
+            ]
+        });
+
+        expect(matchWatchRule(message, { keywords: ['DEPLOY'], pattern: 'fail(ed)?', mentions: true }, watcher))
+            .toEqual(['keyword', 'pattern', 'role_mention']);
+        expect(matchWatchRule(message, { mentions: true }, { id: TEST_USER.discord_id, roleIds: [] })).toEqual([]);
+        expect(matchWatchRule(message, { keywords: ['rollback'], replies: true }, watcher)).toEqual([]);
+    });
+
+    test('should match mentions, @everyone and replies only when asked for', () => {
+        const mention = makeMessage('1', 'hi', { tokens: [{ type: 'italic', children: [{ type: 'user_mention', id: TEST_USER.discord_id, name: 'alice' }] }] });
+        const everyone = makeMessage('2', '@everyone', { tokens: [{ type: 'everyone_mention', target: 'everyone' }] });
+        const reply = makeMessage('3', 'sure', {
+            replyTo: { messageId: '100000000000000001', channelId: CHANNEL_ID, author: { id: TEST_USER.discord_id, username: 'alice', bot: false } }
+        });
+
+        expect(matchWatchRule(mention, { mentions: true }, watcher)).toEqual(['mention']);
+        expect(matchWatchRule(everyone, { mentions: true }, watcher)).toEqual(['everyone']);
+        expect(matchWatchRule(reply, { mentions: true }, watcher)).toEqual([]);
+        expect(matchWatchRule(reply, { replies: true }, watcher)).toEqual(['reply']);
+    });
+
+    test('should only fire in the rule\'s server and channels', () => {
+        const message = makeMessage('1', 'deploy');
+
+        expect(matchWatchRule(message, { keywords: ['deploy'], serverId: SERVER_ID, channelIds: [CHANNEL_ID] }, watcher)).toEqual(['keyword']);
+        expect(matchWatchRule(message, { keywords: ['deploy'], serverId: '400000000000000002' }, watcher)).toEqual([]);
+        expect(matchWatchRule(message, { keywords: ['deploy'], channelIds: [HIDDEN_CHANNEL_ID] }, watcher)).toEqual([]);
+    });
+
+    test('should match saved patterns in linear time and skip ones that no longer compile', () => {
+        const started = Date.now();
+
+        // Rules saved before the pattern check was tightened still come back from disk
+        expect(matchWatchRule(makeMessage('1', `${'a'.repeat(5000)}c`), { pattern: '(a|a)*b' }, watcher)).toEqual([]);
+        expect(matchWatchRule(makeMessage('2', 'deploy now'), { pattern: 'deploy(?= now)' }, watcher)).toEqual([]);
+        expect(Date.now() - started).toBeLessThan(1000);
+    });
+});
+
+describe('Notification inbox', () => {
+    const httpServer = createServer();
+    const io = new Server<ClientToServerEvents, ServerToClientEvents, InterServerEvents, DiscordSocketData>(httpServer);
+    const discordNamespace = io.of('/discord');
+    const repository = new InMemoryMessageRepository();
+    const discordBot = new DiscordBot(discordNamespace, repository);
+    const sessions = new SessionService(new InMemorySessionStore());
+    let client: ClientSocket;
+
+    const emit = <T>(event: string, ...args: unknown[]) => new Promise<T>(resolve => client.emit(event, ...args, resolve));
+
+    // Just enough of a discord.js message for the watch check; `hidden` members lack View Channel
+    const gatewayMessage = (message: DiscordMessage, options: { roleIds?: string[], hidden?: string[] } = {}) => ({
+        id: message.id,
+        channelId: message.channelId,
+        guildId: message.serverId,
+        author: { id: message.author.id },
+        mentions: { roles: new Map((options.roleIds ?? []).map(id => [id, {}])) },
+        channel: {
+            type: ChannelType.GuildText,
+            permissionsFor: (member: { id: string }) => ({ has: () => !(options.hidden ?? []).includes(member.id) })
+        },
+        guild: {
+            members: {
+                fetch: async (id: string) => ({ id, roles: { cache: new Map([[ROLE_ID, {}]]) } })
+            }
+        }
+    }) as unknown as Message<true>;
+
+    const receive = async (message: DiscordMessage, options: { roleIds?: string[], hidden?: string[] } = {}) => {
+        await repository.saveMessage(toDatabaseMessage(message));
+        await discordBot['notifyWatchers'](gatewayMessage(message, options), message);
+    };
+
+    beforeAll(async () => {
+        process.env['JWT_SECRET'] = process.env['JWT_SECRET'] || 'test-secret';
+        setupDiscordNamespace(discordNamespace, discordBot, sessions);
+        await new Promise<void>(resolve => httpServer.listen(0, resolve));
+
+        const { accessToken } = await sessions.createSession(TEST_USER);
+        client = Client(`http://localhost:${(httpServer.address() as AddressInfo).port}/discord`, {
+            auth: { token: accessToken },
+            reconnection: false
+        });
+
+        // The inbox count arrives with the initial data, once the socket is in its user room
+        const inbox = new Promise<InboxEvent>(resolve => client.once('inbox_update', resolve));
+        await new Promise<void>(resolve => client.on('connect', () => resolve()));
+        expect(await inbox).toEqual({ unreadCount: 0 });
+    });
+
+    beforeEach(() => {
+        jest.spyOn(discordBot, 'authorizeChannelAccess').mockImplementation(async (channelId) => {
+            if (channelId === HIDDEN_CHANNEL_ID) {
+                throw new OperationalError('MISSING_PERMISSION', 'You do not have access to this channel', { statusCode: 403 });
+            }
+        });
+    });
+
+    afterAll(() => {
+        client.close();
+        io.close();
+        httpServer.close();
+    });
+
+    test('should manage a user\'s watch rules', async () => {
+        expect(await emit<SocketErrorAck>('add_watch', { serverId: SERVER_ID })).toEqual({
+            success: false,
+            code: 'INVALID_PAYLOAD',
+            error: 'A watch rule needs keywords, a pattern, mentions or replies'
+        });
+
+        const added = await emit<AddWatchResponse>('add_watch', { keywords: ['deploy'], serverId: SERVER_ID });
+        if (!added.success) throw new Error(added.error);
+        expect(added.rule).toEqual({ id: expect.any(String), keywords: ['deploy'], serverId: SERVER_ID, createdAt: expect.any(String) });
+
+        const listed = await emit<ListWatchesResponse>('list_watches');
+        expect(listed).toEqual({ success: true, rules: [added.rule] });
+
+        expect(await emit<AddWatchResponse>('add_watch', { pattern: '(\\w)\\1' })).toMatchObject({
+            success: false,
+            code: 'INVALID_PAYLOAD',
+            issues: [{ path: 'pattern', message: 'Invalid regular expression' }]
+        });
+        expect(await emit<ListWatchesResponse>('list_watches')).toEqual({ success: true, rules: [added.rule] });
+
+        expect(await emit<RemoveWatchResponse>('remove_watch', { ruleId: added.rule.id })).toEqual({ success: true, ruleId: added.rule.id });
+        expect(await emit<RemoveWatchResponse>('remove_watch', { ruleId: added.rule.id })).toEqual({
+            success: false,
+            code: 'WATCH_NOT_FOUND',
+            error: 'Watch rule not found'
+        });
+    });
+
+    test('should file matching messages the user can view and notify their sockets', async () => {
+        const keywords = await emit<AddWatchResponse>('add_watch', { keywords: ['outage'] });
+        const mentions = await emit<AddWatchResponse>('add_watch', { mentions: true, replies: true });
+        if (!keywords.success || !mentions.success) throw new Error('Failed to add watch rules');
+
+        const notified: Array<{ notification: DiscordNotification } & InboxEvent> = [];
+        client.on('notification', (data) => notified.push(data));
+
+        await receive(makeMessage('100000000000000001', 'Outage in eu-west, <@&500000000000000001>', {
+            tokens: [{ type: 'text', text: 'Outage in eu-west, ' }, { type: 'role_mention', id: ROLE_ID, name: 'oncall' }]
+        }), { roleIds: [ROLE_ID] });
+        // Not the user's role, a channel they cannot view, and their own message
+        await receive(makeMessage('100000000000000002', 'ping <@&500000000000000009>', {
+            tokens: [{ type: 'role_mention', id: '500000000000000009', name: 'ops' }]
+        }), { roleIds: ['500000000000000009'] });
+        await receive(makeMessage('100000000000000003', 'outage over'), { hidden: [TEST_USER.discord_id] });
+        await receive(makeMessage('100000000000000004', 'outage report', { author: { id: TEST_USER.discord_id, username: 'alice', bot: false } }));
+        await new Promise(resolve => setTimeout(resolve, 100));
+
+        expect(notified).toHaveLength(1);
+        expect(notified[0]).toMatchObject({
+            unreadCount: 1,
+            notification: {
+                id: '100000000000000001',
+                channelId: CHANNEL_ID,
+                serverId: SERVER_ID,
+                ruleIds: [keywords.rule.id, mentions.rule.id],
+                reasons: ['keyword', 'role_mention'],
+                read: false,
+                message: { id: '100000000000000001', content: 'Outage in eu-west, <@&500000000000000001>' }
+            }
+        });
+        client.off('notification');
+    });
+
+    test('should page the inbox, leave out channels the user lost and sync read state', async () => {
+        // Filed while the user could still see the channel
+        await repository.saveMessage(toDatabaseMessage(makeMessage('100000000000000005', 'outage', { channelId: HIDDEN_CHANNEL_ID })));
+        await repository.saveNotification({
+            user_discord_id: TEST_USER.discord_id,
+            message_id: '100000000000000005',
+            channel_id: HIDDEN_CHANNEL_ID,
+            server_id: SERVER_ID,
+            rule_ids: '[]',
+            reasons: '["keyword"]',
+            created_at: new Date()
+        });
+        await receive(makeMessage('100000000000000006', 'another outage'));
+
+        const inbox = await emit<GetInboxResponse>('get_inbox', { limit: 5 });
+        if (!inbox.success) throw new Error(inbox.error);
+        expect(inbox.notifications.map(notification => notification.id)).toEqual(['100000000000000006', '100000000000000001']);
+        expect(inbox.unreadCount).toBe(2);
+        expect(inbox.hasMore).toBe(false);
+
+        const synced = new Promise<InboxEvent>(resolve => client.once('inbox_update', resolve));
+        expect(await emit<MarkNotificationsReadResponse>('mark_notifications_read', { notificationIds: ['100000000000000006'] }))
+            .toEqual({ success: true, unreadCount: 1 });
+        expect(await synced).toEqual({ unreadCount: 1 });
+
+        const unread = await emit<GetInboxResponse>('get_inbox', { unreadOnly: true });
+        expect(unread).toMatchObject({ success: true, unreadCount: 1, notifications: [{ id: '100000000000000001', read: false }] });
+
+        // Deleted messages leave the inbox
+        const deleted = new Promise<{ notificationId: string } & InboxEvent>(resolve => client.once('notification_delete', resolve));
+        await discordBot['handleMessageDelete']({ id: '100000000000000001', channel: { id: CHANNEL_ID } } as unknown as Message);
+        expect(await deleted).toEqual({ notificationId: '100000000000000001', unreadCount: 0 });
+
+        expect(await emit<MarkNotificationsReadResponse>('mark_notifications_read', {})).toEqual({ success: true, unreadCount: 0 });
+    });
+});